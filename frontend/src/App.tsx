@@ -19,6 +19,11 @@ import Login from './pages/Login';
 import Dashboard from './pages/Dashboard';
 import AINoteChecker from './pages/AINoteChecker';
 import NoteDetail from './pages/NoteDetail';
+import Analytics from './pages/Analytics';
+import Kiosk from './pages/Kiosk';
+import Sessions from './pages/Sessions';
+import AuditLog from './pages/AuditLog';
+import PromptTemplates from './pages/PromptTemplates';
 import { PrivateRoute } from './components/PrivateRoute';
 
 const theme = createTheme({
@@ -64,6 +69,7 @@ function App() {
           <Router>
             <Routes>
               <Route path="/login" element={<Login />} />
+              <Route path="/kiosk" element={<Kiosk />} />
               <Route
                 path="/dashboard"
                 element={
@@ -73,9 +79,41 @@ function App() {
                 }
               />
               <Route
-                path="/ai-note-checker"
+                path="/analytics"
+                element={
+                  <PrivateRoute permission="analytics:view">
+                    <Analytics />
+                  </PrivateRoute>
+                }
+              />
+              <Route
+                path="/sessions"
                 element={
                   <PrivateRoute>
+                    <Sessions />
+                  </PrivateRoute>
+                }
+              />
+              <Route
+                path="/audit"
+                element={
+                  <PrivateRoute permission="audit:view">
+                    <AuditLog />
+                  </PrivateRoute>
+                }
+              />
+              <Route
+                path="/admin/prompts"
+                element={
+                  <PrivateRoute permission="admin:manage">
+                    <PromptTemplates />
+                  </PrivateRoute>
+                }
+              />
+              <Route
+                path="/ai-note-checker"
+                element={
+                  <PrivateRoute permission="notes:view">
                     <AINoteChecker />
                   </PrivateRoute>
                 }
@@ -83,7 +121,7 @@ function App() {
               <Route
                 path="/ai-note-checker/:encounterId"
                 element={
-                  <PrivateRoute>
+                  <PrivateRoute permission="notes:view">
                     <NoteDetail />
                   </PrivateRoute>
                 }
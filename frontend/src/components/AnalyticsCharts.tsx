@@ -0,0 +1,135 @@
+import React from 'react';
+import { Box, Tooltip, Typography } from '@mui/material';
+
+export interface BarSegment {
+  value: number;
+  color: string;
+  label: string;
+}
+
+export interface BarListItem {
+  key: string;
+  label: string;
+  segments: BarSegment[];
+  valueLabel: string;
+}
+
+interface BarListProps {
+  items: BarListItem[];
+  emptyMessage?: string;
+}
+
+/**
+ * Horizontal bars, one row per item. Segments in a row are stacked and all rows share a scale.
+ */
+export const BarList: React.FC<BarListProps> = ({ items, emptyMessage = 'No data for this period' }) => {
+  const max = Math.max(0, ...items.map(item => item.segments.reduce((total, segment) => total + segment.value, 0)));
+
+  if (items.length === 0 || max === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary" sx={{ py: 2, textAlign: 'center' }}>
+        {emptyMessage}
+      </Typography>
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.25 }}>
+      {items.map(item => (
+        <Box key={item.key} sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+          <Typography variant="body2" noWrap sx={{ width: 160, flexShrink: 0, color: '#334155' }} title={item.label}>
+            {item.label}
+          </Typography>
+          <Box sx={{ flex: 1, display: 'flex', height: 18, backgroundColor: '#f1f5f9', borderRadius: 1, overflow: 'hidden' }}>
+            {item.segments.map(segment => (
+              <Tooltip key={segment.label} title={segment.label}>
+                <Box sx={{ width: `${(segment.value / max) * 100}%`, backgroundColor: segment.color }} />
+              </Tooltip>
+            ))}
+          </Box>
+          <Typography variant="body2" sx={{ width: 90, flexShrink: 0, textAlign: 'right', fontWeight: 600, color: '#0f172a' }}>
+            {item.valueLabel}
+          </Typography>
+        </Box>
+      ))}
+    </Box>
+  );
+};
+
+export interface HourlySeries {
+  label: string;
+  color: string;
+  values: number[]; // Indexed by hour, 0-23
+}
+
+interface HourlyChartProps {
+  series: HourlySeries[];
+  unit: string;
+  height?: number;
+}
+
+const formatHour = (hour: number): string => {
+  const suffix = hour < 12 ? 'a' : 'p';
+  return `${hour % 12 === 0 ? 12 : hour % 12}${suffix}`;
+};
+
+/**
+ * Columns per hour of the day, side by side per series. Only the hours that have data
+ * (first to last) are drawn.
+ */
+export const HourlyChart: React.FC<HourlyChartProps> = ({ series, unit, height = 160 }) => {
+  const activeHours = Array.from({ length: 24 }, (_, hour) => hour)
+    .filter(hour => series.some(s => (s.values[hour] || 0) > 0));
+  const max = Math.max(0, ...series.flatMap(s => s.values));
+
+  if (activeHours.length === 0 || max === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary" sx={{ py: 2, textAlign: 'center' }}>
+        No data for this period
+      </Typography>
+    );
+  }
+
+  const firstHour = activeHours[0];
+  const lastHour = activeHours[activeHours.length - 1];
+  const hours = Array.from({ length: lastHour - firstHour + 1 }, (_, index) => firstHour + index);
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'flex-end', gap: 1, height, borderBottom: '1px solid #e2e8f0' }}>
+        {hours.map(hour => (
+          <Box key={hour} sx={{ flex: 1, display: 'flex', alignItems: 'flex-end', gap: '2px', height: '100%' }}>
+            {series.map(s => (
+              <Tooltip key={s.label} title={`${formatHour(hour)}: ${s.values[hour] || 0} ${unit} (${s.label})`}>
+                <Box sx={{
+                  flex: 1,
+                  height: `${((s.values[hour] || 0) / max) * 100}%`,
+                  backgroundColor: s.color,
+                  borderRadius: '3px 3px 0 0',
+                  minHeight: (s.values[hour] || 0) > 0 ? 2 : 0
+                }} />
+              </Tooltip>
+            ))}
+          </Box>
+        ))}
+      </Box>
+      <Box sx={{ display: 'flex', gap: 1, mt: 0.5 }}>
+        {hours.map(hour => (
+          <Typography key={hour} variant="caption" sx={{ flex: 1, textAlign: 'center', color: '#64748b' }}>
+            {formatHour(hour)}
+          </Typography>
+        ))}
+      </Box>
+      {series.length > 1 && (
+        <Box sx={{ display: 'flex', gap: 2, mt: 1 }}>
+          {series.map(s => (
+            <Box key={s.label} sx={{ display: 'flex', alignItems: 'center', gap: 0.75 }}>
+              <Box sx={{ width: 10, height: 10, borderRadius: '2px', backgroundColor: s.color }} />
+              <Typography variant="caption" sx={{ color: '#475569' }}>{s.label}</Typography>
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+};
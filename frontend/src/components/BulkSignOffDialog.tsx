@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Typography,
+  Alert,
+  CircularProgress,
+  Button,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText
+} from '@mui/material';
+import {
+  DoneAll,
+  CheckCircle,
+  Error as ErrorIcon,
+  SkipNext,
+  Description
+} from '@mui/icons-material';
+import MobileDialog, { MobileDialogContent, MobileDialogActions } from './MobileDialog';
+import useResponsive from '../hooks/useResponsive';
+import aiNoteCheckerService, { BulkSignOffResponse, BulkSignOffResult } from '../services/aiNoteChecker.service';
+
+interface BulkSignOffNote {
+  encounterId: string;
+  patientId: string;
+  patientName: string;
+  dateOfService: string;
+}
+
+interface BulkSignOffDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onComplete: () => void;
+  notes: BulkSignOffNote[];
+}
+
+const OUTCOME_ICONS: Record<BulkSignOffResult['outcome'], React.ReactNode> = {
+  signed_off: <CheckCircle sx={{ color: '#10b981' }} />,
+  skipped: <SkipNext sx={{ color: '#f59e0b' }} />,
+  failed: <ErrorIcon sx={{ color: '#ef4444' }} />
+};
+
+const BulkSignOffDialog: React.FC<BulkSignOffDialogProps> = ({
+  open,
+  onClose,
+  onComplete,
+  notes
+}) => {
+  const { isMobile } = useResponsive();
+  const [signingOff, setSigningOff] = useState(false);
+  const [result, setResult] = useState<BulkSignOffResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start over each time the dialog is opened
+  useEffect(() => {
+    if (open) {
+      setResult(null);
+      setError(null);
+    }
+  }, [open]);
+
+  const handleConfirm = async () => {
+    setSigningOff(true);
+    setError(null);
+    try {
+      const response = await aiNoteCheckerService.bulkSignOff(
+        notes.map(note => ({ encounterId: note.encounterId, patientId: note.patientId }))
+      );
+      setResult(response);
+      console.log(`✅ Bulk sign-off: ${response.signedOff} signed off, ${response.skipped} skipped, ${response.failed} failed`);
+      onComplete();
+    } catch (err: any) {
+      console.error('Error bulk signing off notes:', err);
+      setError(err.message || 'Failed to sign off notes');
+    } finally {
+      setSigningOff(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!signingOff) {
+      onClose();
+    }
+  };
+
+  const resultFor = (encounterId: string) => result?.results.find(item => item.encounterId === encounterId);
+
+  return (
+    <MobileDialog
+      open={open}
+      onClose={handleClose}
+      title="Sign Off Clean Notes"
+      subtitle={`${notes.length} note${notes.length === 1 ? '' : 's'}`}
+      icon={<DoneAll sx={{ color: '#10b981' }} />}
+      showCloseButton={!signingOff}
+      mobileFullScreen={false}
+      desktopMaxWidth="sm"
+    >
+      <MobileDialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {result ? (
+          <Alert severity={result.failed > 0 ? 'error' : result.skipped > 0 ? 'warning' : 'success'} sx={{ mb: 2 }}>
+            {result.signedOff} signed off
+            {result.skipped > 0 && `, ${result.skipped} skipped`}
+            {result.failed > 0 && `, ${result.failed} failed`}
+          </Alert>
+        ) : (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2, fontSize: isMobile ? '0.9rem' : '1rem' }}>
+            These notes will be signed off one after another. Each one is checked again first: notes you
+            aren't the attending provider on, with open issues, or changed since their AI check are skipped.
+          </Typography>
+        )}
+
+        <List dense disablePadding sx={{ maxHeight: 360, overflow: 'auto' }}>
+          {notes.map(note => {
+            const noteResult = resultFor(note.encounterId);
+            return (
+              <ListItem key={note.encounterId} disableGutters>
+                <ListItemIcon sx={{ minWidth: 36 }}>
+                  {noteResult ? OUTCOME_ICONS[noteResult.outcome] : <Description sx={{ color: '#64748b' }} />}
+                </ListItemIcon>
+                <ListItemText
+                  primary={note.patientName}
+                  secondary={noteResult?.reason || aiNoteCheckerService.formatTimeAgo(note.dateOfService)}
+                  slotProps={{ secondary: { sx: { color: noteResult?.outcome === 'failed' ? 'error.main' : undefined } } }}
+                />
+              </ListItem>
+            );
+          })}
+        </List>
+      </MobileDialogContent>
+
+      <MobileDialogActions orientation={isMobile ? 'vertical' : 'horizontal'}>
+        <Button onClick={handleClose} disabled={signingOff} sx={{ color: '#64748b' }}>
+          {result ? 'Close' : 'Cancel'}
+        </Button>
+        {!result && (
+          <Button
+            variant="contained"
+            onClick={handleConfirm}
+            disabled={signingOff || notes.length === 0}
+            startIcon={signingOff ? <CircularProgress size={16} color="inherit" /> : <DoneAll />}
+            sx={{ backgroundColor: '#10b981', '&:hover': { backgroundColor: '#059669' } }}
+          >
+            {signingOff ? 'Signing Off...' : `Sign Off ${notes.length} Note${notes.length === 1 ? '' : 's'}`}
+          </Button>
+        )}
+      </MobileDialogActions>
+    </MobileDialog>
+  );
+};
+
+export default BulkSignOffDialog;
@@ -0,0 +1,269 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Typography,
+  Box,
+  Alert,
+  CircularProgress,
+  Button,
+  Chip,
+  List,
+  ListItemButton,
+  ListItemText,
+  Paper
+} from '@mui/material';
+import {
+  History,
+  Restore
+} from '@mui/icons-material';
+import MobileDialog, { MobileDialogContent, MobileDialogActions } from './MobileDialog';
+import useResponsive from '../hooks/useResponsive';
+import aiNoteCheckerService, { HpiVersion } from '../services/aiNoteChecker.service';
+
+interface HpiHistoryDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onReverted: () => void;
+  encounterId: string;
+  patientId: string;
+  noteContentMd5?: string;
+  canRevert?: boolean;
+}
+
+interface DiffPart {
+  text: string;
+  type: 'same' | 'added' | 'removed';
+}
+
+const SOURCE_LABELS: Record<HpiVersion['source'], string> = {
+  ezderm: 'From EZDerm',
+  edit: 'Edited',
+  revert: 'Restored'
+};
+
+const formatTime = (timestamp: string): string => {
+  return new Date(timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+};
+
+// Word-level diff of two texts (longest common subsequence over words and the whitespace between them)
+const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+
+  // lcs[i][j] = length of the common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (text: string, type: DiffPart['type']) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ text, type });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], 'same');
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push(a[i++], 'removed');
+    } else {
+      push(b[j++], 'added');
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+
+  return parts;
+};
+
+const HpiHistoryDialog: React.FC<HpiHistoryDialogProps> = ({
+  open,
+  onClose,
+  onReverted,
+  encounterId,
+  patientId,
+  noteContentMd5,
+  canRevert = false
+}) => {
+  const { isMobile } = useResponsive();
+  const [versions, setVersions] = useState<HpiVersion[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [reverting, setReverting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await aiNoteCheckerService.getHPIVersions(encounterId);
+      setVersions(result);
+      setSelectedVersion(result.length > 0 ? result[0].versionNumber : null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [encounterId]);
+
+  useEffect(() => {
+    if (open) {
+      loadVersions();
+    }
+  }, [open, loadVersions]);
+
+  const selectedIndex = versions.findIndex(version => version.versionNumber === selectedVersion);
+  const selected = selectedIndex >= 0 ? versions[selectedIndex] : null;
+  // Versions are newest first, so the one before the selection is the next entry
+  const previous = selectedIndex >= 0 ? versions[selectedIndex + 1] : undefined;
+  const isLatest = selectedIndex === 0;
+
+  const handleRevert = async () => {
+    if (!selected) return;
+
+    if (!noteContentMd5) {
+      setError('The note has not finished loading. Try restoring again in a moment.');
+      return;
+    }
+
+    setReverting(true);
+    setError(null);
+    try {
+      await aiNoteCheckerService.revertHPI(encounterId, selected.versionNumber, patientId, noteContentMd5);
+      console.log(`✅ HPI restored to version ${selected.versionNumber}`);
+      onReverted();
+      onClose();
+    } catch (err: any) {
+      console.error('Error reverting HPI:', err);
+      setError(err.message || 'Failed to restore HPI version');
+    } finally {
+      setReverting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!reverting) {
+      onClose();
+    }
+  };
+
+  return (
+    <MobileDialog
+      open={open}
+      onClose={handleClose}
+      title="HPI History"
+      subtitle={versions.length > 0 ? `${versions.length} version${versions.length === 1 ? '' : 's'}` : undefined}
+      icon={<History sx={{ color: '#3b82f6' }} />}
+      showCloseButton={!reverting}
+      desktopMaxWidth="md"
+    >
+      <MobileDialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress size={28} />
+          </Box>
+        ) : versions.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+            No HPI edits have been made through this app for this note yet
+          </Typography>
+        ) : (
+          <Box sx={{ display: 'flex', flexDirection: isMobile ? 'column' : 'row', gap: 2 }}>
+            {/* Version list */}
+            <Paper variant="outlined" sx={{ flexShrink: 0, width: isMobile ? '100%' : 240, maxHeight: isMobile ? 200 : 420, overflow: 'auto' }}>
+              <List dense disablePadding>
+                {versions.map(version => (
+                  <ListItemButton
+                    key={version.versionNumber}
+                    selected={version.versionNumber === selectedVersion}
+                    onClick={() => setSelectedVersion(version.versionNumber)}
+                  >
+                    <ListItemText
+                      primary={
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          <Typography variant="body2" sx={{ fontWeight: 600 }}>v{version.versionNumber}</Typography>
+                          <Chip
+                            size="small"
+                            label={SOURCE_LABELS[version.source]}
+                            color={version.source === 'ezderm' ? 'default' : version.source === 'revert' ? 'warning' : 'primary'}
+                            variant="outlined"
+                          />
+                        </Box>
+                      }
+                      secondary={`${formatTime(version.createdAt)}${version.createdBy ? ` · ${version.createdBy}` : ''}`}
+                    />
+                  </ListItemButton>
+                ))}
+              </List>
+            </Paper>
+
+            {/* Diff against the previous version */}
+            {selected && (
+              <Box sx={{ flex: 1, minWidth: 0 }}>
+                <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                  {previous ? `Changes from v${previous.versionNumber}` : 'Earliest version kept'}
+                  {selected.revertedFromVersion !== undefined && ` · restored from v${selected.revertedFromVersion}`}
+                  {isLatest && ' · current'}
+                </Typography>
+                <Paper
+                  variant="outlined"
+                  sx={{ p: 2, whiteSpace: 'pre-wrap', fontSize: '0.9rem', lineHeight: 1.6, maxHeight: 380, overflow: 'auto' }}
+                >
+                  {(previous ? diffWords(previous.noteText, selected.noteText) : [{ text: selected.noteText, type: 'same' as const }]).map((part, index) => (
+                    <Box
+                      key={index}
+                      component="span"
+                      sx={{
+                        ...(part.type === 'added' && { backgroundColor: '#dcfce7', color: '#166534' }),
+                        ...(part.type === 'removed' && { backgroundColor: '#fee2e2', color: '#991b1b', textDecoration: 'line-through' })
+                      }}
+                    >
+                      {part.text}
+                    </Box>
+                  ))}
+                  {!selected.noteText && (
+                    <Typography component="span" variant="body2" color="text.secondary">(empty)</Typography>
+                  )}
+                </Paper>
+              </Box>
+            )}
+          </Box>
+        )}
+      </MobileDialogContent>
+
+      <MobileDialogActions orientation={isMobile ? 'vertical' : 'horizontal'}>
+        <Button onClick={handleClose} disabled={reverting} sx={{ color: '#64748b' }}>
+          Close
+        </Button>
+        {canRevert && selected && !isLatest && (
+          <Button
+            variant="contained"
+            onClick={handleRevert}
+            disabled={reverting}
+            startIcon={reverting ? <CircularProgress size={16} color="inherit" /> : <Restore />}
+          >
+            {reverting ? 'Restoring...' : `Restore v${selected.versionNumber}`}
+          </Button>
+        )}
+      </MobileDialogActions>
+    </MobileDialog>
+  );
+};
+
+export default HpiHistoryDialog;
@@ -0,0 +1,262 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Typography,
+  Box,
+  Alert,
+  CircularProgress,
+  Button,
+  Chip,
+  IconButton,
+  Tooltip,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow
+} from '@mui/material';
+import {
+  Tune,
+  Pause,
+  PlayArrow,
+  DeleteSweep,
+  MonitorHeart,
+  Refresh
+} from '@mui/icons-material';
+import MobileDialog, { MobileDialogContent, MobileDialogActions } from './MobileDialog';
+import useResponsive from '../hooks/useResponsive';
+import aiNoteCheckerService, { JobControlAction, JobQueueName, WorkerState } from '../services/aiNoteChecker.service';
+
+interface JobControlDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const QUEUE_LABELS: Record<JobQueueName, string> = {
+  'vital-signs-processing': 'Vital Signs',
+  'ai-note-scan': 'AI Note Scan',
+  'ai-note-check': 'AI Note Check'
+};
+
+// Keep in step with MAX_WORKER_CONCURRENCY on the server
+const MAX_CONCURRENCY = 10;
+const POLL_INTERVAL_MS = 5000;
+
+const JobControlDialog: React.FC<JobControlDialogProps> = ({ open, onClose }) => {
+  const { isMobile } = useResponsive();
+  const [workers, setWorkers] = useState<WorkerState[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [sending, setSending] = useState<string | null>(null);
+  const [concurrency, setConcurrency] = useState<Partial<Record<JobQueueName, string>>>({});
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadWorkers = useCallback(async () => {
+    try {
+      setWorkers(await aiNoteCheckerService.getWorkerStates());
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, []);
+
+  // Load on open and keep the counts current while the dialog stays open
+  useEffect(() => {
+    if (!open) return;
+
+    setMessage(null);
+    setError(null);
+    setLoading(true);
+    loadWorkers().finally(() => setLoading(false));
+
+    const interval = setInterval(loadWorkers, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [open, loadWorkers]);
+
+  const sendCommand = async (action: JobControlAction, queue?: JobQueueName, value?: number) => {
+    setSending(`${action}:${queue || ''}`);
+    setMessage(null);
+    setError(null);
+    try {
+      const result = await aiNoteCheckerService.sendJobControl(action, queue, value);
+      setMessage(result.acks.map(ack => `${ack.workerId}: ${ack.message}`).join('\n'));
+      console.log(`✅ Job control ${action}${queue ? ` ${queue}` : ''} acknowledged by ${result.acks.length} worker(s)`);
+      await loadWorkers();
+    } catch (err: any) {
+      console.error('Error sending job control command:', err);
+      setError(err.message || 'Failed to send job control command');
+    } finally {
+      setSending(null);
+    }
+  };
+
+  const handleDrain = (queue: JobQueueName) => {
+    if (!window.confirm(`Remove every waiting job from the ${QUEUE_LABELS[queue]} queue?`)) {
+      return;
+    }
+    sendCommand('drain', queue);
+  };
+
+  const handleSetConcurrency = (queue: JobQueueName) => {
+    const value = parseInt(concurrency[queue] || '', 10);
+    if (!Number.isInteger(value) || value < 1 || value > MAX_CONCURRENCY) {
+      setError(`Concurrency must be a whole number from 1 to ${MAX_CONCURRENCY}`);
+      return;
+    }
+    sendCommand('set-concurrency', queue, value);
+  };
+
+  // Pause state and job counts are shared by every worker; concurrency is per worker
+  const queues = workers[0]?.queues || [];
+  const concurrencyFor = (queue: JobQueueName) => Array.from(new Set(
+    workers.map(worker => worker.queues.find(state => state.queue === queue)?.concurrency ?? 0)
+  )).join(', ');
+
+  return (
+    <MobileDialog
+      open={open}
+      onClose={onClose}
+      title="Job Control"
+      subtitle={workers.length > 0 ? `${workers.length} worker${workers.length === 1 ? '' : 's'} connected` : undefined}
+      icon={<Tune sx={{ color: '#3b82f6' }} />}
+      desktopMaxWidth="md"
+    >
+      <MobileDialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        {message && (
+          <Alert severity="success" sx={{ mb: 2, whiteSpace: 'pre-line' }} onClose={() => setMessage(null)}>
+            {message}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress size={28} />
+          </Box>
+        ) : workers.length === 0 ? (
+          <Alert severity="warning">
+            No worker has reported in. Check that the worker process is running.
+          </Alert>
+        ) : (
+          <>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Queue</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell align="right">Waiting</TableCell>
+                    <TableCell align="right">Active</TableCell>
+                    <TableCell align="right">Delayed</TableCell>
+                    <TableCell align="right">Failed</TableCell>
+                    <TableCell>Concurrency</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {queues.map(state => (
+                    <TableRow key={state.queue}>
+                      <TableCell sx={{ fontWeight: 600, whiteSpace: 'nowrap' }}>{QUEUE_LABELS[state.queue]}</TableCell>
+                      <TableCell>
+                        <Chip
+                          size="small"
+                          label={state.paused ? 'Paused' : 'Running'}
+                          color={state.paused ? 'warning' : 'success'}
+                          variant="outlined"
+                        />
+                      </TableCell>
+                      <TableCell align="right">{state.waiting}</TableCell>
+                      <TableCell align="right">{state.active}</TableCell>
+                      <TableCell align="right">{state.delayed}</TableCell>
+                      <TableCell align="right">{state.failed}</TableCell>
+                      <TableCell>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          <TextField
+                            size="small"
+                            type="number"
+                            placeholder={concurrencyFor(state.queue)}
+                            value={concurrency[state.queue] ?? ''}
+                            onChange={(e) => setConcurrency(prev => ({ ...prev, [state.queue]: e.target.value }))}
+                            slotProps={{ htmlInput: { min: 1, max: MAX_CONCURRENCY } }}
+                            sx={{ width: 72 }}
+                          />
+                          <Button
+                            size="small"
+                            onClick={() => handleSetConcurrency(state.queue)}
+                            disabled={!!sending || !concurrency[state.queue]}
+                          >
+                            Set
+                          </Button>
+                        </Box>
+                      </TableCell>
+                      <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                        <Tooltip title={state.paused ? 'Resume' : 'Pause'}>
+                          <span>
+                            <IconButton
+                              size="small"
+                              onClick={() => sendCommand(state.paused ? 'resume' : 'pause', state.queue)}
+                              disabled={!!sending}
+                            >
+                              {state.paused ? <PlayArrow /> : <Pause />}
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                        <Tooltip title="Drain waiting jobs">
+                          <span>
+                            <IconButton
+                              size="small"
+                              onClick={() => handleDrain(state.queue)}
+                              disabled={!!sending || state.waiting === 0}
+                              sx={{ color: '#ef4444' }}
+                            >
+                              <DeleteSweep />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+
+            <Box sx={{ mt: 2 }}>
+              {workers.map(worker => (
+                <Typography key={worker.workerId} variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                  {worker.workerId} · started {new Date(worker.startedAt).toLocaleString()} · reported {new Date(worker.reportedAt).toLocaleTimeString()}
+                </Typography>
+              ))}
+            </Box>
+          </>
+        )}
+      </MobileDialogContent>
+
+      <MobileDialogActions orientation={isMobile ? 'vertical' : 'horizontal'}>
+        <Button onClick={onClose} sx={{ color: '#64748b' }}>
+          Close
+        </Button>
+        <Button
+          onClick={loadWorkers}
+          disabled={loading || !!sending}
+          startIcon={<Refresh />}
+        >
+          Refresh
+        </Button>
+        <Button
+          variant="contained"
+          onClick={() => sendCommand('run-vital-signs')}
+          disabled={!!sending || workers.length === 0}
+          startIcon={sending === 'run-vital-signs:' ? <CircularProgress size={16} color="inherit" /> : <MonitorHeart />}
+        >
+          Run Vital Signs Now
+        </Button>
+      </MobileDialogActions>
+    </MobileDialog>
+  );
+};
+
+export default JobControlDialog;
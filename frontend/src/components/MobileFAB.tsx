@@ -12,6 +12,7 @@ import {
   Add,
   Refresh,
   PlayArrow,
+  DoneAll,
   Psychology,
   FilterList,
   Search
@@ -22,6 +23,8 @@ interface MobileFABProps {
   selectedCount?: number;
   onRefresh?: () => void;
   onBulkCheck?: () => void;
+  onBulkSignOff?: () => void;
+  signOffCount?: number;
   onQuickFilter?: () => void;
   refreshing?: boolean;
   bulkProcessing?: boolean;
@@ -31,6 +34,8 @@ const MobileFAB: React.FC<MobileFABProps> = ({
   selectedCount = 0,
   onRefresh,
   onBulkCheck,
+  onBulkSignOff,
+  signOffCount = 0,
   onQuickFilter,
   refreshing = false,
   bulkProcessing = false
@@ -62,6 +67,17 @@ const MobileFAB: React.FC<MobileFABProps> = ({
       disabled: bulkProcessing || selectedCount === 0,
       show: !!onBulkCheck && selectedCount > 0
     },
+    {
+      icon: (
+        <Badge badgeContent={signOffCount} color="success" max={99}>
+          <DoneAll />
+        </Badge>
+      ),
+      name: `Sign Off Clean (${signOffCount})`,
+      onClick: onBulkSignOff,
+      disabled: bulkProcessing || signOffCount === 0,
+      show: !!onBulkSignOff && signOffCount > 0
+    },
     {
       icon: <FilterList />,
       name: 'Quick Filter',
@@ -29,7 +29,8 @@ import {
   Assessment,
   CheckCircle,
   Warning,
-  Schedule
+  Schedule,
+  Tune
 } from '@mui/icons-material';
 import useResponsive from '../hooks/useResponsive';
 
@@ -52,6 +53,7 @@ interface MobileHeaderProps {
   onBack?: () => void;
   onRefresh?: () => void;
   onBulkForceRecheck?: () => void;
+  onJobControl?: () => void;
   onLogout?: () => void;
   showBackButton?: boolean;
   showStats?: boolean;
@@ -68,6 +70,7 @@ const MobileHeader: React.FC<MobileHeaderProps> = ({
   onBack,
   onRefresh,
   onBulkForceRecheck,
+  onJobControl,
   onLogout,
   showBackButton = false,
   showStats = true
@@ -378,6 +381,31 @@ const MobileHeader: React.FC<MobileHeaderProps> = ({
             </ListItem>
           )}
 
+          {onJobControl && (
+            <ListItem 
+              onClick={() => {
+                onJobControl();
+                handleMenuClose();
+              }}
+              sx={{ 
+                cursor: 'pointer',
+                '&:hover': { backgroundColor: '#2a2a2a' },
+                py: 1.5
+              }}
+            >
+              <ListItemIcon sx={{ minWidth: 40 }}>
+                <Tune sx={{ color: '#f8fafc' }} />
+              </ListItemIcon>
+              <ListItemText 
+                primary="Job Control"
+                primaryTypographyProps={{ 
+                  color: '#f8fafc',
+                  fontWeight: 500
+                }}
+              />
+            </ListItem>
+          )}
+
           <Divider sx={{ backgroundColor: '#2a2a2a', my: 1 }} />
 
           {onLogout && (
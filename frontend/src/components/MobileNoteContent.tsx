@@ -39,10 +39,11 @@ import {
   Edit,
   Save,
   Cancel,
+  History,
   Block
 } from '@mui/icons-material';
 import useResponsive from '../hooks/useResponsive';
-import aiNoteCheckerService from '../services/aiNoteChecker.service';
+import aiNoteCheckerService, { CheckTypeInfo } from '../services/aiNoteChecker.service';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -79,6 +80,7 @@ interface MobileNoteContentProps {
   checkHistory: any[];
   createdTodos: any[];
   invalidIssues: any[];
+  checkTypes?: CheckTypeInfo[];
   
   // State
   loading?: boolean;
@@ -92,6 +94,7 @@ interface MobileNoteContentProps {
   onSaveHPI?: () => void;
   onCancelHPIEdit?: () => void;
   onHPITextChange?: (text: string) => void;
+  onShowHPIHistory?: () => void;
   
   // Issue management
   onMarkIssueInvalid?: (checkId: number, issueIndex: number, issue: any, reason?: string) => void;
@@ -104,6 +107,7 @@ const MobileNoteContent: React.FC<MobileNoteContentProps> = ({
   checkHistory = [],
   createdTodos = [],
   invalidIssues = [],
+  checkTypes = [],
   loading = false,
   noteSignedOff = false,
   editingHPI,
@@ -112,6 +116,7 @@ const MobileNoteContent: React.FC<MobileNoteContentProps> = ({
   onEditHPI,
   onSaveHPI,
   onCancelHPIEdit,
+  onShowHPIHistory,
   onHPITextChange,
   onMarkIssueInvalid,
   onUnmarkIssueInvalid
@@ -186,7 +191,7 @@ const MobileNoteContent: React.FC<MobileNoteContentProps> = ({
   };
 
   const getStatusIcon = (result: any) => {
-    if (result.status === 'error') {
+    if (result.status === 'error' || result.status === 'parse_failed') {
       return <ErrorIcon color="error" />;
     }
     if (hasValidIssues(result)) {
@@ -354,8 +359,8 @@ const MobileNoteContent: React.FC<MobileNoteContentProps> = ({
                                   position: 'relative'
                                 }}
                               >
-                                {/* Edit button for HPI sections */}
-                                {item.elementType === 'HISTORY_OF_PRESENT_ILLNESS' && !noteSignedOff && (
+                                {/* Edit and history buttons for HPI sections */}
+                                {item.elementType === 'HISTORY_OF_PRESENT_ILLNESS' && ((!noteSignedOff && onEditHPI) || onShowHPIHistory) && (
                                   <Box sx={{ 
                                     position: 'absolute', 
                                     top: 8, 
@@ -395,19 +400,38 @@ const MobileNoteContent: React.FC<MobileNoteContentProps> = ({
                                         </IconButton>
                                       </Stack>
                                     ) : (
-                                      <IconButton
-                                        size="small"
-                                        onClick={() => onEditHPI?.(index, itemIndex, item.note)}
-                                        sx={{
-                                          backgroundColor: '#3b82f6',
-                                          color: 'white',
-                                          width: 32,
-                                          height: 32,
-                                          '&:hover': { backgroundColor: '#2563eb' }
-                                        }}
-                                      >
-                                        <Edit sx={{ fontSize: '0.9rem' }} />
-                                      </IconButton>
+                                      <Stack direction="row" spacing={0.5}>
+                                        {onShowHPIHistory && (
+                                          <IconButton
+                                            size="small"
+                                            onClick={onShowHPIHistory}
+                                            sx={{
+                                              backgroundColor: '#f1f5f9',
+                                              color: '#475569',
+                                              width: 32,
+                                              height: 32,
+                                              '&:hover': { backgroundColor: '#e2e8f0' }
+                                            }}
+                                          >
+                                            <History sx={{ fontSize: '0.9rem' }} />
+                                          </IconButton>
+                                        )}
+                                        {!noteSignedOff && onEditHPI && (
+                                          <IconButton
+                                            size="small"
+                                            onClick={() => onEditHPI(index, itemIndex, item.note)}
+                                            sx={{
+                                              backgroundColor: '#3b82f6',
+                                              color: 'white',
+                                              width: 32,
+                                              height: 32,
+                                              '&:hover': { backgroundColor: '#2563eb' }
+                                            }}
+                                          >
+                                            <Edit sx={{ fontSize: '0.9rem' }} />
+                                          </IconButton>
+                                        )}
+                                      </Stack>
                                     )}
                                   </Box>
                                 )}
@@ -435,7 +459,7 @@ const MobileNoteContent: React.FC<MobileNoteContentProps> = ({
                                       lineHeight: 1.6,
                                       whiteSpace: 'pre-wrap',
                                       fontSize: '0.85rem',
-                                      pr: item.elementType === 'HISTORY_OF_PRESENT_ILLNESS' && !noteSignedOff ? 5 : 0
+                                      pr: item.elementType === 'HISTORY_OF_PRESENT_ILLNESS' && ((!noteSignedOff && onEditHPI) || onShowHPIHistory) ? 9 : 0
                                     }}
                                   >
                                     {item.note}
@@ -598,8 +622,8 @@ const MobileNoteContent: React.FC<MobileNoteContentProps> = ({
                 <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
                   {getStatusIcon(result)}
                   <Chip
-                    label={hasValidIssues(result) ? 'Issues Found' : result.status === 'error' ? 'Error' : 'Clean'}
-                    color={hasValidIssues(result) ? 'error' : result.status === 'error' ? 'error' : 'success'}
+                    label={hasValidIssues(result) ? 'Issues Found' : result.status === 'error' ? 'Error' : result.status === 'parse_failed' ? 'Parse Failed' : 'Clean'}
+                    color={hasValidIssues(result) ? 'error' : result.status === 'error' || result.status === 'parse_failed' ? 'error' : 'success'}
                     size="small"
                   />
                   <Typography variant="caption" color="text.secondary" sx={{ ml: 'auto' }}>
@@ -611,7 +635,13 @@ const MobileNoteContent: React.FC<MobileNoteContentProps> = ({
                   by {result.checkedBy}
                 </Typography>
 
-                {result.status === 'error' && result.errorMessage && (
+                {result.checkRuns && result.checkRuns.length > 0 && (
+                  <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1, fontFamily: 'monospace' }}>
+                    {aiNoteCheckerService.formatCheckRuns(result.checkRuns)}
+                  </Typography>
+                )}
+
+                {(result.status === 'error' || result.status === 'parse_failed') && result.errorMessage && (
                   <Alert severity="error" sx={{ mt: 1, fontSize: '0.75rem' }}>
                     {result.errorMessage}
                   </Alert>
@@ -626,6 +656,7 @@ const MobileNoteContent: React.FC<MobileNoteContentProps> = ({
                     <Stack spacing={1}>
                       {result.aiAnalysis.issues.map((issue: any, issueIndex: number) => {
                         const isInvalid = isIssueMarkedInvalid(result.id!, issueIndex);
+                        const { label, checkType } = aiNoteCheckerService.describeIssue(checkTypes, issue.issue);
                         
                         return (
                           <Paper
@@ -641,8 +672,8 @@ const MobileNoteContent: React.FC<MobileNoteContentProps> = ({
                           >
                             <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
                               <Chip
-                                label={issue.issue.replace(/_/g, ' ')}
-                                color={isInvalid ? 'default' : 'warning'}
+                                label={label}
+                                color={isInvalid ? 'default' : aiNoteCheckerService.getSeverityColor(checkType?.severity)}
                                 size="small"
                                 sx={{ fontSize: '0.7rem' }}
                               />
@@ -665,31 +696,33 @@ const MobileNoteContent: React.FC<MobileNoteContentProps> = ({
                               {issue.details.correction}
                             </Typography>
 
-                            <Box sx={{ display: 'flex', gap: 0.5 }}>
-                              {!isInvalid ? (
-                                <Button
-                                  size="small"
-                                  variant="outlined"
-                                  color="error"
-                                  startIcon={<Block />}
-                                  onClick={() => onMarkIssueInvalid?.(result.id, issueIndex, issue)}
-                                  sx={{ fontSize: '0.7rem', py: 0.25 }}
-                                >
-                                  Mark Invalid
-                                </Button>
-                              ) : (
-                                <Button
-                                  size="small"
-                                  variant="outlined"
-                                  color="success"
-                                  startIcon={<CheckCircle />}
-                                  onClick={() => onUnmarkIssueInvalid?.(result.id, issueIndex)}
-                                  sx={{ fontSize: '0.7rem', py: 0.25 }}
-                                >
-                                  Mark Valid
-                                </Button>
-                              )}
-                            </Box>
+                            {onMarkIssueInvalid && (
+                              <Box sx={{ display: 'flex', gap: 0.5 }}>
+                                {!isInvalid ? (
+                                  <Button
+                                    size="small"
+                                    variant="outlined"
+                                    color="error"
+                                    startIcon={<Block />}
+                                    onClick={() => onMarkIssueInvalid?.(result.id, issueIndex, issue)}
+                                    sx={{ fontSize: '0.7rem', py: 0.25 }}
+                                  >
+                                    Mark Invalid
+                                  </Button>
+                                ) : (
+                                  <Button
+                                    size="small"
+                                    variant="outlined"
+                                    color="success"
+                                    startIcon={<CheckCircle />}
+                                    onClick={() => onUnmarkIssueInvalid?.(result.id, issueIndex)}
+                                    sx={{ fontSize: '0.7rem', py: 0.25 }}
+                                  >
+                                    Mark Valid
+                                  </Button>
+                                )}
+                              </Box>
+                            )}
                           </Paper>
                         );
                       })}
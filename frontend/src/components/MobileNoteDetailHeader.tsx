@@ -53,7 +53,7 @@ interface MobileNoteDetailHeaderProps {
   onNext: () => void;
   
   // Actions
-  onRunCheck: () => void;
+  onRunCheck?: () => void; // Omitted for users who can't run checks
   onCreateToDo?: () => void;
   onSignOff?: () => void;
   onRefresh: () => void;
@@ -339,35 +339,37 @@ const MobileNoteDetailHeader: React.FC<MobileNoteDetailHeaderProps> = ({
         {/* Quick Actions */}
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
           {/* AI Check Button */}
-          <Tooltip title={checking ? 'Analyzing...' : 'Run AI Check'}>
-            <IconButton
-              onClick={onRunCheck}
-              disabled={checking}
-              size="small"
-              sx={{
-                backgroundColor: '#3b82f6',
-                color: 'white',
-                border: '1px solid #2563eb',
-                borderRadius: 2,
-                p: 0.75,
-                minWidth: '36px',
-                minHeight: '36px',
-                '&:hover': {
-                  backgroundColor: '#2563eb',
-                },
-                '&:disabled': {
-                  backgroundColor: '#64748b',
-                  borderColor: '#475569',
-                }
-              }}
-            >
-              {checking ? (
-                <CircularProgress size={16} sx={{ color: 'white' }} />
-              ) : (
-                <Psychology sx={{ fontSize: '1rem' }} />
-              )}
-            </IconButton>
-          </Tooltip>
+          {onRunCheck && (
+            <Tooltip title={checking ? 'Analyzing...' : 'Run AI Check'}>
+              <IconButton
+                onClick={onRunCheck}
+                disabled={checking}
+                size="small"
+                sx={{
+                  backgroundColor: '#3b82f6',
+                  color: 'white',
+                  border: '1px solid #2563eb',
+                  borderRadius: 2,
+                  p: 0.75,
+                  minWidth: '36px',
+                  minHeight: '36px',
+                  '&:hover': {
+                    backgroundColor: '#2563eb',
+                  },
+                  '&:disabled': {
+                    backgroundColor: '#64748b',
+                    borderColor: '#475569',
+                  }
+                }}
+              >
+                {checking ? (
+                  <CircularProgress size={16} sx={{ color: 'white' }} />
+                ) : (
+                  <Psychology sx={{ fontSize: '1rem' }} />
+                )}
+              </IconButton>
+            </Tooltip>
+          )}
 
           {/* Create ToDo Button - only show if there are issues and no ToDo created */}
           {canCreateToDo && !todoCreated && (
@@ -26,6 +26,7 @@ import {
 } from '@mui/icons-material';
 import MobileDialog, { MobileDialogContent, MobileDialogActions } from './MobileDialog';
 import useResponsive from '../hooks/useResponsive';
+import aiNoteCheckerService, { CheckTypeInfo } from '../services/aiNoteChecker.service';
 
 interface ToDoPreviewData {
   patientName: string;
@@ -50,6 +51,7 @@ interface MobileToDoDialogProps {
   onCreateToDo: () => void;
   onRetry: () => void;
   loading?: boolean;
+  checkTypes?: CheckTypeInfo[];
 }
 
 const MobileToDoDialog: React.FC<MobileToDoDialogProps> = ({
@@ -61,7 +63,8 @@ const MobileToDoDialog: React.FC<MobileToDoDialogProps> = ({
   previewData,
   onCreateToDo,
   onRetry,
-  loading = false
+  loading = false,
+  checkTypes = []
 }) => {
   const { isMobile } = useResponsive();
 
@@ -193,7 +196,7 @@ const MobileToDoDialog: React.FC<MobileToDoDialogProps> = ({
                     primary={
                       <Box sx={{ mb: 1 }}>
                         <Chip
-                          label={issue.issue.replace(/_/g, ' ')}
+                          label={aiNoteCheckerService.describeIssue(checkTypes, issue.issue).label}
                           color="warning"
                           size="small"
                           sx={{ 
@@ -103,6 +103,15 @@ const NoteCard: React.FC<NoteCardProps> = ({
       };
     }
 
+    if (note.lastCheckStatus === 'parse_failed') {
+      return {
+        icon: <ErrorIcon sx={{ color: '#ef4444' }} />,
+        label: 'Parse Failed',
+        color: '#ef4444',
+        bgColor: '#fef2f2'
+      };
+    }
+
     if (note.issuesFound) {
       return {
         icon: <Warning sx={{ color: '#f59e0b' }} />,
@@ -252,30 +261,32 @@ const NoteCard: React.FC<NoteCardProps> = ({
 
           {/* Actions */}
           <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 1 }}>
-            <Tooltip title="Run AI Check">
-              <IconButton
-                size="small"
-                onClick={(e) => {
-                  e.stopPropagation();
-                  onCheck?.(note);
-                }}
-                disabled={isChecking}
-                sx={{
-                  backgroundColor: '#3b82f6',
-                  color: 'white',
-                  width: 36,
-                  height: 36,
-                  '&:hover': {
-                    backgroundColor: '#2563eb'
-                  },
-                  '&:disabled': {
-                    backgroundColor: '#94a3b8'
-                  }
-                }}
-              >
-                <Psychology sx={{ fontSize: '1.1rem' }} />
-              </IconButton>
-            </Tooltip>
+            {onCheck && (
+              <Tooltip title="Run AI Check">
+                <IconButton
+                  size="small"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onCheck?.(note);
+                  }}
+                  disabled={isChecking}
+                  sx={{
+                    backgroundColor: '#3b82f6',
+                    color: 'white',
+                    width: 36,
+                    height: 36,
+                    '&:hover': {
+                      backgroundColor: '#2563eb'
+                    },
+                    '&:disabled': {
+                      backgroundColor: '#94a3b8'
+                    }
+                  }}
+                >
+                  <Psychology sx={{ fontSize: '1.1rem' }} />
+                </IconButton>
+              </Tooltip>
+            )}
 
             {onToggleExpand && (
               <IconButton
@@ -42,7 +42,7 @@ interface NoteCardListProps {
   checkingNotes: Set<string>;
   onSelectNote: (encounterId: string, checked: boolean) => void;
   onSelectAll: (checked: boolean) => void;
-  onCheckNote: (note: IncompleteNote) => void;
+  onCheckNote?: (note: IncompleteNote) => void; // Omitted for users who can't run checks
   onViewNote: (note: IncompleteNote) => void;
   bulkProcessing?: boolean;
   currentFilter?: string;
@@ -91,7 +91,7 @@ const NoteCardList: React.FC<NoteCardListProps> = ({
   const handleQuickAction = (note: IncompleteNote, action: 'check' | 'select' | 'todo') => {
     switch (action) {
       case 'check':
-        onCheckNote(note);
+        onCheckNote?.(note);
         break;
       case 'select':
         onSelectNote(note.encounterId, !selectedNotes.has(note.encounterId));
@@ -127,7 +127,7 @@ const NoteCardList: React.FC<NoteCardListProps> = ({
           fontSize: '0.9rem'
         }}>
           {currentFilter === 'all' 
-            ? 'All notes have been completed, signed, or are less than 2 hours old'
+            ? 'All notes have been completed, signed, or are too recent to check yet'
             : `No ${
                 currentFilter === 'clean' ? 'clean' :
                 currentFilter === 'issues' ? 'notes with issues' :
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Switch,
+  FormControlLabel,
+  Select,
+  MenuItem,
+  Slider,
+  Checkbox,
+  ListItemText,
+  Alert,
+  Divider
+} from '@mui/material';
+import { VolumeUp } from '@mui/icons-material';
+import notificationsService, { ChimeSound, NotificationSettings } from '../services/notifications.service';
+
+interface NotificationSettingsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  settings: NotificationSettings;
+  isMuted: boolean;
+  providers: { id: string; name: string }[];
+  onChange: (changes: Partial<NotificationSettings>) => void;
+  onMute: (minutes: number | null) => void;
+  onUnmute: () => void;
+}
+
+const MUTE_OPTIONS: { label: string; minutes: number | null }[] = [
+  { label: '15 min', minutes: 15 },
+  { label: '1 hour', minutes: 60 },
+  { label: 'Until turned back on', minutes: null }
+];
+
+const NotificationSettingsDialog: React.FC<NotificationSettingsDialogProps> = ({
+  open,
+  onClose,
+  settings,
+  isMuted,
+  providers,
+  onChange,
+  onMute,
+  onUnmute
+}) => {
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    notificationsService.isDesktopSupported() ? Notification.permission : 'unsupported'
+  );
+
+  const handleEnable = async (enabled: boolean) => {
+    onChange({ enabled });
+    // Browsers only allow the permission prompt from a user action like this one
+    if (enabled && settings.desktop && permission === 'default') {
+      setPermission(await notificationsService.requestDesktopPermission());
+    }
+  };
+
+  const handleDesktop = async (desktop: boolean) => {
+    onChange({ desktop });
+    if (desktop && permission === 'default') {
+      setPermission(await notificationsService.requestDesktopPermission());
+    }
+  };
+
+  // Keep saved providers who aren't on today's board selectable, so they can be removed
+  const providerOptions = [
+    ...providers,
+    ...settings.providerIds
+      .filter(id => !providers.some(provider => provider.id === id))
+      .map(id => ({ id, name: 'Provider not on the board today' }))
+  ];
+
+  const mutedUntilLabel = settings.mutedUntil !== null && settings.mutedUntil > 0
+    ? `until ${new Date(settings.mutedUntil).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`
+    : 'until turned back on';
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Notifications on this screen</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Alert when a patient crosses a wait-time rule or becomes ready for the provider.
+          Settings are saved on this device only.
+        </Typography>
+
+        <FormControlLabel
+          control={<Switch checked={settings.enabled} onChange={(e) => handleEnable(e.target.checked)} />}
+          label="Enable notifications"
+        />
+
+        {settings.enabled && (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <Divider />
+
+            <Box>
+              <FormControlLabel
+                control={<Switch checked={settings.desktop} onChange={(e) => handleDesktop(e.target.checked)} />}
+                label="Desktop notifications"
+              />
+              {settings.desktop && permission === 'denied' && (
+                <Alert severity="warning" sx={{ mt: 1 }}>
+                  This browser is blocking notifications. Allow them in the site settings to see pop-ups.
+                </Alert>
+              )}
+              {settings.desktop && permission === 'unsupported' && (
+                <Alert severity="info" sx={{ mt: 1 }}>
+                  This browser doesn't support desktop notifications.
+                </Alert>
+              )}
+            </Box>
+
+            <Box>
+              <FormControlLabel
+                control={<Switch checked={settings.chime} onChange={(e) => onChange({ chime: e.target.checked })} />}
+                label="Chime"
+              />
+              {settings.chime && (
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 1 }}>
+                  <Select
+                    value={settings.chimeSound}
+                    onChange={(e) => onChange({ chimeSound: e.target.value as ChimeSound })}
+                    size="small"
+                    sx={{ minWidth: 110 }}
+                  >
+                    <MenuItem value="soft">Soft</MenuItem>
+                    <MenuItem value="bell">Bell</MenuItem>
+                    <MenuItem value="urgent">Urgent</MenuItem>
+                  </Select>
+                  <VolumeUp sx={{ color: 'text.secondary' }} />
+                  <Slider
+                    value={settings.volume}
+                    min={0.1}
+                    max={1}
+                    step={0.1}
+                    onChange={(_, value) => onChange({ volume: value as number })}
+                    sx={{ flex: 1 }}
+                  />
+                  <Button
+                    size="small"
+                    onClick={() => notificationsService.playChime(settings.chimeSound, settings.volume)}
+                  >
+                    Test
+                  </Button>
+                </Box>
+              )}
+            </Box>
+
+            <Box>
+              <Typography variant="subtitle2" sx={{ mb: 1 }}>Only notify about these providers' patients</Typography>
+              <Select
+                multiple
+                displayEmpty
+                value={settings.providerIds}
+                onChange={(e) => onChange({ providerIds: e.target.value as string[] })}
+                size="small"
+                fullWidth
+                renderValue={(selected) => selected.length === 0
+                  ? 'All patients'
+                  : selected.map(id => providerOptions.find(provider => provider.id === id)?.name).join(', ')}
+              >
+                {providerOptions.map(provider => (
+                  <MenuItem key={provider.id} value={provider.id}>
+                    <Checkbox checked={settings.providerIds.includes(provider.id)} size="small" />
+                    <ListItemText primary={provider.name} />
+                  </MenuItem>
+                ))}
+              </Select>
+            </Box>
+
+            <Box>
+              <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                {isMuted ? `Muted ${mutedUntilLabel}` : 'Mute this screen'}
+              </Typography>
+              {isMuted ? (
+                <Button variant="outlined" size="small" onClick={onUnmute}>Unmute</Button>
+              ) : (
+                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                  {MUTE_OPTIONS.map(option => (
+                    <Button key={option.label} variant="outlined" size="small" onClick={() => onMute(option.minutes)}>
+                      {option.label}
+                    </Button>
+                  ))}
+                </Box>
+              )}
+            </Box>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Done</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default NotificationSettingsDialog;
@@ -1,14 +1,22 @@
 import React from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import kioskService from '../services/kiosk.service';
+import { Permission } from '../types/api.types';
 import { CircularProgress, Box } from '@mui/material';
 
 interface PrivateRouteProps {
   children: React.ReactNode;
+  permission?: Permission; // Signed-in users without it are sent back to the dashboard
 }
 
-export const PrivateRoute: React.FC<PrivateRouteProps> = ({ children }) => {
-  const { user, isLoading } = useAuth();
+export const PrivateRoute: React.FC<PrivateRouteProps> = ({ children, permission }) => {
+  const { user, isLoading, hasPermission } = useAuth();
+
+  // Waiting-room screens never leave the kiosk board, even if someone signs in on them
+  if (kioskService.isKioskDevice()) {
+    return <Navigate to="/kiosk" replace />;
+  }
 
   if (isLoading) {
     return (
@@ -23,5 +31,13 @@ export const PrivateRoute: React.FC<PrivateRouteProps> = ({ children }) => {
     );
   }
 
-  return user ? <>{children}</> : <Navigate to="/login" replace />;
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  if (permission && !hasPermission(permission)) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return <>{children}</>;
 }; 
\ No newline at end of file
@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import authService from '../services/auth.service';
-import { AuthContextType, User } from '../types/api.types';
+import { AuthContextType, Permission, User } from '../types/api.types';
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
@@ -32,7 +32,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         console.log('🔍 AuthContext: Session restoration complete, current user:', username);
         
         if (username) {
-          setUser({ username });
+          setUser({ username, role: authService.getRole() || undefined, permissions: authService.getPermissions() });
           console.log('✅ AuthContext: User authenticated');
         } else {
           console.log('❌ AuthContext: No authenticated user');
@@ -48,13 +48,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     initializeAuth();
   }, []);
 
-  const login = async (username: string, password: string, persistentLogin: boolean = true) => {
+  const login = async (username: string, password: string, persistentLogin: boolean = true, deviceLabel?: string) => {
     try {
       setIsLoading(true);
       setError(null);
       
-      await authService.login(username, password);
-      setUser({ username });
+      const response = await authService.login(username, password, deviceLabel);
+      setUser({ username, role: response.role, permissions: response.permissions || [] });
     } catch (err: any) {
       setError(err.message || 'Login failed');
       throw err;
@@ -75,8 +75,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const hasPermission = (permission: Permission) => !!user?.permissions.includes(permission);
+
   const value: AuthContextType = {
     user,
+    hasPermission,
     login,
     logout,
     isLoading,
@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react';
+import notificationsService, { NotificationSettings } from '../services/notifications.service';
+import { Encounter } from '../types/api.types';
+
+/**
+ * Announce wait-time alerts and ready-for-provider patients as encounters change,
+ * and expose this device's notification settings
+ */
+export const useEncounterNotifications = (encounters: Encounter[], ready: boolean) => {
+  const [settings, setSettings] = useState<NotificationSettings>(() => notificationsService.getSettings());
+
+  const updateSettings = useCallback((changes: Partial<NotificationSettings>) => {
+    setSettings(current => {
+      const next = { ...current, ...changes };
+      notificationsService.saveSettings(next);
+      return next;
+    });
+  }, []);
+
+  const mute = useCallback((minutes: number | null) => {
+    setSettings(notificationsService.mute(minutes));
+  }, []);
+
+  const unmute = useCallback(() => {
+    setSettings(notificationsService.unmute());
+  }, []);
+
+  // Skip until the board has real data, so a cleared list during a clinic switch isn't processed
+  useEffect(() => {
+    if (ready) {
+      notificationsService.processEncounters(encounters);
+    }
+  }, [encounters, ready, settings]);
+
+  // Timed mutes end on their own; re-render so the header icon catches up
+  useEffect(() => {
+    if (settings.mutedUntil === null || settings.mutedUntil < 0) {
+      return;
+    }
+
+    const remaining = settings.mutedUntil - Date.now();
+    if (remaining <= 0) {
+      return;
+    }
+    const timer = setTimeout(() => setSettings(notificationsService.getSettings()), remaining + 1000);
+    return () => clearTimeout(timer);
+  }, [settings.mutedUntil]);
+
+  return {
+    settings,
+    isMuted: notificationsService.isMuted(settings),
+    updateSettings,
+    mute,
+    unmute
+  };
+};
+
+export default useEncounterNotifications;
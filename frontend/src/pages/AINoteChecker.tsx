@@ -24,7 +24,9 @@ import {
   Assignment,
   ArrowBack,
   ExitToApp,
-  PlayArrow
+  PlayArrow,
+  DoneAll,
+  Tune
 } from '@mui/icons-material';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
@@ -36,6 +38,8 @@ import MobileFilters from '../components/MobileFilters';
 import PullToRefresh from '../components/PullToRefresh';
 import MobileFAB from '../components/MobileFAB';
 import NoteCardList from '../components/NoteCardList';
+import BulkSignOffDialog from '../components/BulkSignOffDialog';
+import JobControlDialog from '../components/JobControlDialog';
 import useResponsive from '../hooks/useResponsive';
 
 interface IncompleteNote {
@@ -64,9 +68,16 @@ const AINoteChecker: React.FC = () => {
   const [currentFilter, setCurrentFilter] = useState<FilterType>('all');
   const [searchQuery, setSearchQuery] = useState('');
   const [sortBy, setSortBy] = useState('dateDesc');
+  const [showBulkSignOff, setShowBulkSignOff] = useState(false);
+  const [bulkSignOffNotes, setBulkSignOffNotes] = useState<IncompleteNote[]>([]);
+  const [showJobControl, setShowJobControl] = useState(false);
 
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const { user, logout } = useAuth();
+  const { user, logout, hasPermission } = useAuth();
+  const canBulkRecheck = hasPermission('notes:bulk');
+  const canCheckNotes = hasPermission('notes:review');
+  const canSignNotes = hasPermission('notes:sign');
+  const canManageJobs = hasPermission('jobs:manage');
   const navigate = useNavigate();
   const location = useLocation();
   const { 
@@ -165,7 +176,7 @@ const AINoteChecker: React.FC = () => {
           // Sort by AI check status priority
           const getAIStatusPriority = (note: IncompleteNote) => {
             if (!note.lastCheckStatus) return 0; // Unchecked first
-            if (note.lastCheckStatus === 'error') return 1; // Errors second
+            if (note.lastCheckStatus === 'error' || note.lastCheckStatus === 'parse_failed') return 1; // Errors second
             if (note.issuesFound) return 2; // Issues third
             return 3; // Clean last
           };
@@ -303,6 +314,23 @@ const AINoteChecker: React.FC = () => {
     }
   };
 
+  // Selected notes that passed their AI check with no open issues; the server re-verifies each
+  // one (attending provider, unchanged since the check) before signing it off
+  const selectedCleanNotes = incompleteNotes.filter(note =>
+    selectedNotes.has(note.encounterId) && note.lastCheckStatus === 'completed' && !note.hasValidIssues
+  );
+
+  // Keep the notes being signed off so their results stay listed once the selection is cleared
+  const handleOpenBulkSignOff = () => {
+    setBulkSignOffNotes(selectedCleanNotes);
+    setShowBulkSignOff(true);
+  };
+
+  const handleBulkSignOffComplete = async () => {
+    setSelectedNotes(new Set());
+    await refreshEncounters();
+  };
+
   const getStatusChip = (note: IncompleteNote) => {
     if (checking.has(note.encounterId)) {
       return (
@@ -325,10 +353,10 @@ const AINoteChecker: React.FC = () => {
       );
     }
 
-    if (note.lastCheckStatus === 'error') {
+    if (note.lastCheckStatus === 'error' || note.lastCheckStatus === 'parse_failed') {
       return (
         <Chip
-          label="Error"
+          label={note.lastCheckStatus === 'parse_failed' ? 'Parse Failed' : 'Error'}
           color="error"
           size="small"
         />
@@ -392,7 +420,8 @@ const AINoteChecker: React.FC = () => {
         bulkProcessing={bulkProcessing}
         onBack={() => navigate('/dashboard')}
         onRefresh={refreshEncounters}
-        onBulkForceRecheck={selectedNotes.size > 0 ? handleBulkForceRecheck : undefined}
+        onBulkForceRecheck={canBulkRecheck && selectedNotes.size > 0 ? handleBulkForceRecheck : undefined}
+        onJobControl={canManageJobs ? () => setShowJobControl(true) : undefined}
         onLogout={handleLogout}
         showBackButton={true}
         showStats={true}
@@ -591,7 +620,33 @@ const AINoteChecker: React.FC = () => {
                 )}
               </IconButton>
             </Tooltip>
-            {selectedNotes.size > 0 && (
+            {canSignNotes && selectedCleanNotes.length > 0 && (
+              <Tooltip title={`Sign off ${selectedCleanNotes.length} clean selected note${selectedCleanNotes.length === 1 ? '' : 's'}`}>
+                <IconButton
+                  onClick={handleOpenBulkSignOff}
+                  disabled={bulkProcessing || loading}
+                  sx={{
+                    color: '#f8fafc',
+                    backgroundColor: '#10b981',
+                    border: '1px solid #34d399',
+                    borderRadius: 2,
+                    p: 1.5,
+                    '&:hover': {
+                      backgroundColor: '#059669',
+                      borderColor: '#10b981'
+                    },
+                    '&:disabled': {
+                      color: '#64748b',
+                      backgroundColor: '#0f0f0f',
+                      borderColor: '#1a1a1a'
+                    }
+                  }}
+                >
+                  <DoneAll sx={{ fontSize: '1.25rem' }} />
+                </IconButton>
+              </Tooltip>
+            )}
+            {canBulkRecheck && selectedNotes.size > 0 && (
               <Tooltip title={`Force Re-check ${selectedNotes.size} selected notes`}>
                 <IconButton 
                   onClick={handleBulkForceRecheck}
@@ -621,6 +676,26 @@ const AINoteChecker: React.FC = () => {
                 </IconButton>
               </Tooltip>
             )}
+            {canManageJobs && (
+              <Tooltip title="Job Control">
+                <IconButton
+                  onClick={() => setShowJobControl(true)}
+                  sx={{
+                    color: '#f8fafc',
+                    backgroundColor: '#1a1a1a',
+                    border: '1px solid #2a2a2a',
+                    borderRadius: 2,
+                    p: 1.5,
+                    '&:hover': {
+                      backgroundColor: '#2a2a2a',
+                      borderColor: '#3a3a3a'
+                    }
+                  }}
+                >
+                  <Tune sx={{ fontSize: '1.25rem' }} />
+                </IconButton>
+              </Tooltip>
+            )}
             <Tooltip title="Logout">
               <IconButton 
                 onClick={handleLogout} 
@@ -897,7 +972,7 @@ const AINoteChecker: React.FC = () => {
                 checkingNotes={checking}
                 onSelectNote={handleSelectNote}
                 onSelectAll={handleSelectAll}
-                onCheckNote={handleCheckNote}
+                onCheckNote={canCheckNotes ? handleCheckNote : undefined}
                 onViewNote={handleViewNote}
                 bulkProcessing={bulkProcessing}
                 currentFilter={currentFilter}
@@ -1131,20 +1206,22 @@ const AINoteChecker: React.FC = () => {
                         verticalAlign: 'middle'
                       }}
                     >
-                      <Tooltip title="Check Note">
-                        <IconButton
-                          size={isMobile ? "medium" : "small"}
-                          onClick={() => handleCheckNote(note)}
-                          disabled={checking.has(note.encounterId)}
-                          color="primary"
-                          sx={{
-                            minWidth: isMobile ? '44px' : 'auto',
-                            minHeight: isMobile ? '44px' : 'auto'
-                          }}
-                        >
-                          <Psychology sx={{ fontSize: isMobile ? '1.2rem' : '1rem' }} />
-                        </IconButton>
-                      </Tooltip>
+                      {canCheckNotes && (
+                        <Tooltip title="Check Note">
+                          <IconButton
+                            size={isMobile ? "medium" : "small"}
+                            onClick={() => handleCheckNote(note)}
+                            disabled={checking.has(note.encounterId)}
+                            color="primary"
+                            sx={{
+                              minWidth: isMobile ? '44px' : 'auto',
+                              minHeight: isMobile ? '44px' : 'auto'
+                            }}
+                          >
+                            <Psychology sx={{ fontSize: isMobile ? '1.2rem' : '1rem' }} />
+                          </IconButton>
+                        </Tooltip>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))}
@@ -1166,7 +1243,7 @@ const AINoteChecker: React.FC = () => {
                 </Typography>
                 <Typography variant="body2" color="text.secondary">
                   {incompleteNotes.length === 0 
-                    ? 'All notes have been completed, signed, or are less than 2 hours old'
+                    ? 'All notes have been completed, signed, or are too recent to check yet'
                     : currentFilter !== 'all' ? `Try switching to another filter to see more notes.` : ''
                   }
                 </Typography>
@@ -1182,10 +1259,26 @@ const AINoteChecker: React.FC = () => {
       <MobileFAB
         selectedCount={selectedNotes.size}
         onRefresh={refreshEncounters}
-        onBulkCheck={selectedNotes.size > 0 ? handleBulkForceRecheck : undefined}
+        onBulkCheck={canBulkRecheck && selectedNotes.size > 0 ? handleBulkForceRecheck : undefined}
+        onBulkSignOff={canSignNotes ? handleOpenBulkSignOff : undefined}
+        signOffCount={selectedCleanNotes.length}
         refreshing={loading || autoRefreshing}
         bulkProcessing={bulkProcessing}
       />
+
+      <BulkSignOffDialog
+        open={showBulkSignOff}
+        onClose={() => setShowBulkSignOff(false)}
+        onComplete={handleBulkSignOffComplete}
+        notes={bulkSignOffNotes}
+      />
+
+      {canManageJobs && (
+        <JobControlDialog
+          open={showJobControl}
+          onClose={() => setShowJobControl(false)}
+        />
+      )}
     </Box>
   );
 };
@@ -0,0 +1,423 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Alert,
+  Tooltip,
+  IconButton,
+  CircularProgress,
+  Select,
+  MenuItem,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup
+} from '@mui/material';
+import {
+  ArrowBack,
+  Insights,
+  Refresh
+} from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
+import analyticsService from '../services/analytics.service';
+import clinicsService from '../services/clinics.service';
+import { BarList, HourlyChart } from '../components/AnalyticsCharts';
+import {
+  AnalyticsFilters,
+  Clinic,
+  ClinicFlowAnalyticsResponse,
+  WaitTimeAnalyticsResponse,
+  WaitTimeGroupBy
+} from '../types/api.types';
+
+const STAGE_COLORS = {
+  doorToRoom: '#f59e0b',
+  roomToProvider: '#3b82f6',
+  afterProvider: '#10b981'
+};
+
+// Calendar date (YYYY-MM-DD) in a time zone, shifted by whole days
+const getLocalDate = (timeZone: string, dayOffset: number = 0): string => {
+  const today = new Date().toLocaleDateString('en-CA', { timeZone });
+  const shifted = new Date(`${today}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + dayOffset);
+  return shifted.toISOString().slice(0, 10);
+};
+
+const formatMinutes = (minutes: number | null): string => {
+  return minutes === null ? '—' : `${Math.round(minutes)} min`;
+};
+
+const formatRate = (rate: number | null): string => {
+  return rate === null ? '—' : `${(rate * 100).toFixed(1)}%`;
+};
+
+const SummaryStat: React.FC<{ label: string; value: string; color?: string }> = ({ label, value, color = '#0f172a' }) => (
+  <Paper sx={{ flex: '1 1 150px', p: 2, textAlign: 'center' }}>
+    <Typography variant="h4" sx={{ fontWeight: 700, lineHeight: 1.1, color, fontSize: '1.75rem' }}>
+      {value}
+    </Typography>
+    <Typography variant="caption" sx={{
+      color: '#64748b',
+      fontWeight: 500,
+      textTransform: 'uppercase',
+      letterSpacing: '0.05em'
+    }}>
+      {label}
+    </Typography>
+  </Paper>
+);
+
+const ChartCard: React.FC<{ title: string; subtitle?: string; action?: React.ReactNode; children: React.ReactNode }> = ({
+  title,
+  subtitle,
+  action,
+  children
+}) => (
+  <Paper sx={{ flex: '1 1 480px', p: 2.5, minWidth: 0 }}>
+    <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 2, gap: 2 }}>
+      <Box>
+        <Typography variant="h6" sx={{ fontWeight: 600, fontSize: '1rem', color: '#0f172a' }}>
+          {title}
+        </Typography>
+        {subtitle && (
+          <Typography variant="body2" sx={{ color: '#64748b' }}>
+            {subtitle}
+          </Typography>
+        )}
+      </Box>
+      {action}
+    </Box>
+    {children}
+  </Paper>
+);
+
+const Analytics: React.FC = () => {
+  const [clinics, setClinics] = useState<Clinic[]>([]);
+  const [filters, setFilters] = useState<AnalyticsFilters | null>(null);
+  const [stageGroupBy, setStageGroupBy] = useState<WaitTimeGroupBy>('day');
+  const [waitTimes, setWaitTimes] = useState<WaitTimeAnalyticsResponse | null>(null);
+  const [flow, setFlow] = useState<ClinicFlowAnalyticsResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const navigate = useNavigate();
+
+  const selectedClinic = clinics.find(clinic => clinic.clinicId === filters?.clinicId);
+
+  // Start on the dashboard's clinic, over its last 7 days
+  useEffect(() => {
+    const loadClinics = async () => {
+      try {
+        const activeClinics = await clinicsService.getClinics();
+        setClinics(activeClinics);
+
+        const savedClinicId = clinicsService.getSelectedClinicId();
+        const clinic = activeClinics.find(c => c.clinicId === savedClinicId) || activeClinics[0];
+        if (!clinic) {
+          setError('No active clinics are configured');
+          return;
+        }
+
+        setFilters({
+          clinicId: clinic.clinicId,
+          from: getLocalDate(clinic.timeZone, -6),
+          to: getLocalDate(clinic.timeZone)
+        });
+      } catch (err: any) {
+        setError(err.message);
+      }
+    };
+
+    loadClinics();
+  }, []);
+
+  const fetchAnalytics = useCallback(async () => {
+    if (!filters) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const [waitTimeData, flowData] = await Promise.all([
+        analyticsService.getWaitTimes(filters, stageGroupBy),
+        analyticsService.getClinicFlow(filters)
+      ]);
+      setWaitTimes(waitTimeData);
+      setFlow(flowData);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, stageGroupBy]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  const updateFilters = (changes: Partial<AnalyticsFilters>) => {
+    if (!filters) {
+      return;
+    }
+    const next = { ...filters, ...changes };
+    if (!next.providerId) {
+      delete next.providerId;
+    }
+    setFilters(next);
+  };
+
+  const handleClinicChange = (clinicId: string) => {
+    // Providers belong to a clinic, so the provider filter doesn't carry over
+    updateFilters({ clinicId, providerId: undefined });
+  };
+
+  const stageItems = (waitTimes?.groups || []).map(group => {
+    const doorToRoom = group.doorToRoom.averageMinutes || 0;
+    const roomToProvider = group.roomToProvider.averageMinutes || 0;
+    const afterProvider = Math.max((group.totalVisit.averageMinutes || 0) - doorToRoom - roomToProvider, 0);
+
+    return {
+      key: group.key,
+      label: stageGroupBy === 'day'
+        ? new Date(`${group.label}T12:00:00Z`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' })
+        : group.label,
+      segments: [
+        { value: doorToRoom, color: STAGE_COLORS.doorToRoom, label: `Door to room: ${formatMinutes(group.doorToRoom.averageMinutes)}` },
+        { value: roomToProvider, color: STAGE_COLORS.roomToProvider, label: `Room to provider: ${formatMinutes(group.roomToProvider.averageMinutes)}` },
+        { value: afterProvider, color: STAGE_COLORS.afterProvider, label: `Rest of visit: ${formatMinutes(afterProvider)}` }
+      ],
+      valueLabel: formatMinutes(group.totalVisit.averageMinutes)
+    };
+  });
+
+  const utilizationItems = (flow?.providers || [])
+    .filter(provider => !filters?.providerId || provider.providerId === filters.providerId)
+    .map(provider => ({
+      key: provider.providerId,
+      label: provider.providerName,
+      segments: [{
+        value: provider.utilization || 0,
+        color: '#6366f1',
+        label: `${provider.patientsSeen} patients • ${formatMinutes(provider.averageMinutesPerPatient)} each`
+      }],
+      valueLabel: formatRate(provider.utilization)
+    }));
+
+  const hourly = flow?.hourly || [];
+
+  return (
+    <Box sx={{ minHeight: '100vh', display: 'flex', flexDirection: 'column', backgroundColor: '#f5f5f5' }}>
+      {/* Header */}
+      <Box sx={{
+        backgroundColor: '#0a0a0a',
+        color: 'white',
+        px: 3,
+        py: 1.5,
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06)',
+        borderBottom: '1px solid #1a1a1a'
+      }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <IconButton
+            onClick={() => navigate('/dashboard')}
+            sx={{
+              color: '#f8fafc',
+              '&:hover': { backgroundColor: 'rgba(255,255,255,0.1)' }
+            }}
+          >
+            <ArrowBack />
+          </IconButton>
+          <Insights sx={{ fontSize: '2rem', color: '#f8fafc' }} />
+          <Box>
+            <Typography variant="h5" sx={{
+              fontWeight: 600,
+              lineHeight: 1.2,
+              color: '#f8fafc',
+              letterSpacing: '-0.025em'
+            }}>
+              Clinic Flow Analytics
+            </Typography>
+            <Typography variant="body2" sx={{ opacity: 0.8, color: '#e2e8f0', fontSize: '0.875rem' }}>
+              {selectedClinic?.name || 'Loading clinics...'}
+              {flow && ` • ${flow.days} day${flow.days === 1 ? '' : 's'} with visits`}
+            </Typography>
+          </Box>
+        </Box>
+        <Tooltip title="Refresh">
+          <span>
+            <IconButton
+              onClick={fetchAnalytics}
+              disabled={loading || !filters}
+              sx={{
+                color: '#f8fafc',
+                backgroundColor: '#1a1a1a',
+                border: '1px solid #2a2a2a',
+                borderRadius: 2,
+                p: 1.5,
+                '&:hover': {
+                  backgroundColor: '#2a2a2a',
+                  borderColor: '#3a3a3a'
+                },
+                '&:disabled': {
+                  color: '#64748b',
+                  backgroundColor: '#0f0f0f',
+                  borderColor: '#1a1a1a'
+                }
+              }}
+            >
+              {loading ? (
+                <CircularProgress size={20} sx={{ color: '#f8fafc' }} />
+              ) : (
+                <Refresh sx={{ fontSize: '1.25rem' }} />
+              )}
+            </IconButton>
+          </span>
+        </Tooltip>
+      </Box>
+
+      {/* Filters */}
+      {filters && (
+        <Paper sx={{ mx: 3, mt: 2, p: 2, display: 'flex', flexWrap: 'wrap', gap: 2, alignItems: 'center' }}>
+          <Select
+            value={filters.clinicId}
+            onChange={(e) => handleClinicChange(e.target.value)}
+            size="small"
+            sx={{ minWidth: 220 }}
+          >
+            {clinics.map(clinic => (
+              <MenuItem key={clinic.clinicId} value={clinic.clinicId}>
+                {clinic.name}
+              </MenuItem>
+            ))}
+          </Select>
+          <TextField
+            label="From"
+            type="date"
+            size="small"
+            value={filters.from}
+            onChange={(e) => e.target.value && updateFilters({ from: e.target.value })}
+            slotProps={{ inputLabel: { shrink: true }, htmlInput: { max: filters.to } }}
+          />
+          <TextField
+            label="To"
+            type="date"
+            size="small"
+            value={filters.to}
+            onChange={(e) => e.target.value && updateFilters({ to: e.target.value })}
+            slotProps={{ inputLabel: { shrink: true }, htmlInput: { min: filters.from } }}
+          />
+          <Select
+            value={filters.providerId || ''}
+            onChange={(e) => updateFilters({ providerId: e.target.value || undefined })}
+            size="small"
+            displayEmpty
+            sx={{ minWidth: 220 }}
+          >
+            <MenuItem value="">All providers</MenuItem>
+            {(flow?.providers || []).map(provider => (
+              <MenuItem key={provider.providerId} value={provider.providerId}>
+                {provider.providerName}
+              </MenuItem>
+            ))}
+          </Select>
+        </Paper>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mx: 3, mt: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {waitTimes && flow && (
+        <Box sx={{ p: 3, display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {/* Summary */}
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+            <SummaryStat label="Scheduled Visits" value={String(flow.scheduledVisits)} />
+            <SummaryStat label="Door to Room" value={formatMinutes(waitTimes.overall.doorToRoom.averageMinutes)} color={STAGE_COLORS.doorToRoom} />
+            <SummaryStat label="Room to Provider" value={formatMinutes(waitTimes.overall.roomToProvider.averageMinutes)} color={STAGE_COLORS.roomToProvider} />
+            <SummaryStat label="Total Visit" value={formatMinutes(waitTimes.overall.totalVisit.averageMinutes)} color={STAGE_COLORS.afterProvider} />
+            <SummaryStat label="No-Show Rate" value={formatRate(flow.noShowRate)} color="#ef4444" />
+            <SummaryStat label="Cancel Rate" value={formatRate(flow.cancellationRate)} color="#f97316" />
+          </Box>
+
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+            <ChartCard
+              title="Average Wait by Stage"
+              subtitle={`Median door to room ${formatMinutes(waitTimes.overall.doorToRoom.medianMinutes)}, room to provider ${formatMinutes(waitTimes.overall.roomToProvider.medianMinutes)}`}
+              action={
+                <ToggleButtonGroup
+                  value={stageGroupBy}
+                  exclusive
+                  size="small"
+                  onChange={(_, value) => value && setStageGroupBy(value)}
+                >
+                  <ToggleButton value="day">Day</ToggleButton>
+                  <ToggleButton value="provider">Provider</ToggleButton>
+                  <ToggleButton value="appointmentType">Type</ToggleButton>
+                </ToggleButtonGroup>
+              }
+            >
+              <BarList items={stageItems} />
+            </ChartCard>
+
+            <ChartCard title="Provider Utilization" subtitle="Time with patients as a share of each provider's day">
+              <BarList items={utilizationItems} />
+            </ChartCard>
+          </Box>
+
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+            <ChartCard title="Throughput per Hour" subtitle="Average arrivals and check-outs per day">
+              <HourlyChart
+                unit="patients"
+                series={[
+                  { label: 'Arrivals', color: '#3b82f6', values: hourly.map(h => h.arrivals) },
+                  { label: 'Check-outs', color: '#10b981', values: hourly.map(h => h.completions) }
+                ]}
+              />
+            </ChartCard>
+
+            <ChartCard title="Room Occupancy" subtitle="Average rooms occupied through the day">
+              <HourlyChart
+                unit="rooms"
+                series={[{ label: 'Rooms occupied', color: '#8b5cf6', values: hourly.map(h => h.occupiedRooms) }]}
+              />
+            </ChartCard>
+          </Box>
+
+          <ChartCard title="No-Shows and Cancellations" subtitle={`${flow.scheduledVisits} scheduled visits`}>
+            <BarList
+              items={[
+                {
+                  key: 'no-show',
+                  label: 'No-shows',
+                  segments: [{ value: flow.noShows, color: '#ef4444', label: `${flow.noShows} no-shows` }],
+                  valueLabel: `${flow.noShows} (${formatRate(flow.noShowRate)})`
+                },
+                {
+                  key: 'cancelled',
+                  label: 'Cancellations',
+                  segments: [{ value: flow.cancellations, color: '#f97316', label: `${flow.cancellations} cancellations` }],
+                  valueLabel: `${flow.cancellations} (${formatRate(flow.cancellationRate)})`
+                }
+              ]}
+              emptyMessage="No no-shows or cancellations in this period"
+            />
+          </ChartCard>
+        </Box>
+      )}
+
+      {!waitTimes && !error && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '50vh' }}>
+          <CircularProgress />
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default Analytics;
@@ -0,0 +1,358 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Alert,
+  Tooltip,
+  IconButton,
+  CircularProgress,
+  Chip,
+  Button,
+  TextField,
+  Select,
+  MenuItem,
+  Collapse,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TablePagination
+} from '@mui/material';
+import {
+  ArrowBack,
+  FactCheck,
+  KeyboardArrowDown,
+  KeyboardArrowUp,
+  Refresh,
+  Search
+} from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
+import auditService from '../services/audit.service';
+import { AuditAction, AuditEvent, AuditEventFilter } from '../types/api.types';
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'note.sign_off': 'Signed off note',
+  'note.hpi_update': 'Edited HPI',
+  'todo.create': 'Created ToDo',
+  'vital_signs.update': 'Updated vital signs'
+};
+
+type SearchFilter = Omit<AuditEventFilter, 'limit' | 'offset'>;
+
+const formatTime = (timestamp: string): string => {
+  return new Date(timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit', second: '2-digit' });
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') {
+    return '(empty)';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+// Drop blank fields so they aren't sent as filters
+const cleanFilter = (filter: SearchFilter): SearchFilter => {
+  return Object.fromEntries(
+    Object.entries(filter).map(([key, value]) => [key, typeof value === 'string' ? value.trim() : value]).filter(([, value]) => value)
+  );
+};
+
+const AuditEventRow: React.FC<{ event: AuditEvent }> = ({ event }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <TableRow hover onClick={() => setOpen(!open)} sx={{ cursor: 'pointer', '& > td': { borderBottom: open ? 'none' : undefined } }}>
+        <TableCell padding="checkbox">
+          <IconButton size="small">
+            {open ? <KeyboardArrowUp /> : <KeyboardArrowDown />}
+          </IconButton>
+        </TableCell>
+        <TableCell sx={{ whiteSpace: 'nowrap' }}>{formatTime(event.occurredAt)}</TableCell>
+        <TableCell>{event.actor}</TableCell>
+        <TableCell>{ACTION_LABELS[event.action] || event.action}</TableCell>
+        <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.8rem' }}>{event.patientId || '—'}</TableCell>
+        <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.8rem' }}>{event.encounterId || '—'}</TableCell>
+        <TableCell>
+          <Chip
+            size="small"
+            label={event.responseStatus ? `${event.responseStatus}` : 'No response'}
+            color={event.success ? 'success' : 'error'}
+            variant={event.success ? 'outlined' : 'filled'}
+          />
+        </TableCell>
+      </TableRow>
+      <TableRow>
+        <TableCell colSpan={7} sx={{ py: 0 }}>
+          <Collapse in={open} timeout="auto" unmountOnExit>
+            <Box sx={{ py: 2, display: 'flex', flexDirection: 'column', gap: 2 }}>
+              {event.errorMessage && (
+                <Alert severity="error">{event.errorMessage}</Alert>
+              )}
+              {event.changes && (
+                <Box>
+                  <Typography variant="subtitle2" gutterBottom>Changes</Typography>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Field</TableCell>
+                        <TableCell>Before</TableCell>
+                        <TableCell>After</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {Object.entries(event.changes).map(([field, change]) => (
+                        <TableRow key={field}>
+                          <TableCell sx={{ fontWeight: 600, verticalAlign: 'top' }}>{field}</TableCell>
+                          <TableCell sx={{ whiteSpace: 'pre-wrap', verticalAlign: 'top', backgroundColor: '#fef2f2' }}>{formatValue(change.before)}</TableCell>
+                          <TableCell sx={{ whiteSpace: 'pre-wrap', verticalAlign: 'top', backgroundColor: '#f0fdf4' }}>{formatValue(change.after)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </Box>
+              )}
+              {event.requestPayload !== undefined && (
+                <Box>
+                  <Typography variant="subtitle2" gutterBottom>Request sent to EZDerm</Typography>
+                  <Box
+                    component="pre"
+                    sx={{ m: 0, p: 1.5, backgroundColor: '#f8f9fa', borderRadius: 1, fontSize: '0.75rem', overflow: 'auto', maxHeight: 300 }}
+                  >
+                    {JSON.stringify(event.requestPayload, null, 2)}
+                  </Box>
+                </Box>
+              )}
+            </Box>
+          </Collapse>
+        </TableCell>
+      </TableRow>
+    </>
+  );
+};
+
+const AuditLog: React.FC = () => {
+  const [draft, setDraft] = useState<SearchFilter>({});
+  const [filter, setFilter] = useState<SearchFilter>({});
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(50);
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const navigate = useNavigate();
+
+  const fetchEvents = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await auditService.getAuditEvents({ ...filter, limit: rowsPerPage, offset: page * rowsPerPage });
+      setEvents(result.events);
+      setTotal(result.total);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [filter, page, rowsPerPage]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const updateDraft = (updates: SearchFilter) => {
+    setDraft(prev => ({ ...prev, ...updates }));
+  };
+
+  const handleSearch = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    setPage(0);
+    setFilter(cleanFilter(draft));
+  };
+
+  return (
+    <Box sx={{ minHeight: '100vh', display: 'flex', flexDirection: 'column', backgroundColor: '#f5f5f5' }}>
+      {/* Header */}
+      <Box sx={{
+        backgroundColor: '#0a0a0a',
+        color: 'white',
+        px: 3,
+        py: 1.5,
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06)',
+        borderBottom: '1px solid #1a1a1a'
+      }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <IconButton
+            onClick={() => navigate('/dashboard')}
+            sx={{
+              color: '#f8fafc',
+              '&:hover': { backgroundColor: 'rgba(255,255,255,0.1)' }
+            }}
+          >
+            <ArrowBack />
+          </IconButton>
+          <FactCheck sx={{ fontSize: '2rem', color: '#f8fafc' }} />
+          <Box>
+            <Typography variant="h5" sx={{
+              fontWeight: 600,
+              lineHeight: 1.2,
+              color: '#f8fafc',
+              letterSpacing: '-0.025em'
+            }}>
+              Audit Log
+            </Typography>
+            <Typography variant="body2" sx={{ opacity: 0.8, color: '#e2e8f0', fontSize: '0.875rem' }}>
+              Changes sent to EZDerm · {total} event{total === 1 ? '' : 's'}
+            </Typography>
+          </Box>
+        </Box>
+        <Tooltip title="Refresh">
+          <span>
+            <IconButton
+              onClick={fetchEvents}
+              disabled={loading}
+              sx={{
+                color: '#f8fafc',
+                backgroundColor: '#1a1a1a',
+                border: '1px solid #2a2a2a',
+                borderRadius: 2,
+                p: 1.5,
+                '&:hover': {
+                  backgroundColor: '#2a2a2a',
+                  borderColor: '#3a3a3a'
+                },
+                '&:disabled': {
+                  color: '#64748b',
+                  backgroundColor: '#0f0f0f',
+                  borderColor: '#1a1a1a'
+                }
+              }}
+            >
+              {loading ? (
+                <CircularProgress size={20} sx={{ color: '#f8fafc' }} />
+              ) : (
+                <Refresh sx={{ fontSize: '1.25rem' }} />
+              )}
+            </IconButton>
+          </span>
+        </Tooltip>
+      </Box>
+
+      {/* Filters */}
+      <Paper
+        component="form"
+        onSubmit={handleSearch}
+        sx={{ mx: 3, mt: 2, p: 2, display: 'flex', flexWrap: 'wrap', gap: 2, alignItems: 'center' }}
+      >
+        <TextField
+          label="Patient ID"
+          size="small"
+          value={draft.patientId || ''}
+          onChange={(e) => updateDraft({ patientId: e.target.value })}
+        />
+        <TextField
+          label="Encounter ID"
+          size="small"
+          value={draft.encounterId || ''}
+          onChange={(e) => updateDraft({ encounterId: e.target.value })}
+        />
+        <TextField
+          label="User"
+          size="small"
+          value={draft.actor || ''}
+          onChange={(e) => updateDraft({ actor: e.target.value })}
+        />
+        <Select
+          value={draft.action || ''}
+          onChange={(e) => updateDraft({ action: (e.target.value || undefined) as AuditAction | undefined })}
+          size="small"
+          displayEmpty
+          sx={{ minWidth: 200 }}
+        >
+          <MenuItem value="">All actions</MenuItem>
+          {(Object.keys(ACTION_LABELS) as AuditAction[]).map(action => (
+            <MenuItem key={action} value={action}>
+              {ACTION_LABELS[action]}
+            </MenuItem>
+          ))}
+        </Select>
+        <TextField
+          label="From"
+          type="date"
+          size="small"
+          value={draft.from || ''}
+          onChange={(e) => updateDraft({ from: e.target.value })}
+          slotProps={{ inputLabel: { shrink: true }, htmlInput: { max: draft.to } }}
+        />
+        <TextField
+          label="To"
+          type="date"
+          size="small"
+          value={draft.to || ''}
+          onChange={(e) => updateDraft({ to: e.target.value })}
+          slotProps={{ inputLabel: { shrink: true }, htmlInput: { min: draft.from } }}
+        />
+        <Button type="submit" variant="contained" startIcon={<Search />}>
+          Search
+        </Button>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mx: 3, mt: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Paper sx={{ m: 3, overflow: 'auto' }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow sx={{ '& th': { backgroundColor: '#f8f9fa', fontWeight: 'bold' } }}>
+              <TableCell padding="checkbox" />
+              <TableCell>Time</TableCell>
+              <TableCell>User</TableCell>
+              <TableCell>Action</TableCell>
+              <TableCell>Patient</TableCell>
+              <TableCell>Encounter</TableCell>
+              <TableCell>EZDerm Response</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {events.map(event => (
+              <AuditEventRow key={event.id} event={event} />
+            ))}
+          </TableBody>
+        </Table>
+
+        {events.length === 0 && !loading && (
+          <Box sx={{ p: 4, textAlign: 'center' }}>
+            <Typography variant="body2" color="text.secondary">
+              No audit events match these filters
+            </Typography>
+          </Box>
+        )}
+
+        <TablePagination
+          component="div"
+          count={total}
+          page={page}
+          rowsPerPage={rowsPerPage}
+          rowsPerPageOptions={[25, 50, 100, 200]}
+          onPageChange={(_, newPage) => setPage(newPage)}
+          onRowsPerPageChange={(e) => {
+            setRowsPerPage(parseInt(e.target.value, 10));
+            setPage(0);
+          }}
+        />
+      </Paper>
+    </Box>
+  );
+};
+
+export default AuditLog;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   Box,
   Paper,
@@ -13,7 +13,9 @@ import {
   Alert,
   Tooltip,
   IconButton,
-  CircularProgress
+  CircularProgress,
+  Select,
+  MenuItem
 } from '@mui/material';
 import {
   LocalHospital,
@@ -23,13 +25,24 @@ import {
   Person,
   PersonOutline,
   Badge,
-  MedicalServices
+  MedicalServices,
+  Business,
+  Insights,
+  Notifications,
+  NotificationsActive,
+  NotificationsOff,
+  Devices,
+  FactCheck,
+  EditNote
 } from '@mui/icons-material';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import patientTrackingService from '../services/patientTracking.service';
 import authService from '../services/auth.service';
-import { Encounter } from '../types/api.types';
+import clinicsService from '../services/clinics.service';
+import NotificationSettingsDialog from '../components/NotificationSettingsDialog';
+import useEncounterNotifications from '../hooks/useEncounterNotifications';
+import { Clinic, Encounter } from '../types/api.types';
 
 const Dashboard: React.FC = () => {
   const [encounters, setEncounters] = useState<Encounter[]>([]);
@@ -39,14 +52,52 @@ const Dashboard: React.FC = () => {
   const [lastRefresh, setLastRefresh] = useState(new Date());
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const [sessionTimeRemaining, setSessionTimeRemaining] = useState<number | null>(null); // Used for session monitoring
+  const [clinics, setClinics] = useState<Clinic[]>([]);
+  const [selectedClinicId, setSelectedClinicId] = useState<string | null>(clinicsService.getSelectedClinicId());
+  const [clinicsLoaded, setClinicsLoaded] = useState(false);
+  const [streamConnected, setStreamConnected] = useState(false);
+  const [notificationSettingsOpen, setNotificationSettingsOpen] = useState(false);
+  const hasLoadedRef = useRef(false);
 
-  const { logout } = useAuth();
+  const { logout, hasPermission } = useAuth();
   const navigate = useNavigate();
 
   // Check if we're in mock data mode
   const isUsingMockData = process.env.NODE_ENV === 'development' && process.env.REACT_APP_USE_MOCK_DATA === 'true';
 
+  const selectedClinic = clinics.find(clinic => clinic.clinicId === selectedClinicId);
 
+  // Load the clinic registry before polling so a stale saved clinic is never requested
+  useEffect(() => {
+    const loadClinics = async () => {
+      try {
+        const activeClinics = await clinicsService.getClinics();
+        setClinics(activeClinics);
+        setSelectedClinicId(current => {
+          if (current && activeClinics.some(clinic => clinic.clinicId === current)) {
+            return current;
+          }
+          return activeClinics[0]?.clinicId || null;
+        });
+      } catch (err: any) {
+        // Fall back to the server's default clinic
+        console.error('Failed to load clinics:', err);
+        setSelectedClinicId(null);
+      } finally {
+        setClinicsLoaded(true);
+      }
+    };
+
+    loadClinics();
+  }, []);
+
+  const handleClinicChange = (clinicId: string) => {
+    clinicsService.setSelectedClinicId(clinicId);
+    setSelectedClinicId(clinicId);
+    setEncounters([]);
+    setStreamConnected(false);
+    hasLoadedRef.current = false;
+  };
 
   const fetchEncounters = useCallback(async (isRefresh = false) => {
     try {
@@ -56,18 +107,21 @@ const Dashboard: React.FC = () => {
         setLoading(true);
       }
       setError(null);
-      const data = await patientTrackingService.getEncounters();
+      const data = await patientTrackingService.getEncounters(
+        selectedClinicId ? { clinicId: selectedClinicId } : undefined
+      );
       
       // Simply update the data without animations
       setEncounters(data.filter(enc => enc && enc.id)); // Safety filter
       setLastRefresh(new Date());
+      hasLoadedRef.current = true;
     } catch (err: any) {
       setError(err.message || 'Failed to fetch patient data');
     } finally {
       setLoading(false);
       setRefreshing(false);
     }
-  }, []);
+  }, [selectedClinicId]);
 
   // Sort encounters by room number
   const sortedEncounters = encounters.sort((a, b) => {
@@ -83,12 +137,45 @@ const Dashboard: React.FC = () => {
     return roomA - roomB;
   });
 
+  // Live updates: the server polls EZDerm once per clinic and pushes changes
+  useEffect(() => {
+    if (!clinicsLoaded) {
+      return;
+    }
+
+    return patientTrackingService.subscribeToEncounters(selectedClinicId || undefined, {
+      onSnapshot: (data) => {
+        setEncounters(data.filter(enc => enc && enc.id)); // Safety filter
+        setLastRefresh(new Date());
+        setError(null);
+        setLoading(false);
+        hasLoadedRef.current = true;
+      },
+      onDelta: (delta) => {
+        setEncounters(current => patientTrackingService.applyEncounterDelta(current, delta));
+        setLastRefresh(new Date());
+      },
+      onConnectionChange: setStreamConnected
+    });
+  }, [clinicsLoaded, selectedClinicId]);
+
+  // Poll only while the stream is down
   useEffect(() => {
-    fetchEncounters(false);
+    if (!clinicsLoaded || streamConnected) {
+      return;
+    }
+
+    fetchEncounters(hasLoadedRef.current);
     
     // Refresh data every 10 seconds
     const interval = setInterval(() => fetchEncounters(true), 10000);
-    
+
+    return () => {
+      clearInterval(interval);
+    };
+  }, [fetchEncounters, clinicsLoaded, streamConnected]);
+
+  useEffect(() => {
     // Set up session monitoring every minute
     const sessionCheckInterval = setInterval(async () => {
       try {
@@ -115,10 +202,9 @@ const Dashboard: React.FC = () => {
     }, 60 * 1000); // Check every minute
     
     return () => {
-      clearInterval(interval);
       clearInterval(sessionCheckInterval);
     };
-  }, [fetchEncounters]);
+  }, []);
 
   const handleLogout = async () => {
     try {
@@ -142,6 +228,7 @@ const Dashboard: React.FC = () => {
       'WITH_PROVIDER': { color: '#F44336', background: '#FFEBEE', text: 'W/Provider' },
       'WITH_STAFF': { color: '#607D8B', background: '#ECEFF1', text: 'W/Staff' },
       'READY_FOR_STAFF': { color: '#00C853', background: '#E8F5E8', text: 'Ready' },
+      'READY_FOR_PROVIDER': { color: '#00897B', background: '#E0F2F1', text: 'Ready/Provider' },
       'PENDING_COSIGN': { color: '#795548', background: '#EFEBE9', text: 'Pending Cosign' },
       'ARRIVED': { color: '#FF9800', background: '#FFF3E0', text: 'Arrived' }
     } as const;
@@ -189,15 +276,13 @@ const Dashboard: React.FC = () => {
     }
   };
 
-  // Get row styling based on wait time and status only
+  // Get row styling from the wait-time alert the server evaluated for the encounter
   const getRowStyling = (encounter: Encounter) => {
-    const isWaitingTooLong = patientTrackingService.isWaitingTooLong(encounter.arrivalTime);
-    const isDangerStatus = encounter.status === 'CHECKED_IN' || encounter.status === 'WITH_STAFF';
-    const shouldHighlight = isWaitingTooLong && isDangerStatus;
+    const alertColor = patientTrackingService.getAlertColor(encounter.alert?.severity);
     
     return {
       backgroundColor: 'inherit',
-      borderLeft: shouldHighlight ? '5px solid #f44336' : 'none',
+      borderLeft: alertColor ? `5px solid ${alertColor}` : 'none',
       transition: 'all 0.3s ease-in-out',
       '&:hover': {
         backgroundColor: '#f5f5f5'
@@ -211,8 +296,26 @@ const Dashboard: React.FC = () => {
     return firstName[0] + '.' + lastName + (provider.title ? `, ${provider.title.replace('Medical Assistant', 'MA')}` : '');
   };
 
+  const {
+    settings: notificationSettings,
+    isMuted: notificationsMuted,
+    updateSettings: updateNotificationSettings,
+    mute: muteNotifications,
+    unmute: unmuteNotifications
+  } = useEncounterNotifications(encounters, hasLoadedRef.current);
+
+  // Providers on today's board, for the "only my patients" notification filter
+  const boardProviders = Array.from(
+    new Map(
+      encounters
+        .flatMap(encounter => encounter.providers)
+        .filter(provider => provider.role === 'PROVIDER')
+        .map(provider => [provider.id, { id: provider.id, name: provider.name }])
+    ).values()
+  ).sort((a, b) => a.name.localeCompare(b.name));
+
   // Calculate stats from current encounters
-  const dangerCount = encounters.filter(e => patientTrackingService.isWaitingTooLong(e.arrivalTime)).length;
+  const dangerCount = encounters.filter(e => e.alert).length;
   const occupiedRooms = encounters.filter(e => e.room !== 'N/A' && e.room !== 0).length;
 
   return (
@@ -242,7 +345,7 @@ const Dashboard: React.FC = () => {
               color: '#f8fafc',
               letterSpacing: '-0.025em'
             }}>
-              DCC - Flint
+              {selectedClinic?.name || 'Tracking Board'}
               {isUsingMockData && (
                 <Chip 
                   label="DEMO MODE" 
@@ -270,8 +373,10 @@ const Dashboard: React.FC = () => {
               {new Date().toLocaleDateString('en-US', { 
                 weekday: 'long', 
                 month: 'short', 
-                day: 'numeric' 
-              })} • Updated: {lastRefresh.toLocaleTimeString()}
+                day: 'numeric',
+                timeZone: selectedClinic?.timeZone
+              })} • Updated: {lastRefresh.toLocaleTimeString('en-US', { timeZone: selectedClinic?.timeZone })}
+              {streamConnected && ' • Live'}
             </Typography>
           </Box>
         </Box>
@@ -329,7 +434,7 @@ const Dashboard: React.FC = () => {
               textTransform: 'uppercase',
               letterSpacing: '0.05em'
             }}>
-              Waiting &gt;10min
+              Wait Alerts
             </Typography>
           </Box>
           <Box sx={{ 
@@ -361,9 +466,151 @@ const Dashboard: React.FC = () => {
           </Box>
           
           <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
-            <Tooltip title="AI Note Checker">
+            {clinics.length > 1 && selectedClinicId && (
+              <Tooltip title="Switch clinic" placement="left">
+                <Select
+                  value={selectedClinicId}
+                  onChange={(e) => handleClinicChange(e.target.value)}
+                  size="small"
+                  renderValue={() => (
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      <Business sx={{ fontSize: '1.25rem' }} />
+                      {selectedClinic?.name}
+                    </Box>
+                  )}
+                  sx={{ 
+                    color: '#f8fafc',
+                    backgroundColor: '#1a1a1a',
+                    borderRadius: 2,
+                    maxWidth: 280,
+                    '& .MuiOutlinedInput-notchedOutline': {
+                      borderColor: '#2a2a2a'
+                    },
+                    '&:hover .MuiOutlinedInput-notchedOutline': {
+                      borderColor: '#3a3a3a'
+                    },
+                    '& .MuiSelect-icon': {
+                      color: '#94a3b8'
+                    }
+                  }}
+                >
+                  {clinics.map(clinic => (
+                    <MenuItem key={clinic.clinicId} value={clinic.clinicId}>
+                      {clinic.name}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </Tooltip>
+            )}
+            <Tooltip title={
+              !notificationSettings.enabled ? 'Notifications off' : notificationsMuted ? 'Notifications muted' : 'Notifications on'
+            }>
+              <IconButton 
+                onClick={() => setNotificationSettingsOpen(true)}
+                sx={{ 
+                  color: notificationSettings.enabled && !notificationsMuted ? '#fbbf24' : '#f8fafc',
+                  backgroundColor: '#1a1a1a',
+                  border: '1px solid #2a2a2a',
+                  borderRadius: 2,
+                  p: 1.5,
+                  '&:hover': {
+                    backgroundColor: '#2a2a2a',
+                    borderColor: '#3a3a3a'
+                  }
+                }}
+              >
+                {!notificationSettings.enabled ? (
+                  <Notifications sx={{ fontSize: '1.25rem' }} />
+                ) : notificationsMuted ? (
+                  <NotificationsOff sx={{ fontSize: '1.25rem' }} />
+                ) : (
+                  <NotificationsActive sx={{ fontSize: '1.25rem' }} />
+                )}
+              </IconButton>
+            </Tooltip>
+            {hasPermission('analytics:view') && (
+              <Tooltip title="Clinic Flow Analytics">
+                <IconButton 
+                  onClick={() => navigate('/analytics')}
+                  sx={{ 
+                    color: '#f8fafc',
+                    backgroundColor: '#1a1a1a',
+                    border: '1px solid #2a2a2a',
+                    borderRadius: 2,
+                    p: 1.5,
+                    '&:hover': {
+                      backgroundColor: '#2a2a2a',
+                      borderColor: '#3a3a3a'
+                    }
+                  }}
+                >
+                  <Insights sx={{ fontSize: '1.25rem' }} />
+                </IconButton>
+              </Tooltip>
+            )}
+            {hasPermission('notes:view') && (
+              <Tooltip title="AI Note Checker">
+                <IconButton 
+                  onClick={() => navigate('/ai-note-checker')}
+                  sx={{ 
+                    color: '#f8fafc',
+                    backgroundColor: '#1a1a1a',
+                    border: '1px solid #2a2a2a',
+                    borderRadius: 2,
+                    p: 1.5,
+                    '&:hover': {
+                      backgroundColor: '#2a2a2a',
+                      borderColor: '#3a3a3a'
+                    }
+                  }}
+                >
+                  <Psychology sx={{ fontSize: '1.25rem' }} />
+                </IconButton>
+              </Tooltip>
+            )}
+            {hasPermission('audit:view') && (
+              <Tooltip title="Audit Log">
+                <IconButton 
+                  onClick={() => navigate('/audit')}
+                  sx={{ 
+                    color: '#f8fafc',
+                    backgroundColor: '#1a1a1a',
+                    border: '1px solid #2a2a2a',
+                    borderRadius: 2,
+                    p: 1.5,
+                    '&:hover': {
+                      backgroundColor: '#2a2a2a',
+                      borderColor: '#3a3a3a'
+                    }
+                  }}
+                >
+                  <FactCheck sx={{ fontSize: '1.25rem' }} />
+                </IconButton>
+              </Tooltip>
+            )}
+            {hasPermission('admin:manage') && (
+              <Tooltip title="Prompt Templates">
+                <IconButton 
+                  onClick={() => navigate('/admin/prompts')}
+                  sx={{ 
+                    color: '#f8fafc',
+                    backgroundColor: '#1a1a1a',
+                    border: '1px solid #2a2a2a',
+                    borderRadius: 2,
+                    p: 1.5,
+                    '&:hover': {
+                      backgroundColor: '#2a2a2a',
+                      borderColor: '#3a3a3a'
+                    }
+                  }}
+                >
+                  <EditNote sx={{ fontSize: '1.25rem' }} />
+                </IconButton>
+              </Tooltip>
+            )}
+            <Tooltip title="Signed-in Devices">
               <IconButton 
-                onClick={() => navigate('/ai-note-checker')}
+                onClick={() => navigate('/sessions')}
                 sx={{ 
                   color: '#f8fafc',
                   backgroundColor: '#1a1a1a',
@@ -376,7 +623,7 @@ const Dashboard: React.FC = () => {
                   }
                 }}
               >
-                <Psychology sx={{ fontSize: '1.25rem' }} />
+                <Devices sx={{ fontSize: '1.25rem' }} />
               </IconButton>
             </Tooltip>
             <Tooltip title="Refresh">
@@ -472,9 +719,7 @@ const Dashboard: React.FC = () => {
                     </TableRow>
                   ) : (
                     sortedEncounters.slice(0, Math.ceil(sortedEncounters.length / 2)).map((encounter) => {
-                      const isWaitingTooLong = patientTrackingService.isWaitingTooLong(encounter.arrivalTime);
-                      const isDangerStatus = encounter.status === 'CHECKED_IN' || encounter.status === 'WITH_STAFF';
-                      const shouldHighlight = isWaitingTooLong && isDangerStatus;
+                      const alertColor = patientTrackingService.getAlertColor(encounter.alert?.severity);
 
                                      return (
                        <TableRow 
@@ -595,7 +840,7 @@ const Dashboard: React.FC = () => {
                           sx={{
                             fontWeight: 'bold',
                             fontSize: '2rem',
-                            color: shouldHighlight ? 'error.main' : 'text.primary'
+                            color: alertColor || 'text.primary'
                           }}
                         >
                           {patientTrackingService.calculateWaitTime(encounter.arrivalTime)}
@@ -646,9 +891,7 @@ const Dashboard: React.FC = () => {
                 </TableRow>
               ) : (
                 sortedEncounters.slice(Math.ceil(sortedEncounters.length / 2)).map((encounter) => {
-                  const isWaitingTooLong = patientTrackingService.isWaitingTooLong(encounter.arrivalTime);
-                  const isDangerStatus = encounter.status === 'CHECKED_IN' || encounter.status === 'WITH_STAFF';
-                  const shouldHighlight = isWaitingTooLong && isDangerStatus;
+                  const alertColor = patientTrackingService.getAlertColor(encounter.alert?.severity);
 
                   return (
                     <TableRow 
@@ -769,7 +1012,7 @@ const Dashboard: React.FC = () => {
                         sx={{
                           fontWeight: 'bold',
                           fontSize: '2rem',
-                          color: shouldHighlight ? 'error.main' : 'text.primary'
+                          color: alertColor || 'text.primary'
                         }}
                       >
                         {patientTrackingService.calculateWaitTime(encounter.arrivalTime)}
@@ -786,6 +1029,17 @@ const Dashboard: React.FC = () => {
     </Box>
         </Box>
       </Box>
+
+      <NotificationSettingsDialog
+        open={notificationSettingsOpen}
+        onClose={() => setNotificationSettingsOpen(false)}
+        settings={notificationSettings}
+        isMuted={notificationsMuted}
+        providers={boardProviders}
+        onChange={updateNotificationSettings}
+        onMute={muteNotifications}
+        onUnmute={unmuteNotifications}
+      />
     </Box>
   );
 };
@@ -0,0 +1,157 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Box, Typography, Chip, CircularProgress } from '@mui/material';
+import kioskService from '../services/kiosk.service';
+import { KioskBoardResponse, KioskPatientStatus } from '../types/api.types';
+
+const POLL_INTERVAL_MS = 15000;
+// Long lists are shown a page at a time so they stay readable from across the room
+const PAGE_SIZE = 10;
+const PAGE_ROTATE_MS = 10000;
+
+const STATUS_COLORS: Record<KioskPatientStatus, string> = {
+  waiting: '#2196F3',
+  in_room: '#9C27B0',
+  with_provider: '#4CAF50'
+};
+
+const formatWait = (minutes: number | null): string => {
+  if (minutes === null) {
+    return '—';
+  }
+  return minutes === 0 ? 'Any moment' : `~${minutes} min`;
+};
+
+const Kiosk: React.FC = () => {
+  const [hasToken] = useState(() => {
+    kioskService.captureTokenFromUrl();
+    return kioskService.isKioskDevice();
+  });
+  const [board, setBoard] = useState<KioskBoardResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(0);
+  const [now, setNow] = useState(new Date());
+
+  const fetchBoard = useCallback(async () => {
+    try {
+      setBoard(await kioskService.getBoard());
+      setError(null);
+    } catch (err: any) {
+      // Keep showing the last board; the screen recovers on the next poll
+      setError(err.message);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!hasToken) {
+      return;
+    }
+    fetchBoard();
+    const timer = setInterval(fetchBoard, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasToken, fetchBoard]);
+
+  const patients = board?.patients || [];
+  const pageCount = Math.max(1, Math.ceil(patients.length / PAGE_SIZE));
+
+  useEffect(() => {
+    const timer = setInterval(() => setPage(current => (current + 1) % pageCount), PAGE_ROTATE_MS);
+    return () => clearInterval(timer);
+  }, [pageCount]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (!hasToken) {
+    return (
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', minHeight: '100vh', p: 4 }}>
+        <Typography variant="h5" color="text.secondary" textAlign="center">
+          This screen isn't set up as a waiting-room display. Open the kiosk link from your administrator.
+        </Typography>
+      </Box>
+    );
+  }
+
+  const visiblePatients = patients.slice((page % pageCount) * PAGE_SIZE, (page % pageCount + 1) * PAGE_SIZE);
+  const clock = now.toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    ...(board && { timeZone: board.timeZone })
+  });
+
+  return (
+    <Box sx={{ minHeight: '100vh', backgroundColor: '#0f172a', color: 'white', display: 'flex', flexDirection: 'column', p: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', mb: 4 }}>
+        <Typography sx={{ fontSize: '2.5rem', fontWeight: 700 }}>
+          {board?.clinicName || 'Waiting Room'}
+        </Typography>
+        <Typography sx={{ fontSize: '2.5rem', fontWeight: 300 }}>{clock}</Typography>
+      </Box>
+
+      {!board && !error && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 8 }}>
+          <CircularProgress sx={{ color: 'white' }} />
+        </Box>
+      )}
+
+      {!board && error && (
+        <Typography sx={{ fontSize: '1.5rem', color: '#fca5a5', textAlign: 'center', mt: 8 }}>{error}</Typography>
+      )}
+
+      {board && (
+        <Box sx={{ flex: 1 }}>
+          <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1.5fr 1fr', px: 3, pb: 1, color: '#94a3b8', fontSize: '1.25rem' }}>
+            <span>Patient</span>
+            <span>Status</span>
+            <span style={{ textAlign: 'right' }}>Estimated wait</span>
+          </Box>
+
+          {patients.length === 0 && (
+            <Typography sx={{ fontSize: '1.75rem', color: '#94a3b8', textAlign: 'center', mt: 8 }}>
+              No patients waiting
+            </Typography>
+          )}
+
+          {visiblePatients.map((patient, index) => (
+            <Box
+              key={`${page}-${index}`}
+              sx={{
+                display: 'grid',
+                gridTemplateColumns: '1fr 1.5fr 1fr',
+                alignItems: 'center',
+                px: 3,
+                py: 2,
+                mb: 1,
+                borderRadius: 2,
+                backgroundColor: '#1e293b'
+              }}
+            >
+              <Typography sx={{ fontSize: '2rem', fontWeight: 600, letterSpacing: 2 }}>{patient.displayId}</Typography>
+              <Box>
+                <Chip
+                  label={patient.statusLabel}
+                  sx={{ backgroundColor: STATUS_COLORS[patient.status], color: 'white', fontSize: '1.25rem', height: 40, px: 1 }}
+                />
+              </Box>
+              <Typography sx={{ fontSize: '2rem', textAlign: 'right' }}>{formatWait(patient.estimatedWaitMinutes)}</Typography>
+            </Box>
+          ))}
+        </Box>
+      )}
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 3, color: '#94a3b8' }}>
+        <Typography sx={{ fontSize: '1.1rem' }}>
+          Wait times are estimates. Please see the front desk with any questions.
+        </Typography>
+        {pageCount > 1 && (
+          <Typography sx={{ fontSize: '1.1rem' }}>
+            Page {(page % pageCount) + 1} of {pageCount}
+          </Typography>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default Kiosk;
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import authService from '../services/auth.service';
 import {
   Container,
   Paper,
@@ -29,6 +30,7 @@ const Login: React.FC = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [localError, setLocalError] = useState('');
   const [persistentLogin, setPersistentLogin] = useState(true); // Default to true for clinic dashboard
+  const [deviceLabel, setDeviceLabel] = useState(() => authService.getDeviceLabel());
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -40,7 +42,7 @@ const Login: React.FC = () => {
     }
 
     try {
-      await login(username, password, persistentLogin);
+      await login(username, password, persistentLogin, deviceLabel);
       navigate('/dashboard');
     } catch (err: any) {
       console.error('Login failed:', err);
@@ -121,6 +123,20 @@ const Login: React.FC = () => {
               }}
             />
 
+            <TextField
+              margin="normal"
+              fullWidth
+              id="deviceLabel"
+              label="Device name (optional)"
+              name="deviceLabel"
+              placeholder="e.g. Front desk wall display"
+              helperText="Shown on the sessions page so this screen can be recognised"
+              value={deviceLabel}
+              onChange={(e) => setDeviceLabel(e.target.value)}
+              disabled={isLoading}
+              inputProps={{ maxLength: 100 }}
+            />
+
             <FormControlLabel
               control={
                 <Checkbox
@@ -50,16 +50,18 @@ import {
   Block,
   Edit,
   Save,
-  Cancel
+  Cancel,
+  History
 } from '@mui/icons-material';
 import { useNavigate, useParams, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useEncounters } from '../contexts/EncountersContext';
-import aiNoteCheckerService, { NoteCheckResult, AIAnalysisIssue, CareTeamMember, CreatedToDo, InvalidIssue } from '../services/aiNoteChecker.service';
+import aiNoteCheckerService, { NoteCheckResult, AIAnalysisIssue, CareTeamMember, CreatedToDo, InvalidIssue, CheckTypeInfo } from '../services/aiNoteChecker.service';
 import MobileNoteDetailHeader from '../components/MobileNoteDetailHeader';
 import MobileNoteContent from '../components/MobileNoteContent';
 import MobileToDoDialog from '../components/MobileToDoDialog';
 import MobileSignOffDialog from '../components/MobileSignOffDialog';
+import HpiHistoryDialog from '../components/HpiHistoryDialog';
 import useResponsive from '../hooks/useResponsive';
 
 interface NoteData {
@@ -76,6 +78,7 @@ interface NoteData {
 
 interface CachedNoteData {
   progressNoteData: any;
+  noteContentMd5?: string;
   careTeam: CareTeamMember[];
   checkHistory: NoteCheckResult[];
   createdTodos: CreatedToDo[];
@@ -87,7 +90,9 @@ const NoteDetail: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const { user } = useAuth();
+  const { user, hasPermission } = useAuth();
+  const canReviewNotes = hasPermission('notes:review');
+  const canSignNotes = hasPermission('notes:sign');
   const { encounters: allEncounters, loading: encountersLoading } = useEncounters();
   const { isMobile, isDesktop } = useResponsive();
 
@@ -112,6 +117,15 @@ const NoteDetail: React.FC = () => {
   const [editingHPI, setEditingHPI] = useState<{ sectionIndex: number; itemIndex: number } | null>(null);
   const [hpiEditText, setHpiEditText] = useState('');
   const [savingHPI, setSavingHPI] = useState(false);
+  const [showHPIHistory, setShowHPIHistory] = useState(false);
+  const [checkTypes, setCheckTypes] = useState<CheckTypeInfo[]>([]);
+
+  // Fetch the check types issues are labeled and colored by
+  useEffect(() => {
+    aiNoteCheckerService.getCheckTypes()
+      .then(setCheckTypes)
+      .catch(error => console.error('Failed to get check types:', error));
+  }, []);
 
   // Fetch current user's provider ID
   useEffect(() => {
@@ -210,6 +224,7 @@ const NoteDetail: React.FC = () => {
       // Cache the data
       setNoteDataCache(prev => new Map(prev).set(encounterId, {
         progressNoteData: noteResponse.progressNote,
+        noteContentMd5: noteResponse.noteContentMd5,
         careTeam: noteResponse.careTeam,
         checkHistory: history,
         createdTodos: todos,
@@ -371,7 +386,7 @@ const NoteDetail: React.FC = () => {
 
   // Check if the note can be signed off (no valid issues and user is attending provider)
   const canSignOffNote = (): boolean => {
-    if (!isAttendingProvider()) return false;
+    if (!canSignNotes || !isAttendingProvider()) return false;
     
     // Check if there are any valid issues in the latest check
     const latestCheck = checkHistory.find(check => check.status === 'completed');
@@ -455,6 +470,7 @@ const NoteDetail: React.FC = () => {
         if (existing) {
           newCache.set(currentNote.encounterId, {
             progressNoteData: existing.progressNoteData,
+            noteContentMd5: existing.noteContentMd5,
             careTeam: existing.careTeam,
             checkHistory: existing.checkHistory,
             createdTodos: existing.createdTodos,
@@ -483,6 +499,7 @@ const NoteDetail: React.FC = () => {
         if (existing) {
           newCache.set(currentNote.encounterId, {
             progressNoteData: existing.progressNoteData,
+            noteContentMd5: existing.noteContentMd5,
             careTeam: existing.careTeam,
             checkHistory: existing.checkHistory,
             createdTodos: existing.createdTodos,
@@ -533,10 +550,17 @@ const NoteDetail: React.FC = () => {
 
   const handleSaveHPI = async () => {
     if (!currentNote || !editingHPI) return;
+
+    // The MD5 of the note as loaded, so an edit made in EZDerm meanwhile isn't overwritten
+    const expectedMd5 = currentNoteData?.noteContentMd5;
+    if (!expectedMd5) {
+      setError('The note has not finished loading. Try saving again in a moment.');
+      return;
+    }
     
     setSavingHPI(true);
     try {
-      await aiNoteCheckerService.modifyHPI(currentNote.encounterId, currentNote.patientId, hpiEditText);
+      await aiNoteCheckerService.modifyHPI(currentNote.encounterId, currentNote.patientId, hpiEditText, expectedMd5);
       
       // Refresh the note data to show the updated HPI
       refreshNoteData();
@@ -558,24 +582,12 @@ const NoteDetail: React.FC = () => {
 
   // Render individual issues with invalid marking functionality
   const renderIssuesDetails = (issues: AIAnalysisIssue[], checkId: number) => {
-    const issueTypeMap: { [key: string]: string } = {
-      'no_explicit_plan': 'Missing Explicit Plan',
-      'chronicity_mismatch': 'Chronicity Mismatch', 
-      'unclear_documentation': 'Unclear Documentation',
-      'chief_complaint_structure': 'Chief Complaint Structure'
-    };
-
-    const issueColors: { [key: string]: "error" | "warning" | "info" | "secondary" | "default" } = {
-      'no_explicit_plan': 'error',
-      'chronicity_mismatch': 'warning',
-      'unclear_documentation': 'info',
-      'chief_complaint_structure': 'secondary'
-    };
-
     return (
       <Box sx={{ mt: 1 }}>
         {issues.map((issue, index) => {
           const isInvalid = isIssueMarkedInvalid(checkId, index);
+          const { label, checkType } = aiNoteCheckerService.describeIssue(checkTypes, issue.issue);
+          const color = aiNoteCheckerService.getSeverityColor(checkType?.severity);
           
           return (
             <Box 
@@ -584,7 +596,7 @@ const NoteDetail: React.FC = () => {
                 mb: 2, 
                 p: 2, 
                 border: 1, 
-                borderColor: isInvalid ? 'action.disabled' : issueColors[issue.issue] + '.main',
+                borderColor: isInvalid || color === 'default' ? 'action.disabled' : `${color}.main`,
                 borderRadius: 1,
                 bgcolor: isInvalid ? 'action.hover' : 'background.paper',
                 opacity: isInvalid ? 0.6 : 1
@@ -592,10 +604,17 @@ const NoteDetail: React.FC = () => {
             >
               <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
                 <Chip
-                  label={issueTypeMap[issue.issue] || issue.issue}
-                  color={isInvalid ? 'default' : (issueColors[issue.issue] || 'default')}
+                  label={label}
+                  color={isInvalid ? 'default' : color}
                   size="small"
                 />
+                {checkType && (
+                  <Tooltip title={checkType.description}>
+                    <Typography variant="caption" color="text.secondary">
+                      {checkType.label} check
+                    </Typography>
+                  </Tooltip>
+                )}
                 {isInvalid && (
                   <Chip
                     label="Invalid"
@@ -624,29 +643,31 @@ const NoteDetail: React.FC = () => {
                 <strong>Correction:</strong> {issue.details.correction}
               </Typography>
 
-              <Box sx={{ display: 'flex', gap: 1 }}>
-                {!isInvalid ? (
-                  <Button
-                    size="small"
-                    variant="outlined"
-                    color="error"
-                    startIcon={<Block />}
-                    onClick={() => markIssueAsInvalid(checkId, index, issue)}
-                  >
-                    Mark as Invalid
-                  </Button>
-                ) : (
-                  <Button
-                    size="small"
-                    variant="outlined"
-                    color="success"
-                    startIcon={<CheckCircle />}
-                    onClick={() => unmarkIssueAsInvalid(checkId, index)}
-                  >
-                    Mark as Valid
-                  </Button>
-                )}
-              </Box>
+              {canReviewNotes && (
+                <Box sx={{ display: 'flex', gap: 1 }}>
+                  {!isInvalid ? (
+                    <Button
+                      size="small"
+                      variant="outlined"
+                      color="error"
+                      startIcon={<Block />}
+                      onClick={() => markIssueAsInvalid(checkId, index, issue)}
+                    >
+                      Mark as Invalid
+                    </Button>
+                  ) : (
+                    <Button
+                      size="small"
+                      variant="outlined"
+                      color="success"
+                      startIcon={<CheckCircle />}
+                      onClick={() => unmarkIssueAsInvalid(checkId, index)}
+                    >
+                      Mark as Valid
+                    </Button>
+                  )}
+                </Box>
+              )}
             </Box>
           );
         })}
@@ -925,8 +946,8 @@ const NoteDetail: React.FC = () => {
                                 position: 'relative'
                               }}
                             >
-                              {/* Edit button for HPI sections */}
-                              {item.elementType === 'HISTORY_OF_PRESENT_ILLNESS' && !noteSignedOff && (
+                              {/* Edit and history buttons for HPI sections */}
+                              {item.elementType === 'HISTORY_OF_PRESENT_ILLNESS' && (
                                 <Box sx={{ 
                                   position: 'absolute', 
                                   top: 8, 
@@ -969,19 +990,36 @@ const NoteDetail: React.FC = () => {
                                       </Tooltip>
                                     </Stack>
                                   ) : (
-                                    <Tooltip title="Edit HPI">
-                                      <IconButton
-                                        size="small"
-                                        onClick={() => handleEditHPI(index, itemIndex, item.note)}
-                                        sx={{
-                                          backgroundColor: '#3b82f6',
-                                          color: 'white',
-                                          '&:hover': { backgroundColor: '#2563eb' }
-                                        }}
-                                      >
-                                        <Edit sx={{ fontSize: '1rem' }} />
-                                      </IconButton>
-                                    </Tooltip>
+                                    <Stack direction="row" spacing={1}>
+                                      <Tooltip title="HPI history">
+                                        <IconButton
+                                          size="small"
+                                          onClick={() => setShowHPIHistory(true)}
+                                          sx={{
+                                            backgroundColor: '#f1f5f9',
+                                            color: '#475569',
+                                            '&:hover': { backgroundColor: '#e2e8f0' }
+                                          }}
+                                        >
+                                          <History sx={{ fontSize: '1rem' }} />
+                                        </IconButton>
+                                      </Tooltip>
+                                      {!noteSignedOff && canSignNotes && (
+                                        <Tooltip title="Edit HPI">
+                                          <IconButton
+                                            size="small"
+                                            onClick={() => handleEditHPI(index, itemIndex, item.note)}
+                                            sx={{
+                                              backgroundColor: '#3b82f6',
+                                              color: 'white',
+                                              '&:hover': { backgroundColor: '#2563eb' }
+                                            }}
+                                          >
+                                            <Edit sx={{ fontSize: '1rem' }} />
+                                          </IconButton>
+                                        </Tooltip>
+                                      )}
+                                    </Stack>
                                   )}
                                 </Box>
                               )}
@@ -1010,7 +1048,7 @@ const NoteDetail: React.FC = () => {
                                     lineHeight: 1.8,
                                     whiteSpace: 'pre-wrap',
                                     fontFamily: 'system-ui, -apple-system, sans-serif',
-                                    pr: item.elementType === 'HISTORY_OF_PRESENT_ILLNESS' && !noteSignedOff ? 6 : 0
+                                    pr: item.elementType === 'HISTORY_OF_PRESENT_ILLNESS' ? (!noteSignedOff && canSignNotes ? 11 : 6) : 0
                                   }}
                                 >
                                   {item.note}
@@ -1059,6 +1097,7 @@ const NoteDetail: React.FC = () => {
         if (existing) {
           newCache.set(currentNote.encounterId, {
             progressNoteData: existing.progressNoteData,
+            noteContentMd5: existing.noteContentMd5,
             careTeam: existing.careTeam,
             checkHistory: newHistory,
             createdTodos: existing.createdTodos,
@@ -1133,6 +1172,7 @@ const NoteDetail: React.FC = () => {
           if (existing) {
             newCache.set(currentNote.encounterId, {
               progressNoteData: existing.progressNoteData,
+              noteContentMd5: existing.noteContentMd5,
               careTeam: existing.careTeam,
               checkHistory: newHistory,
               createdTodos: newTodos,
@@ -1156,7 +1196,7 @@ const NoteDetail: React.FC = () => {
   };
 
   const getStatusIcon = (result: NoteCheckResult) => {
-    if (result.status === 'error') {
+    if (result.status === 'error' || result.status === 'parse_failed') {
       return <ErrorIcon color="error" />;
     }
     if (result.issuesFound) {
@@ -1210,7 +1250,7 @@ const NoteDetail: React.FC = () => {
         }}
         onPrevious={handlePreviousNote}
         onNext={handleNextNote}
-        onRunCheck={handleCheckNote}
+        onRunCheck={canReviewNotes ? handleCheckNote : undefined}
         onCreateToDo={() => {
           setShowToDoModal(true);
           setModalState('preview');
@@ -1222,11 +1262,11 @@ const NoteDetail: React.FC = () => {
         checking={checking}
         loading={loading}
         forceNewCheck={forceNewCheck}
-        onForceNewCheckChange={setForceNewCheck}
+        onForceNewCheckChange={canReviewNotes ? setForceNewCheck : undefined}
         todoCreated={createdTodos.length > 0}
         todoCount={createdTodos.length}
         canSignOff={canSignOffNote()}
-        canCreateToDo={checkHistory.some(check => check.issuesFound) && createdTodos.length === 0}
+        canCreateToDo={canReviewNotes && checkHistory.some(check => check.issuesFound) && createdTodos.length === 0}
       />
 
       {/* Desktop Header - only show on desktop */}
@@ -1421,66 +1461,70 @@ const NoteDetail: React.FC = () => {
           justifyContent: 'flex-end',
           minWidth: '450px'
         }}>
-          <Tooltip title="Run AI analysis on this note">
-            <Button
-              variant="contained"
-              startIcon={checking ? <CircularProgress size={16} color="inherit" /> : <Psychology />}
-              onClick={handleCheckNote}
-              disabled={checking}
-              sx={{
-                backgroundColor: '#3b82f6',
-                color: 'white',
-                border: '1px solid #2563eb',
-                borderRadius: 2,
-                px: 3,
-                py: 1,
-                fontWeight: 600,
-                fontSize: '0.875rem',
-                '&:hover': {
-                  backgroundColor: '#2563eb',
-                  borderColor: '#1d4ed8'
-                },
-                '&:disabled': {
-                  backgroundColor: '#64748b',
-                  borderColor: '#475569',
-                  color: '#e2e8f0'
-                }
-              }}
-            >
-              {checking 
-                ? 'Analyzing...' 
-                : forceNewCheck 
-                  ? 'Force New Check' 
-                  : 'Run AI Check'
-              }
-            </Button>
-          </Tooltip>
-          
-          <Tooltip title="Bypass duplicate detection and run fresh analysis">
-            <FormControlLabel
-              control={
-                <Checkbox
-                  checked={forceNewCheck}
-                  onChange={(e) => setForceNewCheck(e.target.checked)}
-                  size="small"
+          {canReviewNotes && (
+            <>
+              <Tooltip title="Run AI analysis on this note">
+                <Button
+                  variant="contained"
+                  startIcon={checking ? <CircularProgress size={16} color="inherit" /> : <Psychology />}
+                  onClick={handleCheckNote}
+                  disabled={checking}
+                  sx={{
+                    backgroundColor: '#3b82f6',
+                    color: 'white',
+                    border: '1px solid #2563eb',
+                    borderRadius: 2,
+                    px: 3,
+                    py: 1,
+                    fontWeight: 600,
+                    fontSize: '0.875rem',
+                    '&:hover': {
+                      backgroundColor: '#2563eb',
+                      borderColor: '#1d4ed8'
+                    },
+                    '&:disabled': {
+                      backgroundColor: '#64748b',
+                      borderColor: '#475569',
+                      color: '#e2e8f0'
+                    }
+                  }}
+                >
+                  {checking 
+                    ? 'Analyzing...' 
+                    : forceNewCheck 
+                      ? 'Force New Check' 
+                      : 'Run AI Check'
+                  }
+                </Button>
+              </Tooltip>
+
+              <Tooltip title="Bypass duplicate detection and run fresh analysis">
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      checked={forceNewCheck}
+                      onChange={(e) => setForceNewCheck(e.target.checked)}
+                      size="small"
+                      sx={{ 
+                        color: '#94a3b8', 
+                        '&.Mui-checked': { color: '#3b82f6' },
+                        '&:hover': { backgroundColor: 'rgba(59, 130, 246, 0.1)' }
+                      }}
+                    />
+                  }
+                  label="Force New"
                   sx={{ 
-                    color: '#94a3b8', 
-                    '&.Mui-checked': { color: '#3b82f6' },
-                    '&:hover': { backgroundColor: 'rgba(59, 130, 246, 0.1)' }
+                    color: '#e2e8f0', 
+                    fontSize: '0.85rem',
+                    fontWeight: 500,
+                    '& .MuiFormControlLabel-label': { fontSize: '0.85rem' }
                   }}
                 />
-              }
-              label="Force New"
-              sx={{ 
-                color: '#e2e8f0', 
-                fontSize: '0.85rem',
-                fontWeight: 500,
-                '& .MuiFormControlLabel-label': { fontSize: '0.85rem' }
-              }}
-            />
-          </Tooltip>
+              </Tooltip>
+            </>
+          )}
           
-          {checkHistory.some(check => check.issuesFound) && (
+          {canReviewNotes && checkHistory.some(check => check.issuesFound) && (
             createdTodos.length > 0 ? (
               <Chip
                 icon={<CheckCircle />}
@@ -1630,17 +1674,19 @@ const NoteDetail: React.FC = () => {
           checkHistory={checkHistory}
           createdTodos={createdTodos}
           invalidIssues={invalidIssues}
+          checkTypes={checkTypes}
           loading={loading}
           noteSignedOff={noteSignedOff}
           editingHPI={editingHPI}
           hpiEditText={hpiEditText}
           savingHPI={savingHPI}
-          onEditHPI={handleEditHPI}
+          onEditHPI={canSignNotes ? handleEditHPI : undefined}
           onSaveHPI={handleSaveHPI}
           onCancelHPIEdit={handleCancelHPIEdit}
           onHPITextChange={setHpiEditText}
-          onMarkIssueInvalid={markIssueAsInvalid}
-          onUnmarkIssueInvalid={unmarkIssueAsInvalid}
+          onShowHPIHistory={() => setShowHPIHistory(true)}
+          onMarkIssueInvalid={canReviewNotes ? markIssueAsInvalid : undefined}
+          onUnmarkIssueInvalid={canReviewNotes ? unmarkIssueAsInvalid : undefined}
         />
       ) : (
         /* Desktop Content */
@@ -1972,8 +2018,8 @@ const NoteDetail: React.FC = () => {
                         <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
                           {getStatusIcon(result)}
                           <Chip
-                            label={hasValidIssues(result) ? 'Issues Found' : result.status === 'error' ? 'Error' : 'Clean'}
-                            color={hasValidIssues(result) ? 'error' : result.status === 'error' ? 'error' : 'success'}
+                            label={hasValidIssues(result) ? 'Issues Found' : result.status === 'error' ? 'Error' : result.status === 'parse_failed' ? 'Parse Failed' : 'Clean'}
+                            color={hasValidIssues(result) ? 'error' : result.status === 'error' || result.status === 'parse_failed' ? 'error' : 'success'}
                             size="small"
                           />
                           <Typography variant="caption" color="text.secondary" sx={{ ml: 'auto' }}>
@@ -1985,7 +2031,13 @@ const NoteDetail: React.FC = () => {
                           by {result.checkedBy}
                         </Typography>
 
-                        {result.status === 'error' && result.errorMessage && (
+                        {result.checkRuns && result.checkRuns.length > 0 && (
+                          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1, fontFamily: 'monospace' }}>
+                            {aiNoteCheckerService.formatCheckRuns(result.checkRuns)}
+                          </Typography>
+                        )}
+
+                        {(result.status === 'error' || result.status === 'parse_failed') && result.errorMessage && (
                           <Alert severity="error" sx={{ mt: 1, fontSize: '0.75rem' }}>
                             {result.errorMessage}
                           </Alert>
@@ -2065,6 +2117,7 @@ const NoteDetail: React.FC = () => {
           setModalError(null);
         }}
         loading={modalState === 'loading'}
+        checkTypes={checkTypes}
       />
 
       {/* Sign Off Confirmation Modal */}
@@ -2076,6 +2129,16 @@ const NoteDetail: React.FC = () => {
         dateOfService={currentNote.dateOfService}
         signingOff={signingOff}
       />
+
+      <HpiHistoryDialog
+        open={showHPIHistory}
+        onClose={() => setShowHPIHistory(false)}
+        onReverted={refreshNoteData}
+        encounterId={currentNote.encounterId}
+        patientId={currentNote.patientId}
+        noteContentMd5={currentNoteData?.noteContentMd5}
+        canRevert={canSignNotes && !noteSignedOff}
+      />
     </Box>
   );
 };
@@ -0,0 +1,350 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Alert,
+  Tooltip,
+  IconButton,
+  CircularProgress,
+  Chip,
+  Button,
+  TextField,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell
+} from '@mui/material';
+import {
+  ArrowBack,
+  EditNote,
+  Edit,
+  PushPin,
+  Refresh,
+  Save
+} from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
+import promptsService from '../services/prompts.service';
+import { PromptTemplateSummary, PromptTemplateVersion } from '../types/api.types';
+
+const formatTime = (timestamp: string): string => {
+  return new Date(timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' });
+};
+
+const PromptTemplates: React.FC = () => {
+  const [templates, setTemplates] = useState<PromptTemplateSummary[]>([]);
+  const [selectedCheck, setSelectedCheck] = useState<string | null>(null);
+  const [versions, setVersions] = useState<PromptTemplateVersion[]>([]);
+  const [draft, setDraft] = useState('');
+  const [draftBase, setDraftBase] = useState<number | null>(null);
+  const [changeNote, setChangeNote] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const navigate = useNavigate();
+  const selected = templates.find(template => template.checkType === selectedCheck);
+  // New versions go on top of the newest one loaded; the server refuses the save if another has been saved since
+  const latestLoaded = versions[0]?.versionNumber ?? 0;
+
+  const fetchTemplates = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const loaded = await promptsService.getTemplates();
+      setTemplates(loaded);
+      setSelectedCheck(prev => prev ?? loaded[0]?.checkType ?? null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchVersions = useCallback(async (checkType: string) => {
+    try {
+      const loaded = await promptsService.getVersions(checkType);
+      setVersions(loaded);
+      // Start editing from the newest version
+      setDraft(loaded[0]?.content || '');
+      setDraftBase(loaded[0]?.versionNumber ?? null);
+      setChangeNote('');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  useEffect(() => {
+    if (selectedCheck) {
+      fetchVersions(selectedCheck);
+    }
+  }, [selectedCheck, fetchVersions]);
+
+  const handleEditFrom = (version: PromptTemplateVersion) => {
+    setDraft(version.content);
+    setDraftBase(version.versionNumber);
+  };
+
+  const handleSave = async () => {
+    if (!selectedCheck) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const version = await promptsService.saveVersion(selectedCheck, draft, changeNote.trim(), latestLoaded);
+      setSuccess(`Saved ${selectedCheck} v${version.versionNumber}${selected?.pinnedVersion !== undefined ? `. It stays pinned to v${selected.pinnedVersion} until you pin the new version.` : '. The next note checked uses it.'}`);
+      await Promise.all([fetchTemplates(), fetchVersions(selectedCheck)]);
+    } catch (err: any) {
+      setError(err.message);
+      // Show any version saved in the meantime, keeping the draft so it can be saved on top
+      promptsService.getVersions(selectedCheck).then(setVersions).catch(() => undefined);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePin = async (versionNumber: number | null) => {
+    if (!selectedCheck) {
+      return;
+    }
+
+    setError(null);
+    try {
+      await promptsService.pinVersion(selectedCheck, versionNumber);
+      setSuccess(versionNumber === null ? `${selectedCheck} now runs its latest version` : `${selectedCheck} pinned to v${versionNumber}`);
+      await fetchTemplates();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const unchanged = draft === versions.find(version => version.versionNumber === draftBase)?.content;
+
+  return (
+    <Box sx={{ minHeight: '100vh', display: 'flex', flexDirection: 'column', backgroundColor: '#f5f5f5' }}>
+      {/* Header */}
+      <Box sx={{
+        backgroundColor: '#0a0a0a',
+        color: 'white',
+        px: 3,
+        py: 1.5,
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06)',
+        borderBottom: '1px solid #1a1a1a'
+      }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <IconButton
+            onClick={() => navigate('/dashboard')}
+            sx={{
+              color: '#f8fafc',
+              '&:hover': { backgroundColor: 'rgba(255,255,255,0.1)' }
+            }}
+          >
+            <ArrowBack />
+          </IconButton>
+          <EditNote sx={{ fontSize: '2rem', color: '#f8fafc' }} />
+          <Box>
+            <Typography variant="h5" sx={{
+              fontWeight: 600,
+              lineHeight: 1.2,
+              color: '#f8fafc',
+              letterSpacing: '-0.025em'
+            }}>
+              Prompt Templates
+            </Typography>
+            <Typography variant="body2" sx={{ opacity: 0.8, color: '#e2e8f0', fontSize: '0.875rem' }}>
+              The prompts the AI note checks run with
+            </Typography>
+          </Box>
+        </Box>
+        <Tooltip title="Refresh">
+          <span>
+            <IconButton
+              onClick={fetchTemplates}
+              disabled={loading}
+              sx={{
+                color: '#f8fafc',
+                backgroundColor: '#1a1a1a',
+                border: '1px solid #2a2a2a',
+                borderRadius: 2,
+                p: 1.5,
+                '&:hover': {
+                  backgroundColor: '#2a2a2a',
+                  borderColor: '#3a3a3a'
+                },
+                '&:disabled': {
+                  color: '#64748b',
+                  backgroundColor: '#0f0f0f',
+                  borderColor: '#1a1a1a'
+                }
+              }}
+            >
+              {loading ? (
+                <CircularProgress size={20} sx={{ color: '#f8fafc' }} />
+              ) : (
+                <Refresh sx={{ fontSize: '1.25rem' }} />
+              )}
+            </IconButton>
+          </span>
+        </Tooltip>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mx: 3, mt: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {success && (
+        <Alert severity="success" sx={{ mx: 3, mt: 2 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      <Paper sx={{ mx: 3, mt: 2, overflow: 'auto' }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow sx={{ '& th': { backgroundColor: '#f8f9fa', fontWeight: 'bold' } }}>
+              <TableCell>Check</TableCell>
+              <TableCell>Running</TableCell>
+              <TableCell>Latest</TableCell>
+              <TableCell>Model</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {templates.map(template => (
+              <TableRow
+                key={template.checkType}
+                hover
+                selected={template.checkType === selectedCheck}
+                onClick={() => setSelectedCheck(template.checkType)}
+                sx={{ cursor: 'pointer' }}
+              >
+                <TableCell sx={{ fontWeight: 600 }}>{template.checkType}</TableCell>
+                <TableCell>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    v{template.activeVersion}
+                    {template.pinnedVersion !== undefined && (
+                      <Chip icon={<PushPin />} label="Pinned" size="small" color="warning" variant="outlined" />
+                    )}
+                  </Box>
+                </TableCell>
+                <TableCell>v{template.latestVersion}</TableCell>
+                <TableCell>{template.model.provider}:{template.model.model}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Paper>
+
+      {selected && (
+        <Box sx={{ display: 'flex', flexDirection: { xs: 'column', md: 'row' }, gap: 2, m: 3 }}>
+          <Paper sx={{ flex: 1, overflow: 'auto' }}>
+            <Box sx={{ p: 2, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+                Versions
+              </Typography>
+              {selected.pinnedVersion !== undefined && (
+                <Button size="small" onClick={() => handlePin(null)}>
+                  Unpin (run latest)
+                </Button>
+              )}
+            </Box>
+            <Table size="small">
+              <TableHead>
+                <TableRow sx={{ '& th': { backgroundColor: '#f8f9fa', fontWeight: 'bold' } }}>
+                  <TableCell>Version</TableCell>
+                  <TableCell>Change</TableCell>
+                  <TableCell>Saved</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {versions.map(version => (
+                  <TableRow key={version.id} selected={version.versionNumber === draftBase}>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        v{version.versionNumber}
+                        {version.versionNumber === selected.activeVersion && <Chip label="Running" size="small" color="success" />}
+                      </Box>
+                    </TableCell>
+                    <TableCell>{version.changeNote || '—'}</TableCell>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                      <Typography variant="body2">{formatTime(version.createdAt)}</Typography>
+                      <Typography variant="caption" color="text.secondary">{version.createdBy || 'unknown'}</Typography>
+                    </TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      <Tooltip title="Edit from this version">
+                        <IconButton size="small" onClick={() => handleEditFrom(version)}>
+                          <Edit sx={{ fontSize: '1rem' }} />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Pin this version">
+                        <span>
+                          <IconButton
+                            size="small"
+                            onClick={() => handlePin(version.versionNumber)}
+                            disabled={version.versionNumber === selected.pinnedVersion}
+                          >
+                            <PushPin sx={{ fontSize: '1rem' }} />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Paper>
+
+          <Paper sx={{ flex: 2, p: 2, display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+              {draftBase !== null ? `Editing from v${draftBase}` : 'New prompt'}
+            </Typography>
+            <TextField
+              multiline
+              fullWidth
+              minRows={16}
+              maxRows={32}
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              slotProps={{ htmlInput: { style: { fontFamily: 'monospace', fontSize: '0.8rem' } } }}
+            />
+            <TextField
+              fullWidth
+              size="small"
+              label="Change note"
+              placeholder="What changed and why"
+              value={changeNote}
+              onChange={(e) => setChangeNote(e.target.value)}
+              slotProps={{ htmlInput: { maxLength: 500 } }}
+            />
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+              <Button
+                variant="contained"
+                onClick={handleSave}
+                disabled={saving || unchanged || !draft.trim() || !changeNote.trim()}
+                startIcon={saving ? <CircularProgress size={16} color="inherit" /> : <Save />}
+              >
+                Save as v{latestLoaded + 1}
+              </Button>
+            </Box>
+          </Paper>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default PromptTemplates;
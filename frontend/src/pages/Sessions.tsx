@@ -0,0 +1,353 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Alert,
+  Tooltip,
+  IconButton,
+  CircularProgress,
+  Chip,
+  Button,
+  TextField,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  ToggleButton,
+  ToggleButtonGroup
+} from '@mui/material';
+import {
+  ArrowBack,
+  Devices,
+  Edit,
+  Logout,
+  PowerSettingsNew,
+  Refresh
+} from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import sessionsService from '../services/sessions.service';
+import { UserSession } from '../types/api.types';
+
+type SessionScope = 'mine' | 'all';
+
+// Short "Chrome on Windows" style description of a user agent
+const describeUserAgent = (userAgent?: string): string => {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const os = /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'unknown OS';
+
+  return `${browser} on ${os}`;
+};
+
+const formatTime = (timestamp: string): string => {
+  return new Date(timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+};
+
+const Sessions: React.FC = () => {
+  const [scope, setScope] = useState<SessionScope>('mine');
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [editingSession, setEditingSession] = useState<UserSession | null>(null);
+  const [labelText, setLabelText] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const { user, logout, hasPermission } = useAuth();
+  const navigate = useNavigate();
+  const isAdmin = hasPermission('admin:manage');
+
+  const fetchSessions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setSessions(scope === 'all' ? await sessionsService.getAllSessions() : await sessionsService.getMySessions());
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [scope]);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const handleEditLabel = (session: UserSession) => {
+    setEditingSession(session);
+    setLabelText(session.deviceLabel || '');
+  };
+
+  const handleSaveLabel = async () => {
+    if (!editingSession) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const updated = await sessionsService.setDeviceLabel(editingSession, labelText);
+      setSessions(prev => prev.map(session => session.id === updated.id ? { ...session, deviceLabel: updated.deviceLabel } : session));
+      setEditingSession(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (session: UserSession) => {
+    const name = session.deviceLabel || describeUserAgent(session.userAgent);
+    const prompt = session.current
+      ? 'This is the session you are using now. Revoking it signs you out. Continue?'
+      : `Sign out "${name}"${session.username !== user?.username ? ` (${session.username})` : ''}?`;
+    if (!window.confirm(prompt)) {
+      return;
+    }
+
+    try {
+      await sessionsService.revokeSession(session.id);
+      if (session.current) {
+        await logout();
+        navigate('/login');
+        return;
+      }
+
+      setSessions(prev => prev.filter(candidate => candidate.id !== session.id));
+      setSuccess(`Signed out ${name}`);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleLogoutUser = async (username: string) => {
+    if (!window.confirm(`Sign ${username} out of every device?`)) {
+      return;
+    }
+
+    try {
+      const revoked = await sessionsService.logoutUser(username);
+      setSessions(prev => prev.filter(session => session.username !== username));
+      setSuccess(`Signed ${username} out of ${revoked} session${revoked === 1 ? '' : 's'}`);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <Box sx={{ minHeight: '100vh', display: 'flex', flexDirection: 'column', backgroundColor: '#f5f5f5' }}>
+      {/* Header */}
+      <Box sx={{
+        backgroundColor: '#0a0a0a',
+        color: 'white',
+        px: 3,
+        py: 1.5,
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06)',
+        borderBottom: '1px solid #1a1a1a'
+      }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <IconButton
+            onClick={() => navigate('/dashboard')}
+            sx={{
+              color: '#f8fafc',
+              '&:hover': { backgroundColor: 'rgba(255,255,255,0.1)' }
+            }}
+          >
+            <ArrowBack />
+          </IconButton>
+          <Devices sx={{ fontSize: '2rem', color: '#f8fafc' }} />
+          <Box>
+            <Typography variant="h5" sx={{
+              fontWeight: 600,
+              lineHeight: 1.2,
+              color: '#f8fafc',
+              letterSpacing: '-0.025em'
+            }}>
+              Signed-in Devices
+            </Typography>
+            <Typography variant="body2" sx={{ opacity: 0.8, color: '#e2e8f0', fontSize: '0.875rem' }}>
+              {sessions.length} active session{sessions.length === 1 ? '' : 's'}
+            </Typography>
+          </Box>
+        </Box>
+        <Tooltip title="Refresh">
+          <span>
+            <IconButton
+              onClick={fetchSessions}
+              disabled={loading}
+              sx={{
+                color: '#f8fafc',
+                backgroundColor: '#1a1a1a',
+                border: '1px solid #2a2a2a',
+                borderRadius: 2,
+                p: 1.5,
+                '&:hover': {
+                  backgroundColor: '#2a2a2a',
+                  borderColor: '#3a3a3a'
+                },
+                '&:disabled': {
+                  color: '#64748b',
+                  backgroundColor: '#0f0f0f',
+                  borderColor: '#1a1a1a'
+                }
+              }}
+            >
+              {loading ? (
+                <CircularProgress size={20} sx={{ color: '#f8fafc' }} />
+              ) : (
+                <Refresh sx={{ fontSize: '1.25rem' }} />
+              )}
+            </IconButton>
+          </span>
+        </Tooltip>
+      </Box>
+
+      {isAdmin && (
+        <Paper sx={{ mx: 3, mt: 2, p: 2 }}>
+          <ToggleButtonGroup
+            value={scope}
+            exclusive
+            size="small"
+            onChange={(_, value) => value && setScope(value)}
+          >
+            <ToggleButton value="mine">My devices</ToggleButton>
+            <ToggleButton value="all">All users</ToggleButton>
+          </ToggleButtonGroup>
+        </Paper>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mx: 3, mt: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {success && (
+        <Alert severity="success" sx={{ mx: 3, mt: 2 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      <Paper sx={{ m: 3, overflow: 'auto' }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow sx={{ '& th': { backgroundColor: '#f8f9fa', fontWeight: 'bold' } }}>
+              {scope === 'all' && <TableCell>User</TableCell>}
+              <TableCell>Device</TableCell>
+              <TableCell>IP Address</TableCell>
+              <TableCell>Signed In</TableCell>
+              <TableCell>Last Active</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {sessions.map(session => (
+              <TableRow key={session.id} hover>
+                {scope === 'all' && (
+                  <TableCell>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      {session.username}
+                      {session.username !== user?.username && (
+                        <Tooltip title={`Sign ${session.username} out everywhere`}>
+                          <IconButton size="small" onClick={() => handleLogoutUser(session.username)}>
+                            <Logout sx={{ fontSize: '1rem' }} />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                    </Box>
+                  </TableCell>
+                )}
+                <TableCell>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <Box>
+                      <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                        {session.deviceLabel || describeUserAgent(session.userAgent)}
+                      </Typography>
+                      {session.deviceLabel && (
+                        <Typography variant="caption" color="text.secondary">
+                          {describeUserAgent(session.userAgent)}
+                        </Typography>
+                      )}
+                    </Box>
+                    {session.current && <Chip label="This device" size="small" color="primary" />}
+                  </Box>
+                </TableCell>
+                <TableCell>{session.ipAddress || '—'}</TableCell>
+                <TableCell>{formatTime(session.createdAt)}</TableCell>
+                <TableCell>{formatTime(session.lastAccessed)}</TableCell>
+                <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                  <Tooltip title="Name this device">
+                    <IconButton size="small" onClick={() => handleEditLabel(session)}>
+                      <Edit sx={{ fontSize: '1rem' }} />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title={session.current ? 'Sign out here' : 'Sign out this device'}>
+                    <IconButton size="small" color="error" onClick={() => handleRevoke(session)}>
+                      <PowerSettingsNew sx={{ fontSize: '1rem' }} />
+                    </IconButton>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {sessions.length === 0 && !loading && (
+          <Box sx={{ p: 4, textAlign: 'center' }}>
+            <Typography variant="body2" color="text.secondary">
+              No active sessions
+            </Typography>
+          </Box>
+        )}
+      </Paper>
+
+      <Dialog open={!!editingSession} onClose={() => setEditingSession(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Name this device</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="dense"
+            label="Device name"
+            placeholder="e.g. Front desk wall display"
+            value={labelText}
+            onChange={(e) => setLabelText(e.target.value)}
+            inputProps={{ maxLength: 100 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditingSession(null)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSaveLabel} variant="contained" disabled={saving}>
+            {saving ? <CircularProgress size={20} /> : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default Sessions;
@@ -19,7 +19,7 @@ export interface EligibleEncounter {
 
 export interface AIAnalysisIssue {
   assessment: string;
-  issue: 'no_explicit_plan' | 'chronicity_mismatch' | 'unclear_documentation' | 'chief_complaint_structure';
+  issue: string; // An issue code declared by one of the check types
   details: {
     HPI?: string;
     'A&P': string;
@@ -27,6 +27,18 @@ export interface AIAnalysisIssue {
   };
 }
 
+// An AI check every note goes through, as declared on the server
+export type CheckSeverity = 'high' | 'medium' | 'low';
+
+export interface CheckTypeInfo {
+  id: string;
+  label: string;
+  description: string;
+  issues: Array<{ code: string; label: string }>;
+  severity: CheckSeverity;
+  applicableSections: string[];
+}
+
 export interface AIAnalysisResult {
   issues?: AIAnalysisIssue[];
   status: 'ok' | 'corrections_needed';
@@ -41,12 +53,22 @@ export interface NoteCheckResult {
   patientName: string;
   chiefComplaint: string;
   dateOfService: string;
-  status: 'pending' | 'completed' | 'error';
+  // 'parse_failed': the AI's response didn't match the expected format, so the note wasn't judged
+  status: 'pending' | 'completed' | 'error' | 'parse_failed';
   aiAnalysis?: AIAnalysisResult;
   issuesFound: boolean;
   checkedAt: string;
   checkedBy: string;
   errorMessage?: string;
+  checkRuns?: NoteCheckRun[];
+}
+
+// The prompt version and model one AI check ran with
+export interface NoteCheckRun {
+  checkType: string;
+  promptVersion: number;
+  provider: string;
+  model: string;
 }
 
 export interface BatchProcessResult {
@@ -98,6 +120,76 @@ export interface InvalidIssue {
   reason?: string;
 }
 
+export interface HpiVersion {
+  id: number;
+  encounterId: string;
+  patientId: string;
+  versionNumber: number;
+  noteText: string;
+  source: 'ezderm' | 'edit' | 'revert'; // ezderm: the text found in EZDerm before an edit
+  revertedFromVersion?: number;
+  createdBy?: string;
+  createdAt: string;
+}
+
+export interface BulkSignOffResult {
+  encounterId: string;
+  patientId: string;
+  outcome: 'signed_off' | 'skipped' | 'failed';
+  reason?: string;
+}
+
+export interface BulkSignOffResponse {
+  results: BulkSignOffResult[];
+  signedOff: number;
+  skipped: number;
+  failed: number;
+}
+
+export type JobQueueName = 'vital-signs-processing' | 'ai-note-scan' | 'ai-note-check';
+
+export type JobControlAction = 'pause' | 'resume' | 'drain' | 'set-concurrency' | 'run-vital-signs';
+
+export interface WorkerQueueState {
+  queue: JobQueueName;
+  paused: boolean;
+  concurrency: number; // 0 when the queue has no worker in that process
+  waiting: number;
+  active: number;
+  delayed: number;
+  failed: number;
+}
+
+export interface WorkerState {
+  workerId: string;
+  startedAt: string;
+  reportedAt: string;
+  queues: WorkerQueueState[];
+}
+
+export interface JobControlAck {
+  commandId: string;
+  workerId: string;
+  success: boolean;
+  message?: string;
+  error?: string;
+  state: WorkerState;
+}
+
+export interface JobControlResponse {
+  success: boolean;
+  commandId: string;
+  acks: JobControlAck[];
+  error?: string;
+}
+
+export interface ModifyHPIResponse {
+  type: string;
+  encounterId: string;
+  note: string;
+  version?: HpiVersion;
+}
+
 export interface ProgressNoteResponse {
   progressNotes: Array<{
     sectionType: 'SUBJECTIVE' | 'OBJECTIVE' | 'ASSESSMENT_AND_PLAN';
@@ -139,6 +231,9 @@ class AINoteCheckerService {
     };
   };
 
+  // The in-flight or completed check types request, shared by every caller
+  private checkTypesRequest: Promise<CheckTypeInfo[]> | null = null;
+
   // Mock data for development
   private mockEligibleEncounters: EligibleEncounter[] = [
     {
@@ -275,7 +370,7 @@ class AINoteCheckerService {
   /**
    * Get progress note details for a specific encounter
    */
-  async getProgressNote(encounterId: string, patientId?: string): Promise<{ progressNote: ProgressNoteResponse; careTeam: CareTeamMember[] }> {
+  async getProgressNote(encounterId: string, patientId?: string): Promise<{ progressNote: ProgressNoteResponse; careTeam: CareTeamMember[]; noteContentMd5?: string }> {
     if (USE_MOCK_DATA) {
       console.log('🚧 Development Mode: Returning mock progress note');
       await new Promise(resolve => setTimeout(resolve, 800)); // Simulate API delay
@@ -370,7 +465,8 @@ class AINoteCheckerService {
         patientId: patientId || 'mock-patient-id',
         notesCount: 1
         },
-        careTeam: mockCareTeam
+        careTeam: mockCareTeam,
+        noteContentMd5: 'mock-note-md5'
       };
     }
 
@@ -382,7 +478,8 @@ class AINoteCheckerService {
 
       return {
         progressNote: response.data.data,
-        careTeam: response.data.careTeam || []
+        careTeam: response.data.careTeam || [],
+        noteContentMd5: response.data.noteContentMd5
       };
     } catch (error: any) {
       console.error('Error fetching progress note:', error);
@@ -580,6 +677,15 @@ class AINoteCheckerService {
     });
   }
 
+  /**
+   * Describe the prompt versions and models a check ran with, e.g. "plan-check v3 · openai:gpt-5"
+   */
+  formatCheckRuns(checkRuns: NoteCheckRun[]): string {
+    return checkRuns
+      .map(run => `${run.checkType} v${run.promptVersion} · ${run.provider}:${run.model}`)
+      .join(', ');
+  }
+
   /**
    * Get status color for UI
    */
@@ -591,6 +697,8 @@ class AINoteCheckerService {
         return '#FF9800';
       case 'error':
         return '#F44336';
+      case 'parse_failed':
+        return '#FF5722';
       default:
         return '#757575';
     }
@@ -607,6 +715,8 @@ class AINoteCheckerService {
         return 'Pending';
       case 'error':
         return 'Error';
+      case 'parse_failed':
+        return 'Parse Failed';
       default:
         return status;
     }
@@ -750,6 +860,59 @@ class AINoteCheckerService {
     }
   }
 
+  /**
+   * Get the AI check types notes go through, with their issue codes (fetched once)
+   */
+  async getCheckTypes(): Promise<CheckTypeInfo[]> {
+    if (USE_MOCK_DATA) {
+      console.log('🚧 Development Mode: Returning mock check types');
+      return [
+        { id: 'accuracy-check', label: 'Accuracy', description: 'The A&P is consistent with the HPI', issues: [{ code: 'unclear_documentation', label: 'Unclear Documentation' }], severity: 'low', applicableSections: ['SUBJECTIVE', 'ASSESSMENT_AND_PLAN'] },
+        { id: 'chronicity-check', label: 'Chronicity', description: 'Every diagnosis in the A&P has the chronicity documented in the HPI', issues: [{ code: 'chronicity_mismatch', label: 'Chronicity Mismatch' }], severity: 'medium', applicableSections: ['SUBJECTIVE', 'ASSESSMENT_AND_PLAN'] },
+        { id: 'hpi-structure-check', label: 'HPI Structure', description: 'The HPI is structured for billing, with separate billable complaints numbered', issues: [{ code: 'chief_complaint_structure', label: 'Chief Complaint Structure' }], severity: 'low', applicableSections: ['SUBJECTIVE', 'ASSESSMENT_AND_PLAN'] },
+        { id: 'plan-check', label: 'Plan Documentation', description: 'Every billable assessment in the A&P has a documented plan', issues: [{ code: 'no_explicit_plan', label: 'Missing Explicit Plan' }], severity: 'high', applicableSections: ['ASSESSMENT_AND_PLAN'] }
+      ];
+    }
+
+    // Check types only change when the server is redeployed
+    if (!this.checkTypesRequest) {
+      this.checkTypesRequest = axios.get(`${API_BASE_URL}/notes/check-types`, {
+        headers: this.headers()
+      }).then(response => response.data.checkTypes as CheckTypeInfo[]).catch((error: any) => {
+        this.checkTypesRequest = null;
+        console.error('Error fetching check types:', error);
+        throw new Error(error.response?.data?.error || 'Failed to fetch check types');
+      });
+    }
+    return this.checkTypesRequest;
+  }
+
+  /**
+   * The check type that declares an issue code, and the issue's label (the code made readable
+   * if no check type declares it any more)
+   */
+  describeIssue(checkTypes: CheckTypeInfo[], code: string): { label: string; checkType?: CheckTypeInfo } {
+    for (const checkType of checkTypes) {
+      const issue = checkType.issues.find(candidate => candidate.code === code);
+      if (issue) {
+        return { label: issue.label, checkType };
+      }
+    }
+    return { label: code.replace(/_/g, ' ') };
+  }
+
+  /**
+   * Chip color for a check type's severity
+   */
+  getSeverityColor(severity: CheckSeverity | undefined): 'error' | 'warning' | 'info' | 'default' {
+    switch (severity) {
+      case 'high': return 'error';
+      case 'medium': return 'warning';
+      case 'low': return 'info';
+      default: return 'default';
+    }
+  }
+
   /**
    * Get invalid issues for an encounter
    */
@@ -866,8 +1029,33 @@ class AINoteCheckerService {
     }
   }
 
-  // Modify HPI note section
-  async modifyHPI(encounterId: string, patientId: string, noteText: string): Promise<{ type: string; encounterId: string; note: string }> {
+  /**
+   * Sign off several notes at once. The server re-verifies each one (clean check, attending
+   * provider, unchanged since the check) and reports what happened per note.
+   */
+  async bulkSignOff(notes: Array<{ encounterId: string; patientId: string }>): Promise<BulkSignOffResponse> {
+    if (USE_MOCK_DATA) {
+      console.log('🔄 Mock: Bulk signing off notes', notes);
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      const results: BulkSignOffResult[] = notes.map(note => ({ ...note, outcome: 'signed_off' }));
+      return { results, signedOff: results.length, skipped: 0, failed: 0 };
+    }
+
+    try {
+      const response = await axios.post<BulkSignOffResponse>(`${API_BASE_URL}/notes/bulk-sign-off`,
+        { notes },
+        { headers: this.headers() }
+      );
+      return response.data;
+    } catch (error: any) {
+      console.error('Error bulk signing off notes:', error);
+      throw new Error(error.response?.data?.error || 'Failed to sign off notes');
+    }
+  }
+
+  // Modify HPI note section. expectedMd5 is the note MD5 from getProgressNote; the server refuses
+  // the edit if the note has changed in EZDerm since.
+  async modifyHPI(encounterId: string, patientId: string, noteText: string, expectedMd5: string): Promise<ModifyHPIResponse> {
     if (USE_MOCK_DATA) {
       console.log('🔄 Mock: Modifying HPI', { encounterId, patientId, noteText });
       // Simulate API delay
@@ -886,7 +1074,8 @@ class AINoteCheckerService {
           note: noteText,
           encounterId,
           patientId,
-          type: 'HISTORY_OF_PRESENT_ILLNESS'
+          type: 'HISTORY_OF_PRESENT_ILLNESS',
+          expectedMd5
         },
         {
           headers: {
@@ -902,6 +1091,108 @@ class AINoteCheckerService {
       throw new Error(error.response?.data?.error || 'Failed to modify HPI');
     }
   }
+
+  /**
+   * Get the HPI versions kept for an encounter, newest first
+   */
+  async getHPIVersions(encounterId: string): Promise<HpiVersion[]> {
+    if (USE_MOCK_DATA) {
+      console.log('🚧 Development Mode: Returning mock HPI versions');
+      const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60000).toISOString();
+      return [
+        { id: 3, encounterId, patientId: 'mock-patient-id', versionNumber: 3, noteText: 'Patient returns for follow-up of chronic plaque psoriasis on elbows and knees. Reports improved symptoms with current topical treatment.', source: 'edit', createdBy: 'demo', createdAt: minutesAgo(5) },
+        { id: 2, encounterId, patientId: 'mock-patient-id', versionNumber: 2, noteText: 'Patient returns for follow-up of psoriasis on elbows. Reports improved symptoms with current treatment.', source: 'edit', createdBy: 'demo', createdAt: minutesAgo(30) },
+        { id: 1, encounterId, patientId: 'mock-patient-id', versionNumber: 1, noteText: 'Patient returns for follow-up of chronic psoriasis. Reports improved symptoms with current treatment.', source: 'ezderm', createdAt: minutesAgo(30) }
+      ];
+    }
+
+    try {
+      const response = await axios.get<{ versions: HpiVersion[] }>(`${API_BASE_URL}/notes/${encounterId}/hpi-versions`, {
+        headers: this.headers()
+      });
+      return response.data.versions;
+    } catch (error: any) {
+      console.error('Error fetching HPI versions:', error);
+      throw new Error(error.response?.data?.error || 'Failed to fetch HPI versions');
+    }
+  }
+
+  /**
+   * Put an earlier HPI version back into EZDerm
+   */
+  async revertHPI(encounterId: string, versionNumber: number, patientId: string, expectedMd5: string): Promise<ModifyHPIResponse> {
+    if (USE_MOCK_DATA) {
+      console.log('🔄 Mock: Reverting HPI', { encounterId, versionNumber });
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      return { type: 'HISTORY_OF_PRESENT_ILLNESS', encounterId, note: '' };
+    }
+
+    try {
+      const response = await axios.post<ModifyHPIResponse>(
+        `${API_BASE_URL}/notes/${encounterId}/hpi-versions/${versionNumber}/revert`,
+        { patientId, expectedMd5 },
+        { headers: this.headers() }
+      );
+      return response.data;
+    } catch (error: any) {
+      console.error('Error reverting HPI:', error);
+      throw new Error(error.response?.data?.error || 'Failed to revert HPI');
+    }
+  }
+
+  /**
+   * Get the queue state each worker process last reported
+   */
+  async getWorkerStates(): Promise<WorkerState[]> {
+    if (USE_MOCK_DATA) {
+      console.log('🚧 Development Mode: Returning mock worker state');
+      const now = new Date().toISOString();
+      return [{
+        workerId: 'mock-worker:1',
+        startedAt: new Date(Date.now() - 3 * 60 * 60 * 1000).toISOString(),
+        reportedAt: now,
+        queues: [
+          { queue: 'vital-signs-processing', paused: false, concurrency: 1, waiting: 0, active: 0, delayed: 1, failed: 0 },
+          { queue: 'ai-note-scan', paused: false, concurrency: 1, waiting: 0, active: 0, delayed: 1, failed: 0 },
+          { queue: 'ai-note-check', paused: false, concurrency: 3, waiting: 4, active: 3, delayed: 0, failed: 1 }
+        ]
+      }];
+    }
+
+    try {
+      const response = await axios.get<{ workers: WorkerState[] }>(`${API_BASE_URL}/ai-notes/jobs/control`, {
+        headers: this.headers()
+      });
+      return response.data.workers;
+    } catch (error: any) {
+      console.error('Error fetching worker state:', error);
+      throw new Error(error.response?.data?.error || 'Failed to fetch worker state');
+    }
+  }
+
+  /**
+   * Send a job control command to the worker processes. Resolves once they have all
+   * acknowledged it and throws with the worker's error otherwise.
+   */
+  async sendJobControl(action: JobControlAction, queue?: JobQueueName, concurrency?: number): Promise<JobControlResponse> {
+    if (USE_MOCK_DATA) {
+      console.log('🔄 Mock: Sending job control command', { action, queue, concurrency });
+      await new Promise(resolve => setTimeout(resolve, 500));
+      const [state] = await this.getWorkerStates();
+      return { success: true, commandId: 'mock-command', acks: [{ commandId: 'mock-command', workerId: state.workerId, success: true, message: `${action} done`, state }] };
+    }
+
+    try {
+      const response = await axios.post<JobControlResponse>(`${API_BASE_URL}/ai-notes/jobs/control`,
+        { action, queue, concurrency },
+        { headers: this.headers() }
+      );
+      return response.data;
+    } catch (error: any) {
+      console.error('Error sending job control command:', error);
+      throw new Error(error.response?.data?.error || 'Failed to send job control command');
+    }
+  }
 }
 
 const aiNoteCheckerService = new AINoteCheckerService();
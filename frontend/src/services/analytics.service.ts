@@ -0,0 +1,71 @@
+import axios from 'axios';
+import {
+  AnalyticsFilters,
+  ClinicFlowAnalyticsResponse,
+  WaitTimeAnalyticsResponse,
+  WaitTimeGroupBy
+} from '../types/api.types';
+import authService from './auth.service';
+import { mockClinicFlow, mockWaitTimeStats } from './mockData';
+
+const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://0.0.0.0:5001';
+const USE_MOCK_DATA = process.env.NODE_ENV === 'development' && process.env.REACT_APP_USE_MOCK_DATA === 'true';
+
+class AnalyticsService {
+  private async get<T>(path: string, params: Record<string, string | undefined>): Promise<T> {
+    await authService.waitForSessionRestore();
+
+    const response = await axios.get<T>(`${API_BASE_URL}${path}`, {
+      params,
+      headers: {
+        'Authorization': `Bearer ${authService.getSessionToken()}`
+      }
+    });
+    return response.data;
+  }
+
+  /**
+   * Get average and median time per visit stage, overall and per group
+   */
+  async getWaitTimes(filters: AnalyticsFilters, groupBy: WaitTimeGroupBy): Promise<WaitTimeAnalyticsResponse> {
+    if (USE_MOCK_DATA) {
+      console.log('🚧 Development Mode: Returning mock wait times');
+      const groups = filters.providerId
+        ? mockWaitTimeStats.filter(stats => stats.key === filters.providerId)
+        : mockWaitTimeStats;
+      return {
+        ...filters,
+        groupBy,
+        overall: groups[0] || mockWaitTimeStats[0],
+        groups
+      };
+    }
+
+    try {
+      return await this.get<WaitTimeAnalyticsResponse>('/analytics/wait-times', { ...filters, groupBy });
+    } catch (error: any) {
+      console.error('Error fetching wait-time analytics:', error);
+      throw new Error(error.response?.data?.error || 'Failed to fetch wait-time analytics');
+    }
+  }
+
+  /**
+   * Get throughput per hour, room occupancy, provider utilization and no-show/cancel rates
+   */
+  async getClinicFlow(filters: AnalyticsFilters): Promise<ClinicFlowAnalyticsResponse> {
+    if (USE_MOCK_DATA) {
+      console.log('🚧 Development Mode: Returning mock clinic flow');
+      return { ...mockClinicFlow, ...filters };
+    }
+
+    try {
+      return await this.get<ClinicFlowAnalyticsResponse>('/analytics/flow', { ...filters });
+    } catch (error: any) {
+      console.error('Error fetching clinic flow analytics:', error);
+      throw new Error(error.response?.data?.error || 'Failed to fetch clinic flow analytics');
+    }
+  }
+}
+
+const analyticsService = new AnalyticsService();
+export default analyticsService;
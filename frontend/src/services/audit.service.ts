@@ -0,0 +1,44 @@
+import axios from 'axios';
+import { AuditEventFilter, AuditEventsResponse } from '../types/api.types';
+import authService from './auth.service';
+import { mockAuditEvents } from './mockData';
+
+const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://0.0.0.0:5001';
+const USE_MOCK_DATA = process.env.NODE_ENV === 'development' && process.env.REACT_APP_USE_MOCK_DATA === 'true';
+
+class AuditService {
+  /**
+   * Get a page of audit events for writes sent to EZDerm, newest first
+   */
+  async getAuditEvents(filter: AuditEventFilter): Promise<AuditEventsResponse> {
+    if (USE_MOCK_DATA) {
+      console.log('🚧 Development Mode: Returning mock audit events');
+      const events = mockAuditEvents.filter(event =>
+        (!filter.patientId || event.patientId === filter.patientId) &&
+        (!filter.encounterId || event.encounterId === filter.encounterId) &&
+        (!filter.actor || event.actor.toLowerCase() === filter.actor.toLowerCase()) &&
+        (!filter.action || event.action === filter.action)
+      );
+      const offset = filter.offset || 0;
+      return { events: events.slice(offset, offset + (filter.limit || 50)), total: events.length };
+    }
+
+    await authService.waitForSessionRestore();
+
+    try {
+      const response = await axios.get<AuditEventsResponse>(`${API_BASE_URL}/audit/events`, {
+        params: filter,
+        headers: {
+          'Authorization': `Bearer ${authService.getSessionToken()}`
+        }
+      });
+      return response.data;
+    } catch (error: any) {
+      console.error('Error fetching audit events:', error);
+      throw new Error(error.response?.data?.error || 'Failed to fetch audit events');
+    }
+  }
+}
+
+const auditService = new AuditService();
+export default auditService;
@@ -1,17 +1,22 @@
 import axios from 'axios';
-import { LoginResponse } from '../types/api.types';
+import { LoginResponse, Permission, UserRole } from '../types/api.types';
 
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://0.0.0.0:5001';
 
 // Development flag - matches the one in patientTracking.service.ts
 const USE_MOCK_DATA = process.env.NODE_ENV === 'development' && process.env.REACT_APP_USE_MOCK_DATA === 'true';
 
+// Demo mode signs everyone in as an admin provider so every screen can be tried out
+const MOCK_PERMISSIONS: Permission[] = ['board:view', 'analytics:view', 'vitals:process', 'notes:view', 'notes:review', 'notes:bulk', 'notes:sign', 'jobs:manage', 'audit:view', 'admin:manage'];
+
 interface SessionData {
   sessionToken: string;
   refreshToken: string;
   username: string;
   expiresAt: string;
   serverUrl?: string;
+  role?: UserRole;
+  permissions?: Permission[];
 }
 
 // Removed CredentialData interface for security reasons
@@ -20,7 +25,11 @@ interface SessionData {
 class AuthService {
   private currentUser: string | null = null;
   private sessionToken: string | null = null;
+  private role: UserRole | null = null;
+  private permissions: Permission[] = [];
   private readonly SESSION_STORAGE_KEY = 'ez_tracking_session';
+  // Survives logout so a wall-mounted dashboard keeps its name across sign-ins
+  private readonly DEVICE_LABEL_STORAGE_KEY = 'ez_tracking_device_label';
   // Removed CREDENTIALS_STORAGE_KEY for security - never store passwords in localStorage
 
   private sessionRestorePromise: Promise<void>;
@@ -65,6 +74,10 @@ class AuthService {
         if (isValidOnServer) {
           this.currentUser = sessionData.username;
           this.sessionToken = sessionData.sessionToken;
+          // validateSessionWithServer has stored the current role; fall back to the saved one in demo mode
+          if (USE_MOCK_DATA) {
+            this.setAccess(sessionData.role, sessionData.permissions);
+          }
           console.log('🔄 Session restored and validated for user:', sessionData.username);
         } else {
           console.log('🚫 Session invalid on server, attempting refresh...');
@@ -81,6 +94,11 @@ class AuthService {
     }
   }
 
+  private setAccess(role?: UserRole, permissions?: Permission[]): void {
+    this.role = role || null;
+    this.permissions = permissions || [];
+  }
+
   private storeSession(sessionData: SessionData): void {
     try {
       localStorage.setItem(this.SESSION_STORAGE_KEY, JSON.stringify(sessionData));
@@ -128,6 +146,9 @@ class AuthService {
           expiresAt: newExpiresAt
         };
         this.storeSession(updatedSessionData);
+        this.currentUser = sessionData.username;
+        this.sessionToken = sessionData.sessionToken;
+        this.setAccess(sessionData.role, sessionData.permissions);
         return true;
       }
 
@@ -141,6 +162,7 @@ class AuthService {
         // Update tokens
         this.sessionToken = response.data.sessionToken;
         this.currentUser = sessionData.username;
+        this.setAccess(response.data.role, response.data.permissions);
         
         // Store new session data
         this.storeSession({
@@ -148,7 +170,9 @@ class AuthService {
           refreshToken: response.data.refreshToken,
           username: sessionData.username,
           expiresAt: response.data.expiresAt,
-          serverUrl: sessionData.serverUrl
+          serverUrl: sessionData.serverUrl,
+          role: response.data.role,
+          permissions: response.data.permissions
         });
         
         return true;
@@ -190,6 +214,11 @@ class AuthService {
       
       const isValid = response.data.valid === true;
       console.log('✅ Session validation result:', isValid);
+
+      // Roles can change while a session is open, so take the server's current answer
+      if (isValid) {
+        this.setAccess(response.data.role, response.data.permissions);
+      }
       
       return isValid;
     } catch (error: any) {
@@ -238,8 +267,10 @@ class AuthService {
     }
   }
 
-  async login(username: string, password: string): Promise<LoginResponse> {
+  async login(username: string, password: string, deviceLabel?: string): Promise<LoginResponse> {
     try {
+      this.setDeviceLabel(deviceLabel);
+
       // Mock login in development mode
       if (USE_MOCK_DATA) {
         console.log('🚧 Development Mode: Mock login successful');
@@ -251,12 +282,16 @@ class AuthService {
         const mockExpiresAt = new Date(Date.now() + 8 * 60 * 60 * 1000).toISOString(); // 8 hours
         this.sessionToken = mockSessionToken;
         
+        this.setAccess('admin', MOCK_PERMISSIONS);
+        
         this.storeSession({
           sessionToken: mockSessionToken,
           refreshToken: mockRefreshToken,
           username,
           expiresAt: mockExpiresAt,
-          serverUrl: process.env.REACT_APP_API_URL || 'http://0.0.0.0:5001'
+          serverUrl: process.env.REACT_APP_API_URL || 'http://0.0.0.0:5001',
+          role: 'admin',
+          permissions: MOCK_PERMISSIONS
         });
         
         // Simulate API delay
@@ -267,18 +302,22 @@ class AuthService {
           serverUrl: process.env.REACT_APP_API_URL || 'http://0.0.0.0:5001',
           sessionToken: mockSessionToken,
           refreshToken: mockRefreshToken,
-          expiresAt: mockExpiresAt
+          expiresAt: mockExpiresAt,
+          role: 'admin',
+          permissions: MOCK_PERMISSIONS
         };
       }
 
       const response = await axios.post<LoginResponse>(`${API_BASE_URL}/login`, {
         username,
-        password
+        password,
+        deviceLabel: deviceLabel?.trim() || undefined
       });
 
       if (response.data.success && response.data.sessionToken && response.data.refreshToken && response.data.expiresAt) {
         this.currentUser = username;
         this.sessionToken = response.data.sessionToken;
+        this.setAccess(response.data.role, response.data.permissions);
         
         // Store session data
         this.storeSession({
@@ -286,7 +325,9 @@ class AuthService {
           refreshToken: response.data.refreshToken,
           username,
           expiresAt: response.data.expiresAt,
-          serverUrl: response.data.serverUrl
+          serverUrl: response.data.serverUrl,
+          role: response.data.role,
+          permissions: response.data.permissions
         });
       }
 
@@ -305,6 +346,7 @@ class AuthService {
       if (USE_MOCK_DATA) {
         console.log('🚧 Development Mode: Mock logout');
         this.currentUser = null;
+        this.setAccess();
         this.clearStoredSession();
         return;
       }
@@ -325,6 +367,7 @@ class AuthService {
     } finally {
       console.log('🧹 Clearing local session data');
       this.currentUser = null;
+      this.setAccess();
       this.clearStoredSession();
     }
   }
@@ -338,6 +381,26 @@ class AuthService {
     return this.currentUser;
   }
 
+  getDeviceLabel(): string {
+    return localStorage.getItem(this.DEVICE_LABEL_STORAGE_KEY) || '';
+  }
+
+  setDeviceLabel(deviceLabel?: string | null): void {
+    if (deviceLabel?.trim()) {
+      localStorage.setItem(this.DEVICE_LABEL_STORAGE_KEY, deviceLabel.trim());
+    } else {
+      localStorage.removeItem(this.DEVICE_LABEL_STORAGE_KEY);
+    }
+  }
+
+  getRole(): UserRole | null {
+    return this.role;
+  }
+
+  getPermissions(): Permission[] {
+    return this.permissions;
+  }
+
   isAuthenticated(): boolean {
     // In mock mode, always consider authenticated if we have a current user
     if (USE_MOCK_DATA) {
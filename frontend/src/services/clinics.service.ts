@@ -0,0 +1,48 @@
+import axios from 'axios';
+import { Clinic, ClinicsResponse } from '../types/api.types';
+import authService from './auth.service';
+import { mockClinics } from './mockData';
+
+const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://0.0.0.0:5001';
+const USE_MOCK_DATA = process.env.NODE_ENV === 'development' && process.env.REACT_APP_USE_MOCK_DATA === 'true';
+
+class ClinicsService {
+  // Each dashboard screen remembers which clinic it is showing
+  private readonly SELECTED_CLINIC_STORAGE_KEY = 'ez_tracking_selected_clinic';
+
+  /**
+   * Get the active clinics the dashboard can switch between
+   */
+  async getClinics(): Promise<Clinic[]> {
+    if (USE_MOCK_DATA) {
+      console.log('🚧 Development Mode: Returning mock clinics');
+      return mockClinics;
+    }
+
+    await authService.waitForSessionRestore();
+
+    try {
+      const response = await axios.get<ClinicsResponse>(`${API_BASE_URL}/clinics`, {
+        headers: {
+          'Authorization': `Bearer ${authService.getSessionToken()}`
+        }
+      });
+
+      return response.data.clinics;
+    } catch (error: any) {
+      console.error('Error fetching clinics:', error);
+      throw new Error(error.response?.data?.error || 'Failed to fetch clinics');
+    }
+  }
+
+  getSelectedClinicId(): string | null {
+    return localStorage.getItem(this.SELECTED_CLINIC_STORAGE_KEY);
+  }
+
+  setSelectedClinicId(clinicId: string): void {
+    localStorage.setItem(this.SELECTED_CLINIC_STORAGE_KEY, clinicId);
+  }
+}
+
+const clinicsService = new ClinicsService();
+export default clinicsService;
@@ -0,0 +1,69 @@
+import axios from 'axios';
+import { KioskBoardResponse } from '../types/api.types';
+import { mockKioskPatients } from './mockData';
+
+const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://0.0.0.0:5001';
+const USE_MOCK_DATA = process.env.NODE_ENV === 'development' && process.env.REACT_APP_USE_MOCK_DATA === 'true';
+
+// Once a device has a kiosk token it stays a kiosk until its site data is cleared
+const KIOSK_TOKEN_STORAGE_KEY = 'ez_tracking_kiosk_token';
+
+class KioskService {
+  /**
+   * Take the display token from a `/kiosk?token=...` link, keep it on this device and
+   * remove it from the address bar so it isn't left on screen
+   */
+  captureTokenFromUrl(): void {
+    const params = new URLSearchParams(window.location.search);
+    const token = params.get('token');
+    if (!token) {
+      return;
+    }
+
+    localStorage.setItem(KIOSK_TOKEN_STORAGE_KEY, token);
+    params.delete('token');
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+  }
+
+  getToken(): string | null {
+    return localStorage.getItem(KIOSK_TOKEN_STORAGE_KEY);
+  }
+
+  /**
+   * Kiosk devices are locked to the waiting-room board
+   */
+  isKioskDevice(): boolean {
+    return !!this.getToken();
+  }
+
+  /**
+   * Get the waiting-room board for this display's clinic
+   */
+  async getBoard(): Promise<KioskBoardResponse> {
+    if (USE_MOCK_DATA) {
+      console.log('🚧 Development Mode: Returning mock kiosk board');
+      return {
+        clinicName: 'Demo Clinic',
+        timeZone: 'America/New_York',
+        generatedAt: new Date().toISOString(),
+        patients: mockKioskPatients
+      };
+    }
+
+    try {
+      const response = await axios.get<KioskBoardResponse>(`${API_BASE_URL}/kiosk/board`, {
+        headers: {
+          'X-Kiosk-Token': this.getToken() || ''
+        }
+      });
+      return response.data;
+    } catch (error: any) {
+      console.error('Error fetching kiosk board:', error);
+      throw new Error(error.response?.data?.error || 'Failed to fetch waiting room board');
+    }
+  }
+}
+
+const kioskService = new KioskService();
+export default kioskService;
@@ -1,4 +1,27 @@
-import { Encounter } from '../types/api.types';
+import { AuditEvent, Clinic, ClinicFlowAnalyticsResponse, Encounter, KioskPatient, PromptTemplateVersion, UserSession, WaitTimeStats } from '../types/api.types';
+
+export const mockClinics: Clinic[] = [
+  {
+    id: 1,
+    clinicId: 'mock-clinic-main',
+    practiceId: 'mock-practice',
+    name: 'Main Dermatology Clinic',
+    timeZone: 'America/Detroit',
+    isActive: true,
+    vitalSignsEnabled: true,
+    aiScanEnabled: true
+  },
+  {
+    id: 2,
+    clinicId: 'mock-clinic-specialty',
+    practiceId: 'mock-practice',
+    name: 'Specialty Dermatology Center',
+    timeZone: 'America/Chicago',
+    isActive: true,
+    vitalSignsEnabled: false,
+    aiScanEnabled: true
+  }
+];
 
 export const mockEncounters: Encounter[] = [
   {
@@ -67,7 +90,9 @@ export const mockEncounters: Encounter[] = [
     clinicName: 'Main Dermatology Clinic',
     appointmentType: 'Consultation',
     appointmentColor: '4CAF50',
-    establishedPatient: false
+    establishedPatient: false,
+    statusSince: new Date(Date.now() - 25 * 60 * 1000).toISOString(),
+    alert: { ruleId: 3, severity: 'warning', thresholdMinutes: 20 }
   },
   {
     id: '3',
@@ -201,7 +226,9 @@ export const mockEncounters: Encounter[] = [
     clinicName: 'Main Dermatology Clinic',
     appointmentType: 'Screening',
     appointmentColor: 'F44336',
-    establishedPatient: true
+    establishedPatient: true,
+    statusSince: new Date(Date.now() - 15 * 60 * 1000).toISOString(),
+    alert: { ruleId: 2, severity: 'critical', thresholdMinutes: 10 }
   },
   {
     id: '7',
@@ -965,4 +992,218 @@ export const mockEncounters: Encounter[] = [
     appointmentColor: 'CDDC39',
     establishedPatient: true
   }
-]; 
\ No newline at end of file
+]; 
+
+const mockStage = (count: number, averageMinutes: number, medianMinutes: number) => ({ count, averageMinutes, medianMinutes });
+
+export const mockWaitTimeStats: WaitTimeStats[] = [
+  {
+    key: 'mock-provider-1',
+    label: 'Dr. Sarah Johnson',
+    visits: 58,
+    doorToRoom: mockStage(55, 12.4, 10.5),
+    roomToProvider: mockStage(54, 9.8, 8),
+    totalVisit: mockStage(52, 47.3, 44.5)
+  },
+  {
+    key: 'mock-provider-2',
+    label: 'Dr. Michael Chen',
+    visits: 46,
+    doorToRoom: mockStage(44, 16.1, 14),
+    roomToProvider: mockStage(43, 14.6, 12.5),
+    totalVisit: mockStage(41, 58.9, 55)
+  },
+  {
+    key: 'mock-provider-3',
+    label: 'Dr. Emily Rodriguez',
+    visits: 39,
+    doorToRoom: mockStage(38, 8.7, 7.5),
+    roomToProvider: mockStage(38, 6.2, 5),
+    totalVisit: mockStage(37, 39.5, 38)
+  }
+];
+
+// Typical clinic day: arrivals peak mid-morning and after lunch
+const mockHourlyArrivals: Record<number, number> = { 8: 3.2, 9: 4.6, 10: 4.1, 11: 3.4, 12: 1.2, 13: 3.8, 14: 4.2, 15: 3, 16: 1.4 };
+
+export const mockClinicFlow: Omit<ClinicFlowAnalyticsResponse, 'clinicId' | 'from' | 'to'> = {
+  days: 5,
+  scheduledVisits: 162,
+  noShows: 11,
+  cancellations: 8,
+  noShowRate: 0.068,
+  cancellationRate: 0.049,
+  hourly: Array.from({ length: 24 }, (_, hour) => ({
+    hour,
+    arrivals: mockHourlyArrivals[hour] ?? 0,
+    completions: mockHourlyArrivals[hour - 1] ?? 0,
+    occupiedRooms: Math.round(((mockHourlyArrivals[hour] ?? 0) + (mockHourlyArrivals[hour - 1] ?? 0)) * 0.9 * 10) / 10
+  })),
+  providers: [
+    {
+      providerId: 'mock-provider-1',
+      providerName: 'Dr. Sarah Johnson',
+      patientsSeen: 54,
+      minutesWithPatients: 1242,
+      averageMinutesPerPatient: 23,
+      utilization: 0.71
+    },
+    {
+      providerId: 'mock-provider-2',
+      providerName: 'Dr. Michael Chen',
+      patientsSeen: 43,
+      minutesWithPatients: 1161,
+      averageMinutesPerPatient: 27,
+      utilization: 0.64
+    },
+    {
+      providerId: 'mock-provider-3',
+      providerName: 'Dr. Emily Rodriguez',
+      patientsSeen: 38,
+      minutesWithPatients: 722,
+      averageMinutesPerPatient: 19,
+      utilization: 0.52
+    }
+  ]
+};
+
+// Waiting-room board built from the mock encounters, masked the way the server masks them
+export const mockKioskPatients: KioskPatient[] = mockEncounters
+  .filter(encounter => ['CHECKED_IN', 'IN_ROOM', 'WITH_PROVIDER', 'WITH_STAFF', 'READY_FOR_STAFF', 'READY_FOR_PROVIDER'].includes(encounter.status))
+  .map((encounter, index) => {
+    const status = encounter.status === 'CHECKED_IN' ? 'waiting' : encounter.status === 'WITH_PROVIDER' ? 'with_provider' : 'in_room';
+    const initials = `${encounter.patientInfo.firstName.charAt(0)}${encounter.patientInfo.lastName.charAt(0)}`.toUpperCase();
+    return {
+      displayId: `${initials}-${encounter.patientInfo.medicalRecordNumber.replace(/\D/g, '').slice(-2)}`,
+      status,
+      statusLabel: status === 'waiting' ? 'Waiting to be roomed' : status === 'with_provider' ? 'With provider' : 'In exam room',
+      estimatedWaitMinutes: status === 'with_provider' ? null : (index * 7) % 25
+    };
+  });
+
+// Signed-in devices for the sessions page; the first is this browser
+const minutesAgo = (minutes: number): string => new Date(Date.now() - minutes * 60000).toISOString();
+
+export const mockSessions: UserSession[] = [
+  {
+    id: 1,
+    username: 'demo',
+    deviceLabel: 'Front desk wall display',
+    userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36',
+    ipAddress: '10.0.4.21',
+    createdAt: minutesAgo(180),
+    lastAccessed: minutesAgo(0),
+    expiresAt: minutesAgo(-300),
+    current: true
+  },
+  {
+    id: 2,
+    username: 'demo',
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_6 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.6 Mobile/15E148 Safari/604.1',
+    ipAddress: '10.0.7.103',
+    createdAt: minutesAgo(95),
+    lastAccessed: minutesAgo(12),
+    expiresAt: minutesAgo(-385),
+    current: false
+  },
+  {
+    id: 3,
+    username: 'mbrown',
+    deviceLabel: 'Checkout station',
+    userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_6) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.6 Safari/605.1.15',
+    ipAddress: '10.0.4.37',
+    createdAt: minutesAgo(240),
+    lastAccessed: minutesAgo(3),
+    expiresAt: minutesAgo(-240),
+    current: false
+  }
+];
+
+// Writes sent to EZDerm for the audit log page, newest first
+export const mockAuditEvents: AuditEvent[] = [
+  {
+    id: 4,
+    actor: 'demo',
+    action: 'note.sign_off',
+    encounterId: 'enc-1001',
+    patientId: 'pat-2001',
+    requestPayload: { room: 0, dateOfArrival: minutesAgo(20), status: 'SIGNED_OFF', id: 'enc-1001' },
+    responseStatus: 200,
+    success: true,
+    occurredAt: minutesAgo(20)
+  },
+  {
+    id: 3,
+    actor: 'demo',
+    action: 'note.hpi_update',
+    encounterId: 'enc-1001',
+    patientId: 'pat-2001',
+    requestPayload: { note: 'Patient presents for follow-up of psoriasis on elbows, improving on topical steroid.', encounterId: 'enc-1001', type: 'HISTORY_OF_PRESENT_ILLNESS' },
+    changes: {
+      note: {
+        before: 'Patient presents for follow-up of psoriasis.',
+        after: 'Patient presents for follow-up of psoriasis on elbows, improving on topical steroid.'
+      }
+    },
+    responseStatus: 200,
+    success: true,
+    occurredAt: minutesAgo(26)
+  },
+  {
+    id: 2,
+    actor: 'mbrown',
+    action: 'todo.create',
+    encounterId: 'enc-1002',
+    patientId: 'pat-2002',
+    requestPayload: { subject: 'Note deficiency: 07/14/2025', description: 'Chronicity of eczema not documented', reminderEnabled: false },
+    responseStatus: 500,
+    success: false,
+    errorMessage: 'Request failed with status code 500',
+    occurredAt: minutesAgo(75)
+  },
+  {
+    id: 1,
+    actor: 'service.user',
+    action: 'vital_signs.update',
+    encounterId: 'enc-1003',
+    patientId: 'pat-2003',
+    requestPayload: { encounterId: 'enc-1003', height1: 68, heightUnit: 'IN', weight1: 172, weightUnit: 'LB_OZ', bmi: 26.15 },
+    changes: {
+      height1: { before: null, after: 68 },
+      weight1: { before: null, after: 172 },
+      bmi: { before: null, after: 26.15 }
+    },
+    responseStatus: 200,
+    success: true,
+    occurredAt: minutesAgo(140)
+  }
+];
+
+// Prompt versions for the prompt templates page, newest first per check
+const mockPrompt = (checkType: string, focus: string): string => `You are a dermatology medical coder. ${focus}
+
+## Output Format
+Return valid JSON only. The response schema is sent with the request.
+
+Focus ONLY on ${checkType.replace('-check', '')} issues.`;
+
+export const mockPromptTemplateVersions: PromptTemplateVersion[] = [
+  {
+    id: 5,
+    checkType: 'plan-check',
+    versionNumber: 2,
+    content: mockPrompt('plan-check', 'Verify that every billable assessment in the A&P has a clear plan. Treat "continue current therapy" as a plan only when the therapy is named.'),
+    changeNote: 'Stop flagging "continue current therapy" when the therapy is named',
+    createdBy: 'demo',
+    createdAt: minutesAgo(60 * 24)
+  },
+  ...['chronicity-check', 'hpi-structure-check', 'plan-check', 'accuracy-check'].map((checkType, index) => ({
+    id: index + 1,
+    checkType,
+    versionNumber: 1,
+    content: mockPrompt(checkType, 'Analyze the progress note for billing documentation issues.'),
+    changeNote: `Imported from src/prompts/${checkType}.md`,
+    createdBy: 'system',
+    createdAt: minutesAgo(60 * 24 * 30)
+  }))
+];
@@ -0,0 +1,264 @@
+import { Encounter } from '../types/api.types';
+
+export type ChimeSound = 'soft' | 'bell' | 'urgent';
+
+export interface NotificationSettings {
+  enabled: boolean;
+  desktop: boolean; // Browser notifications
+  chime: boolean;
+  chimeSound: ChimeSound;
+  volume: number; // 0-1
+  mutedUntil: number | null; // Epoch ms, or -1 for muted until turned back on
+  providerIds: string[]; // Only notify about these providers' patients; empty means everyone
+}
+
+export interface EncounterNotification {
+  key: string; // Identifies the event, so it is only announced once
+  encounterId: string;
+  title: string;
+  body: string;
+}
+
+// Older Safari only exposes Web Audio under a prefixed name
+interface WebkitWindow extends Window {
+  webkitAudioContext?: typeof AudioContext;
+}
+
+// Per-device settings: every wall screen and workstation chooses for itself
+const SETTINGS_STORAGE_KEY = 'ez_tracking_notification_settings';
+// Events already announced, kept across page reloads so a refresh doesn't re-alert
+const SEEN_STORAGE_KEY = 'ez_tracking_notified_events';
+const SEEN_RETENTION_MS = 24 * 60 * 60 * 1000;
+const MUTED_INDEFINITELY = -1;
+
+const DEFAULT_SETTINGS: NotificationSettings = {
+  enabled: false,
+  desktop: true,
+  chime: true,
+  chimeSound: 'soft',
+  volume: 0.6,
+  mutedUntil: null,
+  providerIds: []
+};
+
+// Notes (Hz) and note length (seconds) for each chime
+const CHIMES: Record<ChimeSound, { notes: number[]; noteLength: number; type: OscillatorType }> = {
+  soft: { notes: [660, 880], noteLength: 0.25, type: 'sine' },
+  bell: { notes: [1047, 784, 1047], noteLength: 0.3, type: 'triangle' },
+  urgent: { notes: [880, 880, 880, 880], noteLength: 0.15, type: 'square' }
+};
+
+const getInitials = (encounter: Encounter): string => {
+  return `${encounter.patientInfo.firstName.charAt(0)}${encounter.patientInfo.lastName.charAt(0)}`.toUpperCase();
+};
+
+const getRoomLabel = (encounter: Encounter): string => {
+  return encounter.room && encounter.room !== 'N/A' && encounter.room !== 0 ? `Room ${encounter.room}` : 'No room';
+};
+
+class NotificationsService {
+  private seen: Map<string, number> = this.loadSeen();
+  private audioContext: AudioContext | null = null;
+
+  getSettings(): NotificationSettings {
+    try {
+      const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+      return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+    } catch {
+      return DEFAULT_SETTINGS;
+    }
+  }
+
+  saveSettings(settings: NotificationSettings): void {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  }
+
+  isMuted(settings: NotificationSettings = this.getSettings()): boolean {
+    if (settings.mutedUntil === null) {
+      return false;
+    }
+    return settings.mutedUntil === MUTED_INDEFINITELY || settings.mutedUntil > Date.now();
+  }
+
+  /**
+   * Mute this device for a number of minutes, or until unmuted when minutes is null
+   */
+  mute(minutes: number | null): NotificationSettings {
+    const settings = {
+      ...this.getSettings(),
+      mutedUntil: minutes === null ? MUTED_INDEFINITELY : Date.now() + minutes * 60 * 1000
+    };
+    this.saveSettings(settings);
+    return settings;
+  }
+
+  unmute(): NotificationSettings {
+    const settings = { ...this.getSettings(), mutedUntil: null };
+    this.saveSettings(settings);
+    return settings;
+  }
+
+  isDesktopSupported(): boolean {
+    return typeof window !== 'undefined' && 'Notification' in window;
+  }
+
+  /**
+   * Ask the browser for permission to show notifications (must be called from a user action)
+   */
+  async requestDesktopPermission(): Promise<NotificationPermission> {
+    if (!this.isDesktopSupported()) {
+      return 'denied';
+    }
+    if (Notification.permission !== 'default') {
+      return Notification.permission;
+    }
+    return Notification.requestPermission();
+  }
+
+  /**
+   * Work out which notification-worthy events the current encounters contain: a wait-time
+   * alert being raised, or a patient becoming ready for the provider
+   */
+  getEvents(encounters: Encounter[], settings: NotificationSettings = this.getSettings()): EncounterNotification[] {
+    const events: EncounterNotification[] = [];
+
+    for (const encounter of encounters) {
+      if (settings.providerIds.length > 0 && !encounter.providers.some(provider => settings.providerIds.includes(provider.id))) {
+        continue;
+      }
+
+      // Keys include when the status started, so a patient who moves on and comes back is announced again
+      const since = encounter.statusSince || encounter.arrivalTime || '';
+
+      if (encounter.alert) {
+        events.push({
+          key: `${encounter.id}:alert:${encounter.alert.ruleId}:${since}`,
+          encounterId: encounter.id,
+          title: `${getInitials(encounter)} waiting over ${encounter.alert.thresholdMinutes} min`,
+          body: `${getRoomLabel(encounter)} • ${encounter.status.replace(/_/g, ' ').toLowerCase()}`
+        });
+      }
+
+      if (encounter.status === 'READY_FOR_PROVIDER') {
+        events.push({
+          key: `${encounter.id}:ready:${since}`,
+          encounterId: encounter.id,
+          title: `${getInitials(encounter)} ready for provider`,
+          body: `${getRoomLabel(encounter)} • ${encounter.appointmentType}`
+        });
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Announce events that haven't been announced on this device yet. Returns the new events.
+   */
+  processEncounters(encounters: Encounter[]): EncounterNotification[] {
+    const settings = this.getSettings();
+    if (!settings.enabled) {
+      return [];
+    }
+
+    const fresh = this.getEvents(encounters, settings).filter(event => !this.seen.has(event.key));
+    if (fresh.length === 0) {
+      return [];
+    }
+
+    // Muted events are still marked as seen so unmuting doesn't replay the backlog
+    for (const event of fresh) {
+      this.seen.set(event.key, Date.now());
+    }
+    this.saveSeen();
+
+    if (this.isMuted(settings)) {
+      return [];
+    }
+
+    if (settings.desktop) {
+      for (const event of fresh) {
+        this.showDesktopNotification(event);
+      }
+    }
+    if (settings.chime) {
+      this.playChime(settings.chimeSound, settings.volume);
+    }
+
+    return fresh;
+  }
+
+  /**
+   * Play a chime through Web Audio, so no sound files need to be served
+   */
+  playChime(sound: ChimeSound, volume: number): void {
+    try {
+      const AudioContextClass = window.AudioContext || (window as WebkitWindow).webkitAudioContext;
+      if (!AudioContextClass) {
+        return;
+      }
+
+      this.audioContext = this.audioContext || new AudioContextClass();
+      const context = this.audioContext;
+      // Browsers start audio suspended until the page has had a user gesture
+      if (context.state === 'suspended') {
+        context.resume();
+      }
+
+      const chime = CHIMES[sound];
+      chime.notes.forEach((frequency, index) => {
+        const start = context.currentTime + index * chime.noteLength;
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+
+        oscillator.type = chime.type;
+        oscillator.frequency.value = frequency;
+        gain.gain.setValueAtTime(Math.max(volume * 0.3, 0.001), start);
+        gain.gain.exponentialRampToValueAtTime(0.001, start + chime.noteLength);
+
+        oscillator.connect(gain);
+        gain.connect(context.destination);
+        oscillator.start(start);
+        oscillator.stop(start + chime.noteLength);
+      });
+    } catch (error) {
+      console.error('Failed to play notification chime:', error);
+    }
+  }
+
+  private showDesktopNotification(event: EncounterNotification): void {
+    if (!this.isDesktopSupported() || Notification.permission !== 'granted') {
+      return;
+    }
+
+    try {
+      // The tag replaces an older notification for the same patient instead of stacking
+      new Notification(event.title, { body: event.body, tag: event.encounterId });
+    } catch (error) {
+      console.error('Failed to show desktop notification:', error);
+    }
+  }
+
+  private loadSeen(): Map<string, number> {
+    try {
+      const stored = JSON.parse(localStorage.getItem(SEEN_STORAGE_KEY) || '{}') as Record<string, number>;
+      const cutoff = Date.now() - SEEN_RETENTION_MS;
+      return new Map(Object.entries(stored).filter(([, seenAt]) => seenAt > cutoff));
+    } catch {
+      return new Map();
+    }
+  }
+
+  private saveSeen(): void {
+    const cutoff = Date.now() - SEEN_RETENTION_MS;
+    Array.from(this.seen.entries()).forEach(([key, seenAt]) => {
+      if (seenAt < cutoff) {
+        this.seen.delete(key);
+      }
+    });
+    localStorage.setItem(SEEN_STORAGE_KEY, JSON.stringify(Object.fromEntries(this.seen)));
+  }
+}
+
+const notificationsService = new NotificationsService();
+export default notificationsService;
@@ -0,0 +1,76 @@
+import { Encounter, EncountersDelta } from '../types/api.types';
+import patientTrackingService from './patientTracking.service';
+
+jest.mock('axios', () => ({ post: jest.fn() }));
+jest.mock('./auth.service', () => ({}));
+
+const encounter = (id: string, overrides: Partial<Encounter> = {}): Encounter => ({
+  id,
+  patientName: `Patient ${id}`,
+  patientInfo: { id: `patient-${id}`, firstName: 'Patient', lastName: id, dateOfBirth: '1980-01-01', gender: 'OTHER', medicalRecordNumber: `MRN-${id}` },
+  appointmentTime: '2025-06-02T14:00:00Z',
+  chiefComplaint: 'Rash',
+  status: 'CHECKED_IN',
+  providers: [],
+  clinicName: 'Main',
+  appointmentType: 'Follow-up',
+  appointmentColor: '#2196F3',
+  establishedPatient: true,
+  ...overrides
+});
+
+const delta = (changes: Partial<EncountersDelta>): EncountersDelta => ({ added: [], updated: [], removed: [], version: 2, ...changes });
+const ids = (encounters: Encounter[]) => encounters.map(({ id }) => id);
+
+describe('applyEncounterDelta', () => {
+  const board = [encounter('a'), encounter('b'), encounter('c')];
+
+  it('appends added rows', () => {
+    const next = patientTrackingService.applyEncounterDelta(board, delta({ added: [encounter('d')] }));
+    expect(ids(next)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('replaces updated rows in place', () => {
+    const moved = encounter('b', { status: 'IN_ROOM', room: 4 });
+    const next = patientTrackingService.applyEncounterDelta(board, delta({ updated: [moved] }));
+
+    expect(ids(next)).toEqual(['a', 'b', 'c']);
+    expect(next[1]).toBe(moved);
+    expect(next[0]).toBe(board[0]);
+  });
+
+  it('drops removed rows', () => {
+    const next = patientTrackingService.applyEncounterDelta(board, delta({ removed: ['a', 'c'] }));
+    expect(ids(next)).toEqual(['b']);
+  });
+
+  it('applies additions, updates and removals together', () => {
+    const next = patientTrackingService.applyEncounterDelta(board, delta({
+      added: [encounter('d')],
+      updated: [encounter('c', { status: 'WITH_PROVIDER' })],
+      removed: ['a']
+    }));
+
+    expect(ids(next)).toEqual(['b', 'c', 'd']);
+    expect(next[1]?.status).toBe('WITH_PROVIDER');
+  });
+
+  it('brings back a removed row when it is added again', () => {
+    const withoutB = patientTrackingService.applyEncounterDelta(board, delta({ removed: ['b'] }));
+    const back = patientTrackingService.applyEncounterDelta(withoutB, delta({ added: [encounter('b', { status: 'IN_ROOM' })] }));
+
+    expect(ids(back)).toEqual(['a', 'c', 'b']);
+    expect(back[2]?.status).toBe('IN_ROOM');
+  });
+
+  it('never duplicates a row the board already has', () => {
+    const next = patientTrackingService.applyEncounterDelta(board, delta({ added: [encounter('a', { status: 'IN_ROOM' })] }));
+
+    expect(ids(next)).toEqual(['a', 'b', 'c']);
+    expect(next[0]?.status).toBe('IN_ROOM');
+  });
+
+  it('leaves the board alone for an empty delta', () => {
+    expect(patientTrackingService.applyEncounterDelta(board, delta({}))).toEqual(board);
+  });
+});
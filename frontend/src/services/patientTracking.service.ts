@@ -1,13 +1,24 @@
 import axios from 'axios';
-import { Encounter, EncountersRequest, EncountersResponse } from '../types/api.types';
+import { AlertSeverity, Encounter, EncountersDelta, EncountersRequest, EncountersResponse, StreamTicketResponse } from '../types/api.types';
 import authService from './auth.service';
-import { mockEncounters } from './mockData';
+import { mockClinics, mockEncounters } from './mockData';
 
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://0.0.0.0:5001';
 
 // Development flag - set to true to use mock data
 const USE_MOCK_DATA = process.env.NODE_ENV === 'development' && process.env.REACT_APP_USE_MOCK_DATA === 'true';
 
+// Wait before reopening a stream the server refused (e.g. expired session)
+const STREAM_RECONNECT_DELAY_MS = 30000;
+// Wait before reopening a stream that dropped after it was open
+const STREAM_RETRY_DELAY_MS = 3000;
+
+export interface EncounterStreamHandlers {
+  onSnapshot: (encounters: Encounter[]) => void;
+  onDelta: (delta: EncountersDelta) => void;
+  onConnectionChange: (connected: boolean) => void;
+}
+
 class PatientTrackingService {
   private async makeAPICallWithRetry<T>(apiCall: () => Promise<T>, maxRetries: number = 2): Promise<T> {
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
@@ -34,7 +45,10 @@ class PatientTrackingService {
         console.log('🚧 Development Mode: Using mock data');
         // Simulate API delay
         await new Promise(resolve => setTimeout(resolve, 300));
-        return mockEncounters;
+        const mockClinic = mockClinics.find(clinic => clinic.clinicId === params?.clinicId);
+        return mockClinic
+          ? mockEncounters.filter(encounter => encounter.clinicName === mockClinic.name)
+          : mockEncounters;
       }
 
       // Wait for session restoration to complete
@@ -101,6 +115,137 @@ class PatientTrackingService {
     }
   }
 
+  /**
+   * Subscribe to live encounter changes for a clinic. The handlers get a full snapshot
+   * whenever the stream (re)connects, then deltas. Returns an unsubscribe function.
+   * Every connection opens with a fresh single-use ticket, so the session token never
+   * goes into a URL.
+   */
+  subscribeToEncounters(clinicId: string | undefined, handlers: EncounterStreamHandlers): () => void {
+    // Mock data has no server to stream from; the dashboard keeps polling
+    if (USE_MOCK_DATA || typeof EventSource === 'undefined') {
+      handlers.onConnectionChange(false);
+      return () => {};
+    }
+
+    let eventSource: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let closed = false;
+
+    const connect = async () => {
+      await authService.waitForSessionRestore();
+
+      const sessionToken = authService.getSessionToken();
+      if (closed || !sessionToken) {
+        return;
+      }
+
+      let ticket: string;
+      try {
+        const response = await axios.post<StreamTicketResponse>(
+          `${API_BASE_URL}/encounters/stream-ticket`,
+          {},
+          {
+            headers: {
+              'Authorization': `Bearer ${sessionToken}`
+            }
+          }
+        );
+        ticket = response.data.ticket;
+      } catch (error: any) {
+        console.error('💥 Failed to get an encounter stream ticket:', error.response?.data?.error || error.message);
+        scheduleReconnect(true);
+        return;
+      }
+
+      if (closed) {
+        return;
+      }
+
+      const params = new URLSearchParams({ ticket });
+      if (clinicId) {
+        params.set('clinicId', clinicId);
+      }
+
+      console.log('📡 Opening encounter stream...');
+      eventSource = new EventSource(`${API_BASE_URL}/encounters/stream?${params.toString()}`);
+      let opened = false;
+
+      eventSource.addEventListener('snapshot', (event) => {
+        const { encounters } = JSON.parse((event as MessageEvent).data);
+        opened = true;
+        handlers.onSnapshot(encounters);
+        handlers.onConnectionChange(true);
+      });
+
+      eventSource.addEventListener('delta', (event) => {
+        handlers.onDelta(JSON.parse((event as MessageEvent).data));
+        handlers.onConnectionChange(true);
+      });
+
+      // The stream stays open when the server can't reach EZDerm, but its rows go stale,
+      // so let the dashboard poll until the next snapshot or delta arrives
+      eventSource.addEventListener('feed-error', () => {
+        console.log('⚠️ Encounter feed failed to refresh - falling back to polling');
+        handlers.onConnectionChange(false);
+      });
+
+      eventSource.addEventListener('session-expired', () => {
+        console.log('⚠️ Encounter stream session expired');
+        eventSource?.close();
+        scheduleReconnect(true);
+      });
+
+      eventSource.onerror = () => {
+        console.log('🔌 Encounter stream dropped - falling back to polling');
+
+        // EventSource would retry with the same URL, but its ticket is used up, so reconnect
+        // with a new one: soon if the stream was open, later if the server refused it
+        eventSource?.close();
+        scheduleReconnect(!opened);
+      };
+    };
+
+    // A refused stream may mean the session expired, so refresh it before trying again
+    const scheduleReconnect = (refused: boolean) => {
+      handlers.onConnectionChange(false);
+      if (closed || reconnectTimer) {
+        return;
+      }
+
+      reconnectTimer = setTimeout(async () => {
+        reconnectTimer = null;
+        if (refused) {
+          await authService.attemptTokenRefresh();
+        }
+        connect();
+      }, refused ? STREAM_RECONNECT_DELAY_MS : STREAM_RETRY_DELAY_MS);
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+      }
+      eventSource?.close();
+    };
+  }
+
+  // Apply a stream delta to the current encounter list
+  applyEncounterDelta(encounters: Encounter[], delta: EncountersDelta): Encounter[] {
+    const changed = new Map([...delta.added, ...delta.updated].map(encounter => [encounter.id, encounter]));
+    const removed = new Set(delta.removed);
+
+    const kept = encounters
+      .filter(encounter => !removed.has(encounter.id))
+      .map(encounter => changed.get(encounter.id) || encounter);
+    const keptIds = new Set(kept.map(encounter => encounter.id));
+
+    return [...kept, ...Array.from(changed.values()).filter(encounter => !keptIds.has(encounter.id))];
+  }
+
   // Helper method to format patient status
   getStatusColor(status: string): string {
     const statusColors: { [key: string]: string } = {
@@ -181,15 +326,18 @@ class PatientTrackingService {
     }
   }
 
-  // Helper method to check if patient has been waiting too long (more than 10 minutes)
-  isWaitingTooLong(arrivalTime?: string): boolean {
-    if (!arrivalTime) return false;
-    
-    const arrival = new Date(arrivalTime);
-    const now = new Date();
-    const diffMinutes = Math.floor((now.getTime() - arrival.getTime()) / 60000);
-    
-    return diffMinutes > 10;
+  // Colour for a wait-time alert; the server decides which rule (if any) an encounter breaks
+  getAlertColor(severity?: AlertSeverity): string | null {
+    switch (severity) {
+      case 'critical':
+        return '#f44336';
+      case 'warning':
+        return '#ff9800';
+      case 'info':
+        return '#2196f3';
+      default:
+        return null;
+    }
   }
 
 
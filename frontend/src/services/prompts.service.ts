@@ -0,0 +1,143 @@
+import axios from 'axios';
+import {
+  PromptTemplateSummary,
+  PromptTemplateVersion,
+  PromptTemplatesResponse,
+  PromptTemplateVersionsResponse
+} from '../types/api.types';
+import authService from './auth.service';
+import { mockPromptTemplateVersions } from './mockData';
+
+const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://0.0.0.0:5001';
+const USE_MOCK_DATA = process.env.NODE_ENV === 'development' && process.env.REACT_APP_USE_MOCK_DATA === 'true';
+
+// Pins made while using mock data, by check type
+const mockPins: Record<string, number> = {};
+
+class PromptsService {
+  private async getHeaders(): Promise<Record<string, string>> {
+    await authService.waitForSessionRestore();
+    return {
+      'Authorization': `Bearer ${authService.getSessionToken()}`
+    };
+  }
+
+  /**
+   * Get each AI check's prompt versions in use and the model it runs on (admins only)
+   */
+  async getTemplates(): Promise<PromptTemplateSummary[]> {
+    if (USE_MOCK_DATA) {
+      console.log('🚧 Development Mode: Returning mock prompt templates');
+      return Array.from(new Set(mockPromptTemplateVersions.map(version => version.checkType))).map(checkType => {
+        const latestVersion = Math.max(...mockPromptTemplateVersions.filter(version => version.checkType === checkType).map(version => version.versionNumber));
+        const pinnedVersion = mockPins[checkType];
+        return {
+          checkType,
+          latestVersion,
+          activeVersion: pinnedVersion ?? latestVersion,
+          ...(pinnedVersion !== undefined && { pinnedVersion, pinnedBy: 'demo' }),
+          model: { provider: 'openai', model: 'gpt-5' }
+        };
+      });
+    }
+
+    try {
+      const response = await axios.get<PromptTemplatesResponse>(`${API_BASE_URL}/admin/prompts`, {
+        headers: await this.getHeaders()
+      });
+      return response.data.templates;
+    } catch (error: any) {
+      console.error('Error fetching prompt templates:', error);
+      throw new Error(error.response?.data?.error || 'Failed to fetch prompt templates');
+    }
+  }
+
+  /**
+   * Get every version of a check's prompt, newest first
+   */
+  async getVersions(checkType: string): Promise<PromptTemplateVersion[]> {
+    if (USE_MOCK_DATA) {
+      console.log('🚧 Development Mode: Returning mock prompt versions');
+      return mockPromptTemplateVersions.filter(version => version.checkType === checkType);
+    }
+
+    try {
+      const response = await axios.get<PromptTemplateVersionsResponse>(`${API_BASE_URL}/admin/prompts/${encodeURIComponent(checkType)}/versions`, {
+        headers: await this.getHeaders()
+      });
+      return response.data.versions;
+    } catch (error: any) {
+      console.error('Error fetching prompt versions:', error);
+      throw new Error(error.response?.data?.error || 'Failed to fetch prompt versions');
+    }
+  }
+
+  /**
+   * Save an edited prompt as the check's next version. Fails if a version after `baseVersion`
+   * has been saved since the edit started.
+   */
+  async saveVersion(checkType: string, content: string, changeNote: string, baseVersion: number): Promise<PromptTemplateVersion> {
+    if (USE_MOCK_DATA) {
+      console.log('🚧 Development Mode: Mock prompt version save');
+      const latestVersion = Math.max(...mockPromptTemplateVersions.filter(version => version.checkType === checkType).map(version => version.versionNumber));
+      if (latestVersion !== baseVersion) {
+        throw new Error(`Another version of the ${checkType} prompt was saved after v${baseVersion}. Review it, then save your edit again.`);
+      }
+      const versionNumber = latestVersion + 1;
+      const version: PromptTemplateVersion = {
+        id: Math.max(...mockPromptTemplateVersions.map(candidate => candidate.id)) + 1,
+        checkType,
+        versionNumber,
+        content,
+        changeNote,
+        createdBy: 'demo',
+        createdAt: new Date().toISOString()
+      };
+      mockPromptTemplateVersions.unshift(version);
+      return version;
+    }
+
+    try {
+      const response = await axios.post<PromptTemplateVersion>(`${API_BASE_URL}/admin/prompts/${encodeURIComponent(checkType)}/versions`, {
+        content,
+        changeNote,
+        baseVersion
+      }, {
+        headers: await this.getHeaders()
+      });
+      return response.data;
+    } catch (error: any) {
+      console.error('Error saving prompt version:', error);
+      throw new Error(error.response?.data?.error || 'Failed to save prompt version');
+    }
+  }
+
+  /**
+   * Pin a check to one version of its prompt, or unpin it (null) so it runs the latest
+   */
+  async pinVersion(checkType: string, versionNumber: number | null): Promise<void> {
+    if (USE_MOCK_DATA) {
+      console.log('🚧 Development Mode: Mock prompt pin');
+      if (versionNumber === null) {
+        delete mockPins[checkType];
+      } else {
+        mockPins[checkType] = versionNumber;
+      }
+      return;
+    }
+
+    try {
+      await axios.put(`${API_BASE_URL}/admin/prompts/${encodeURIComponent(checkType)}/pin`, {
+        versionNumber
+      }, {
+        headers: await this.getHeaders()
+      });
+    } catch (error: any) {
+      console.error('Error pinning prompt version:', error);
+      throw new Error(error.response?.data?.error || 'Failed to pin prompt version');
+    }
+  }
+}
+
+const promptsService = new PromptsService();
+export default promptsService;
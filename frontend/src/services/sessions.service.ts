@@ -0,0 +1,125 @@
+import axios from 'axios';
+import { UserSession, UserSessionsResponse } from '../types/api.types';
+import authService from './auth.service';
+import { mockSessions } from './mockData';
+
+const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://0.0.0.0:5001';
+const USE_MOCK_DATA = process.env.NODE_ENV === 'development' && process.env.REACT_APP_USE_MOCK_DATA === 'true';
+
+class SessionsService {
+  private async getHeaders(): Promise<Record<string, string>> {
+    await authService.waitForSessionRestore();
+    return {
+      'Authorization': `Bearer ${authService.getSessionToken()}`
+    };
+  }
+
+  /**
+   * Get the signed-in user's active sessions
+   */
+  async getMySessions(): Promise<UserSession[]> {
+    if (USE_MOCK_DATA) {
+      console.log('🚧 Development Mode: Returning mock sessions');
+      return mockSessions.filter(session => session.username === mockSessions[0].username);
+    }
+
+    try {
+      const response = await axios.get<UserSessionsResponse>(`${API_BASE_URL}/sessions`, {
+        headers: await this.getHeaders()
+      });
+      return response.data.sessions;
+    } catch (error: any) {
+      console.error('Error fetching sessions:', error);
+      throw new Error(error.response?.data?.error || 'Failed to fetch sessions');
+    }
+  }
+
+  /**
+   * Get every user's active sessions (admins only)
+   */
+  async getAllSessions(username?: string): Promise<UserSession[]> {
+    if (USE_MOCK_DATA) {
+      console.log('🚧 Development Mode: Returning mock sessions for all users');
+      return username ? mockSessions.filter(session => session.username === username) : mockSessions;
+    }
+
+    try {
+      const response = await axios.get<UserSessionsResponse>(`${API_BASE_URL}/admin/sessions`, {
+        params: { username: username || undefined },
+        headers: await this.getHeaders()
+      });
+      return response.data.sessions;
+    } catch (error: any) {
+      console.error('Error fetching all sessions:', error);
+      throw new Error(error.response?.data?.error || 'Failed to fetch sessions');
+    }
+  }
+
+  /**
+   * Name a session's device; an empty label clears it
+   */
+  async setDeviceLabel(session: UserSession, deviceLabel: string): Promise<UserSession> {
+    if (session.current) {
+      authService.setDeviceLabel(deviceLabel);
+    }
+
+    if (USE_MOCK_DATA) {
+      console.log('🚧 Development Mode: Mock session label update');
+      return { ...session, deviceLabel: deviceLabel.trim() || undefined };
+    }
+
+    try {
+      const response = await axios.put<UserSession>(`${API_BASE_URL}/sessions/${session.id}/label`, {
+        deviceLabel: deviceLabel.trim() || null
+      }, {
+        headers: await this.getHeaders()
+      });
+      return response.data;
+    } catch (error: any) {
+      console.error('Error labelling session:', error);
+      throw new Error(error.response?.data?.error || 'Failed to label session');
+    }
+  }
+
+  /**
+   * Revoke a session; it is signed out on its next request
+   */
+  async revokeSession(sessionId: number): Promise<void> {
+    if (USE_MOCK_DATA) {
+      console.log('🚧 Development Mode: Mock session revoke');
+      return;
+    }
+
+    try {
+      await axios.delete(`${API_BASE_URL}/sessions/${sessionId}`, {
+        headers: await this.getHeaders()
+      });
+    } catch (error: any) {
+      console.error('Error revoking session:', error);
+      throw new Error(error.response?.data?.error || 'Failed to revoke session');
+    }
+  }
+
+  /**
+   * Sign a user out everywhere (admins only)
+   */
+  async logoutUser(username: string): Promise<number> {
+    if (USE_MOCK_DATA) {
+      console.log('🚧 Development Mode: Mock force logout');
+      return mockSessions.filter(session => session.username === username).length;
+    }
+
+    try {
+      const response = await axios.post<{ revoked: number }>(`${API_BASE_URL}/admin/users/${encodeURIComponent(username)}/logout`, {}, {
+        headers: await this.getHeaders()
+      });
+      return response.data.revoked;
+    } catch (error: any) {
+      console.error('Error logging out user:', error);
+      throw new Error(error.response?.data?.error || 'Failed to log out user');
+    }
+  }
+}
+
+const sessionsService = new SessionsService();
+export default sessionsService;
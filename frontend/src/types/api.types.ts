@@ -2,6 +2,7 @@
 export interface LoginRequest {
   username: string;
   password: string;
+  deviceLabel?: string;
 }
 
 export interface LoginResponse {
@@ -11,15 +12,34 @@ export interface LoginResponse {
   sessionToken?: string;
   refreshToken?: string;
   expiresAt?: string;
+  role?: UserRole;
+  permissions?: Permission[];
 }
 
 export interface SessionValidationResponse {
   valid: boolean;
   username?: string;
   expiresAt?: string;
+  role?: UserRole;
+  permissions?: Permission[];
   error?: string;
 }
 
+// Access control types
+export type UserRole = 'front_desk' | 'ma' | 'provider' | 'coder' | 'admin';
+
+export type Permission =
+  | 'board:view'
+  | 'analytics:view'
+  | 'vitals:process'
+  | 'notes:view'
+  | 'notes:review'
+  | 'notes:bulk'
+  | 'notes:sign'
+  | 'jobs:manage'
+  | 'audit:view'
+  | 'admin:manage';
+
 // Patient and encounter types
 export interface PatientInfo {
   id: string;
@@ -46,13 +66,23 @@ export interface Encounter {
   appointmentTime: string;
   arrivalTime?: string;
   chiefComplaint: string;
-  status: 'SCHEDULED' | 'CONFIRMED' | 'CHECKED_IN' | 'ARRIVED' | 'IN_ROOM' | 'WITH_PROVIDER' | 'WITH_STAFF' | 'READY_FOR_STAFF' | 'PENDING_COSIGN' | 'CHECKED_OUT' | 'CANCELLED' | 'NO_SHOW' | 'RESCHEDULED' | 'MESSAGE_LEFT' | 'NO_ANSWERED' | 'NOT_ARRIVED' | 'ENCOUNTER_COMPLETED';
+  status: 'SCHEDULED' | 'CONFIRMED' | 'CHECKED_IN' | 'ARRIVED' | 'IN_ROOM' | 'WITH_PROVIDER' | 'WITH_STAFF' | 'READY_FOR_STAFF' | 'READY_FOR_PROVIDER' | 'PENDING_COSIGN' | 'CHECKED_OUT' | 'CANCELLED' | 'NO_SHOW' | 'RESCHEDULED' | 'MESSAGE_LEFT' | 'NO_ANSWERED' | 'NOT_ARRIVED' | 'ENCOUNTER_COMPLETED';
   room?: string | number;
   providers: Provider[];
   clinicName: string;
   appointmentType: string;
   appointmentColor: string;
   establishedPatient: boolean;
+  statusSince?: string; // When the server first saw the current status
+  alert?: WaitTimeAlert; // Most severe wait-time alert rule the encounter breaks
+}
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export interface WaitTimeAlert {
+  ruleId: number;
+  severity: AlertSeverity;
+  thresholdMinutes: number;
 }
 
 export interface EncountersRequest {
@@ -67,14 +97,222 @@ export interface EncountersResponse {
   encounters: Encounter[];
 }
 
+// Single-use ticket for opening the encounter stream
+export interface StreamTicketResponse {
+  ticket: string;
+  expiresAt: string;
+}
+
+// Changes pushed by the server's encounter stream
+export interface EncountersDelta {
+  added: Encounter[];
+  updated: Encounter[];
+  removed: string[];
+  version: number;
+}
+
+// Clinic registry types
+export interface Clinic {
+  id: number;
+  clinicId: string;
+  practiceId: string;
+  name: string;
+  timeZone: string;
+  isActive: boolean;
+  vitalSignsEnabled: boolean;
+  aiScanEnabled: boolean;
+}
+
+export interface ClinicsResponse {
+  clinics: Clinic[];
+}
+
+// Clinic flow analytics types
+export type WaitTimeGroupBy = 'provider' | 'day' | 'appointmentType';
+
+export interface WaitTimeStageStats {
+  count: number;
+  averageMinutes: number | null;
+  medianMinutes: number | null;
+}
+
+export interface WaitTimeStats {
+  key: string;
+  label: string;
+  visits: number;
+  doorToRoom: WaitTimeStageStats;
+  roomToProvider: WaitTimeStageStats;
+  totalVisit: WaitTimeStageStats;
+}
+
+export interface WaitTimeAnalyticsResponse {
+  clinicId: string;
+  from: string;
+  to: string;
+  groupBy: WaitTimeGroupBy;
+  providerId?: string;
+  overall: WaitTimeStats;
+  groups: WaitTimeStats[];
+}
+
+export interface ClinicFlowHour {
+  hour: number;
+  arrivals: number;
+  completions: number;
+  occupiedRooms: number;
+}
+
+export interface ProviderUtilization {
+  providerId: string;
+  providerName: string;
+  patientsSeen: number;
+  minutesWithPatients: number;
+  averageMinutesPerPatient: number | null;
+  utilization: number | null;
+}
+
+export interface ClinicFlowAnalyticsResponse {
+  clinicId: string;
+  from: string;
+  to: string;
+  providerId?: string;
+  days: number;
+  scheduledVisits: number;
+  noShows: number;
+  cancellations: number;
+  noShowRate: number | null;
+  cancellationRate: number | null;
+  hourly: ClinicFlowHour[];
+  providers: ProviderUtilization[];
+}
+
+export interface AnalyticsFilters {
+  clinicId: string;
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+  providerId?: string;
+}
+
+// Kiosk display types
+export type KioskPatientStatus = 'waiting' | 'in_room' | 'with_provider';
+
+export interface KioskPatient {
+  displayId: string; // Initials and last MRN digits, or a ticket number
+  status: KioskPatientStatus;
+  statusLabel: string;
+  estimatedWaitMinutes: number | null;
+}
+
+export interface KioskBoardResponse {
+  clinicName: string;
+  timeZone: string;
+  generatedAt: string;
+  patients: KioskPatient[];
+}
+
+// Session management types
+export interface UserSession {
+  id: number;
+  username: string;
+  deviceLabel?: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: string;
+  lastAccessed: string;
+  expiresAt: string;
+  current: boolean; // The session this browser is using
+}
+
+export interface UserSessionsResponse {
+  sessions: UserSession[];
+}
+
+// Audit log types
+export type AuditAction = 'note.sign_off' | 'note.hpi_update' | 'todo.create' | 'vital_signs.update';
+
+export interface AuditChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEvent {
+  id: number;
+  actor: string;
+  action: AuditAction;
+  encounterId?: string;
+  patientId?: string;
+  requestPayload?: unknown;
+  changes?: Record<string, AuditChange>;
+  responseStatus?: number;
+  success: boolean;
+  errorMessage?: string;
+  occurredAt: string;
+}
+
+export interface AuditEventFilter {
+  patientId?: string;
+  encounterId?: string;
+  actor?: string;
+  action?: AuditAction;
+  from?: string; // YYYY-MM-DD
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditEventsResponse {
+  events: AuditEvent[];
+  total: number;
+}
+
+// Prompt template types
+export type LLMProviderName = 'openai' | 'anthropic' | 'local' | 'fake';
+
+export interface LLMModelChoice {
+  provider: LLMProviderName;
+  model: string;
+}
+
+export interface PromptTemplateVersion {
+  id: number;
+  checkType: string;
+  versionNumber: number; // 1 is the prompt the server shipped with
+  content: string;
+  changeNote?: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+export interface PromptTemplateSummary {
+  checkType: string;
+  latestVersion: number;
+  activeVersion: number; // The pinned version, or the latest when none is pinned
+  pinnedVersion?: number;
+  pinnedBy?: string;
+  pinnedAt?: string;
+  model: LLMModelChoice;
+}
+
+export interface PromptTemplatesResponse {
+  templates: PromptTemplateSummary[];
+}
+
+export interface PromptTemplateVersionsResponse {
+  checkType: string;
+  versions: PromptTemplateVersion[];
+}
+
 // Auth context types
 export interface User {
   username: string;
+  role?: UserRole;
+  permissions: Permission[];
 }
 
 export interface AuthContextType {
   user: User | null;
-  login: (username: string, password: string, persistentLogin?: boolean) => Promise<void>;
+  hasPermission: (permission: Permission) => boolean;
+  login: (username: string, password: string, persistentLogin?: boolean, deviceLabel?: string) => Promise<void>;
   logout: () => Promise<void>;
   isLoading: boolean;
   error: string | null;
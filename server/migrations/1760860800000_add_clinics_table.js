@@ -0,0 +1,38 @@
+const shorthands = undefined;
+
+// The clinic every installation used before the registry existed
+const DEFAULT_CLINIC_ID = '44b62760-50a1-488c-92ed-e0c7aa3cde92';
+const DEFAULT_PRACTICE_ID = '4cc96922-4d83-4183-863b-748d69de621f';
+
+async function up(pgm) {
+  // Create clinics table (registry of EZDerm clinics this installation serves)
+  pgm.createTable('clinics', {
+    id: 'id',
+    clinic_id: { type: 'text', unique: true, notNull: true },
+    practice_id: { type: 'text', notNull: true },
+    name: { type: 'text', notNull: true },
+    is_active: { type: 'boolean', notNull: true, default: true },
+    vital_signs_enabled: { type: 'boolean', notNull: true, default: true },
+    ai_scan_enabled: { type: 'boolean', notNull: true, default: true },
+    created_at: { type: 'timestamp', default: pgm.func('CURRENT_TIMESTAMP') },
+    updated_at: { type: 'timestamp', default: pgm.func('CURRENT_TIMESTAMP') }
+  }, {
+    ifNotExists: true
+  });
+
+  pgm.createIndex('clinics', 'is_active', { ifNotExists: true });
+
+  // Seed the clinic that was previously hardcoded so existing deployments keep working
+  pgm.sql(`
+    INSERT INTO clinics (clinic_id, practice_id, name)
+    VALUES ('${DEFAULT_CLINIC_ID}', '${DEFAULT_PRACTICE_ID}', 'DCC - Flint')
+    ON CONFLICT (clinic_id) DO NOTHING
+  `);
+}
+
+async function down(pgm) {
+  // Drop clinics table
+  pgm.dropTable('clinics', { cascade: true });
+}
+
+module.exports = { up, down, shorthands };
@@ -0,0 +1,16 @@
+const shorthands = undefined;
+
+async function up(pgm) {
+  // IANA time zone the clinic's day is measured in when querying EZDerm
+  pgm.addColumn('clinics', {
+    time_zone: { type: 'text', notNull: true, default: 'America/Detroit' }
+  }, {
+    ifNotExists: true
+  });
+}
+
+async function down(pgm) {
+  pgm.dropColumn('clinics', 'time_zone', { ifExists: true });
+}
+
+module.exports = { up, down, shorthands };
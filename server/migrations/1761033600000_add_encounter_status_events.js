@@ -0,0 +1,31 @@
+const shorthands = undefined;
+
+async function up(pgm) {
+  // Create encounter_status_events table (timeline of status changes seen while polling EZDerm)
+  pgm.createTable('encounter_status_events', {
+    id: 'id',
+    encounter_id: { type: 'text', notNull: true },
+    clinic_id: { type: 'text', notNull: true },
+    patient_id: { type: 'text', notNull: true },
+    status: { type: 'varchar(50)', notNull: true },
+    previous_status: { type: 'varchar(50)' },
+    room: { type: 'text' },
+    provider_id: { type: 'text' },
+    provider_name: { type: 'text' },
+    appointment_type: { type: 'text' },
+    date_of_service: { type: 'timestamptz', notNull: true },
+    arrival_time: { type: 'timestamptz' },
+    observed_at: { type: 'timestamptz', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  }, {
+    ifNotExists: true
+  });
+
+  pgm.createIndex('encounter_status_events', ['encounter_id', 'observed_at'], { ifNotExists: true });
+  pgm.createIndex('encounter_status_events', ['clinic_id', 'date_of_service'], { ifNotExists: true });
+}
+
+async function down(pgm) {
+  pgm.dropTable('encounter_status_events', { cascade: true });
+}
+
+module.exports = { up, down, shorthands };
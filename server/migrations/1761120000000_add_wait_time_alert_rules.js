@@ -0,0 +1,34 @@
+const shorthands = undefined;
+
+async function up(pgm) {
+  // Create wait_time_alert_rules table (how long a patient may stay in a status before the board flags them)
+  pgm.createTable('wait_time_alert_rules', {
+    id: 'id',
+    status: { type: 'varchar(50)', notNull: true },
+    appointment_type: { type: 'text' }, // NULL matches every appointment type
+    threshold_minutes: { type: 'integer', notNull: true, check: 'threshold_minutes > 0' },
+    severity: { type: 'varchar(20)', notNull: true, check: "severity IN ('info', 'warning', 'critical')" },
+    is_active: { type: 'boolean', notNull: true, default: true },
+    created_by: { type: 'varchar(255)' },
+    created_at: { type: 'timestamp', default: pgm.func('CURRENT_TIMESTAMP') },
+    updated_at: { type: 'timestamp', default: pgm.func('CURRENT_TIMESTAMP') }
+  }, {
+    ifNotExists: true
+  });
+
+  pgm.createIndex('wait_time_alert_rules', 'status', { ifNotExists: true });
+
+  // Start with the board's previous fixed rule: 10 minutes waiting in CHECKED_IN or WITH_STAFF
+  pgm.sql(`
+    INSERT INTO wait_time_alert_rules (status, threshold_minutes, severity, created_by)
+    SELECT status, 10, 'critical', 'system'
+    FROM (VALUES ('CHECKED_IN'), ('WITH_STAFF')) AS defaults (status)
+    WHERE NOT EXISTS (SELECT 1 FROM wait_time_alert_rules)
+  `);
+}
+
+async function down(pgm) {
+  pgm.dropTable('wait_time_alert_rules', { cascade: true });
+}
+
+module.exports = { up, down, shorthands };
@@ -0,0 +1,42 @@
+const shorthands = undefined;
+
+async function up(pgm) {
+  // Create kiosk_display_tokens table (read-only tokens for public waiting-room screens)
+  pgm.createTable('kiosk_display_tokens', {
+    id: 'id',
+    token_hash: { type: 'varchar(64)', unique: true, notNull: true }, // SHA-256 of the token; the token itself is only shown once
+    clinic_id: { type: 'text', notNull: true },
+    label: { type: 'text', notNull: true },
+    masking_mode: { type: 'varchar(20)', notNull: true, default: 'initials_mrn', check: "masking_mode IN ('initials_mrn', 'ticket')" },
+    created_by: { type: 'varchar(255)', notNull: true },
+    created_at: { type: 'timestamp', default: pgm.func('CURRENT_TIMESTAMP') },
+    last_used_at: { type: 'timestamp' },
+    revoked_at: { type: 'timestamp' }
+  }, {
+    ifNotExists: true
+  });
+
+  // Create kiosk_tickets table (per-day ticket numbers shown instead of patient identifiers)
+  pgm.createTable('kiosk_tickets', {
+    id: 'id',
+    clinic_id: { type: 'text', notNull: true },
+    service_day: { type: 'date', notNull: true },
+    encounter_id: { type: 'text', notNull: true },
+    ticket_number: { type: 'integer', notNull: true },
+    created_at: { type: 'timestamp', default: pgm.func('CURRENT_TIMESTAMP') }
+  }, {
+    ifNotExists: true,
+    constraints: {
+      unique: ['clinic_id', 'encounter_id']
+    }
+  });
+
+  pgm.createIndex('kiosk_tickets', ['clinic_id', 'service_day'], { ifNotExists: true });
+}
+
+async function down(pgm) {
+  pgm.dropTable('kiosk_tickets', { cascade: true });
+  pgm.dropTable('kiosk_display_tokens', { cascade: true });
+}
+
+module.exports = { up, down, shorthands };
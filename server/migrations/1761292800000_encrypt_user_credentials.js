@@ -0,0 +1,103 @@
+const crypto = require('crypto');
+const { readFileSync } = require('fs');
+
+const shorthands = undefined;
+
+// Must match the envelope format in src/credentialCrypto.ts. Kept inline so the migration
+// runs from `npm run migrate` without the compiled application.
+const ENVELOPE_PREFIX = 'enc:v1:';
+const COLUMNS = ['password', 'access_token', 'refresh_token'];
+
+function loadKeyring() {
+  const keys = new Map();
+  let activeKeyId = null;
+
+  if (process.env.CREDENTIALS_ENCRYPTION_KEYS) {
+    for (const entry of process.env.CREDENTIALS_ENCRYPTION_KEYS.split(',').map(value => value.trim()).filter(Boolean)) {
+      const separator = entry.indexOf(':');
+      const keyId = entry.slice(0, separator);
+      keys.set(keyId, Buffer.from(entry.slice(separator + 1), 'base64'));
+      activeKeyId = activeKeyId || keyId;
+    }
+  } else if (process.env.CREDENTIALS_KEYRING_FILE) {
+    const keyring = JSON.parse(readFileSync(process.env.CREDENTIALS_KEYRING_FILE, 'utf8'));
+    for (const [keyId, key] of Object.entries(keyring.keys || {})) {
+      keys.set(keyId, Buffer.from(key, 'base64'));
+    }
+    activeKeyId = keyring.activeKeyId || null;
+  }
+
+  return { keys, activeKeyId };
+}
+
+function seal(key, plaintext) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function open(key, iv, tag, ciphertext) {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function encrypt(keyring, plaintext) {
+  const dataKey = crypto.randomBytes(32);
+  const wrapped = seal(keyring.keys.get(keyring.activeKeyId), dataKey);
+  const value = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+  const parts = [Buffer.concat([wrapped.iv, wrapped.tag, wrapped.ciphertext]), value.iv, value.tag, value.ciphertext];
+  return `${ENVELOPE_PREFIX}${keyring.activeKeyId}:${parts.map(part => part.toString('base64')).join(':')}`;
+}
+
+function decrypt(keyring, stored) {
+  const [keyId, wrappedKey, iv, tag, ciphertext] = stored.slice(ENVELOPE_PREFIX.length).split(':');
+  const key = keyring.keys.get(keyId);
+  if (!key) {
+    throw new Error(`Credentials encryption key ${keyId} is not configured`);
+  }
+
+  const wrapped = Buffer.from(wrappedKey, 'base64');
+  const dataKey = open(key, wrapped.subarray(0, 12), wrapped.subarray(12, 28), wrapped.subarray(28));
+  return open(dataKey, Buffer.from(iv, 'base64'), Buffer.from(tag, 'base64'), Buffer.from(ciphertext, 'base64')).toString('utf8');
+}
+
+// Rewrite every stored credential column with the given transform
+async function transformCredentials(pgm, transform) {
+  const rows = await pgm.db.select(`SELECT id, ${COLUMNS.join(', ')} FROM user_credentials`);
+  for (const row of rows) {
+    const values = COLUMNS.map(column => (row[column] === null ? null : transform(row[column])));
+    if (values.every((value, index) => value === row[COLUMNS[index]])) {
+      continue;
+    }
+    await pgm.db.query(
+      'UPDATE user_credentials SET password = $2, access_token = $3, refresh_token = $4 WHERE id = $1',
+      [row.id, ...values]
+    );
+  }
+}
+
+async function up(pgm) {
+  // Interactive users' passwords no longer have to be stored (PERSIST_USER_PASSWORDS=false)
+  pgm.alterColumn('user_credentials', 'password', { notNull: false });
+
+  const keyring = loadKeyring();
+  if (!keyring.activeKeyId) {
+    // Nothing to encrypt with yet; the server encrypts these once a key is configured
+    console.log('No credentials encryption key configured, leaving stored credentials as they are');
+    return;
+  }
+
+  await transformCredentials(pgm, value => (value.startsWith(ENVELOPE_PREFIX) ? value : encrypt(keyring, value)));
+}
+
+async function down(pgm) {
+  const keyring = loadKeyring();
+  await transformCredentials(pgm, value => (value.startsWith(ENVELOPE_PREFIX) ? decrypt(keyring, value) : value));
+
+  pgm.sql("UPDATE user_credentials SET password = '' WHERE password IS NULL");
+  pgm.alterColumn('user_credentials', 'password', { notNull: true });
+}
+
+module.exports = { up, down, shorthands };
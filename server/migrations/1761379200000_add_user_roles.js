@@ -0,0 +1,22 @@
+const shorthands = undefined;
+
+async function up(pgm) {
+  // Create user_roles table (tracking board role per EZDerm user)
+  pgm.createTable('user_roles', {
+    username: { type: 'text', primaryKey: true },
+    role: { type: 'varchar(20)', notNull: true, check: "role IN ('front_desk', 'ma', 'provider', 'coder', 'admin')" },
+    source: { type: 'varchar(10)', notNull: true, default: 'ezderm', check: "source IN ('ezderm', 'manual')" }, // manual roles aren't re-derived at login
+    ezderm_title: { type: 'text' },
+    updated_by: { type: 'varchar(255)' },
+    created_at: { type: 'timestamp', default: pgm.func('CURRENT_TIMESTAMP') },
+    updated_at: { type: 'timestamp', default: pgm.func('CURRENT_TIMESTAMP') }
+  }, {
+    ifNotExists: true
+  });
+}
+
+async function down(pgm) {
+  pgm.dropTable('user_roles', { cascade: true });
+}
+
+module.exports = { up, down, shorthands };
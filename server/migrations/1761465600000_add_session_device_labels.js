@@ -0,0 +1,19 @@
+const shorthands = undefined;
+
+async function up(pgm) {
+  // Let users tell their devices apart (e.g. wall-mounted dashboards) on the sessions page
+  pgm.addColumns('user_sessions', {
+    device_label: { type: 'text' }
+  }, {
+    ifNotExists: true
+  });
+
+  pgm.createIndex('user_sessions', ['username', 'is_active'], { ifNotExists: true });
+}
+
+async function down(pgm) {
+  pgm.dropIndex('user_sessions', ['username', 'is_active'], { ifExists: true });
+  pgm.dropColumns('user_sessions', ['device_label'], { ifExists: true });
+}
+
+module.exports = { up, down, shorthands };
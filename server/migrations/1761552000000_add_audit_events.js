@@ -0,0 +1,47 @@
+const shorthands = undefined;
+
+async function up(pgm) {
+  // Create audit_events table (every write this app sends to EZDerm, for compliance review)
+  pgm.createTable('audit_events', {
+    id: 'id',
+    actor: { type: 'text', notNull: true },
+    action: { type: 'varchar(50)', notNull: true },
+    encounter_id: { type: 'text' },
+    patient_id: { type: 'text' },
+    request_payload: { type: 'jsonb' },
+    changes: { type: 'jsonb' },
+    response_status: { type: 'integer' },
+    success: { type: 'boolean', notNull: true },
+    error_message: { type: 'text' },
+    occurred_at: { type: 'timestamptz', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  }, {
+    ifNotExists: true
+  });
+
+  pgm.createIndex('audit_events', ['patient_id', 'occurred_at'], { ifNotExists: true });
+  pgm.createIndex('audit_events', ['actor', 'occurred_at'], { ifNotExists: true });
+  pgm.createIndex('audit_events', ['occurred_at'], { ifNotExists: true });
+
+  // Audit events are append-only: refuse updates and deletes
+  pgm.sql(`
+    CREATE OR REPLACE FUNCTION audit_events_append_only() RETURNS trigger AS $$
+    BEGIN
+      RAISE EXCEPTION 'audit_events is append-only';
+    END;
+    $$ LANGUAGE plpgsql
+  `);
+  // The server may already have created the trigger along with the table
+  pgm.sql('DROP TRIGGER IF EXISTS audit_events_append_only ON audit_events');
+  pgm.sql(`
+    CREATE TRIGGER audit_events_append_only
+    BEFORE UPDATE OR DELETE ON audit_events
+    FOR EACH ROW EXECUTE FUNCTION audit_events_append_only()
+  `);
+}
+
+async function down(pgm) {
+  pgm.dropTable('audit_events', { cascade: true });
+  pgm.sql('DROP FUNCTION IF EXISTS audit_events_append_only()');
+}
+
+module.exports = { up, down, shorthands };
@@ -0,0 +1,27 @@
+const shorthands = undefined;
+
+async function up(pgm) {
+  // Create hpi_versions table (HPI text before and after each edit made through the app, for undo)
+  pgm.createTable('hpi_versions', {
+    id: 'id',
+    encounter_id: { type: 'text', notNull: true },
+    patient_id: { type: 'text', notNull: true },
+    version_number: { type: 'integer', notNull: true },
+    note_text: { type: 'text', notNull: true },
+    source: { type: 'varchar(10)', notNull: true, check: "source IN ('ezderm', 'edit', 'revert')" },
+    reverted_from_version: { type: 'integer' },
+    created_by: { type: 'varchar(255)' },
+    created_at: { type: 'timestamptz', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  }, {
+    ifNotExists: true,
+    constraints: {
+      unique: ['encounter_id', 'version_number']
+    }
+  });
+}
+
+async function down(pgm) {
+  pgm.dropTable('hpi_versions', { cascade: true });
+}
+
+module.exports = { up, down, shorthands };
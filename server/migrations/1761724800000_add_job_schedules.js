@@ -0,0 +1,35 @@
+const shorthands = undefined;
+
+async function up(pgm) {
+  // Create job_schedules table (when the worker's recurring jobs run, editable by admins)
+  pgm.createTable('job_schedules', {
+    job_name: { type: 'varchar(50)', primaryKey: true, check: "job_name IN ('vital-signs', 'ai-note-scan')" },
+    enabled: { type: 'boolean', notNull: true, default: true },
+    cron_expression: { type: 'text', notNull: true }, // 5 fields, or 6 with seconds first
+    time_zone: { type: 'text' }, // NULL uses EZDERM_TIME_ZONE
+    active_from: { type: 'time' }, // runs outside active_from-active_until are skipped; NULL runs around the clock
+    active_until: { type: 'time' },
+    business_days: { type: 'smallint[]' }, // 0 = Sunday ... 6 = Saturday; NULL runs every day
+    eligibility_delay_minutes: { type: 'integer', check: 'eligibility_delay_minutes >= 0' }, // AI note scan only
+    recheck_after_minutes: { type: 'integer', check: 'recheck_after_minutes > 0' }, // AI note scan only
+    updated_by: { type: 'varchar(255)' },
+    updated_at: { type: 'timestamp', default: pgm.func('CURRENT_TIMESTAMP') }
+  }, {
+    ifNotExists: true
+  });
+
+  // Start with the intervals that were previously hardcoded in the worker
+  pgm.sql(`
+    INSERT INTO job_schedules (job_name, cron_expression, eligibility_delay_minutes, recheck_after_minutes, updated_by)
+    VALUES
+      ('vital-signs', '*/10 * * * * *', NULL, NULL, 'system'),
+      ('ai-note-scan', '*/5 * * * *', 120, 360, 'system')
+    ON CONFLICT (job_name) DO NOTHING
+  `);
+}
+
+async function down(pgm) {
+  pgm.dropTable('job_schedules', { cascade: true });
+}
+
+module.exports = { up, down, shorthands };
@@ -0,0 +1,48 @@
+const shorthands = undefined;
+
+async function up(pgm) {
+  // Create prompt_templates table (every version of each AI check's prompt; version 1 is imported from src/prompts)
+  pgm.createTable('prompt_templates', {
+    id: 'id',
+    check_type: { type: 'varchar(100)', notNull: true },
+    version_number: { type: 'integer', notNull: true },
+    content: { type: 'text', notNull: true },
+    change_note: { type: 'text' },
+    created_by: { type: 'varchar(255)' },
+    created_at: { type: 'timestamptz', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  }, {
+    ifNotExists: true,
+    constraints: {
+      unique: ['check_type', 'version_number']
+    }
+  });
+
+  // Create prompt_template_pins table (a check type runs its pinned version instead of the latest)
+  pgm.createTable('prompt_template_pins', {
+    check_type: { type: 'varchar(100)', primaryKey: true },
+    version_number: { type: 'integer', notNull: true },
+    pinned_by: { type: 'varchar(255)' },
+    pinned_at: { type: 'timestamptz', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  }, {
+    ifNotExists: true,
+    constraints: {
+      foreignKeys: [{
+        columns: ['check_type', 'version_number'],
+        references: 'prompt_templates(check_type, version_number)'
+      }]
+    }
+  });
+
+  // Which prompt version and model each check of a note check ran with
+  pgm.addColumn('note_checks', {
+    check_runs: { type: 'jsonb' }
+  }, { ifNotExists: true });
+}
+
+async function down(pgm) {
+  pgm.dropColumn('note_checks', 'check_runs', { ifExists: true });
+  pgm.dropTable('prompt_template_pins', { cascade: true });
+  pgm.dropTable('prompt_templates', { cascade: true });
+}
+
+module.exports = { up, down, shorthands };
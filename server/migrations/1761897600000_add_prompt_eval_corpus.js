@@ -0,0 +1,43 @@
+const shorthands = undefined;
+
+async function up(pgm) {
+  // Create prompt_eval_samples table (de-identified note text with the issues reviewers confirmed or marked invalid)
+  pgm.createTable('prompt_eval_samples', {
+    id: 'id',
+    source_md5: { type: 'varchar(32)', notNull: true, unique: true },
+    note_content: { type: 'text', notNull: true },
+    expected_issues: { type: 'jsonb', notNull: true, default: pgm.func("'[]'::jsonb") },
+    rejected_issues: { type: 'jsonb', notNull: true, default: pgm.func("'[]'::jsonb") },
+    label_source: { type: 'varchar(50)', notNull: true },
+    created_at: { type: 'timestamptz', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') },
+    updated_at: { type: 'timestamptz', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  }, { ifNotExists: true });
+
+  // Create prompt_eval_results table (what one prompt version and model reported for each sample)
+  pgm.createTable('prompt_eval_results', {
+    id: 'id',
+    sample_id: { type: 'integer', notNull: true, references: 'prompt_eval_samples', onDelete: 'CASCADE' },
+    check_type: { type: 'varchar(100)', notNull: true },
+    prompt_version: { type: 'integer', notNull: true },
+    provider: { type: 'varchar(50)', notNull: true },
+    model: { type: 'varchar(100)', notNull: true },
+    status: { type: 'varchar(50)', notNull: true },
+    reported_issues: { type: 'jsonb', notNull: true, default: pgm.func("'[]'::jsonb") },
+    error_message: { type: 'text' },
+    evaluated_at: { type: 'timestamptz', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  }, {
+    ifNotExists: true,
+    constraints: {
+      unique: ['sample_id', 'check_type', 'prompt_version', 'provider', 'model']
+    }
+  });
+
+  pgm.createIndex('prompt_eval_results', ['check_type', 'prompt_version'], { ifNotExists: true });
+}
+
+async function down(pgm) {
+  pgm.dropTable('prompt_eval_results', { cascade: true });
+  pgm.dropTable('prompt_eval_samples', { cascade: true });
+}
+
+module.exports = { up, down, shorthands };
@@ -0,0 +1,18 @@
+const shorthands = undefined;
+
+async function up(pgm) {
+  // Create stream_tickets table (short-lived, single-use tickets for opening an encounter stream)
+  pgm.createTable('stream_tickets', {
+    id: 'id',
+    ticket_hash: { type: 'varchar(64)', notNull: true, unique: true },
+    session_token: { type: 'text', notNull: true, references: 'user_sessions(session_token)', onDelete: 'CASCADE' },
+    created_at: { type: 'timestamp', default: pgm.func('CURRENT_TIMESTAMP') },
+    expires_at: { type: 'timestamp', notNull: true }
+  }, { ifNotExists: true });
+}
+
+async function down(pgm) {
+  pgm.dropTable('stream_tickets', { cascade: true });
+}
+
+module.exports = { up, down, shorthands };
@@ -0,0 +1,51 @@
+import { deriveRole } from './accessControl';
+import { EZDermPracticeInfo } from './types';
+
+const practiceWith = (title: string, roleNames: string[] = []): EZDermPracticeInfo => ({
+  cpUserInfoList: [{
+    id: 'user-1',
+    userName: 'jdoe',
+    firstName: 'Jane',
+    lastName: 'Doe',
+    title,
+    active: true,
+    roleIds: roleNames.map((_, index) => `role-${index}`)
+  }],
+  cpUserRoleInfoList: roleNames.map((name, index) => ({ id: `role-${index}`, name }))
+});
+
+describe('deriveRole', () => {
+  it.each([
+    'Nurse Practitioner',
+    'FNP-C',
+    'FNP',
+    'APRN',
+    'DNP, FNP-BC',
+    'NP-C',
+    'CRNP',
+    'NP'
+  ])('treats %s as a provider', title => {
+    expect(deriveRole(practiceWith(title), 'jdoe').role).toBe('provider');
+  });
+
+  it.each([
+    'Nurse',
+    'RN',
+    'LPN',
+    'Medical Assistant'
+  ])('treats %s as an MA', title => {
+    expect(deriveRole(practiceWith(title), 'jdoe').role).toBe('ma');
+  });
+
+  it('keeps the title it matched on', () => {
+    expect(deriveRole(practiceWith('  Nurse Practitioner '), 'JDoe')).toEqual({ role: 'provider', title: 'Nurse Practitioner' });
+  });
+
+  it('falls back to the EZDerm role when the title is not recognised', () => {
+    expect(deriveRole(practiceWith('Team Lead', ['CLINICAL_STAFF']), 'jdoe').role).toBe('ma');
+  });
+
+  it('gives unknown users the least access', () => {
+    expect(deriveRole(practiceWith('Nurse Practitioner'), 'someone-else').role).toBe('front_desk');
+  });
+});
@@ -0,0 +1,134 @@
+import { vitalSignsDb } from './database';
+import { ezdermClient } from './ezdermClient';
+import { appConfig } from './config';
+import { EZDermPracticeInfo, Permission, UserRole } from './types';
+
+// Roles are re-read at most this often; admin changes clear a user's entry straight away
+const ROLE_CACHE_MS = 60000;
+// After EZDerm can't tell us a user's role, wait this long before asking again
+const SYNC_RETRY_MS = 5 * 60 * 1000;
+// Users we can't place get the least access
+const DEFAULT_ROLE: UserRole = 'front_desk';
+
+export const USER_ROLES: UserRole[] = ['front_desk', 'ma', 'provider', 'coder', 'admin'];
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  front_desk: ['board:view'],
+  ma: ['board:view', 'vitals:process'],
+  provider: ['board:view', 'analytics:view', 'vitals:process', 'notes:view', 'notes:review', 'notes:sign'],
+  coder: ['board:view', 'analytics:view', 'notes:view', 'notes:review', 'notes:bulk', 'audit:view'],
+  admin: ['board:view', 'analytics:view', 'vitals:process', 'notes:view', 'notes:review', 'notes:bulk', 'jobs:manage', 'audit:view', 'admin:manage']
+};
+
+// Practice user titles are free text, so match the common spellings. First match wins.
+const TITLE_ROLES: { pattern: RegExp; role: UserRole }[] = [
+  { pattern: /\b(admin|administrator|office manager|practice manager)\b/i, role: 'admin' },
+  { pattern: /\b(md|do|dr|np|np-c|nurse practitioner|fnp(-c)?|aprn|dnp|crnp|pa|pa-c|physician|provider|dermatologist|resident)\b/i, role: 'provider' },
+  { pattern: /\b(biller|billing|coder|coding|auditor|compliance)\b/i, role: 'coder' },
+  { pattern: /\b(ma|cma|rma|medical assistant|nurse|rn|lpn|scribe|aesthetician)\b/i, role: 'ma' },
+  { pattern: /\b(receptionist|front desk|scheduler|referral)\b/i, role: 'front_desk' }
+];
+
+// Fallback for users without a recognisable title, most privileged EZDerm role first
+const EZDERM_ROLES: { names: string[]; role: UserRole }[] = [
+  { names: ['SUPER_ADMIN', 'ADMIN'], role: 'admin' },
+  { names: ['PROVIDER', 'PHYSICIAN_ASSISTANT', 'RESIDENT'], role: 'provider' },
+  { names: ['BILLER', 'BILLER_ADMIN'], role: 'coder' },
+  { names: ['CLINICAL_STAFF', 'AESTHETICIAN', 'LABORATORY_STAFF'], role: 'ma' },
+  { names: ['ADMINISTRATIVE_STAFF'], role: 'front_desk' }
+];
+
+export interface UserAccess {
+  role: UserRole;
+  permissions: Permission[];
+}
+
+/**
+ * Work out a user's role from their EZDerm practice title, falling back to their EZDerm roles
+ */
+export const deriveRole = (practiceInfo: EZDermPracticeInfo, username: string): { role: UserRole; title?: string } => {
+  const user = practiceInfo.cpUserInfoList.find(candidate => candidate.userName.toLowerCase() === username.toLowerCase());
+  if (!user) {
+    return { role: DEFAULT_ROLE };
+  }
+
+  const title = user.title?.trim() || undefined;
+  const titleRole = title ? TITLE_ROLES.find(({ pattern }) => pattern.test(title))?.role : undefined;
+  if (titleRole) {
+    return { role: titleRole, ...(title && { title }) };
+  }
+
+  const ezdermRoleNames = practiceInfo.cpUserRoleInfoList
+    .filter(role => user.roleIds.includes(role.id))
+    .map(role => role.name);
+  const ezdermRole = EZDERM_ROLES.find(({ names }) => names.some(name => ezdermRoleNames.includes(name)))?.role;
+
+  return { role: ezdermRole || DEFAULT_ROLE, ...(title && { title }) };
+};
+
+class AccessControl {
+  private cache = new Map<string, { access: UserAccess; loadedAt: number }>();
+  private lastSyncAttempt = new Map<string, number>();
+
+  /**
+   * Get a user's role and what it permits. Users seen for the first time have their role
+   * derived from EZDerm; anyone listed in ADMIN_USERS is always an admin.
+   */
+  async getAccess(username: string): Promise<UserAccess> {
+    const key = username.toLowerCase();
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.loadedAt < ROLE_CACHE_MS) {
+      return cached.access;
+    }
+
+    let role: UserRole;
+    if (appConfig.accessControl.adminUsers.includes(key)) {
+      role = 'admin';
+    } else {
+      const assignment = await vitalSignsDb.getUserRole(key);
+      role = assignment?.role || await this.syncRole(username) || DEFAULT_ROLE;
+    }
+
+    const access = { role, permissions: ROLE_PERMISSIONS[role] };
+    this.cache.set(key, { access, loadedAt: Date.now() });
+    return access;
+  }
+
+  /**
+   * Re-derive a user's role from their EZDerm practice title (called at login). Manually
+   * assigned roles are kept. The practice list is fetched as `fetchAs`, which defaults to the
+   * user themselves. Returns null when EZDerm couldn't be asked.
+   */
+  async syncRole(username: string, force: boolean = false, fetchAs: string = username): Promise<UserRole | null> {
+    const key = username.toLowerCase();
+    const lastAttempt = this.lastSyncAttempt.get(key);
+    if (!force && lastAttempt && Date.now() - lastAttempt < SYNC_RETRY_MS) {
+      return null;
+    }
+    this.lastSyncAttempt.set(key, Date.now());
+
+    try {
+      const practiceInfo = await ezdermClient.getPracticeInfo(fetchAs);
+      const { role, title } = deriveRole(practiceInfo, username);
+      const assignment = await vitalSignsDb.saveDerivedUserRole(key, role, title);
+
+      this.lastSyncAttempt.delete(key);
+      this.invalidate(username);
+      console.log(`🪪 Role for ${username}: ${assignment.role} (${assignment.source === 'manual' ? 'manually assigned' : `from title "${title || 'none'}"`})`);
+      return assignment.role;
+    } catch (error) {
+      console.error(`❌ Failed to derive role for ${username} from EZDerm:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Forget a user's cached role so changes apply on their next request
+   */
+  invalidate(username: string): void {
+    this.cache.delete(username.toLowerCase());
+  }
+}
+
+// Export singleton instance
+export const accessControl = new AccessControl();
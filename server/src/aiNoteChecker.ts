@@ -1,85 +1,112 @@
-import axios from './axiosConfig';
-import { AxiosResponse } from 'axios';
 import { vitalSignsDb } from './database';
-import * as fs from 'fs/promises';
-import * as path from 'path';
+import { ezdermClient } from './ezdermClient';
+import { getNoteCheckWindows } from './jobSchedule';
 import * as crypto from 'crypto';
-import OpenAI from 'openai';
+import { isRetryableLLMError, LLMProvider, llmProviders, ResponseSchema } from './llmProviders';
+import { promptTemplates } from './promptTemplates';
+import { checkTypes } from './checkTypes';
+import { analysisResultSchema, isSchemaValidationFailure, parseAnalysisResponse, SchemaValidationError } from './analysisSchema';
 import {
   IncompleteNotesRequest,
   IncompleteNotesResponse,
   IncompletePatientEncounter,
   IncompleteEncounter,
-  ProgressNoteRequest,
   ProgressNoteResponse,
   AIAnalysisResult,
   AIAnalysisIssue,
   NoteCheckResult,
   EZDermToDoRequest,
-  EZDermToDoResponse,
   EZDermToDoUser,
-  EZDermToDoLink
+  EZDermToDoLink,
+  EZDermEncounterDetails,
+  NoteCheckRun,
+  PromptTemplateVersion
 } from './types';
 
-class AINoteChecker {
-  private readonly EZDERM_API_BASE = 'https://srvprod.ezinfra.net';
-  private openaiClient: OpenAI;
-  private promptTemplates: Map<string, string> = new Map();
-
-  // Define the check types
-  private readonly CHECK_TYPES = {
-    CHRONICITY: 'chronicity-check',
-    HPI_STRUCTURE: 'hpi-structure-check', 
-    PLAN: 'plan-check',
-    ACCURACY: 'accuracy-check'
-  } as const;
+// A response that doesn't match the schema is sent back once with what was wrong with it
+const MAX_SCHEMA_ATTEMPTS = 2;
+
+// A check type with the prompt version and provider it runs on right now
+export interface ActiveCheck {
+  checkType: string;
+  prompt: PromptTemplateVersion;
+  provider: LLMProvider;
+}
 
+class AINoteChecker {
   constructor() {
-    const openaiApiKey = process.env.OPENAI_API_KEY || '';
-    if (!openaiApiKey) {
-      console.warn('⚠️ OPENAI_API_KEY not found in environment variables. AI analysis will not be available.');
+    for (const checkType of this.getCheckTypes()) {
+      const provider = llmProviders.forCheck(checkType);
+      if (!provider.isConfigured()) {
+        console.warn(`⚠️ ${provider.name} is not configured for ${checkType} (model ${provider.model}). AI analysis will not be available.`);
+      }
     }
-    
-    this.openaiClient = new OpenAI({
-      apiKey: openaiApiKey
-    });
-    
-    this.loadAllPromptTemplates();
   }
 
-  private async loadAllPromptTemplates(): Promise<void> {
-    const checkTypes = Object.values(this.CHECK_TYPES);
-    
-    for (const checkType of checkTypes) {
-      try {
-        const promptPath = path.join(__dirname, 'prompts', `${checkType}.md`);
-        console.log(`📝 Loading ${checkType} prompt from:`, promptPath);
-        const promptContent = await fs.readFile(promptPath, 'utf8');
-        this.promptTemplates.set(checkType, promptContent);
-        const lines = promptContent.split('\n').length;
-        const chars = promptContent.length;
-        console.log(`📝 ${checkType} prompt loaded successfully (${lines} lines, ${chars} characters)`);
-      } catch (error) {
-        console.error(`❌ Failed to load ${checkType} prompt template:`, error);
-        console.log(`🔄 Using fallback prompt for ${checkType}`);
-        this.promptTemplates.set(checkType, this.getFallbackPrompt(checkType));
+  /**
+   * The check types every note goes through
+   */
+  getCheckTypes(): string[] {
+    return checkTypes.getIds();
+  }
+
+  /**
+   * Each check type with the prompt version (pinned, else latest) and provider it runs on
+   */
+  async getActiveChecks(): Promise<ActiveCheck[]> {
+    const checkTypeIds = this.getCheckTypes();
+    const prompts = await promptTemplates.getActive(checkTypeIds);
+    return checkTypeIds.map(checkType => {
+      const prompt = prompts.get(checkType);
+      if (!prompt) {
+        throw new Error(`Prompt template not found for check type: ${checkType}`);
       }
+      return { checkType, prompt, provider: llmProviders.forCheck(checkType) };
+    });
+  }
+
+  /**
+   * A check type with one version of its prompt, on the provider it's configured for
+   */
+  async getCheckAtVersion(checkType: string, versionNumber: number): Promise<ActiveCheck> {
+    const prompt = await vitalSignsDb.getPromptTemplateVersion(checkType, versionNumber);
+    if (!prompt) {
+      throw new Error(`${checkType} has no prompt version ${versionNumber}`);
     }
+    return { checkType, prompt, provider: llmProviders.forCheck(checkType) };
   }
 
-  private getFallbackPrompt(checkType: string): string {
-    switch (checkType) {
-      case this.CHECK_TYPES.CHRONICITY:
-        return `You are a dermatology medical coder. Check if the chronicity of every diagnosis in the A&P matches what is documented in the HPI. Return {"status": "ok", "reason": "..."} if correct, or JSON with issues if problems found.`;
-      case this.CHECK_TYPES.HPI_STRUCTURE:
-        return `You are a dermatology medical coder. Check if the HPI structure is correct for billing. Return {"status": "ok", "reason": "..."} if correct, or JSON with issues if problems found.`;
-      case this.CHECK_TYPES.PLAN:
-        return `You are a dermatology medical coder. Check if every assessment in the A&P has a documented plan. Return {"status": "ok", "reason": "..."} if correct, or JSON with issues if problems found.`;
-      case this.CHECK_TYPES.ACCURACY:
-        return `You are a dermatology medical coder. Check if the A&P aligns with the HPI. Return {"status": "ok", "reason": "..."} if correct, or JSON with issues if problems found.`;
-      default:
-        return `You are a dermatology medical coder. Analyze the note for issues. Return {"status": "ok", "reason": "..."} if correct, or JSON with issues if problems found.`;
+  /**
+   * The issue types a check type may report
+   */
+  getIssueTypes(checkType: string): string[] {
+    const check = checkTypes.get(checkType);
+    if (!check) {
+      throw new Error(`Unknown check type: ${checkType}`);
     }
+    return check.issues.map(issue => issue.code);
+  }
+
+  /**
+   * What to record on a note check about the prompt versions and models its checks ran with
+   */
+  toCheckRuns(checks: ActiveCheck[]): NoteCheckRun[] {
+    return checks.map(({ checkType, prompt, provider }) => ({
+      checkType,
+      promptVersion: prompt.versionNumber,
+      provider: provider.name,
+      model: provider.model
+    }));
+  }
+
+  /**
+   * The structured output a check's response must match
+   */
+  private getResponseSchema(checkType: string): ResponseSchema {
+    return {
+      name: `${checkType}-result`,
+      schema: analysisResultSchema(this.getIssueTypes(checkType))
+    };
   }
 
   /**
@@ -101,48 +128,33 @@ class AINoteChecker {
     return date;
   }
 
-  private isEligibleForCheck(encounter: IncompleteEncounter): boolean {
+  /**
+   * Whether an incomplete encounter is ready for an AI check: in an eligible status and
+   * seen at least `eligibilityDelayMinutes` ago
+   */
+  isEligibleForCheck(encounter: IncompleteEncounter, eligibilityDelayMinutes: number): boolean {
     const eligibleStatuses = ['PENDING_COSIGN', 'CHECKED_OUT', 'WITH_PROVIDER'];
-    const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    const eligibleBefore = new Date(Date.now() - eligibilityDelayMinutes * 60 * 1000);
     const serviceDate = this.parseDate(encounter.dateOfService);
     
     return eligibleStatuses.includes(encounter.status) && 
-           serviceDate < twoHoursAgo;
+           serviceDate < eligibleBefore;
   }
 
   /**
    * Fetch incomplete notes from EZDerm API
    */
   async fetchIncompleteNotes(
-    accessToken: string, 
+    username: string, 
     request: IncompleteNotesRequest = {}
   ): Promise<IncompleteNotesResponse[]> {
     try {
       console.log('📋 Fetching incomplete notes from EZDerm API...');
       
-      const requestData = {
-        fetchFrom: request.fetchFrom || 0,
-        size: request.size || 50,
-        ...(request.group && { group: request.group })
-      };
+      const incompleteNotes = await ezdermClient.getIncompleteNotes(username, request);
 
-      const response: AxiosResponse<IncompleteNotesResponse[]> = await axios.post(
-        `${this.EZDERM_API_BASE}/ezderm-webservice/rest/inbox/getIncompleteNotes`,
-        requestData,
-        {
-          headers: {
-            'Host': 'srvprod.ezinfra.net',
-            'accept': 'application/json',
-            'content-type': 'application/json',
-            'authorization': `Bearer ${accessToken}`,
-            'user-agent': 'ezDerm/4.28.1 (build:133.1; macOS(Catalyst) 15.6.0)',
-            'accept-language': 'en-US;q=1.0'
-          }
-        }
-      );
-
-      console.log(`✅ Fetched ${response.data.length} incomplete note batches`);
-      return response.data;
+      console.log(`✅ Fetched ${incompleteNotes.length} incomplete note batches`);
+      return incompleteNotes;
     } catch (error: any) {
       console.error('❌ Error fetching incomplete notes:', error.response?.data || error.message);
       throw new Error(`Failed to fetch incomplete notes: ${error.message}`);
@@ -152,7 +164,7 @@ class AINoteChecker {
   /**
    * Get all incomplete notes with pagination support
    */
-  async getAllIncompleteNotes(accessToken: string): Promise<IncompletePatientEncounter[]> {
+  async getAllIncompleteNotes(username: string): Promise<IncompletePatientEncounter[]> {
     try {
       let allPatients: IncompletePatientEncounter[] = [];
       let fetchFrom = 0;
@@ -162,7 +174,7 @@ class AINoteChecker {
       while (hasMore) {
         console.log(`📄 Fetching incomplete notes page starting from ${fetchFrom}...`);
         
-        const response = await this.fetchIncompleteNotes(accessToken, {
+        const response = await this.fetchIncompleteNotes(username, {
           fetchFrom,
           size: pageSize
         });
@@ -193,7 +205,7 @@ class AINoteChecker {
   /**
    * Filter encounters that are eligible for AI checking
    */
-  filterEligibleEncounters(patients: IncompletePatientEncounter[]): Array<{
+  filterEligibleEncounters(patients: IncompletePatientEncounter[], eligibilityDelayMinutes: number): Array<{
     patient: IncompletePatientEncounter;
     encounter: IncompleteEncounter;
   }> {
@@ -201,7 +213,7 @@ class AINoteChecker {
 
     for (const patient of patients) {
       for (const encounter of patient.incompleteEncounters) {
-        if (this.isEligibleForCheck(encounter)) {
+        if (this.isEligibleForCheck(encounter, eligibilityDelayMinutes)) {
           eligible.push({ patient, encounter });
         }
       }
@@ -215,28 +227,16 @@ class AINoteChecker {
    * Fetch full encounter details including care team with names
    */
   async fetchEncounterDetails(
-    accessToken: string,
+    username: string,
     encounterId: string
-  ): Promise<any> {
+  ): Promise<EZDermEncounterDetails> {
     try {
       console.log(`🏥 Fetching encounter details for: ${encounterId}`);
       
-      const response: AxiosResponse<any> = await axios.get(
-        `${this.EZDERM_API_BASE}/ezderm-webservice/rest/encounter/getById/_rid/${encounterId}`,
-        {
-          headers: {
-            'Host': 'srvprod.ezinfra.net',
-            'accept': 'application/json',
-            'authorization': `Bearer ${accessToken}`,
-            'encounterid': encounterId,
-            'user-agent': 'ezDerm/4.28.1 (build:133.1; macOS(Catalyst) 15.6.0)',
-            'accept-language': 'en-US;q=1.0'
-          }
-        }
-      );
+      const encounterDetails = await ezdermClient.getEncounterById(username, encounterId);
 
       console.log(`✅ Encounter details fetched for: ${encounterId}`);
-      return response.data;
+      return encounterDetails;
     } catch (error: any) {
       console.error(`❌ Error fetching encounter details for ${encounterId}:`, error.response?.data || error.message);
       throw new Error(`Failed to fetch encounter details: ${error.message}`);
@@ -247,32 +247,17 @@ class AINoteChecker {
    * Fetch progress note details for a specific encounter
    */
   async fetchProgressNote(
-    accessToken: string,
+    username: string,
     encounterId: string,
     patientId: string
   ): Promise<ProgressNoteResponse> {
     try {
       console.log(`📄 Fetching progress note for encounter: ${encounterId}`);
       
-      const response: AxiosResponse<ProgressNoteResponse> = await axios.post(
-        `${this.EZDERM_API_BASE}/ezderm-webservice/rest/progressnote/getProgressNoteInfo`,
-        { encounterId },
-        {
-          headers: {
-            'Host': 'srvprod.ezinfra.net',
-            'accept': 'application/json',
-            'content-type': 'application/json',
-            'authorization': `Bearer ${accessToken}`,
-            'encounterid': encounterId,
-            'patientid': patientId,
-            'user-agent': 'ezDerm/4.28.1 (build:133.1; macOS(Catalyst) 15.6.0)',
-            'accept-language': 'en-US;q=1.0'
-          }
-        }
-      );
+      const progressNote = await ezdermClient.getProgressNoteInfo(username, encounterId, patientId);
 
       console.log(`✅ Progress note fetched for encounter: ${encounterId}`);
-      return response.data;
+      return progressNote;
     } catch (error: any) {
       console.error(`❌ Error fetching progress note for encounter ${encounterId}:`, error.response?.data || error.message);
       throw new Error(`Failed to fetch progress note: ${error.message}`);
@@ -307,107 +292,115 @@ class AINoteChecker {
   }
 
   /**
-   * Perform a single AI check with specific prompt
+   * Perform a single AI check with its prompt version on formatted note text
    */
-  private async performSingleCheck(
-    checkType: string, 
+  async performSingleCheck(
+    { checkType, prompt, provider }: ActiveCheck,
     noteText: string
   ): Promise<AIAnalysisResult> {
-    if (!this.openaiClient.apiKey) {
-      throw new Error('OpenAI API key not configured');
+    if (!provider.isConfigured()) {
+      throw new Error(`${provider.name} is not configured for ${checkType}`);
     }
 
-    const prompt = this.promptTemplates.get(checkType);
-    if (!prompt) {
-      throw new Error(`Prompt template not found for check type: ${checkType}`);
-    }
+    const responseSchema = this.getResponseSchema(checkType);
+    const request = `${prompt.content}\n\nProgress Note to analyze:\n${this.selectSections(checkType, noteText)}`;
 
     try {
-      console.log(`🤖 Performing ${checkType} check with OpenAI GPT-5...`);
-
-      const response = await this.openaiClient.responses.create({
-        model: 'gpt-5',
-        input: `${prompt}\n\nProgress Note to analyze:\n${noteText}`
-      });
+      console.log(`🤖 Performing ${checkType} check (prompt v${prompt.versionNumber}) with ${provider.name} ${provider.model}...`);
+
+      let previousResponse = '';
+      let errors: string[] = [];
+      for (let attempt = 1; attempt <= MAX_SCHEMA_ATTEMPTS; attempt++) {
+        const completion = await provider.complete(
+          attempt === 1 ? request : this.buildSchemaRetryPrompt(request, previousResponse, errors),
+          responseSchema
+        );
+        console.log(`📝 Raw AI response for ${checkType} (attempt ${attempt}):`, completion.text);
 
-      const aiResponse = response.output_text;
-      if (!aiResponse) {
-        throw new Error(`No response content received from OpenAI for ${checkType}`);
-      }
-      
-      console.log(`📝 Raw AI response for ${checkType}:`, aiResponse);
+        const parsed = parseAnalysisResponse(completion.text, responseSchema.schema);
+        if (parsed.valid) {
+          console.log(`✅ ${checkType} check completed`);
+          return parsed.result;
+        }
 
-      // Parse the JSON response from OpenAI
-      let analysisResult: AIAnalysisResult;
-      try {
-        // Extract JSON from the response (might have extra text)
-        let jsonText = this.extractJSON(aiResponse);
-        
-        // Fix common JSON syntax issues from AI responses
-        jsonText = this.fixCommonJSONIssues(jsonText);
-        
-        const parsedResponse = JSON.parse(jsonText);
-        console.log(`🔍 Parsed AI response for ${checkType}:`, JSON.stringify(parsedResponse, null, 2));
-        
-        analysisResult = this.normalizeAIResponse(parsedResponse);
-        console.log(`🔧 Normalized result for ${checkType}:`, JSON.stringify(analysisResult, null, 2));
-      } catch (parseError) {
-        console.error(`❌ Failed to parse AI response as JSON for ${checkType}:`, parseError);
-        console.error('Raw response:', aiResponse);
-        
-        // Fallback response
-        analysisResult = {
-          status: 'corrections_needed',
-          summary: `${checkType} analysis failed to parse response properly`,
-          issues: [{
-            assessment: 'Analysis Error',
-            issue: 'unclear_documentation',
-            details: {
-              'A&P': `Could not parse AI response for ${checkType}`,
-              correction: 'Manual review required'
-            }
-          }]
-        };
+        console.warn(`⚠️ ${checkType} response did not match the schema (attempt ${attempt}):`, parsed.errors);
+        previousResponse = completion.text;
+        errors = parsed.errors;
       }
 
-      console.log(`✅ ${checkType} check completed`);
-      return analysisResult;
+      throw new SchemaValidationError(checkType, MAX_SCHEMA_ATTEMPTS, errors);
     } catch (error: any) {
       console.error(`❌ Error performing ${checkType} check:`, error.response?.data || error.message);
-      throw new Error(`${checkType} check failed: ${error.message}`);
+      throw new Error(`${checkType} check failed: ${error.message}`, { cause: error });
     }
   }
 
   /**
-   * Analyze progress note using multiple specialized AI checks
+   * The sections of formatted note text a check type applies to. The whole note is sent if it
+   * has none of them, so a note laid out differently still gets checked.
    */
-  async analyzeProgressNote(progressNote: ProgressNoteResponse): Promise<AIAnalysisResult> {
-    if (!this.openaiClient.apiKey) {
-      throw new Error('OpenAI API key not configured');
+  private selectSections(checkType: string, noteText: string): string {
+    const applicableSections = checkTypes.get(checkType)?.applicableSections;
+    if (!applicableSections) {
+      return noteText;
+    }
+
+    // Split on the "--- SECTION_TYPE ---" headers formatProgressNoteForAnalysis writes, keeping them
+    const sections = noteText.split(/^(?=--- [A-Z_]+ ---$)/m);
+    const selected = sections.filter(section => {
+      const sectionType = section.match(/^--- ([A-Z_]+) ---$/m)?.[1];
+      return sectionType !== undefined && applicableSections.includes(sectionType);
+    });
+
+    if (selected.length === 0) {
+      console.warn(`⚠️ Note has none of the sections ${checkType} applies to (${applicableSections.join(', ')}), sending the whole note`);
+      return noteText;
+    }
+    return selected.map(section => section.trim()).join('\n\n');
+  }
+
+  /**
+   * The prompt for another attempt after a response failed validation: the original request,
+   * the rejected response and what was wrong with it
+   */
+  private buildSchemaRetryPrompt(request: string, previousResponse: string, errors: string[]): string {
+    return `${request}
+
+Your previous response was rejected because it did not match the required JSON schema:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Previous response:
+${previousResponse}
+
+Respond again with only the corrected JSON.`;
+  }
+
+  /**
+   * Analyze progress note using multiple specialized AI checks, with the given prompt versions
+   * and providers or the active ones
+   */
+  async analyzeProgressNote(progressNote: ProgressNoteResponse, checks?: ActiveCheck[]): Promise<AIAnalysisResult> {
+    const unconfigured = this.getCheckTypes().map(checkType => llmProviders.forCheck(checkType)).find(provider => !provider.isConfigured());
+    if (unconfigured) {
+      throw new Error(`${unconfigured.name} is not configured (model ${unconfigured.model})`);
     }
 
     try {
       console.log('🤖 Starting comprehensive AI note analysis with multiple checks...');
       
-      // In development mode, reload all prompt templates
-      if (process.env.NODE_ENV === 'development') {
-        console.log('🔄 Development mode: Reloading all AI prompt templates...');
-        await this.loadAllPromptTemplates();
-        console.log('✅ All AI prompt templates reloaded successfully');
-      }
-      
+      const activeChecks = checks || await this.getActiveChecks();
       const noteText = this.formatProgressNoteForAnalysis(progressNote);
 
       // Perform all checks in parallel for better performance
-      const checkPromises = Object.values(this.CHECK_TYPES).map(checkType => 
-        this.performSingleCheck(checkType, noteText)
+      const checkPromises = activeChecks.map(check => 
+        this.performSingleCheck(check, noteText)
       );
 
       console.log(`🔄 Running ${checkPromises.length} AI checks in parallel...`);
       const checkResults = await Promise.all(checkPromises);
 
       // Combine all results into a single analysis result
-      const combinedResult = this.combineCheckResults(checkResults);
+      const combinedResult = this.combineCheckResults(activeChecks, checkResults);
       
       console.log('✅ Comprehensive AI analysis completed');
       console.log('📊 Combined analysis result:', JSON.stringify(combinedResult, null, 2));
@@ -415,14 +408,14 @@ class AINoteChecker {
       return combinedResult;
     } catch (error: any) {
       console.error('❌ Error analyzing progress note with AI:', error.response?.data || error.message);
-      throw new Error(`AI analysis failed: ${error.message}`);
+      throw new Error(`AI analysis failed: ${error.message}`, { cause: error });
     }
   }
 
   /**
    * Combine results from multiple AI checks into a single result
    */
-  private combineCheckResults(checkResults: AIAnalysisResult[]): AIAnalysisResult {
+  private combineCheckResults(checks: ActiveCheck[], checkResults: AIAnalysisResult[]): AIAnalysisResult {
     const allIssues: AIAnalysisIssue[] = [];
     let hasIssues = false;
 
@@ -438,7 +431,7 @@ class AINoteChecker {
     if (!hasIssues) {
       return {
         status: 'ok',
-        reason: 'All checks passed: chronicity, HPI structure, plan documentation, and accuracy validation completed successfully'
+        reason: `All checks passed: ${checks.map(({ checkType }) => checkTypes.get(checkType)?.label || checkType).join(', ')}`
       };
     }
 
@@ -457,7 +450,7 @@ class AINoteChecker {
    * Perform complete note check for a single encounter
    */
   async checkSingleNote(
-    accessToken: string,
+    username: string,
     encounterId: string,
     patientId: string,
     patientName: string,
@@ -467,24 +460,28 @@ class AINoteChecker {
     force: boolean = false
   ): Promise<NoteCheckResult> {
     console.log(`🔍 Starting AI note check for encounter: ${encounterId}`);
+    let checkRuns: NoteCheckRun[] | undefined;
     
     try {
       // Fetch progress note
-      const progressNote = await this.fetchProgressNote(accessToken, encounterId, patientId);
+      const progressNote = await this.fetchProgressNote(username, encounterId, patientId);
       
       // Calculate MD5 for duplicate detection
       const noteContentMd5 = this.calculateNoteContentMd5(progressNote);
       const noteContent = this.formatProgressNoteForAnalysis(progressNote);
       
       console.log(`🔐 Note content MD5: ${noteContentMd5}`);
+
+      const checks = await this.getActiveChecks();
+      checkRuns = this.toCheckRuns(checks);
       
-      // Check if we've already analyzed this exact content (unless forced)
+      // Check if we've already analyzed this exact content with the same prompts and models (unless forced)
       const existingCheck = await vitalSignsDb.findNoteCheckByMd5(noteContentMd5);
       
       let aiAnalysis: AIAnalysisResult;
       let issuesFound: boolean;
       
-      if (existingCheck && existingCheck.status === 'completed' && !force) {
+      if (existingCheck && existingCheck.status === 'completed' && !force && this.isSameCheckRuns(existingCheck.check_runs, checkRuns)) {
         console.log(`♻️ Found existing analysis for same content (MD5: ${noteContentMd5}), reusing result`);
         aiAnalysis = existingCheck.ai_analysis;
         issuesFound = existingCheck.issues_found;
@@ -495,7 +492,7 @@ class AINoteChecker {
           console.log(`🆕 New content detected, performing AI analysis`);
         }
         // Analyze with AI
-        aiAnalysis = await this.analyzeProgressNote(progressNote);
+        aiAnalysis = await this.analyzeProgressNote(progressNote, checks);
         
         // Determine if issues were found
         issuesFound = aiAnalysis.status === 'corrections_needed' && 
@@ -518,7 +515,8 @@ class AINoteChecker {
         issuesFound,
         undefined, // errorMessage
         noteContentMd5,
-        noteContent
+        noteContent,
+        checkRuns
       );
 
       console.log(`✅ Note check completed for encounter: ${encounterId} (Issues found: ${issuesFound})`);
@@ -534,10 +532,13 @@ class AINoteChecker {
         aiAnalysis,
         issuesFound,
         checkedAt: new Date(),
-        checkedBy
+        checkedBy,
+        checkRuns
       };
     } catch (error: any) {
       console.error(`❌ Note check failed for encounter ${encounterId}:`, error.message);
+      // A response that never matched its schema is recorded as such rather than as an issue with the note
+      const status = isSchemaValidationFailure(error) ? 'parse_failed' : 'error';
       
       // Save error result to database
       const resultId = await vitalSignsDb.saveNoteCheckResult(
@@ -546,11 +547,14 @@ class AINoteChecker {
         patientName,
         chiefComplaint,
         this.parseDate(dateOfService),
-        'error',
+        status,
         checkedBy,
         undefined,
         false,
-        error.message
+        error.message,
+        undefined,
+        undefined,
+        checkRuns
       );
 
       return {
@@ -560,20 +564,37 @@ class AINoteChecker {
         patientName,
         chiefComplaint,
         dateOfService,
-        status: 'error',
+        status,
         issuesFound: false,
         checkedAt: new Date(),
         checkedBy,
-        errorMessage: error.message
+        errorMessage: error.message,
+        ...(isRetryableLLMError(error) && { retryable: true }),
+        ...(checkRuns && { checkRuns })
       };
     }
   }
 
+  /**
+   * Whether a saved check ran with the same prompt versions and models as `checkRuns`
+   */
+  private isSameCheckRuns(savedRuns: NoteCheckRun[] | null, checkRuns: NoteCheckRun[]): boolean {
+    if (!savedRuns || savedRuns.length !== checkRuns.length) {
+      return false;
+    }
+    return checkRuns.every(run => savedRuns.some(saved =>
+      saved.checkType === run.checkType &&
+      saved.promptVersion === run.promptVersion &&
+      saved.provider === run.provider &&
+      saved.model === run.model
+    ));
+  }
+
   /**
    * Process multiple eligible encounters
    */
   async processEligibleEncounters(
-    accessToken: string,
+    username: string,
     checkedBy: string
   ): Promise<{
     processed: number;
@@ -585,11 +606,12 @@ class AINoteChecker {
     
     try {
       // Get all incomplete notes
-      const allPatients = await this.getAllIncompleteNotes(accessToken);
+      const allPatients = await this.getAllIncompleteNotes(username);
       console.log('🔍 All patients:', allPatients.length);
 
       // Filter eligible encounters
-      const eligibleEncounters = this.filterEligibleEncounters(allPatients);
+      const { eligibilityDelayMinutes } = await getNoteCheckWindows();
+      const eligibleEncounters = this.filterEligibleEncounters(allPatients, eligibilityDelayMinutes);
       console.log('🔍 Eligible encounters:', eligibleEncounters.length);
       
       if (eligibleEncounters.length === 0) {
@@ -607,7 +629,7 @@ class AINoteChecker {
           const patientName = `${patient.firstName} ${patient.lastName}`;
           
           const result = await this.checkSingleNote(
-            accessToken,
+            username,
             encounter.id,
             patient.id,
             patientName,
@@ -661,98 +683,36 @@ class AINoteChecker {
   }
 
   /**
-   * Calculate MD5 hash of note content for duplicate detection
+   * Calculate MD5 hash of note content, used for duplicate detection and to tell whether a
+   * note changed in EZDerm since it was last read
    */
-  private calculateNoteContentMd5(progressNote: ProgressNoteResponse): string {
+  calculateNoteContentMd5(progressNote: ProgressNoteResponse): string {
     const noteText = this.formatProgressNoteForAnalysis(progressNote);
     return crypto.createHash('md5').update(noteText).digest('hex');
   }
 
   /**
-   * Extract JSON from AI response that might contain extra text
-   */
-  private extractJSON(text: string): string {
-    // Try to find JSON object boundaries
-    const jsonStart = text.indexOf('{');
-    const jsonEnd = text.lastIndexOf('}');
-    
-    if (jsonStart === -1 || jsonEnd === -1 || jsonStart > jsonEnd) {
-      throw new Error('No valid JSON object found in response');
-    }
-    
-    return text.substring(jsonStart, jsonEnd + 1);
-  }
-
-  /**
-   * Fix common JSON syntax issues that Claude might produce
+   * The description of a note deficiency ToDo, listing each issue under its check type's label
    */
-  private fixCommonJSONIssues(jsonText: string): string {
-    // Fix ":ok" -> "ok" (remove extra colon)
-    jsonText = jsonText.replace(/"status":\s*:(\w+)/g, '"status": "$1"');
-    
-    // Fix ":corrections_needed" -> "corrections_needed"
-    jsonText = jsonText.replace(/"status":\s*:(\w+)/g, '"status": "$1"');
-    
-    // Fix other potential colon issues
-    jsonText = jsonText.replace(/:\s*:([^,}\]]+)/g, ': "$1"');
-    
-    return jsonText;
-  }
-
-  /**
-   * Normalize AI response to match expected format
-   */
-  private normalizeAIResponse(response: any): AIAnalysisResult {
-    // Handle the case where Claude returns "ok" or ":ok" status
-    if (response.status === 'ok' || response.status === ':ok') {
-      return {
-        status: 'ok',
-        reason: response.reason || undefined
-      };
-    }
-
-    // Handle different error status formats
-    let status = response.status;
-    if (status === 'error' || status === 'corrections_needed') {
-      status = 'corrections_needed';
-    }
-
-    // Normalize issues array
-    const issues: AIAnalysisIssue[] = [];
-    if (response.issues && Array.isArray(response.issues)) {
-      for (const issue of response.issues) {
-        // Handle the format Claude is actually returning
-        if (issue.type && issue.diagnoses && issue.details) {
-          // Convert Claude's format to our expected format
-          const normalizedIssue: AIAnalysisIssue = {
-            assessment: Array.isArray(issue.diagnoses) ? issue.diagnoses.join(', ') : issue.diagnoses,
-            issue: issue.type === 'chronicity_mismatch' ? 'chronicity_mismatch' : 
-                   issue.type === 'missing_plan' ? 'no_explicit_plan' : 'unclear_documentation',
-            details: {
-              'A&P': typeof issue.details === 'string' ? issue.details : JSON.stringify(issue.details),
-              correction: `Review and correct the ${issue.type} for: ${Array.isArray(issue.diagnoses) ? issue.diagnoses.join(', ') : issue.diagnoses}`
-            }
-          };
-          issues.push(normalizedIssue);
-        } else if (issue.assessment && issue.issue && issue.details) {
-          // Already in expected format
-          issues.push(issue);
-        }
+  buildDeficiencyDescription(issues: AIAnalysisIssue[]): string {
+    let description = 'The following issues were found in the clinical note:\n\n';
+    issues.forEach((issue, index) => {
+      description += `${index + 1}. ${issue.assessment}:\n`;
+      description += `   Issue: ${checkTypes.getIssueLabel(issue.issue)}\n`;
+      if (issue.details.HPI) {
+        description += `   HPI: ${issue.details.HPI}\n`;
       }
-    }
-
-    return {
-      status: status as 'ok' | 'corrections_needed',
-      summary: response.summary || `Found ${issues.length} issue(s) requiring attention`,
-      issues
-    };
+      description += `   A&P: ${issue.details['A&P']}\n`;
+      description += `   Suggested Correction: ${issue.details.correction}\n\n`;
+    });
+    return description;
   }
 
   /**
    * Create a ToDo in EZDerm for note deficiencies
    */
   async createNoteDeficiencyToDo(
-    accessToken: string,
+    username: string,
     encounterId: string,
     patientId: string,
     patientName: string,
@@ -770,17 +730,7 @@ class AINoteChecker {
       // Build the subject
       const subject = `Note Deficiencies - ${formattedDate}`;
       
-      // Build the description from issues
-      let description = 'The following issues were found in the clinical note:\n\n';
-      issues.forEach((issue, index) => {
-        description += `${index + 1}. ${issue.assessment}:\n`;
-        description += `   Issue: ${issue.issue.replace(/_/g, ' ')}\n`;
-        if (issue.details.HPI) {
-          description += `   HPI: ${issue.details.HPI}\n`;
-        }
-        description += `   A&P: ${issue.details['A&P']}\n`;
-        description += `   Suggested Correction: ${issue.details.correction}\n\n`;
-      });
+      const description = this.buildDeficiencyDescription(issues);
       
       // Determine care team users from encounterRoleInfoList
       const users: EZDermToDoUser[] = [];
@@ -851,24 +801,10 @@ class AINoteChecker {
         issuesCount: issues.length
       });
 
-      const response: AxiosResponse<EZDermToDoResponse> = await axios.post(
-        `${this.EZDERM_API_BASE}/ezderm-webservice/rest/task/add`,
-        todoRequest,
-        {
-          headers: {
-            'Host': 'srvprod.ezinfra.net',
-            'accept': 'application/json',
-            'content-type': 'application/json',
-            'authorization': `Bearer ${accessToken}`,
-            'patientid': patientId,
-            'user-agent': 'ezDerm/4.28.1 (build:133.1; macOS(Catalyst) 15.6.0)',
-            'accept-language': 'en-US;q=1.0'
-          }
-        }
-      );
+      const response = await ezdermClient.addTask(username, patientId, todoRequest, encounterId);
 
-      console.log('✅ ToDo created successfully:', response.data.id);
-      return response.data.id;
+      console.log('✅ ToDo created successfully:', response.id);
+      return response.id;
       
     } catch (error: any) {
       console.error('❌ Error creating note deficiency ToDo:', error.response?.data || error.message);
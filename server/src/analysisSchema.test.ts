@@ -0,0 +1,156 @@
+import { analysisResultSchema, isSchemaValidationFailure, parseAnalysisResponse, SchemaValidationError, validateSchema } from './analysisSchema';
+import type { ActiveCheck } from './aiNoteChecker';
+import { PromptTemplateVersion } from './types';
+
+const schema = analysisResultSchema(['unclear_documentation']);
+
+const OK = { status: 'ok', reason: 'HPI and A&P agree', summary: null, issues: [] };
+const ISSUE = {
+  assessment: 'Psoriasis',
+  issue: 'unclear_documentation',
+  details: { HPI: null, 'A&P': 'Psoriasis, continue', correction: 'Say which treatment to continue' }
+};
+const CORRECTIONS = { status: 'corrections_needed', reason: null, summary: 'The plan is vague', issues: [ISSUE] };
+
+const parse = (value: unknown) => parseAnalysisResponse(JSON.stringify(value), schema);
+const errorsOf = (value: unknown) => {
+  const parsed = parse(value);
+  return parsed.valid ? [] : parsed.errors;
+};
+
+describe('parseAnalysisResponse', () => {
+  it('accepts a passing note', () => {
+    expect(parse(OK)).toEqual({ valid: true, result: { status: 'ok', reason: 'HPI and A&P agree' } });
+  });
+
+  it('accepts issues, dropping a null HPI', () => {
+    expect(parse(CORRECTIONS)).toEqual({
+      valid: true,
+      result: {
+        status: 'corrections_needed',
+        summary: 'The plan is vague',
+        issues: [{ assessment: 'Psoriasis', issue: 'unclear_documentation', details: { 'A&P': 'Psoriasis, continue', correction: 'Say which treatment to continue' } }]
+      }
+    });
+  });
+
+  it('rejects text that is not JSON', () => {
+    const parsed = parseAnalysisResponse('Looks fine to me', schema);
+    expect(parsed.valid).toBe(false);
+    expect(!parsed.valid && parsed.errors[0]).toMatch(/^Response is not valid JSON/);
+  });
+
+  it('rejects values outside an enum', () => {
+    expect(errorsOf({ ...OK, status: 'fine' })).toEqual(['$.status must be one of "ok", "corrections_needed", got "fine"']);
+    expect(errorsOf({ ...CORRECTIONS, issues: [{ ...ISSUE, issue: 'made_up' }] })).toEqual(['$.issues[0].issue must be one of "unclear_documentation", got "made_up"']);
+  });
+
+  it('rejects missing required properties', () => {
+    const { summary, ...withoutSummary } = OK;
+    expect(errorsOf(withoutSummary)).toEqual(['$.summary is required']);
+    expect(errorsOf({ ...CORRECTIONS, issues: [{ ...ISSUE, details: { 'A&P': 'x', correction: 'y' } }] })).toEqual(['$.issues[0].details.HPI is required']);
+  });
+
+  it('rejects properties the schema does not declare', () => {
+    expect(errorsOf({ ...OK, confidence: 0.9 })).toEqual(['$.confidence is not allowed']);
+    expect(errorsOf({ ...CORRECTIONS, issues: [{ ...ISSUE, severity: 'high' }] })).toEqual(['$.issues[0].severity is not allowed']);
+  });
+
+  it('rejects values of the wrong type', () => {
+    expect(errorsOf({ ...OK, issues: {} })).toEqual(['$.issues must be array, got object']);
+    expect(errorsOf({ ...OK, reason: 3 })).toEqual(['$.reason must be string or null, got number']);
+  });
+
+  it('requires a passing note to have a reason and no issues', () => {
+    expect(errorsOf({ ...OK, issues: [ISSUE] })).toEqual(['$.issues must be empty when $.status is "ok"']);
+    expect(errorsOf({ ...OK, reason: null })).toEqual(['$.reason must be given when $.status is "ok"']);
+  });
+
+  it('requires corrections to come with a summary and at least one issue', () => {
+    expect(errorsOf({ ...CORRECTIONS, issues: [] })).toEqual(['$.issues must list at least one issue when $.status is "corrections_needed"']);
+    expect(errorsOf({ ...CORRECTIONS, summary: null })).toEqual(['$.summary must be given when $.status is "corrections_needed"']);
+  });
+});
+
+describe('validateSchema', () => {
+  it('returns nothing for a matching value', () => {
+    expect(validateSchema(OK, schema)).toEqual([]);
+  });
+
+  it('checks integers', () => {
+    expect(validateSchema(2, { type: 'integer' })).toEqual([]);
+    expect(validateSchema(2.5, { type: 'integer' })).toEqual(['$ must be integer, got number']);
+  });
+});
+
+describe('isSchemaValidationFailure', () => {
+  const failure = new SchemaValidationError('plan-check', 2, ['$.status is required']);
+
+  it('finds the failure however deeply it was wrapped', () => {
+    expect(isSchemaValidationFailure(failure)).toBe(true);
+    const wrapped = new Error('plan-check check failed', { cause: failure });
+    expect(isSchemaValidationFailure(new Error('AI analysis failed', { cause: wrapped }))).toBe(true);
+  });
+
+  it('ignores other errors', () => {
+    expect(isSchemaValidationFailure(new Error('plan-check check failed', { cause: new Error('HTTP 400') }))).toBe(false);
+    expect(isSchemaValidationFailure('not an error')).toBe(false);
+  });
+});
+
+describe('performSingleCheck schema retries', () => {
+  const prompt: PromptTemplateVersion = { id: 1, checkType: 'plan-check', versionNumber: 1, content: 'Check the plan.', createdAt: new Date() };
+
+  // The fake provider reads LLM_FAKE_RESPONSE when the modules load
+  const loadWithFakeResponse = (response: unknown) => {
+    let modules!: {
+      aiNoteChecker: typeof import('./aiNoteChecker')['aiNoteChecker'];
+      llmProviders: typeof import('./llmProviders')['llmProviders'];
+      isSchemaValidationFailure: typeof isSchemaValidationFailure;
+    };
+    jest.isolateModules(() => {
+      process.env.LLM_MODEL = 'fake';
+      process.env.LLM_FAKE_RESPONSE = typeof response === 'string' ? response : JSON.stringify(response);
+      modules = {
+        aiNoteChecker: require('./aiNoteChecker').aiNoteChecker,
+        llmProviders: require('./llmProviders').llmProviders,
+        // The error classes of the freshly loaded modules, for instanceof
+        isSchemaValidationFailure: require('./analysisSchema').isSchemaValidationFailure
+      };
+    });
+    const check: ActiveCheck = { checkType: 'plan-check', prompt, provider: modules.llmProviders.forCheck('plan-check') };
+    return { ...modules, check };
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.LLM_MODEL;
+    delete process.env.LLM_FAKE_RESPONSE;
+  });
+
+  it('sends a rejected response back once with what was wrong, then takes the valid one', async () => {
+    const { aiNoteChecker, check } = loadWithFakeResponse(OK);
+    const complete = jest.spyOn(check.provider, 'complete');
+    complete.mockResolvedValueOnce({ text: JSON.stringify({ ...OK, reason: null }), provider: 'fake', model: 'fake' });
+
+    await expect(aiNoteChecker.performSingleCheck(check, 'note')).resolves.toEqual({ status: 'ok', reason: 'HPI and A&P agree' });
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(complete.mock.calls[1]?.[0]).toContain('- $.reason must be given when $.status is "ok"');
+  });
+
+  it('fails as a schema validation failure (parse_failed) after two rejected responses', async () => {
+    const { aiNoteChecker, check, isSchemaValidationFailure: isFailure } = loadWithFakeResponse({ ...OK, status: 'fine' });
+    const complete = jest.spyOn(check.provider, 'complete');
+
+    const error = await aiNoteChecker.performSingleCheck(check, 'note').catch(error => error);
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(isFailure(error)).toBe(true);
+    expect(error.message).toMatch(/plan-check response did not match the response schema after 2 attempt\(s\)/);
+  });
+});
@@ -0,0 +1,187 @@
+import { AIAnalysisIssue, AIAnalysisResult, JSONSchema, JSONSchemaType } from './types';
+
+export type AnalysisParseResult =
+  | { valid: true; result: AIAnalysisResult }
+  | { valid: false; errors: string[] };
+
+/**
+ * The response schema for a check that reports the given issue types. Every property is
+ * required and optional values are nullable, which is the shape providers' strict structured
+ * output modes accept; the rules tying `status` to the other fields are checked in
+ * parseAnalysisResponse.
+ */
+export function analysisResultSchema(issueTypes: AIAnalysisIssue['issue'][]): JSONSchema {
+  return {
+    type: 'object',
+    properties: {
+      status: {
+        type: 'string',
+        enum: ['ok', 'corrections_needed'],
+        description: '"ok" when the note passes this check, "corrections_needed" when it has issues'
+      },
+      reason: {
+        type: ['string', 'null'],
+        description: 'Why the note passes. Null when corrections are needed.'
+      },
+      summary: {
+        type: ['string', 'null'],
+        description: 'One sentence summarizing the issues. Null when the note passes.'
+      },
+      issues: {
+        type: 'array',
+        description: 'The issues found. Empty when the note passes.',
+        items: {
+          type: 'object',
+          properties: {
+            assessment: { type: 'string', description: 'The diagnosis the issue is about, as written in the A&P' },
+            issue: { type: 'string', enum: issueTypes },
+            details: {
+              type: 'object',
+              properties: {
+                HPI: { type: ['string', 'null'], description: 'The relevant HPI text, or null if the HPI is not involved' },
+                'A&P': { type: 'string', description: 'The relevant A&P text' },
+                correction: { type: 'string', description: 'What the provider should change' }
+              },
+              required: ['HPI', 'A&P', 'correction'],
+              additionalProperties: false
+            }
+          },
+          required: ['assessment', 'issue', 'details'],
+          additionalProperties: false
+        }
+      }
+    },
+    required: ['status', 'reason', 'summary', 'issues'],
+    additionalProperties: false
+  };
+}
+
+/**
+ * Parse a model's response and check it strictly against the schema. Nothing is repaired:
+ * a response either matches or comes back with the reasons it doesn't.
+ */
+export function parseAnalysisResponse(text: string, schema: JSONSchema): AnalysisParseResult {
+  let value: any;
+  try {
+    value = JSON.parse(text);
+  } catch (error: any) {
+    return { valid: false, errors: [`Response is not valid JSON: ${error.message}`] };
+  }
+
+  const errors = validateSchema(value, schema);
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  if (value.status === 'ok') {
+    if (value.issues.length > 0) errors.push('$.issues must be empty when $.status is "ok"');
+    if (!value.reason) errors.push('$.reason must be given when $.status is "ok"');
+  } else {
+    if (value.issues.length === 0) errors.push('$.issues must list at least one issue when $.status is "corrections_needed"');
+    if (!value.summary) errors.push('$.summary must be given when $.status is "corrections_needed"');
+  }
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  if (value.status === 'ok') {
+    return { valid: true, result: { status: 'ok', reason: value.reason } };
+  }
+  return {
+    valid: true,
+    result: {
+      status: 'corrections_needed',
+      summary: value.summary,
+      issues: value.issues.map((issue: any): AIAnalysisIssue => ({
+        assessment: issue.assessment,
+        issue: issue.issue,
+        details: {
+          ...(issue.details.HPI !== null && { HPI: issue.details.HPI }),
+          'A&P': issue.details['A&P'],
+          correction: issue.details.correction
+        }
+      }))
+    }
+  };
+}
+
+/**
+ * Check a value against a schema, returning one message per violation (empty when it matches)
+ */
+export function validateSchema(value: unknown, schema: JSONSchema, path: string = '$'): string[] {
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!allowed.some(type => matchesType(value, type))) {
+      return [`${path} must be ${allowed.join(' or ')}, got ${describeType(value)}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as any)) {
+    return [`${path} must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}, got ${JSON.stringify(value)}`];
+  }
+
+  const errors: string[] = [];
+
+  if (Array.isArray(value)) {
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateSchema(item, schema.items!, `${path}[${index}]`)));
+    }
+  } else if (value !== null && typeof value === 'object') {
+    const properties = schema.properties || {};
+    for (const key of schema.required || []) {
+      if (!(key in value)) {
+        errors.push(`${path}.${key} is required`);
+      }
+    }
+    for (const [key, propertyValue] of Object.entries(value)) {
+      const propertySchema = properties[key];
+      if (propertySchema) {
+        errors.push(...validateSchema(propertyValue, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * The error a check fails with once its responses have been rejected
+ */
+export class SchemaValidationError extends Error {
+  override readonly name = 'SchemaValidationError';
+
+  constructor(readonly checkType: string, readonly attempts: number, readonly errors: string[]) {
+    super(`${checkType} response did not match the response schema after ${attempts} attempt(s): ${errors.join('; ')}`);
+  }
+}
+
+/**
+ * Whether an error, or one it was wrapped around, is a check whose responses never matched its
+ * schema, as opposed to the check not running at all
+ */
+export function isSchemaValidationFailure(error: unknown): boolean {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if (current instanceof SchemaValidationError) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function matchesType(value: unknown, type: JSONSchemaType): boolean {
+  switch (type) {
+    case 'null': return value === null;
+    case 'array': return Array.isArray(value);
+    case 'object': return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    default: return typeof value === type;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
@@ -0,0 +1,36 @@
+import { vitalSignsDb } from './database';
+import { AuditChange, NewAuditEvent } from './types';
+
+/**
+ * Compare the fields of a record before a write with what is being written. Only fields
+ * known beforehand are compared, so callers can pass just the part they care about.
+ * Returns undefined when nothing changes.
+ */
+export const diffFields = (before: object, after: object): Record<string, AuditChange> | undefined => {
+  const changes: Record<string, AuditChange> = {};
+  for (const [field, previous] of Object.entries(before)) {
+    const next = (after as Record<string, unknown>)[field];
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[field] = { before: previous ?? null, after: next ?? null };
+    }
+  }
+  return Object.keys(changes).length > 0 ? changes : undefined;
+};
+
+class AuditLog {
+  /**
+   * Append an event to the audit log. A failed write is logged rather than thrown, so the
+   * EZDerm change it describes (which has already happened) still reports its own outcome.
+   */
+  async record(event: NewAuditEvent): Promise<void> {
+    try {
+      await vitalSignsDb.recordAuditEvent(event);
+      console.log(`📜 Audit: ${event.actor} ${event.action}${event.encounterId ? ` on encounter ${event.encounterId}` : ''} (${event.success ? event.responseStatus : `failed: ${event.errorMessage}`})`);
+    } catch (error) {
+      console.error(`❌ Failed to record audit event ${event.action} by ${event.actor}:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const auditLog = new AuditLog();
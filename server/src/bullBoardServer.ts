@@ -20,6 +20,8 @@ import { Queue } from 'bullmq';
 import { config } from 'dotenv';
 import * as session from 'express-session';
 import * as crypto from 'crypto';
+import { healthRoutes, redisCheck, queuesCheck, workerHeartbeatCheck } from './healthCheck';
+import { jobControl } from './jobControl';
 
 // Load environment variables
 config();
@@ -202,9 +204,19 @@ app.get('/bull-board/health', (req: express.Request, res: express.Response) => {
   });
 });
 
+// Liveness and readiness probes, also under the base path like the health check above
+const healthChecks = [
+  redisCheck(() => redis.ping()),
+  queuesCheck([vitalSignsQueue, aiNoteScanQueue, aiNoteCheckQueue]),
+  workerHeartbeatCheck()
+];
+app.use(healthRoutes('bull-board', healthChecks));
+app.use('/bull-board', healthRoutes('bull-board', healthChecks));
+
 console.log('📋 Health check endpoints configured:');
 console.log('   - /health (always available)');
 console.log('   - /bull-board/health (for production)');
+console.log('   - /health/live, /health/ready (and under /bull-board)');
 
 // Mount the Bull Board UI with authentication
 // Mount Bull Board UI (base path is handled by serverAdapter)
@@ -249,12 +261,14 @@ async function startBullBoardServer() {
 // Graceful shutdown
 process.on('SIGINT', async () => {
   console.log('🔄 Gracefully shutting down Bull Board server...');
+  await jobControl.close();
   await redis.quit();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   console.log('🔄 Gracefully shutting down Bull Board server...');
+  await jobControl.close();
   await redis.quit();
   process.exit(0);
 });
@@ -0,0 +1,131 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CheckIssueDefinition, CheckSeverity, CheckTypeDefinition, CheckTypeInfo } from './types';
+
+// Every module in this directory that exports a `check` is a check type
+const CHECKS_DIR = path.join(__dirname, 'checks');
+const SEVERITIES: CheckSeverity[] = ['high', 'medium', 'low'];
+
+/**
+ * The AI check types every note goes through. Each is declared in its own module in src/checks
+ * (id, label, prompt, issue codes, severity and the note sections it reads) and discovered when
+ * this module loads, so adding a check type is adding a file there and its prompt in src/prompts.
+ */
+class CheckTypeRegistry {
+  private checks = new Map<string, CheckTypeDefinition>();
+  // The check type that declares each issue code
+  private issueOwners = new Map<string, CheckTypeDefinition>();
+
+  constructor() {
+    this.discover();
+  }
+
+  /**
+   * Every check type, in the order their modules sort
+   */
+  getAll(): CheckTypeDefinition[] {
+    return Array.from(this.checks.values());
+  }
+
+  /**
+   * The ids of every check type
+   */
+  getIds(): string[] {
+    return Array.from(this.checks.keys());
+  }
+
+  /**
+   * A check type by id
+   */
+  get(checkType: string): CheckTypeDefinition | undefined {
+    return this.checks.get(checkType);
+  }
+
+  /**
+   * The label of an issue code, or the code made readable if no check type declares it (an
+   * issue saved before its check type was removed)
+   */
+  getIssueLabel(code: string): string {
+    return this.findIssue(code)?.label || code.replace(/_/g, ' ');
+  }
+
+  /**
+   * What clients are told about each check type
+   */
+  toInfo(): CheckTypeInfo[] {
+    return this.getAll().map(({ promptFile, ...info }) => info);
+  }
+
+  private findIssue(code: string): CheckIssueDefinition | undefined {
+    return this.issueOwners.get(code)?.issues.find(issue => issue.code === code);
+  }
+
+  private discover(): void {
+    const files = fs.readdirSync(CHECKS_DIR)
+      .filter(file => /\.(ts|js)$/.test(file) && !file.endsWith('.d.ts'))
+      .sort();
+
+    for (const file of files) {
+      const { check } = require(path.join(CHECKS_DIR, file));
+      if (!check) {
+        console.warn(`⚠️ ${file} in src/checks does not export a check, skipping it`);
+        continue;
+      }
+      this.register(check, file);
+    }
+
+    console.log(`🧩 Loaded ${this.checks.size} AI check type(s): ${this.getIds().join(', ')}`);
+  }
+
+  private register(check: CheckTypeDefinition, file: string): void {
+    const error = this.validate(check);
+    if (error) {
+      throw new Error(`Invalid check type in src/checks/${file}: ${error}`);
+    }
+
+    this.checks.set(check.id, check);
+    for (const issue of check.issues) {
+      this.issueOwners.set(issue.code, check);
+    }
+  }
+
+  private validate(check: CheckTypeDefinition): string | null {
+    if (typeof check.id !== 'string' || !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(check.id)) {
+      return 'id must be kebab-case';
+    }
+    if (this.checks.has(check.id)) {
+      return `${check.id} is already declared`;
+    }
+    if (!check.label?.trim()) {
+      return `${check.id} needs a label`;
+    }
+    if (typeof check.promptFile !== 'string' || !check.promptFile.trim()) {
+      return `${check.id} needs a prompt file`;
+    }
+    if (!Array.isArray(check.issues) || check.issues.length === 0) {
+      return `${check.id} must declare at least one issue code`;
+    }
+    for (const issue of check.issues) {
+      if (typeof issue.code !== 'string' || !/^[a-z0-9]+(_[a-z0-9]+)*$/.test(issue.code)) {
+        return `${check.id} issue codes must be snake_case`;
+      }
+      const owner = this.issueOwners.get(issue.code);
+      if (owner || check.issues.filter(other => other.code === issue.code).length > 1) {
+        return `issue code ${issue.code} is already declared${owner ? ` by ${owner.id}` : ''}`;
+      }
+      if (!issue.label?.trim()) {
+        return `${check.id} issue ${issue.code} needs a label`;
+      }
+    }
+    if (!SEVERITIES.includes(check.severity)) {
+      return `${check.id} severity must be one of ${SEVERITIES.join(', ')}`;
+    }
+    if (!Array.isArray(check.applicableSections) || check.applicableSections.length === 0) {
+      return `${check.id} must list the note sections it applies to`;
+    }
+    return null;
+  }
+}
+
+// Export singleton instance
+export const checkTypes = new CheckTypeRegistry();
@@ -0,0 +1,13 @@
+import { CheckTypeDefinition } from '../types';
+
+export const check: CheckTypeDefinition = {
+  id: 'accuracy-check',
+  label: 'Accuracy',
+  description: 'The A&P is consistent with the HPI',
+  promptFile: 'accuracy-check.md',
+  issues: [
+    { code: 'unclear_documentation', label: 'Unclear Documentation' }
+  ],
+  severity: 'low',
+  applicableSections: ['SUBJECTIVE', 'ASSESSMENT_AND_PLAN']
+};
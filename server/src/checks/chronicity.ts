@@ -0,0 +1,13 @@
+import { CheckTypeDefinition } from '../types';
+
+export const check: CheckTypeDefinition = {
+  id: 'chronicity-check',
+  label: 'Chronicity',
+  description: 'Every diagnosis in the A&P has the chronicity documented in the HPI',
+  promptFile: 'chronicity-check.md',
+  issues: [
+    { code: 'chronicity_mismatch', label: 'Chronicity Mismatch' }
+  ],
+  severity: 'medium',
+  applicableSections: ['SUBJECTIVE', 'ASSESSMENT_AND_PLAN']
+};
@@ -0,0 +1,13 @@
+import { CheckTypeDefinition } from '../types';
+
+export const check: CheckTypeDefinition = {
+  id: 'hpi-structure-check',
+  label: 'HPI Structure',
+  description: 'The HPI is structured for billing, with separate billable complaints numbered',
+  promptFile: 'hpi-structure-check.md',
+  issues: [
+    { code: 'chief_complaint_structure', label: 'Chief Complaint Structure' }
+  ],
+  severity: 'low',
+  applicableSections: ['SUBJECTIVE', 'ASSESSMENT_AND_PLAN']
+};
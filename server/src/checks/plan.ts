@@ -0,0 +1,13 @@
+import { CheckTypeDefinition } from '../types';
+
+export const check: CheckTypeDefinition = {
+  id: 'plan-check',
+  label: 'Plan Documentation',
+  description: 'Every billable assessment in the A&P has a documented plan',
+  promptFile: 'plan-check.md',
+  issues: [
+    { code: 'no_explicit_plan', label: 'Missing Explicit Plan' }
+  ],
+  severity: 'high',
+  applicableSections: ['ASSESSMENT_AND_PLAN']
+};
@@ -0,0 +1,199 @@
+/*
+ * Clinic flow analytics built from the recorded encounter status timeline.
+ *
+ * Status timestamps are when a poll first saw the change, so every interval here is
+ * accurate to the poll interval. Intervals still open at the end of the data (e.g. a
+ * patient who is in a room right now) are left out.
+ */
+
+import { ROOMED_STATUSES, VISIT_COMPLETE_STATUSES } from './database';
+import { getWallClockTime } from './dateRange';
+import { ClinicFlowAnalyticsResponse, ClinicFlowHour, EncounterStatus, EncounterStatusEvent, ProviderUtilization } from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface Interval {
+  start: Date;
+  end: Date;
+}
+
+interface Visit {
+  providerId?: string;
+  providerName?: string;
+  day: string; // YYYY-MM-DD in the clinic's time zone
+  finalStatus: EncounterStatus;
+  arrivedAt?: Date;
+  completedAt?: Date;
+  roomed: Interval[];
+  withProvider: Interval[];
+}
+
+type ClinicFlowSummary = Omit<ClinicFlowAnalyticsResponse, 'clinicId' | 'from' | 'to' | 'providerId'>;
+
+const round = (value: number, places: number): number => {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+};
+
+// Spans of consecutive events whose status matches, ending at the next non-matching event
+function collectIntervals(events: EncounterStatusEvent[], matches: (status: EncounterStatus) => boolean): Interval[] {
+  const intervals: Interval[] = [];
+  let start: Date | null = null;
+
+  for (const event of events) {
+    if (matches(event.status)) {
+      start = start || new Date(event.observedAt);
+    } else if (start) {
+      intervals.push({ start, end: new Date(event.observedAt) });
+      start = null;
+    }
+  }
+
+  return intervals;
+}
+
+function buildVisit(events: EncounterStatusEvent[], timeZone: string): Visit | null {
+  const first = events[0];
+  const last = events[events.length - 1];
+  if (!first || !last) {
+    return null;
+  }
+
+  // The provider and arrival time can be filled in after the first event, so use the latest known
+  const withProvider = [...events].reverse().find(event => event.providerId);
+  const arrival = events.find(event => event.arrivalTime)?.arrivalTime
+    || events.find(event => event.status === 'CHECKED_IN')?.observedAt;
+  const completed = events.find(event => VISIT_COMPLETE_STATUSES.includes(event.status));
+
+  return {
+    ...(withProvider?.providerId && { providerId: withProvider.providerId }),
+    ...(withProvider?.providerName && { providerName: withProvider.providerName }),
+    day: getWallClockTime(timeZone, new Date(first.dateOfService)).toISOString().slice(0, 10),
+    finalStatus: last.status,
+    ...(arrival && { arrivedAt: new Date(arrival) }),
+    ...(completed && { completedAt: new Date(completed.observedAt) }),
+    roomed: collectIntervals(events, status => ROOMED_STATUSES.includes(status)),
+    withProvider: collectIntervals(events, status => status === 'WITH_PROVIDER')
+  };
+}
+
+// Add an interval's minutes to the local hours it covers
+function addMinutesByHour(minutesByHour: number[], interval: Interval, timeZone: string): void {
+  let cursor = getWallClockTime(timeZone, interval.start).getTime();
+  const end = cursor + (interval.end.getTime() - interval.start.getTime());
+
+  while (cursor < end) {
+    const hourEnd = Math.floor(cursor / HOUR_MS) * HOUR_MS + HOUR_MS;
+    const hour = new Date(cursor).getUTCHours();
+    minutesByHour[hour] = (minutesByHour[hour] ?? 0) + (Math.min(hourEnd, end) - cursor) / 60000;
+    cursor = hourEnd;
+  }
+}
+
+function getProviderUtilization(visits: Visit[]): ProviderUtilization[] {
+  const providers = new Map<string, { name: string; patientsSeen: number; minutes: number; spans: Map<string, Interval> }>();
+
+  for (const visit of visits) {
+    if (!visit.providerId || visit.withProvider.length === 0) {
+      continue;
+    }
+
+    let provider = providers.get(visit.providerId);
+    if (!provider) {
+      provider = { name: visit.providerName || 'Unknown provider', patientsSeen: 0, minutes: 0, spans: new Map() };
+      providers.set(visit.providerId, provider);
+    }
+    provider.patientsSeen++;
+
+    for (const interval of visit.withProvider) {
+      provider.minutes += (interval.end.getTime() - interval.start.getTime()) / 60000;
+
+      // Working span per day: first patient seen to last patient finished
+      const span = provider.spans.get(visit.day);
+      provider.spans.set(visit.day, {
+        start: span && span.start < interval.start ? span.start : interval.start,
+        end: span && span.end > interval.end ? span.end : interval.end
+      });
+    }
+  }
+
+  return Array.from(providers.entries())
+    .map(([providerId, provider]) => {
+      const spanMinutes = Array.from(provider.spans.values())
+        .reduce((total, span) => total + (span.end.getTime() - span.start.getTime()) / 60000, 0);
+
+      return {
+        providerId,
+        providerName: provider.name,
+        patientsSeen: provider.patientsSeen,
+        minutesWithPatients: round(provider.minutes, 1),
+        averageMinutesPerPatient: provider.patientsSeen > 0 ? round(provider.minutes / provider.patientsSeen, 1) : null,
+        utilization: spanMinutes > 0 ? round(Math.min(provider.minutes / spanMinutes, 1), 3) : null
+      };
+    })
+    .sort((a, b) => a.providerName.localeCompare(b.providerName));
+}
+
+/**
+ * Summarize throughput, room occupancy, provider utilization and no-show/cancel rates.
+ * `events` must be grouped by encounter and oldest first (as getEncounterStatusEvents returns them).
+ * With a providerId, everything except the provider list is limited to that provider's visits.
+ */
+export function summarizeClinicFlow(events: EncounterStatusEvent[], timeZone: string, providerId?: string): ClinicFlowSummary {
+  const eventsByEncounter = new Map<string, EncounterStatusEvent[]>();
+  for (const event of events) {
+    const encounterEvents = eventsByEncounter.get(event.encounterId) || [];
+    encounterEvents.push(event);
+    eventsByEncounter.set(event.encounterId, encounterEvents);
+  }
+
+  const allVisits: Visit[] = [];
+  for (const encounterEvents of eventsByEncounter.values()) {
+    const visit = buildVisit(encounterEvents, timeZone);
+    if (visit) {
+      allVisits.push(visit);
+    }
+  }
+
+  const visits = providerId ? allVisits.filter(visit => visit.providerId === providerId) : allVisits;
+  const days = new Set(visits.map(visit => visit.day)).size;
+
+  const arrivals = new Array<number>(24).fill(0);
+  const completions = new Array<number>(24).fill(0);
+  const occupiedMinutes = new Array<number>(24).fill(0);
+
+  for (const visit of visits) {
+    if (visit.arrivedAt) {
+      const hour = getWallClockTime(timeZone, visit.arrivedAt).getUTCHours();
+      arrivals[hour] = (arrivals[hour] ?? 0) + 1;
+    }
+    if (visit.completedAt) {
+      const hour = getWallClockTime(timeZone, visit.completedAt).getUTCHours();
+      completions[hour] = (completions[hour] ?? 0) + 1;
+    }
+    for (const interval of visit.roomed) {
+      addMinutesByHour(occupiedMinutes, interval, timeZone);
+    }
+  }
+
+  const hourly: ClinicFlowHour[] = arrivals.map((_, hour) => ({
+    hour,
+    arrivals: days > 0 ? round((arrivals[hour] ?? 0) / days, 1) : 0,
+    completions: days > 0 ? round((completions[hour] ?? 0) / days, 1) : 0,
+    occupiedRooms: days > 0 ? round((occupiedMinutes[hour] ?? 0) / 60 / days, 1) : 0
+  }));
+
+  const noShows = visits.filter(visit => visit.finalStatus === 'NO_SHOW').length;
+  const cancellations = visits.filter(visit => visit.finalStatus === 'CANCELLED').length;
+
+  return {
+    days,
+    scheduledVisits: visits.length,
+    noShows,
+    cancellations,
+    noShowRate: visits.length > 0 ? round(noShows / visits.length, 3) : null,
+    cancellationRate: visits.length > 0 ? round(cancellations / visits.length, 3) : null,
+    hourly,
+    providers: getProviderUtilization(allVisits)
+  };
+}
@@ -1,4 +1,7 @@
 import { config as dotenvConfig } from 'dotenv';
+import { readFileSync } from 'fs';
+import { isValidTimeZone } from './dateRange';
+import { LLMModelChoice, LLMProviderName } from './types';
 
 // Load environment variables from .env file in development
 if (process.env.NODE_ENV !== 'production') {
@@ -23,6 +26,31 @@ interface RedisConfig {
 interface EZDermConfig {
   serviceUser: string;
   servicePassword: string;
+  loginUrl: string;
+  refreshUrl: string;
+  apiBase: string; // Empty means use the server returned by the login response
+  timeZone: string; // IANA zone sent at login and used for clinics registered without one
+}
+
+interface CredentialsConfig {
+  encryptionKeys: Map<string, Buffer>; // Key-encryption keys (32 bytes each) by id
+  activeKeyId: string | null; // New values are encrypted with this key; null means encryption is off
+  persistPasswords: boolean; // Keep interactive users' passwords so they can be re-logged in without them
+}
+
+interface AccessControlConfig {
+  adminUsers: string[]; // Always admins, whatever EZDerm says, so nobody gets locked out of role management
+}
+
+interface LLMConfig {
+  defaultModel: LLMModelChoice; // Used by every check type without its own entry in checkModels
+  checkModels: Record<string, LLMModelChoice>; // By check type, e.g. chronicity-check
+  openaiApiKey: string;
+  anthropicApiKey: string;
+  localBaseUrl: string; // OpenAI-compatible endpoint of an on-prem model, e.g. http://llm:8000/v1
+  localApiKey: string;
+  fakeResponse: string; // What the fake provider answers; empty uses a fixed "ok" result
+  timeoutMs: number;
 }
 
 interface AppConfig {
@@ -32,6 +60,9 @@ interface AppConfig {
   database: DatabaseConfig;
   redis: RedisConfig;
   ezderm: EZDermConfig;
+  credentials: CredentialsConfig;
+  accessControl: AccessControlConfig;
+  llm: LLMConfig;
 }
 
 // Parse secrets from AWS Secrets Manager
@@ -90,6 +121,115 @@ function parseRedisSecret(secretString: string | undefined): RedisConfig {
   }
 }
 
+// Resolve EZDerm endpoints. EZDERM_SIMULATOR_URL points everything at the local
+// simulator (see src/ezdermSimulator.ts); the individual variables override it.
+function parseEZDermConfig(): EZDermConfig {
+  const simulatorUrl = process.env.EZDERM_SIMULATOR_URL?.replace(/\/+$/, '');
+  const timeZone = process.env.EZDERM_TIME_ZONE || 'America/Detroit';
+
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Invalid EZDERM_TIME_ZONE: ${timeZone}`);
+  }
+
+  return {
+    serviceUser: process.env.EZDERM_USER || '',
+    servicePassword: process.env.EZDERM_PASS || '',
+    loginUrl: process.env.EZDERM_LOGIN_URL || (simulatorUrl ? `${simulatorUrl}/api/login` : 'https://login.ezinfra.net/api/login'),
+    refreshUrl: process.env.EZDERM_REFRESH_URL || (simulatorUrl ? `${simulatorUrl}/api/refreshToken/getAccessToken` : 'https://login.ezinfra.net/api/refreshToken/getAccessToken'),
+    apiBase: process.env.EZDERM_API_BASE || (simulatorUrl ? `${simulatorUrl}/` : ''),
+    timeZone,
+  };
+}
+
+// Resolve the keys that encrypt stored EZDerm credentials. CREDENTIALS_ENCRYPTION_KEYS is a
+// comma-separated list of id:base64key pairs, active key first; CREDENTIALS_KEYRING_FILE points
+// at a JSON keyring ({ "activeKeyId", "keys": { id: base64key } }) standing in for a KMS.
+function parseCredentialsConfig(): CredentialsConfig {
+  const encryptionKeys = new Map<string, Buffer>();
+  let activeKeyId: string | null = null;
+
+  if (process.env.CREDENTIALS_ENCRYPTION_KEYS) {
+    for (const entry of process.env.CREDENTIALS_ENCRYPTION_KEYS.split(',').map(value => value.trim()).filter(Boolean)) {
+      const separator = entry.indexOf(':');
+      if (separator <= 0) {
+        throw new Error('CREDENTIALS_ENCRYPTION_KEYS entries must look like <keyId>:<base64 key>');
+      }
+      const keyId = entry.slice(0, separator);
+      encryptionKeys.set(keyId, Buffer.from(entry.slice(separator + 1), 'base64'));
+      activeKeyId = activeKeyId ?? keyId;
+    }
+  } else if (process.env.CREDENTIALS_KEYRING_FILE) {
+    try {
+      const keyring = JSON.parse(readFileSync(process.env.CREDENTIALS_KEYRING_FILE, 'utf8'));
+      for (const [keyId, key] of Object.entries<string>(keyring.keys || {})) {
+        encryptionKeys.set(keyId, Buffer.from(key, 'base64'));
+      }
+      activeKeyId = keyring.activeKeyId || null;
+    } catch (error) {
+      console.error('Failed to read credentials keyring:', error);
+      throw new Error('Invalid CREDENTIALS_KEYRING_FILE');
+    }
+  }
+
+  for (const [keyId, key] of encryptionKeys) {
+    if (!/^[\w.-]+$/.test(keyId)) {
+      throw new Error(`Invalid credentials encryption key id: ${keyId}`);
+    }
+    if (key.length !== 32) {
+      throw new Error(`Credentials encryption key ${keyId} must be 32 bytes (base64 encoded)`);
+    }
+  }
+  if (activeKeyId && !encryptionKeys.has(activeKeyId)) {
+    throw new Error(`Active credentials encryption key ${activeKeyId} is not in the keyring`);
+  }
+
+  return {
+    encryptionKeys,
+    activeKeyId,
+    persistPasswords: process.env.PERSIST_USER_PASSWORDS !== 'false',
+  };
+}
+
+const LLM_PROVIDER_NAMES: LLMProviderName[] = ['openai', 'anthropic', 'local', 'fake'];
+
+// Parse a provider:model pair such as anthropic:claude-sonnet-4-5
+function parseLLMModel(value: string, source: string): LLMModelChoice {
+  const separator = value.indexOf(':');
+  const provider = (separator > 0 ? value.slice(0, separator) : value).trim() as LLMProviderName;
+  const model = separator > 0 ? value.slice(separator + 1).trim() : '';
+
+  if (!LLM_PROVIDER_NAMES.includes(provider) || (!model && provider !== 'fake')) {
+    throw new Error(`${source} must look like <provider>:<model> with provider one of ${LLM_PROVIDER_NAMES.join(', ')}: ${value}`);
+  }
+  return { provider, model: model || 'fake' };
+}
+
+// Resolve which model each AI note check uses. LLM_MODEL is the default; LLM_CHECK_MODELS is a
+// comma-separated list of check-type=provider:model entries overriding it per check type.
+function parseLLMConfig(): LLMConfig {
+  const checkModels: Record<string, LLMModelChoice> = {};
+
+  for (const entry of (process.env.LLM_CHECK_MODELS || '').split(',').map(value => value.trim()).filter(Boolean)) {
+    const separator = entry.indexOf('=');
+    if (separator <= 0) {
+      throw new Error('LLM_CHECK_MODELS entries must look like <check type>=<provider>:<model>');
+    }
+    const checkType = entry.slice(0, separator).trim();
+    checkModels[checkType] = parseLLMModel(entry.slice(separator + 1), `LLM_CHECK_MODELS entry for ${checkType}`);
+  }
+
+  return {
+    defaultModel: parseLLMModel(process.env.LLM_MODEL || 'openai:gpt-5', 'LLM_MODEL'),
+    checkModels,
+    openaiApiKey: process.env.OPENAI_API_KEY || '',
+    anthropicApiKey: process.env.ANTHROPIC_API_KEY || process.env.CLAUDE_API_KEY || '',
+    localBaseUrl: process.env.LOCAL_LLM_BASE_URL || '',
+    localApiKey: process.env.LOCAL_LLM_API_KEY || '',
+    fakeResponse: process.env.LLM_FAKE_RESPONSE || '',
+    timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '180000', 10),
+  };
+}
+
 // Create configuration object
 export const appConfig: AppConfig = {
   port: parseInt(process.env.PORT || '5001', 10),
@@ -97,10 +237,12 @@ export const appConfig: AppConfig = {
   corsOrigin: process.env.CORS_ORIGIN || 'http://localhost:3000',
   database: parseDbSecret(process.env.DB_SECRET),
   redis: parseRedisSecret(process.env.REDIS_SECRET),
-  ezderm: {
-    serviceUser: process.env.EZDERM_USER || '',
-    servicePassword: process.env.EZDERM_PASS || '',
+  ezderm: parseEZDermConfig(),
+  credentials: parseCredentialsConfig(),
+  accessControl: {
+    adminUsers: (process.env.ADMIN_USERS || '').split(',').map(username => username.trim().toLowerCase()).filter(Boolean),
   },
+  llm: parseLLMConfig(),
 };
 
 // Log configuration (without sensitive data)
@@ -122,5 +264,20 @@ console.log('App Configuration:', {
   ezderm: {
     serviceUser: appConfig.ezderm.serviceUser ? '***configured***' : 'not set',
     servicePasswordConfigured: !!appConfig.ezderm.servicePassword,
+    loginUrl: appConfig.ezderm.loginUrl,
+    apiBase: appConfig.ezderm.apiBase || 'from login response',
+    timeZone: appConfig.ezderm.timeZone,
+  },
+  credentials: {
+    encryption: appConfig.credentials.activeKeyId ? `on (active key ${appConfig.credentials.activeKeyId}, ${appConfig.credentials.encryptionKeys.size} key(s))` : 'off',
+    persistPasswords: appConfig.credentials.persistPasswords,
+  },
+  accessControl: {
+    adminUsers: appConfig.accessControl.adminUsers.length,
+  },
+  llm: {
+    defaultModel: `${appConfig.llm.defaultModel.provider}:${appConfig.llm.defaultModel.model}`,
+    checkModels: Object.fromEntries(Object.entries(appConfig.llm.checkModels).map(([checkType, choice]) => [checkType, `${choice.provider}:${choice.model}`])),
+    localBaseUrl: appConfig.llm.localBaseUrl || 'not set',
   },
 }); 
\ No newline at end of file
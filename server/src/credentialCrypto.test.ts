@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+
+type CredentialCryptoModule = typeof import('./credentialCrypto');
+
+const KEY_A = crypto.randomBytes(32).toString('base64');
+const KEY_B = crypto.randomBytes(32).toString('base64');
+
+// The keyring is read from CREDENTIALS_ENCRYPTION_KEYS (first key active) when the config loads
+function loadWithKeys(keys: string | undefined): CredentialCryptoModule['credentialCrypto'] {
+  let loaded!: CredentialCryptoModule['credentialCrypto'];
+  jest.isolateModules(() => {
+    if (keys === undefined) {
+      delete process.env.CREDENTIALS_ENCRYPTION_KEYS;
+    } else {
+      process.env.CREDENTIALS_ENCRYPTION_KEYS = keys;
+    }
+    loaded = require('./credentialCrypto').credentialCrypto;
+  });
+  return loaded;
+}
+
+// Flip one bit of one base64 part of an envelope
+function tamper(stored: string, partIndex: number): string {
+  const parts = stored.split(':');
+  const bytes = Buffer.from(parts[partIndex]!, 'base64');
+  bytes[0] = bytes[0]! ^ 1;
+  parts[partIndex] = bytes.toString('base64');
+  return parts.join(':');
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  delete process.env.CREDENTIALS_ENCRYPTION_KEYS;
+});
+
+describe('credentialCrypto', () => {
+  it('round-trips a value through the envelope', () => {
+    const credentialCrypto = loadWithKeys(`a:${KEY_A}`);
+    const stored = credentialCrypto.encrypt('hunter2 ünïcode');
+
+    expect(stored).toMatch(/^enc:v1:a:/);
+    expect(stored).not.toContain('hunter2');
+    expect(credentialCrypto.decrypt(stored)).toBe('hunter2 ünïcode');
+  });
+
+  it('uses a fresh data key and IV for every value', () => {
+    const credentialCrypto = loadWithKeys(`a:${KEY_A}`);
+    expect(credentialCrypto.encrypt('same')).not.toBe(credentialCrypto.encrypt('same'));
+  });
+
+  it('reads values written under a retired key and moves them onto the active one', () => {
+    const stored = loadWithKeys(`a:${KEY_A}`).encrypt('hunter2');
+
+    const rotated = loadWithKeys(`b:${KEY_B},a:${KEY_A}`);
+    expect(rotated.decrypt(stored)).toBe('hunter2');
+    expect(rotated.needsReencryption(stored)).toBe(true);
+
+    const reencrypted = rotated.reencrypt(stored);
+    expect(reencrypted).toMatch(/^enc:v1:b:/);
+    expect(rotated.needsReencryption(reencrypted)).toBe(false);
+    // Only the data key is re-wrapped
+    expect(reencrypted.split(':').slice(-3)).toEqual(stored.split(':').slice(-3));
+
+    const retired = loadWithKeys(`b:${KEY_B}`);
+    expect(retired.decrypt(reencrypted)).toBe('hunter2');
+    expect(() => retired.decrypt(stored)).toThrow('Credentials encryption key a is not configured');
+  });
+
+  it('refuses tampered values', () => {
+    const credentialCrypto = loadWithKeys(`a:${KEY_A}`);
+    const stored = credentialCrypto.encrypt('hunter2');
+
+    // wrapped data key, IV, auth tag, ciphertext
+    for (const partIndex of [3, 4, 5, 6]) {
+      expect(() => credentialCrypto.decrypt(tamper(stored, partIndex))).toThrow();
+    }
+    expect(() => credentialCrypto.decrypt('enc:v1:a:only-a-key')).toThrow('Malformed encrypted credential');
+  });
+
+  it('refuses a value wrapped by a different key under the same id', () => {
+    const stored = loadWithKeys(`a:${KEY_A}`).encrypt('hunter2');
+    expect(() => loadWithKeys(`a:${KEY_B}`).decrypt(stored)).toThrow();
+  });
+
+  it('passes plaintext through when no keys are configured', () => {
+    const credentialCrypto = loadWithKeys(undefined);
+
+    expect(credentialCrypto.isEnabled()).toBe(false);
+    expect(credentialCrypto.encrypt('hunter2')).toBe('hunter2');
+    expect(credentialCrypto.decrypt('hunter2')).toBe('hunter2');
+    expect(credentialCrypto.needsReencryption('hunter2')).toBe(false);
+    expect(credentialCrypto.reencrypt('hunter2')).toBe('hunter2');
+  });
+
+  it('reads legacy plaintext and encrypts it once a key is configured', () => {
+    const credentialCrypto = loadWithKeys(`a:${KEY_A}`);
+
+    expect(credentialCrypto.decrypt('hunter2')).toBe('hunter2');
+    expect(credentialCrypto.needsReencryption('hunter2')).toBe(true);
+    const reencrypted = credentialCrypto.reencrypt('hunter2');
+    expect(reencrypted).toMatch(/^enc:v1:a:/);
+    expect(credentialCrypto.decrypt(reencrypted)).toBe('hunter2');
+  });
+});
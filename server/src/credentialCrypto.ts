@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+import { appConfig } from './config';
+
+// Stored format: enc:v1:<keyId>:<wrapped data key>:<iv>:<auth tag>:<ciphertext>, all base64.
+// Each value gets its own data key, wrapped by a key-encryption key from the keyring, so
+// rotating keys only re-wraps data keys. Values without the prefix are legacy plaintext.
+const ENVELOPE_PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+interface Envelope {
+  keyId: string;
+  wrappedKey: Buffer;
+  iv: Buffer;
+  tag: Buffer;
+  ciphertext: Buffer;
+}
+
+const seal = (key: Buffer, plaintext: Buffer): { iv: Buffer; tag: Buffer; ciphertext: Buffer } => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+};
+
+const open = (key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer): Buffer => {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+};
+
+class CredentialCrypto {
+  private warnedPlaintext = false;
+
+  isEnabled(): boolean {
+    return appConfig.credentials.activeKeyId !== null;
+  }
+
+  isEncrypted(value: string): boolean {
+    return value.startsWith(ENVELOPE_PREFIX);
+  }
+
+  /**
+   * Encrypt a value with a fresh data key wrapped by the active key. Without a configured
+   * key the value is returned unchanged, so local development keeps working.
+   */
+  encrypt(plaintext: string): string {
+    const keyId = appConfig.credentials.activeKeyId;
+    if (!keyId) {
+      if (!this.warnedPlaintext) {
+        console.warn('⚠️ No credentials encryption key configured: EZDerm credentials are stored in plaintext');
+        this.warnedPlaintext = true;
+      }
+      return plaintext;
+    }
+
+    const dataKey = crypto.randomBytes(32);
+    const value = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+    return this.format({ keyId, wrappedKey: this.wrapKey(keyId, dataKey), ...value });
+  }
+
+  /**
+   * Decrypt a stored value; legacy plaintext values are returned as they are
+   */
+  decrypt(stored: string): string {
+    if (!this.isEncrypted(stored)) {
+      return stored;
+    }
+
+    const envelope = this.parse(stored);
+    const dataKey = this.unwrapKey(envelope.keyId, envelope.wrappedKey);
+    return open(dataKey, envelope.iv, envelope.tag, envelope.ciphertext).toString('utf8');
+  }
+
+  /**
+   * Whether a stored value is plaintext or wrapped by a key other than the active one
+   */
+  needsReencryption(stored: string): boolean {
+    const activeKeyId = appConfig.credentials.activeKeyId;
+    if (!activeKeyId) {
+      return false;
+    }
+    return !this.isEncrypted(stored) || this.parse(stored).keyId !== activeKeyId;
+  }
+
+  /**
+   * Bring a stored value onto the active key. Encrypted values only have their data key
+   * re-wrapped; the ciphertext itself is left alone.
+   */
+  reencrypt(stored: string): string {
+    const activeKeyId = appConfig.credentials.activeKeyId;
+    if (!activeKeyId || !this.needsReencryption(stored)) {
+      return stored;
+    }
+    if (!this.isEncrypted(stored)) {
+      return this.encrypt(stored);
+    }
+
+    const envelope = this.parse(stored);
+    const dataKey = this.unwrapKey(envelope.keyId, envelope.wrappedKey);
+    return this.format({ ...envelope, keyId: activeKeyId, wrappedKey: this.wrapKey(activeKeyId, dataKey) });
+  }
+
+  private wrapKey(keyId: string, dataKey: Buffer): Buffer {
+    const { iv, tag, ciphertext } = seal(this.getKey(keyId), dataKey);
+    return Buffer.concat([iv, tag, ciphertext]);
+  }
+
+  private unwrapKey(keyId: string, wrappedKey: Buffer): Buffer {
+    return open(
+      this.getKey(keyId),
+      wrappedKey.subarray(0, IV_LENGTH),
+      wrappedKey.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH),
+      wrappedKey.subarray(IV_LENGTH + TAG_LENGTH)
+    );
+  }
+
+  private getKey(keyId: string): Buffer {
+    const key = appConfig.credentials.encryptionKeys.get(keyId);
+    if (!key) {
+      throw new Error(`Credentials encryption key ${keyId} is not configured`);
+    }
+    return key;
+  }
+
+  private format(envelope: Envelope): string {
+    const parts = [envelope.wrappedKey, envelope.iv, envelope.tag, envelope.ciphertext].map(part => part.toString('base64'));
+    return `${ENVELOPE_PREFIX}${envelope.keyId}:${parts.join(':')}`;
+  }
+
+  private parse(stored: string): Envelope {
+    const [keyId, wrappedKey, iv, tag, ciphertext] = stored.slice(ENVELOPE_PREFIX.length).split(':');
+    if (!keyId || !wrappedKey || !iv || !tag || ciphertext === undefined) {
+      throw new Error('Malformed encrypted credential');
+    }
+
+    return {
+      keyId,
+      wrappedKey: Buffer.from(wrappedKey, 'base64'),
+      iv: Buffer.from(iv, 'base64'),
+      tag: Buffer.from(tag, 'base64'),
+      ciphertext: Buffer.from(ciphertext, 'base64')
+    };
+  }
+}
+
+// Export singleton instance
+export const credentialCrypto = new CredentialCrypto();
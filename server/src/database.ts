@@ -1,7 +1,44 @@
 import { Pool, PoolClient, QueryResult } from 'pg';
 import { appConfig } from './config';
+import { credentialCrypto } from './credentialCrypto';
 import { readFileSync } from 'fs';
 import { join } from 'path';
+import {
+  Clinic,
+  CreateClinicRequest,
+  UpdateClinicRequest,
+  EncounterStatus,
+  EncounterStatusEvent,
+  NewEncounterStatusEvent,
+  WaitTimeGroupBy,
+  WaitTimeStats,
+  WaitTimeStageStats,
+  WaitTimeAlertRule,
+  CreateWaitTimeAlertRuleRequest,
+  KioskDisplayToken,
+  KioskMaskingMode,
+  UserRole,
+  UserRoleAssignment,
+  UserSession,
+  UpdateWaitTimeAlertRuleRequest,
+  AuditEvent,
+  AuditEventFilter,
+  NewAuditEvent,
+  HpiVersion,
+  NewHpiVersion,
+  JobSchedule,
+  ScheduledJobName,
+  NoteCheckStatus,
+  NoteCheckRun,
+  PromptTemplateVersion,
+  PromptTemplateSummary,
+  NewPromptTemplateVersion,
+  PromptEvalSample,
+  NewPromptEvalSample,
+  PromptEvalResult,
+  NewPromptEvalResult,
+  ReviewedNoteCheck
+} from './types';
 
 // Helper function to get SSL configuration
 function getSSLConfig() {
@@ -22,6 +59,19 @@ function getSSLConfig() {
   }
 }
 
+// Wait-time stages: a patient is roomed at the first of these statuses after check-in
+export const ROOMED_STATUSES: EncounterStatus[] = ['IN_ROOM', 'WITH_STAFF', 'READY_FOR_STAFF', 'READY_FOR_PROVIDER', 'WITH_PROVIDER'];
+// ...and the visit is over at the first of these
+export const VISIT_COMPLETE_STATUSES: EncounterStatus[] = ['CHECKED_OUT', 'PENDING_COSIGN'];
+
+// Grouping expressions for wait-time analytics, over the per-visit rows built in getWaitTimeStats
+const WAIT_TIME_GROUPS: Record<WaitTimeGroupBy | 'overall', { key: string; label: string }> = {
+  provider: { key: "COALESCE(provider_id, 'unassigned')", label: "COALESCE(provider_name, 'Unassigned')" },
+  day: { key: 'service_day', label: 'service_day' },
+  appointmentType: { key: "COALESCE(appointment_type, 'Unknown')", label: "COALESCE(appointment_type, 'Unknown')" },
+  overall: { key: "'all'", label: "'All visits'" }
+};
+
 class VitalSignsDatabase {
   private pool: Pool | null = null;
 
@@ -192,7 +242,7 @@ class VitalSignsDatabase {
         CREATE TABLE IF NOT EXISTS user_credentials (
           id SERIAL PRIMARY KEY,
           username TEXT UNIQUE NOT NULL,
-          password TEXT NOT NULL,
+          password TEXT,
           server_url TEXT,
           access_token TEXT,
           refresh_token TEXT,
@@ -214,6 +264,7 @@ class VitalSignsDatabase {
           last_accessed TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
           user_agent TEXT,
           ip_address TEXT,
+          device_label TEXT,
           is_active BOOLEAN DEFAULT true
         )
       `;
@@ -232,6 +283,18 @@ class VitalSignsDatabase {
         )
       `;
 
+      // Create stream_tickets table (short-lived, single-use tickets for opening an encounter stream)
+      const createStreamTicketsTableQuery = `
+        CREATE TABLE IF NOT EXISTS stream_tickets (
+          id SERIAL PRIMARY KEY,
+          ticket_hash VARCHAR(64) UNIQUE NOT NULL,
+          session_token TEXT NOT NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          expires_at TIMESTAMP NOT NULL,
+          FOREIGN KEY (session_token) REFERENCES user_sessions(session_token) ON DELETE CASCADE
+        )
+      `;
+
       // Create note_checks table
       const createNoteChecksTableQuery = `
         CREATE TABLE IF NOT EXISTS note_checks (
@@ -306,15 +369,277 @@ class VitalSignsDatabase {
         )
       `;
 
+      // Create clinics table (registry of EZDerm clinics this installation serves)
+      const createClinicsTableQuery = `
+        CREATE TABLE IF NOT EXISTS clinics (
+          id SERIAL PRIMARY KEY,
+          clinic_id TEXT UNIQUE NOT NULL,
+          practice_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          time_zone TEXT NOT NULL DEFAULT 'America/Detroit',
+          is_active BOOLEAN NOT NULL DEFAULT true,
+          vital_signs_enabled BOOLEAN NOT NULL DEFAULT true,
+          ai_scan_enabled BOOLEAN NOT NULL DEFAULT true,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `;
+
+      // Create encounter_status_events table (timeline of status changes seen while polling EZDerm)
+      const createEncounterStatusEventsTableQuery = `
+        CREATE TABLE IF NOT EXISTS encounter_status_events (
+          id SERIAL PRIMARY KEY,
+          encounter_id TEXT NOT NULL,
+          clinic_id TEXT NOT NULL,
+          patient_id TEXT NOT NULL,
+          status VARCHAR(50) NOT NULL,
+          previous_status VARCHAR(50),
+          room TEXT,
+          provider_id TEXT,
+          provider_name TEXT,
+          appointment_type TEXT,
+          date_of_service TIMESTAMPTZ NOT NULL,
+          arrival_time TIMESTAMPTZ,
+          observed_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `;
+
+      // Create wait_time_alert_rules table (how long a patient may stay in a status before the board flags them)
+      const createWaitTimeAlertRulesTableQuery = `
+        CREATE TABLE IF NOT EXISTS wait_time_alert_rules (
+          id SERIAL PRIMARY KEY,
+          status VARCHAR(50) NOT NULL,
+          appointment_type TEXT,
+          threshold_minutes INTEGER NOT NULL CHECK (threshold_minutes > 0),
+          severity VARCHAR(20) NOT NULL CHECK (severity IN ('info', 'warning', 'critical')),
+          is_active BOOLEAN NOT NULL DEFAULT true,
+          created_by VARCHAR(255),
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `;
+
+      // Create kiosk_display_tokens table (read-only tokens for public waiting-room screens)
+      const createKioskDisplayTokensTableQuery = `
+        CREATE TABLE IF NOT EXISTS kiosk_display_tokens (
+          id SERIAL PRIMARY KEY,
+          token_hash VARCHAR(64) UNIQUE NOT NULL,
+          clinic_id TEXT NOT NULL,
+          label TEXT NOT NULL,
+          masking_mode VARCHAR(20) NOT NULL DEFAULT 'initials_mrn' CHECK (masking_mode IN ('initials_mrn', 'ticket')),
+          created_by VARCHAR(255) NOT NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          last_used_at TIMESTAMP,
+          revoked_at TIMESTAMP
+        )
+      `;
+
+      // Create kiosk_tickets table (per-day ticket numbers shown instead of patient identifiers)
+      const createKioskTicketsTableQuery = `
+        CREATE TABLE IF NOT EXISTS kiosk_tickets (
+          id SERIAL PRIMARY KEY,
+          clinic_id TEXT NOT NULL,
+          service_day DATE NOT NULL,
+          encounter_id TEXT NOT NULL,
+          ticket_number INTEGER NOT NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(clinic_id, encounter_id)
+        )
+      `;
+
+      // Create user_roles table (tracking board role per EZDerm user)
+      const createUserRolesTableQuery = `
+        CREATE TABLE IF NOT EXISTS user_roles (
+          username TEXT PRIMARY KEY,
+          role VARCHAR(20) NOT NULL CHECK (role IN ('front_desk', 'ma', 'provider', 'coder', 'admin')),
+          source VARCHAR(10) NOT NULL DEFAULT 'ezderm' CHECK (source IN ('ezderm', 'manual')),
+          ezderm_title TEXT,
+          updated_by VARCHAR(255),
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `;
+
+      // Create audit_events table (every write this app sends to EZDerm, for compliance review)
+      const createAuditEventsTableQuery = `
+        CREATE TABLE IF NOT EXISTS audit_events (
+          id SERIAL PRIMARY KEY,
+          actor TEXT NOT NULL,
+          action VARCHAR(50) NOT NULL,
+          encounter_id TEXT,
+          patient_id TEXT,
+          request_payload JSONB,
+          changes JSONB,
+          response_status INTEGER,
+          success BOOLEAN NOT NULL,
+          error_message TEXT,
+          occurred_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `;
+
+      // Audit events are append-only: refuse updates and deletes
+      const createAuditEventsAppendOnlyFunctionQuery = `
+        CREATE OR REPLACE FUNCTION audit_events_append_only() RETURNS trigger AS $$
+        BEGIN
+          RAISE EXCEPTION 'audit_events is append-only';
+        END;
+        $$ LANGUAGE plpgsql
+      `;
+
+      // Create hpi_versions table (HPI text before and after each edit made through the app, for undo)
+      const createHpiVersionsTableQuery = `
+        CREATE TABLE IF NOT EXISTS hpi_versions (
+          id SERIAL PRIMARY KEY,
+          encounter_id TEXT NOT NULL,
+          patient_id TEXT NOT NULL,
+          version_number INTEGER NOT NULL,
+          note_text TEXT NOT NULL,
+          source VARCHAR(10) NOT NULL CHECK (source IN ('ezderm', 'edit', 'revert')),
+          reverted_from_version INTEGER,
+          created_by VARCHAR(255),
+          created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(encounter_id, version_number)
+        )
+      `;
+
+      // Create job_schedules table (when the worker's recurring jobs run, editable by admins)
+      const createJobSchedulesTableQuery = `
+        CREATE TABLE IF NOT EXISTS job_schedules (
+          job_name VARCHAR(50) PRIMARY KEY CHECK (job_name IN ('vital-signs', 'ai-note-scan')),
+          enabled BOOLEAN NOT NULL DEFAULT true,
+          cron_expression TEXT NOT NULL,
+          time_zone TEXT,
+          active_from TIME,
+          active_until TIME,
+          business_days SMALLINT[],
+          eligibility_delay_minutes INTEGER CHECK (eligibility_delay_minutes >= 0),
+          recheck_after_minutes INTEGER CHECK (recheck_after_minutes > 0),
+          updated_by VARCHAR(255),
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `;
+
+      // Create prompt_templates table (every version of each AI check's prompt; version 1 is imported from src/prompts)
+      const createPromptTemplatesTableQuery = `
+        CREATE TABLE IF NOT EXISTS prompt_templates (
+          id SERIAL PRIMARY KEY,
+          check_type VARCHAR(100) NOT NULL,
+          version_number INTEGER NOT NULL,
+          content TEXT NOT NULL,
+          change_note TEXT,
+          created_by VARCHAR(255),
+          created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(check_type, version_number)
+        )
+      `;
+
+      // Create prompt_template_pins table (a check type runs its pinned version instead of the latest)
+      const createPromptTemplatePinsTableQuery = `
+        CREATE TABLE IF NOT EXISTS prompt_template_pins (
+          check_type VARCHAR(100) PRIMARY KEY,
+          version_number INTEGER NOT NULL,
+          pinned_by VARCHAR(255),
+          pinned_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (check_type, version_number) REFERENCES prompt_templates(check_type, version_number)
+        )
+      `;
+
+      // Create prompt_eval_samples table (de-identified note text with the issues reviewers confirmed or marked invalid)
+      const createPromptEvalSamplesTableQuery = `
+        CREATE TABLE IF NOT EXISTS prompt_eval_samples (
+          id SERIAL PRIMARY KEY,
+          source_md5 VARCHAR(32) UNIQUE NOT NULL,
+          note_content TEXT NOT NULL,
+          expected_issues JSONB NOT NULL DEFAULT '[]'::jsonb,
+          rejected_issues JSONB NOT NULL DEFAULT '[]'::jsonb,
+          label_source VARCHAR(50) NOT NULL,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `;
+
+      // Create prompt_eval_results table (what one prompt version and model reported for each sample)
+      const createPromptEvalResultsTableQuery = `
+        CREATE TABLE IF NOT EXISTS prompt_eval_results (
+          id SERIAL PRIMARY KEY,
+          sample_id INTEGER NOT NULL REFERENCES prompt_eval_samples(id) ON DELETE CASCADE,
+          check_type VARCHAR(100) NOT NULL,
+          prompt_version INTEGER NOT NULL,
+          provider VARCHAR(50) NOT NULL,
+          model VARCHAR(100) NOT NULL,
+          status VARCHAR(50) NOT NULL,
+          reported_issues JSONB NOT NULL DEFAULT '[]'::jsonb,
+          error_message TEXT,
+          evaluated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(sample_id, check_type, prompt_version, provider, model)
+        )
+      `;
+
       // Execute table creation queries
       await client.query(createVitalSignsTableQuery);
       await client.query(createUserCredentialsTableQuery);
       await client.query(createUserSessionsTableQuery);
       await client.query(createRefreshTokensTableQuery);
+      await client.query(createStreamTicketsTableQuery);
       await client.query(createNoteChecksTableQuery);
       await client.query(createNoteCheckQueueTableQuery);
       await client.query(createCreatedTodosTableQuery);
       await client.query(createInvalidIssuesTableQuery);
+      await client.query(createClinicsTableQuery);
+      await client.query(createEncounterStatusEventsTableQuery);
+      await client.query('CREATE INDEX IF NOT EXISTS encounter_status_events_encounter_id_observed_at_index ON encounter_status_events (encounter_id, observed_at)');
+      await client.query('CREATE INDEX IF NOT EXISTS encounter_status_events_clinic_id_date_of_service_index ON encounter_status_events (clinic_id, date_of_service)');
+      // Default rules only go into a table created just now, so deleting them all sticks
+      const alertRulesTableCheck = await client.query("SELECT to_regclass('public.wait_time_alert_rules') AS table_name");
+      const alertRulesTableIsNew = !alertRulesTableCheck.rows[0]?.table_name;
+      await client.query(createWaitTimeAlertRulesTableQuery);
+      await client.query('CREATE INDEX IF NOT EXISTS wait_time_alert_rules_status_index ON wait_time_alert_rules (status)');
+      await client.query(createKioskDisplayTokensTableQuery);
+      await client.query(createKioskTicketsTableQuery);
+      await client.query('CREATE INDEX IF NOT EXISTS kiosk_tickets_clinic_id_service_day_index ON kiosk_tickets (clinic_id, service_day)');
+      await client.query(createUserRolesTableQuery);
+      await client.query(createAuditEventsTableQuery);
+      await client.query('CREATE INDEX IF NOT EXISTS audit_events_patient_id_occurred_at_index ON audit_events (patient_id, occurred_at)');
+      await client.query('CREATE INDEX IF NOT EXISTS audit_events_actor_occurred_at_index ON audit_events (actor, occurred_at)');
+      await client.query('CREATE INDEX IF NOT EXISTS audit_events_occurred_at_index ON audit_events (occurred_at)');
+      await client.query(createAuditEventsAppendOnlyFunctionQuery);
+      await client.query('DROP TRIGGER IF EXISTS audit_events_append_only ON audit_events');
+      await client.query('CREATE TRIGGER audit_events_append_only BEFORE UPDATE OR DELETE ON audit_events FOR EACH ROW EXECUTE FUNCTION audit_events_append_only()');
+      await client.query(createHpiVersionsTableQuery);
+      await client.query(createJobSchedulesTableQuery);
+      await client.query(createPromptTemplatesTableQuery);
+      await client.query(createPromptTemplatePinsTableQuery);
+      await client.query(createPromptEvalSamplesTableQuery);
+      await client.query(createPromptEvalResultsTableQuery);
+      await client.query('CREATE INDEX IF NOT EXISTS prompt_eval_results_check_type_prompt_version_index ON prompt_eval_results (check_type, prompt_version)');
+
+      // Seed the clinic that was previously hardcoded so existing setups keep working
+      const seedDefaultClinicQuery = `
+        INSERT INTO clinics (clinic_id, practice_id, name)
+        VALUES ('44b62760-50a1-488c-92ed-e0c7aa3cde92', '4cc96922-4d83-4183-863b-748d69de621f', 'DCC - Flint')
+        ON CONFLICT (clinic_id) DO NOTHING
+      `;
+      await client.query(seedDefaultClinicQuery);
+
+      // Start with the board's previous fixed rule: 10 minutes waiting in CHECKED_IN or WITH_STAFF
+      const seedDefaultAlertRulesQuery = `
+        INSERT INTO wait_time_alert_rules (status, threshold_minutes, severity, created_by)
+        SELECT status, 10, 'critical', 'system'
+        FROM (VALUES ('CHECKED_IN'), ('WITH_STAFF')) AS defaults (status)
+      `;
+      if (alertRulesTableIsNew) {
+        await client.query(seedDefaultAlertRulesQuery);
+      }
+
+      // Start with the intervals that were previously hardcoded in the worker
+      const seedDefaultJobSchedulesQuery = `
+        INSERT INTO job_schedules (job_name, cron_expression, eligibility_delay_minutes, recheck_after_minutes, updated_by)
+        VALUES
+          ('vital-signs', '*/10 * * * * *', NULL, NULL, 'system'),
+          ('ai-note-scan', '*/5 * * * *', 120, 360, 'system')
+        ON CONFLICT (job_name) DO NOTHING
+      `;
+      await client.query(seedDefaultJobSchedulesQuery);
 
       // Add MD5 and note content columns if they don't exist (migration)
       const addMd5ColumnQuery = `
@@ -324,7 +649,24 @@ class VitalSignsDatabase {
       `;
       await client.query(addMd5ColumnQuery);
 
-      console.log('Database tables created/verified: processed_vital_signs, user_credentials, user_sessions, refresh_tokens, note_checks, note_check_queue, created_todos, invalid_issues');
+      // Add clinic time zone column if it doesn't exist (migration)
+      const addClinicTimeZoneColumnQuery = `
+        ALTER TABLE clinics
+        ADD COLUMN IF NOT EXISTS time_zone TEXT NOT NULL DEFAULT 'America/Detroit'
+      `;
+      await client.query(addClinicTimeZoneColumnQuery);
+
+      // Passwords are optional now that interactive users' passwords can be left unstored (migration)
+      await client.query('ALTER TABLE user_credentials ALTER COLUMN password DROP NOT NULL');
+
+      // Add session device label column if it doesn't exist (migration)
+      await client.query('ALTER TABLE user_sessions ADD COLUMN IF NOT EXISTS device_label TEXT');
+      await client.query('CREATE INDEX IF NOT EXISTS user_sessions_username_is_active_index ON user_sessions (username, is_active)');
+
+      // Add the column recording each check's prompt version and model if it doesn't exist (migration)
+      await client.query('ALTER TABLE note_checks ADD COLUMN IF NOT EXISTS check_runs JSONB');
+
+      console.log('Database tables created/verified: processed_vital_signs, user_credentials, user_sessions, refresh_tokens, stream_tickets, note_checks, note_check_queue, created_todos, invalid_issues, clinics, encounter_status_events, wait_time_alert_rules, kiosk_display_tokens, kiosk_tickets, user_roles, audit_events, hpi_versions, job_schedules, prompt_templates, prompt_template_pins, prompt_eval_samples, prompt_eval_results');
     } finally {
       client.release();
     }
@@ -404,8 +746,10 @@ class VitalSignsDatabase {
     };
   }
 
-  // User credentials management methods
-  async storeUserCredentials(username: string, password: string): Promise<void> {
+  // User credentials management methods.
+  // Passwords and EZDerm tokens are encrypted at rest (see credentialCrypto).
+
+  async storeUserCredentials(username: string, password: string | null): Promise<void> {
     if (!this.pool) {
       throw new Error('Database not initialized');
     }
@@ -420,11 +764,11 @@ class VitalSignsDatabase {
         updated_at = CURRENT_TIMESTAMP
     `;
 
-    await this.pool.query(query, [username, password]);
-    console.log(`Stored credentials for user: ${username}`);
+    await this.pool.query(query, [username, password === null ? null : credentialCrypto.encrypt(password)]);
+    console.log(`Stored credentials for user: ${username}${password === null ? ' (without password)' : ''}`);
   }
 
-  async getUserCredentials(username: string): Promise<{ username: string; password: string } | null> {
+  async getUserCredentials(username: string): Promise<{ username: string; password: string | null } | null> {
     if (!this.pool) {
       throw new Error('Database not initialized');
     }
@@ -432,10 +776,10 @@ class VitalSignsDatabase {
     const query = 'SELECT username, password FROM user_credentials WHERE username = $1 AND is_active = true';
     const result = await this.pool.query(query, [username]);
     
-    return result.rows.length > 0 ? result.rows[0] : null;
+    return result.rows.length > 0 ? this.mapUserCredentialsRow(result.rows[0]) : null;
   }
 
-  async getActiveUserCredentials(): Promise<{ username: string; password: string } | null> {
+  async getActiveUserCredentials(): Promise<{ username: string; password: string | null } | null> {
     if (!this.pool) {
       throw new Error('Database not initialized');
     }
@@ -443,7 +787,7 @@ class VitalSignsDatabase {
     const query = 'SELECT username, password FROM user_credentials WHERE is_active = true ORDER BY updated_at DESC LIMIT 1';
     const result = await this.pool.query(query);
     
-    return result.rows.length > 0 ? result.rows[0] : null;
+    return result.rows.length > 0 ? this.mapUserCredentialsRow(result.rows[0]) : null;
   }
 
   async storeTokens(username: string, accessToken: string, refreshToken: string, serverUrl: string): Promise<void> {
@@ -458,7 +802,13 @@ class VitalSignsDatabase {
       WHERE username = $5
     `;
 
-    await this.pool.query(query, [accessToken, refreshToken, serverUrl, expiresAt, username]);
+    await this.pool.query(query, [
+      credentialCrypto.encrypt(accessToken),
+      credentialCrypto.encrypt(refreshToken),
+      serverUrl,
+      expiresAt,
+      username
+    ]);
   }
 
   async getStoredTokens(username: string): Promise<{ accessToken: string; refreshToken: string; serverUrl: string } | null> {
@@ -482,11 +832,7 @@ class VitalSignsDatabase {
       return null;
     }
 
-    return {
-      accessToken: row.access_token,
-      refreshToken: row.refresh_token,
-      serverUrl: row.server_url
-    };
+    return this.mapStoredTokensRow(row);
   }
 
   // Get stored tokens even if expired (for refresh purposes)
@@ -502,27 +848,80 @@ class VitalSignsDatabase {
       return null;
     }
 
-    const row = result.rows[0];
+    return this.mapStoredTokensRow(result.rows[0]);
+  }
+
+  /**
+   * Bring stored credentials onto the active encryption key: encrypt plaintext left from
+   * before encryption was enabled and re-wrap values under retired keys. When passwords
+   * aren't persisted, stored interactive passwords are cleared as well. Returns the rows changed.
+   */
+  async reencryptUserCredentials(): Promise<number> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await client.query('SELECT id, password, access_token, refresh_token FROM user_credentials FOR UPDATE');
+
+      let updated = 0;
+      for (const row of result.rows) {
+        const reencrypt = (value: string | null) => value === null ? null : credentialCrypto.reencrypt(value);
+        const password = appConfig.credentials.persistPasswords ? reencrypt(row.password) : null;
+        const accessToken = reencrypt(row.access_token);
+        const refreshToken = reencrypt(row.refresh_token);
+
+        if (password === row.password && accessToken === row.access_token && refreshToken === row.refresh_token) {
+          continue;
+        }
+
+        await client.query(
+          'UPDATE user_credentials SET password = $2, access_token = $3, refresh_token = $4 WHERE id = $1',
+          [row.id, password, accessToken, refreshToken]
+        );
+        updated++;
+      }
+
+      await client.query('COMMIT');
+      return updated;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private mapUserCredentialsRow(row: any): { username: string; password: string | null } {
+    return {
+      username: row.username,
+      password: row.password === null ? null : credentialCrypto.decrypt(row.password)
+    };
+  }
+
+  private mapStoredTokensRow(row: any): { accessToken: string; refreshToken: string; serverUrl: string } {
     return {
-      accessToken: row.access_token,
-      refreshToken: row.refresh_token,
+      accessToken: row.access_token && credentialCrypto.decrypt(row.access_token),
+      refreshToken: row.refresh_token && credentialCrypto.decrypt(row.refresh_token),
       serverUrl: row.server_url
     };
   }
 
   // Session management methods
-  async createSession(sessionToken: string, username: string, expiresAt: Date, userAgent?: string, ipAddress?: string): Promise<void> {
+  async createSession(sessionToken: string, username: string, expiresAt: Date, userAgent?: string, ipAddress?: string, deviceLabel?: string): Promise<void> {
     if (!this.pool) {
       throw new Error('Database not initialized');
     }
 
     const query = `
       INSERT INTO user_sessions 
-      (session_token, username, expires_at, user_agent, ip_address) 
-      VALUES ($1, $2, $3, $4, $5)
+      (session_token, username, expires_at, user_agent, ip_address, device_label) 
+      VALUES ($1, $2, $3, $4, $5, $6)
     `;
 
-    await this.pool.query(query, [sessionToken, username, expiresAt, userAgent, ipAddress]);
+    await this.pool.query(query, [sessionToken, username, expiresAt, userAgent, ipAddress, deviceLabel || null]);
     console.log(`Created session for user: ${username}`);
   }
 
@@ -541,7 +940,7 @@ class VitalSignsDatabase {
     console.log(`Created refresh token for user: ${username}`);
   }
 
-  async validateRefreshToken(refreshToken: string): Promise<{ username: string; sessionToken: string } | null> {
+  async validateRefreshToken(refreshToken: string): Promise<{ username: string; sessionToken: string; deviceLabel?: string } | null> {
     if (!this.pool) {
       throw new Error('Database not initialized');
     }
@@ -549,7 +948,7 @@ class VitalSignsDatabase {
     console.log('🔍 DB: Validating refresh token:', refreshToken.substring(0, 20) + '...');
 
     const query = `
-      SELECT rt.username, rt.session_token, rt.expires_at
+      SELECT rt.username, rt.session_token, rt.expires_at, us.device_label
       FROM refresh_tokens rt
       JOIN user_sessions us ON rt.session_token = us.session_token
       WHERE rt.refresh_token = $1 
@@ -570,7 +969,8 @@ class VitalSignsDatabase {
 
     return {
       username: row.username,
-      sessionToken: row.session_token
+      sessionToken: row.session_token,
+      ...(row.device_label && { deviceLabel: row.device_label })
     };
   }
 
@@ -685,7 +1085,8 @@ class VitalSignsDatabase {
     console.log(`Deleted session: ${sessionToken}`);
   }
 
-  async deleteAllUserSessions(username: string): Promise<void> {
+  // Returns the tokens of the sessions that were still active
+  async deleteAllUserSessions(username: string): Promise<string[]> {
     if (!this.pool) {
       throw new Error('Database not initialized');
     }
@@ -693,11 +1094,13 @@ class VitalSignsDatabase {
     const query = `
       UPDATE user_sessions 
       SET is_active = false 
-      WHERE username = $1
+      WHERE username = $1 AND is_active = true
+      RETURNING session_token
     `;
 
-    await this.pool.query(query, [username]);
+    const result = await this.pool.query(query, [username]);
     console.log(`Deleted all sessions for user: ${username}`);
+    return result.rows.map(row => row.session_token);
   }
 
   async cleanupExpiredSessions(): Promise<void> {
@@ -714,6 +1117,146 @@ class VitalSignsDatabase {
     console.log('Cleaned up expired sessions');
   }
 
+  /**
+   * Get the active sessions, optionally only one user's. The session making the request is
+   * flagged as current.
+   */
+  async getActiveSessions(currentSessionToken: string, username?: string): Promise<UserSession[]> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      SELECT id, username, device_label, user_agent, ip_address, created_at, last_accessed, expires_at,
+             session_token = $1::text AS is_current
+      FROM user_sessions
+      WHERE is_active = true AND expires_at > NOW()
+        AND ($2::text IS NULL OR username = $2::text)
+      ORDER BY last_accessed DESC
+    `;
+
+    const result = await this.pool.query(query, [currentSessionToken, username || null]);
+    return result.rows.map(row => this.mapUserSessionRow(row));
+  }
+
+  /**
+   * Get the session token and owner of a session by id
+   */
+  async getSessionById(id: number): Promise<{ sessionToken: string; username: string; isActive: boolean } | null> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const result = await this.pool.query('SELECT session_token, username, is_active FROM user_sessions WHERE id = $1', [id]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return { sessionToken: row.session_token, username: row.username, isActive: row.is_active };
+  }
+
+  /**
+   * Label a session's device so it can be recognised on the sessions page
+   */
+  async setSessionDeviceLabel(id: number, deviceLabel: string | null): Promise<UserSession | null> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      UPDATE user_sessions
+      SET device_label = $2
+      WHERE id = $1 AND is_active = true
+      RETURNING id, username, device_label, user_agent, ip_address, created_at, last_accessed, expires_at, false AS is_current
+    `;
+
+    const result = await this.pool.query(query, [id, deviceLabel]);
+    return result.rows.length > 0 ? this.mapUserSessionRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Revoke sessions and their refresh tokens together, so a revoked device can't quietly
+   * refresh its way back in. Returns the session tokens that were revoked.
+   */
+  async revokeSessions(filter: { id: number } | { username: string }): Promise<string[]> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const sessionsQuery = 'id' in filter
+        ? 'UPDATE user_sessions SET is_active = false WHERE id = $1 AND is_active = true RETURNING session_token'
+        : 'UPDATE user_sessions SET is_active = false WHERE username = $1 AND is_active = true RETURNING session_token';
+      const sessions = await client.query(sessionsQuery, ['id' in filter ? filter.id : filter.username]);
+      const sessionTokens: string[] = sessions.rows.map(row => row.session_token);
+
+      if (sessionTokens.length > 0) {
+        await client.query(
+          'UPDATE refresh_tokens SET is_active = false WHERE session_token = ANY($1::text[]) AND is_active = true',
+          [sessionTokens]
+        );
+      }
+
+      await client.query('COMMIT');
+      return sessionTokens;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Store a stream ticket (by hash) for a session, clearing out tickets that were never used
+   */
+  async createStreamTicket(ticketHash: string, sessionToken: string, expiresAt: Date): Promise<void> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    await this.pool.query('DELETE FROM stream_tickets WHERE expires_at < NOW()');
+    await this.pool.query(
+      'INSERT INTO stream_tickets (ticket_hash, session_token, expires_at) VALUES ($1, $2, $3)',
+      [ticketHash, sessionToken, expiresAt]
+    );
+  }
+
+  /**
+   * Use up a stream ticket. Returns the session it was issued to, or null if the ticket is
+   * unknown, already used or expired.
+   */
+  async redeemStreamTicket(ticketHash: string): Promise<string | null> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const result = await this.pool.query(
+      'DELETE FROM stream_tickets WHERE ticket_hash = $1 RETURNING session_token, expires_at > NOW() AS is_current',
+      [ticketHash]
+    );
+    const row = result.rows[0];
+    return row?.is_current ? row.session_token : null;
+  }
+
+  private mapUserSessionRow(row: any): UserSession {
+    return {
+      id: row.id,
+      username: row.username,
+      deviceLabel: row.device_label || undefined,
+      userAgent: row.user_agent || undefined,
+      ipAddress: row.ip_address || undefined,
+      createdAt: row.created_at,
+      lastAccessed: row.last_accessed,
+      expiresAt: row.expires_at,
+      current: row.is_current === true
+    };
+  }
+
   async getAllSessions(): Promise<any[]> {
     if (!this.pool) {
       throw new Error('Database not initialized');
@@ -743,13 +1286,14 @@ class VitalSignsDatabase {
     patientName: string,
     chiefComplaint: string,
     dateOfService: Date,
-    status: 'pending' | 'completed' | 'error',
+    status: NoteCheckStatus,
     checkedBy: string,
     aiAnalysis?: any,
     issuesFound: boolean = false,
     errorMessage?: string,
     noteContentMd5?: string,
-    noteContent?: string
+    noteContent?: string,
+    checkRuns?: NoteCheckRun[]
   ): Promise<number> {
     if (!this.pool) {
       throw new Error('Database not initialized');
@@ -758,8 +1302,8 @@ class VitalSignsDatabase {
     const query = `
       INSERT INTO note_checks 
       (encounter_id, patient_id, patient_name, chief_complaint, date_of_service, 
-       status, ai_analysis, issues_found, checked_by, error_message, note_content_md5, note_content, updated_at)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, CURRENT_TIMESTAMP)
+       status, ai_analysis, issues_found, checked_by, error_message, note_content_md5, note_content, check_runs, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, CURRENT_TIMESTAMP)
       ON CONFLICT (encounter_id) 
       DO UPDATE SET 
         status = EXCLUDED.status,
@@ -769,6 +1313,7 @@ class VitalSignsDatabase {
         error_message = EXCLUDED.error_message,
         note_content_md5 = EXCLUDED.note_content_md5,
         note_content = EXCLUDED.note_content,
+        check_runs = EXCLUDED.check_runs,
         checked_at = CURRENT_TIMESTAMP,
         updated_at = CURRENT_TIMESTAMP
       RETURNING id
@@ -776,7 +1321,8 @@ class VitalSignsDatabase {
 
     const result = await this.pool.query(query, [
       encounterId, patientId, patientName, chiefComplaint, dateOfService,
-      status, JSON.stringify(aiAnalysis), issuesFound, checkedBy, errorMessage, noteContentMd5, noteContent
+      status, JSON.stringify(aiAnalysis), issuesFound, checkedBy, errorMessage, noteContentMd5, noteContent,
+      checkRuns ? JSON.stringify(checkRuns) : null
     ]);
 
     return result.rows[0].id;
@@ -822,7 +1368,7 @@ class VitalSignsDatabase {
     const query = `
       SELECT id, encounter_id, patient_id, patient_name, chief_complaint, 
              date_of_service, status, ai_analysis, issues_found, 
-             checked_at, checked_by, error_message
+             checked_at, checked_by, error_message, check_runs
       FROM note_checks 
       WHERE encounter_id = $1
       ORDER BY checked_at DESC
@@ -848,7 +1394,8 @@ class VitalSignsDatabase {
       issuesFound: row.issues_found,
       checkedAt: row.checked_at,
       checkedBy: row.checked_by,
-      errorMessage: row.error_message
+      errorMessage: row.error_message,
+      checkRuns: row.check_runs
     };
   }
 
@@ -860,7 +1407,7 @@ class VitalSignsDatabase {
     const query = `
       SELECT id, encounter_id, patient_id, patient_name, chief_complaint, 
              date_of_service, status, ai_analysis, issues_found, 
-             checked_at, checked_by, error_message
+             checked_at, checked_by, error_message, check_runs
       FROM note_checks 
       ORDER BY checked_at DESC
       LIMIT $1 OFFSET $2
@@ -880,7 +1427,8 @@ class VitalSignsDatabase {
       issuesFound: row.issues_found,
       checkedAt: row.checked_at,
       checkedBy: row.checked_by,
-      errorMessage: row.error_message
+      errorMessage: row.error_message,
+      checkRuns: row.check_runs
     }));
   }
 
@@ -1185,6 +1733,1271 @@ class VitalSignsDatabase {
     return false; // All issues have been marked as invalid
   }
 
+  /**
+   * Get registered clinics, active ones only unless includeInactive is set
+   */
+  async getClinics(includeInactive: boolean = false): Promise<Clinic[]> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      SELECT * FROM clinics
+      ${includeInactive ? '' : 'WHERE is_active = true'}
+      ORDER BY id ASC
+    `;
+
+    const result = await this.pool.query(query);
+    return result.rows.map(row => this.mapClinicRow(row));
+  }
+
+  /**
+   * Get a clinic by its EZDerm clinic ID
+   */
+  async getClinic(clinicId: string): Promise<Clinic | null> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = 'SELECT * FROM clinics WHERE clinic_id = $1';
+    const result = await this.pool.query(query, [clinicId]);
+
+    return result.rows.length > 0 ? this.mapClinicRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Register a clinic (reactivates and updates it if it was registered before)
+   */
+  async createClinic(clinic: CreateClinicRequest): Promise<Clinic> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      INSERT INTO clinics (clinic_id, practice_id, name, time_zone, vital_signs_enabled, ai_scan_enabled)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (clinic_id)
+      DO UPDATE SET
+        practice_id = EXCLUDED.practice_id,
+        name = EXCLUDED.name,
+        time_zone = EXCLUDED.time_zone,
+        vital_signs_enabled = EXCLUDED.vital_signs_enabled,
+        ai_scan_enabled = EXCLUDED.ai_scan_enabled,
+        is_active = true,
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [
+      clinic.clinicId,
+      clinic.practiceId,
+      clinic.name,
+      clinic.timeZone || appConfig.ezderm.timeZone,
+      clinic.vitalSignsEnabled ?? true,
+      clinic.aiScanEnabled ?? true
+    ]);
+
+    console.log(`Registered clinic ${clinic.clinicId} (${clinic.name})`);
+    return this.mapClinicRow(result.rows[0]);
+  }
+
+  /**
+   * Update a clinic's settings, leaving fields that aren't provided unchanged
+   */
+  async updateClinic(clinicId: string, updates: UpdateClinicRequest): Promise<Clinic | null> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      UPDATE clinics SET
+        practice_id = COALESCE($2, practice_id),
+        name = COALESCE($3, name),
+        time_zone = COALESCE($4, time_zone),
+        is_active = COALESCE($5, is_active),
+        vital_signs_enabled = COALESCE($6, vital_signs_enabled),
+        ai_scan_enabled = COALESCE($7, ai_scan_enabled),
+        updated_at = CURRENT_TIMESTAMP
+      WHERE clinic_id = $1
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [
+      clinicId,
+      updates.practiceId ?? null,
+      updates.name ?? null,
+      updates.timeZone ?? null,
+      updates.isActive ?? null,
+      updates.vitalSignsEnabled ?? null,
+      updates.aiScanEnabled ?? null
+    ]);
+
+    return result.rows.length > 0 ? this.mapClinicRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Deactivate a clinic. Clinics are never deleted so history stays attributable.
+   */
+  async deactivateClinic(clinicId: string): Promise<boolean> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      UPDATE clinics
+      SET is_active = false, updated_at = CURRENT_TIMESTAMP
+      WHERE clinic_id = $1
+    `;
+
+    const result = await this.pool.query(query, [clinicId]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Append status changes to the encounter timeline. An event is only stored when its status
+   * differs from the last one stored for the encounter, so every process polling the same clinic
+   * can record without duplicating events. Returns how many were stored.
+   */
+  async recordEncounterStatusEvents(events: NewEncounterStatusEvent[]): Promise<number> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    if (events.length === 0) {
+      return 0;
+    }
+
+    const columnTypes = ['text', 'text', 'text', 'varchar', 'text', 'text', 'text', 'text', 'timestamptz', 'timestamptz', 'timestamptz'];
+    const values: any[] = [];
+    const rows = events.map((event, index) => {
+      values.push(
+        event.encounterId,
+        event.clinicId,
+        event.patientId,
+        event.status,
+        event.room || null,
+        event.providerId || null,
+        event.providerName || null,
+        event.appointmentType || null,
+        event.dateOfService,
+        event.arrivalTime || null,
+        new Date()
+      );
+      const placeholders = columnTypes.map((type, column) => `$${index * columnTypes.length + column + 1}::${type}`);
+      return `(${placeholders.join(', ')})`;
+    });
+
+    const query = `
+      WITH incoming (encounter_id, clinic_id, patient_id, status, room, provider_id, provider_name,
+                     appointment_type, date_of_service, arrival_time, observed_at) AS (
+        VALUES ${rows.join(', ')}
+      ),
+      latest AS (
+        SELECT DISTINCT ON (encounter_id) encounter_id, status
+        FROM encounter_status_events
+        WHERE encounter_id IN (SELECT encounter_id FROM incoming)
+        ORDER BY encounter_id, observed_at DESC
+      )
+      INSERT INTO encounter_status_events
+      (encounter_id, clinic_id, patient_id, status, previous_status, room, provider_id,
+       provider_name, appointment_type, date_of_service, arrival_time, observed_at)
+      SELECT i.encounter_id, i.clinic_id, i.patient_id, i.status, l.status, i.room, i.provider_id,
+             i.provider_name, i.appointment_type, i.date_of_service, i.arrival_time, i.observed_at
+      FROM incoming i
+      LEFT JOIN latest l ON l.encounter_id = i.encounter_id
+      WHERE l.status IS DISTINCT FROM i.status
+    `;
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      // One writer at a time, so two processes seeing the same change can't both store it
+      await client.query("SELECT pg_advisory_xact_lock(hashtext('encounter_status_events'))");
+      const result = await client.query(query, values);
+      await client.query('COMMIT');
+      return result.rowCount || 0;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get the most recently recorded status of each encounter and when it was recorded
+   */
+  async getLatestEncounterStatuses(encounterIds: string[]): Promise<Map<string, { status: EncounterStatus; observedAt: Date }>> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const statuses = new Map<string, { status: EncounterStatus; observedAt: Date }>();
+    if (encounterIds.length === 0) {
+      return statuses;
+    }
+
+    const query = `
+      SELECT DISTINCT ON (encounter_id) encounter_id, status, observed_at
+      FROM encounter_status_events
+      WHERE encounter_id = ANY($1)
+      ORDER BY encounter_id, observed_at DESC
+    `;
+
+    const result = await this.pool.query(query, [encounterIds]);
+    for (const row of result.rows) {
+      statuses.set(row.encounter_id, { status: row.status, observedAt: row.observed_at });
+    }
+    return statuses;
+  }
+
+  /**
+   * Get the status timeline of an encounter, oldest first
+   */
+  async getEncounterTimeline(encounterId: string): Promise<EncounterStatusEvent[]> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      SELECT * FROM encounter_status_events
+      WHERE encounter_id = $1
+      ORDER BY observed_at ASC
+    `;
+
+    const result = await this.pool.query(query, [encounterId]);
+    return result.rows.map(row => this.mapEncounterStatusEventRow(row));
+  }
+
+  /**
+   * Get every status event for a clinic's visits between two instants, grouped by
+   * encounter and oldest first
+   */
+  async getEncounterStatusEvents(clinicId: string, rangeStart: string, rangeEnd: string): Promise<EncounterStatusEvent[]> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      SELECT * FROM encounter_status_events
+      WHERE clinic_id = $1 AND date_of_service >= $2 AND date_of_service <= $3
+      ORDER BY encounter_id, observed_at ASC
+    `;
+
+    const result = await this.pool.query(query, [clinicId, rangeStart, rangeEnd]);
+    return result.rows.map(row => this.mapEncounterStatusEventRow(row));
+  }
+
+  /**
+   * Get door-to-room, room-to-provider and total visit durations for a clinic's visits
+   * between two instants, grouped by provider, day or appointment type, optionally
+   * limited to one provider's visits
+   */
+  async getWaitTimeStats(
+    clinicId: string,
+    timeZone: string,
+    rangeStart: string,
+    rangeEnd: string,
+    groupBy: WaitTimeGroupBy | 'overall',
+    providerId?: string
+  ): Promise<WaitTimeStats[]> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const group = WAIT_TIME_GROUPS[groupBy];
+    const stageColumns = (name: string, from: string, to: string) => `
+        COUNT(*) FILTER (WHERE ${to} >= ${from}) AS ${name}_count,
+        AVG(EXTRACT(EPOCH FROM (${to} - ${from})) / 60) FILTER (WHERE ${to} >= ${from}) AS ${name}_avg,
+        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM (${to} - ${from})) / 60)
+          FILTER (WHERE ${to} >= ${from}) AS ${name}_median`;
+
+    // One row per visit, with the latest provider/appointment type and the time each stage was reached.
+    // 'overall' is left ungrouped so an empty range still returns a (zero) row.
+    const query = `
+      WITH visits AS (
+        SELECT
+          encounter_id,
+          (ARRAY_AGG(provider_id ORDER BY observed_at DESC))[1] AS provider_id,
+          (ARRAY_AGG(provider_name ORDER BY observed_at DESC))[1] AS provider_name,
+          (ARRAY_AGG(appointment_type ORDER BY observed_at DESC))[1] AS appointment_type,
+          to_char(MIN(date_of_service) AT TIME ZONE $2::text, 'YYYY-MM-DD') AS service_day,
+          COALESCE(MIN(arrival_time), MIN(observed_at) FILTER (WHERE status = 'CHECKED_IN')) AS arrived_at,
+          MIN(observed_at) FILTER (WHERE status = ANY($5)) AS roomed_at,
+          MIN(observed_at) FILTER (WHERE status = 'WITH_PROVIDER') AS provider_at,
+          MIN(observed_at) FILTER (WHERE status = ANY($6)) AS completed_at
+        FROM encounter_status_events
+        WHERE clinic_id = $1 AND date_of_service >= $3 AND date_of_service <= $4
+        GROUP BY encounter_id
+      )
+      SELECT
+        ${group.key} AS group_key,
+        ${group.label} AS group_label,
+        COUNT(*) AS visits,
+        ${stageColumns('door_to_room', 'arrived_at', 'roomed_at')},
+        ${stageColumns('room_to_provider', 'roomed_at', 'provider_at')},
+        ${stageColumns('total_visit', 'arrived_at', 'completed_at')}
+      FROM visits
+      WHERE $7::text IS NULL OR provider_id = $7
+      ${groupBy === 'overall' ? '' : 'GROUP BY 1, 2 ORDER BY 2'}
+    `;
+
+    const result = await this.pool.query(query, [
+      clinicId,
+      timeZone,
+      rangeStart,
+      rangeEnd,
+      ROOMED_STATUSES,
+      VISIT_COMPLETE_STATUSES,
+      providerId ?? null
+    ]);
+
+    const stage = (row: any, name: string): WaitTimeStageStats => ({
+      count: parseInt(row[`${name}_count`]) || 0,
+      averageMinutes: row[`${name}_avg`] === null ? null : Math.round(parseFloat(row[`${name}_avg`]) * 10) / 10,
+      medianMinutes: row[`${name}_median`] === null ? null : Math.round(parseFloat(row[`${name}_median`]) * 10) / 10
+    });
+
+    return result.rows.map(row => ({
+      key: row.group_key,
+      label: row.group_label,
+      visits: parseInt(row.visits),
+      doorToRoom: stage(row, 'door_to_room'),
+      roomToProvider: stage(row, 'room_to_provider'),
+      totalVisit: stage(row, 'total_visit')
+    }));
+  }
+
+  /**
+   * Get wait-time alert rules, most severe first
+   */
+  async getWaitTimeAlertRules(includeInactive: boolean = false): Promise<WaitTimeAlertRule[]> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      SELECT * FROM wait_time_alert_rules
+      ${includeInactive ? '' : 'WHERE is_active = true'}
+      ORDER BY CASE severity WHEN 'critical' THEN 0 WHEN 'warning' THEN 1 ELSE 2 END, status, threshold_minutes
+    `;
+
+    const result = await this.pool.query(query);
+    return result.rows.map(row => this.mapWaitTimeAlertRuleRow(row));
+  }
+
+  /**
+   * Add a wait-time alert rule
+   */
+  async createWaitTimeAlertRule(rule: CreateWaitTimeAlertRuleRequest, createdBy: string): Promise<WaitTimeAlertRule> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      INSERT INTO wait_time_alert_rules (status, appointment_type, threshold_minutes, severity, created_by)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [
+      rule.status,
+      rule.appointmentType || null,
+      rule.thresholdMinutes,
+      rule.severity,
+      createdBy
+    ]);
+
+    return this.mapWaitTimeAlertRuleRow(result.rows[0]);
+  }
+
+  /**
+   * Update a wait-time alert rule, leaving fields that aren't provided unchanged
+   */
+  async updateWaitTimeAlertRule(id: number, updates: UpdateWaitTimeAlertRuleRequest): Promise<WaitTimeAlertRule | null> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    // appointment_type can be cleared, so "not provided" is passed separately from null
+    const query = `
+      UPDATE wait_time_alert_rules SET
+        status = COALESCE($2, status),
+        appointment_type = CASE WHEN $3::boolean THEN $4 ELSE appointment_type END,
+        threshold_minutes = COALESCE($5, threshold_minutes),
+        severity = COALESCE($6, severity),
+        is_active = COALESCE($7, is_active),
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [
+      id,
+      updates.status ?? null,
+      updates.appointmentType !== undefined,
+      updates.appointmentType || null,
+      updates.thresholdMinutes ?? null,
+      updates.severity ?? null,
+      updates.isActive ?? null
+    ]);
+
+    return result.rows.length > 0 ? this.mapWaitTimeAlertRuleRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Delete a wait-time alert rule
+   */
+  async deleteWaitTimeAlertRule(id: number): Promise<boolean> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const result = await this.pool.query('DELETE FROM wait_time_alert_rules WHERE id = $1', [id]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Store a kiosk display token (by hash) for a clinic
+   */
+  async createKioskDisplayToken(
+    tokenHash: string,
+    clinicId: string,
+    label: string,
+    maskingMode: KioskMaskingMode,
+    createdBy: string
+  ): Promise<KioskDisplayToken> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      INSERT INTO kiosk_display_tokens (token_hash, clinic_id, label, masking_mode, created_by)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [tokenHash, clinicId, label, maskingMode, createdBy]);
+    return this.mapKioskDisplayTokenRow(result.rows[0]);
+  }
+
+  /**
+   * Get kiosk display tokens, newest first
+   */
+  async getKioskDisplayTokens(includeRevoked: boolean = false): Promise<KioskDisplayToken[]> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      SELECT * FROM kiosk_display_tokens
+      ${includeRevoked ? '' : 'WHERE revoked_at IS NULL'}
+      ORDER BY created_at DESC
+    `;
+
+    const result = await this.pool.query(query);
+    return result.rows.map(row => this.mapKioskDisplayTokenRow(row));
+  }
+
+  /**
+   * Look up a kiosk display token that hasn't been revoked
+   */
+  async getKioskDisplayTokenByHash(tokenHash: string): Promise<KioskDisplayToken | null> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const result = await this.pool.query(
+      'SELECT * FROM kiosk_display_tokens WHERE token_hash = $1 AND revoked_at IS NULL',
+      [tokenHash]
+    );
+    return result.rows.length > 0 ? this.mapKioskDisplayTokenRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Note that a kiosk display was used, at most once a minute so polling screens don't write constantly
+   */
+  async touchKioskDisplayToken(id: number): Promise<void> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      UPDATE kiosk_display_tokens SET last_used_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND (last_used_at IS NULL OR last_used_at < CURRENT_TIMESTAMP - INTERVAL '1 minute')
+    `;
+
+    await this.pool.query(query, [id]);
+  }
+
+  /**
+   * Revoke a kiosk display token; the screen using it stops updating on its next poll
+   */
+  async revokeKioskDisplayToken(id: number): Promise<boolean> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const result = await this.pool.query(
+      'UPDATE kiosk_display_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE id = $1 AND revoked_at IS NULL',
+      [id]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Give each encounter a ticket number for the day, numbering new ones in the order given,
+   * and return the ticket number of every encounter passed in
+   */
+  async assignKioskTickets(clinicId: string, serviceDay: string, encounterIds: string[]): Promise<Map<string, number>> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const tickets = new Map<string, number>();
+    if (encounterIds.length === 0) {
+      return tickets;
+    }
+
+    // Numbers carry on from the day's highest ticket; existing tickets are never renumbered
+    const assignQuery = `
+      WITH new_encounters AS (
+        SELECT encounter_id, position
+        FROM unnest($3::text[]) WITH ORDINALITY AS ids(encounter_id, position)
+        WHERE NOT EXISTS (
+          SELECT 1 FROM kiosk_tickets t WHERE t.clinic_id = $1 AND t.encounter_id = ids.encounter_id
+        )
+      )
+      INSERT INTO kiosk_tickets (clinic_id, service_day, encounter_id, ticket_number)
+      SELECT
+        $1,
+        $2,
+        encounter_id,
+        (SELECT COALESCE(MAX(ticket_number), 0) FROM kiosk_tickets WHERE clinic_id = $1 AND service_day = $2)
+          + ROW_NUMBER() OVER (ORDER BY position)
+      FROM new_encounters
+      ON CONFLICT (clinic_id, encounter_id) DO NOTHING
+    `;
+
+    await this.pool.query(assignQuery, [clinicId, serviceDay, encounterIds]);
+
+    const result = await this.pool.query(
+      'SELECT encounter_id, ticket_number FROM kiosk_tickets WHERE clinic_id = $1 AND encounter_id = ANY($2)',
+      [clinicId, encounterIds]
+    );
+    for (const row of result.rows) {
+      tickets.set(row.encounter_id, row.ticket_number);
+    }
+
+    return tickets;
+  }
+
+  /**
+   * Get a user's tracking board role
+   */
+  async getUserRole(username: string): Promise<UserRoleAssignment | null> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const result = await this.pool.query('SELECT * FROM user_roles WHERE username = $1', [username]);
+    return result.rows.length > 0 ? this.mapUserRoleRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Get every user's tracking board role
+   */
+  async getUserRoles(): Promise<UserRoleAssignment[]> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const result = await this.pool.query('SELECT * FROM user_roles ORDER BY username');
+    return result.rows.map(row => this.mapUserRoleRow(row));
+  }
+
+  /**
+   * Record the role derived from a user's EZDerm title. Manually assigned roles are left alone.
+   */
+  async saveDerivedUserRole(username: string, role: UserRole, ezdermTitle?: string): Promise<UserRoleAssignment> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      INSERT INTO user_roles (username, role, source, ezderm_title)
+      VALUES ($1, $2, 'ezderm', $3)
+      ON CONFLICT (username) DO UPDATE SET
+        role = CASE WHEN user_roles.source = 'manual' THEN user_roles.role ELSE EXCLUDED.role END,
+        ezderm_title = EXCLUDED.ezderm_title,
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [username, role, ezdermTitle || null]);
+    return this.mapUserRoleRow(result.rows[0]);
+  }
+
+  /**
+   * Assign a role by hand; it is kept until cleared, whatever the user's EZDerm title says
+   */
+  async setManualUserRole(username: string, role: UserRole, updatedBy: string): Promise<UserRoleAssignment> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      INSERT INTO user_roles (username, role, source, updated_by)
+      VALUES ($1, $2, 'manual', $3)
+      ON CONFLICT (username) DO UPDATE SET
+        role = EXCLUDED.role,
+        source = 'manual',
+        updated_by = EXCLUDED.updated_by,
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [username, role, updatedBy]);
+    return this.mapUserRoleRow(result.rows[0]);
+  }
+
+  /**
+   * Drop a user's role so it is derived from EZDerm again
+   */
+  async deleteUserRole(username: string): Promise<boolean> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const result = await this.pool.query('DELETE FROM user_roles WHERE username = $1', [username]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Append an audit event
+   */
+  async recordAuditEvent(event: NewAuditEvent): Promise<void> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      INSERT INTO audit_events
+      (actor, action, encounter_id, patient_id, request_payload, changes, response_status, success, error_message)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    `;
+
+    await this.pool.query(query, [
+      event.actor,
+      event.action,
+      event.encounterId || null,
+      event.patientId || null,
+      event.requestPayload === undefined ? null : JSON.stringify(event.requestPayload),
+      event.changes ? JSON.stringify(event.changes) : null,
+      event.responseStatus ?? null,
+      event.success,
+      event.errorMessage || null
+    ]);
+  }
+
+  /**
+   * Get audit events matching a filter, newest first, with the total number of matches
+   */
+  async getAuditEvents(filter: AuditEventFilter): Promise<{ events: AuditEvent[]; total: number }> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const where = `
+      WHERE ($1::text IS NULL OR patient_id = $1)
+        AND ($2::text IS NULL OR encounter_id = $2)
+        AND ($3::text IS NULL OR LOWER(actor) = LOWER($3))
+        AND ($4::text IS NULL OR action = $4)
+        AND ($5::timestamptz IS NULL OR occurred_at >= $5)
+        AND ($6::timestamptz IS NULL OR occurred_at <= $6)
+    `;
+    const values = [
+      filter.patientId || null,
+      filter.encounterId || null,
+      filter.actor || null,
+      filter.action || null,
+      filter.from || null,
+      filter.to || null
+    ];
+
+    const [eventsResult, countResult] = await Promise.all([
+      this.pool.query(`SELECT * FROM audit_events ${where} ORDER BY occurred_at DESC, id DESC LIMIT $7 OFFSET $8`, [...values, filter.limit, filter.offset]),
+      this.pool.query(`SELECT COUNT(*) AS total FROM audit_events ${where}`, values)
+    ]);
+
+    return {
+      events: eventsResult.rows.map(row => this.mapAuditEventRow(row)),
+      total: parseInt(countResult.rows[0].total)
+    };
+  }
+
+  /**
+   * Get the HPI versions recorded for an encounter, newest first
+   */
+  async getHpiVersions(encounterId: string): Promise<HpiVersion[]> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const result = await this.pool.query('SELECT * FROM hpi_versions WHERE encounter_id = $1 ORDER BY version_number DESC', [encounterId]);
+    return result.rows.map(row => this.mapHpiVersionRow(row));
+  }
+
+  /**
+   * Get one HPI version of an encounter
+   */
+  async getHpiVersion(encounterId: string, versionNumber: number): Promise<HpiVersion | null> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const result = await this.pool.query('SELECT * FROM hpi_versions WHERE encounter_id = $1 AND version_number = $2', [encounterId, versionNumber]);
+    return result.rows.length > 0 ? this.mapHpiVersionRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Record a new HPI version as the encounter's next version number
+   */
+  async addHpiVersion(version: NewHpiVersion): Promise<HpiVersion> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      INSERT INTO hpi_versions (encounter_id, patient_id, version_number, note_text, source, reverted_from_version, created_by)
+      SELECT $1, $2, COALESCE(MAX(version_number), 0) + 1, $3, $4, $5, $6
+      FROM hpi_versions
+      WHERE encounter_id = $1
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [
+      version.encounterId,
+      version.patientId,
+      version.noteText,
+      version.source,
+      version.revertedFromVersion ?? null,
+      version.createdBy || null
+    ]);
+    return this.mapHpiVersionRow(result.rows[0]);
+  }
+
+  /**
+   * Get every version of a check type's prompt, newest first
+   */
+  async getPromptTemplateVersions(checkType: string): Promise<PromptTemplateVersion[]> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const result = await this.pool.query('SELECT * FROM prompt_templates WHERE check_type = $1 ORDER BY version_number DESC', [checkType]);
+    return result.rows.map(row => this.mapPromptTemplateRow(row));
+  }
+
+  /**
+   * Get one version of a check type's prompt
+   */
+  async getPromptTemplateVersion(checkType: string, versionNumber: number): Promise<PromptTemplateVersion | null> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const result = await this.pool.query('SELECT * FROM prompt_templates WHERE check_type = $1 AND version_number = $2', [checkType, versionNumber]);
+    return result.rows.length > 0 ? this.mapPromptTemplateRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Get the prompt each check type runs with: its pinned version, or its latest
+   */
+  async getActivePromptTemplates(checkTypes: string[]): Promise<PromptTemplateVersion[]> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      SELECT t.*
+      FROM prompt_templates t
+      LEFT JOIN prompt_template_pins p ON p.check_type = t.check_type
+      WHERE t.check_type = ANY($1)
+        AND t.version_number = COALESCE(
+          p.version_number,
+          (SELECT MAX(latest.version_number) FROM prompt_templates latest WHERE latest.check_type = t.check_type)
+        )
+    `;
+
+    const result = await this.pool.query(query, [checkTypes]);
+    return result.rows.map(row => this.mapPromptTemplateRow(row));
+  }
+
+  /**
+   * Get the latest version number and pin of each check type that has a prompt stored
+   */
+  async getPromptTemplateStates(checkTypes: string[]): Promise<Array<Omit<PromptTemplateSummary, 'activeVersion' | 'model'>>> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      SELECT t.check_type, MAX(t.version_number) AS latest_version, p.version_number AS pinned_version, p.pinned_by, p.pinned_at
+      FROM prompt_templates t
+      LEFT JOIN prompt_template_pins p ON p.check_type = t.check_type
+      WHERE t.check_type = ANY($1)
+      GROUP BY t.check_type, p.version_number, p.pinned_by, p.pinned_at
+      ORDER BY t.check_type
+    `;
+
+    const result = await this.pool.query(query, [checkTypes]);
+    return result.rows.map(row => ({
+      checkType: row.check_type,
+      latestVersion: row.latest_version,
+      pinnedVersion: row.pinned_version ?? undefined,
+      pinnedBy: row.pinned_by || undefined,
+      pinnedAt: row.pinned_at || undefined
+    }));
+  }
+
+  /**
+   * Record a new version of a check type's prompt as its next version number, provided
+   * `baseVersion` is still its latest; returns null when another version got there first
+   */
+  async addPromptTemplateVersion(version: NewPromptTemplateVersion, baseVersion: number): Promise<PromptTemplateVersion | null> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      INSERT INTO prompt_templates (check_type, version_number, content, change_note, created_by)
+      SELECT $1, COALESCE(MAX(version_number), 0) + 1, $2, $3, $4
+      FROM prompt_templates
+      WHERE check_type = $1
+      HAVING COALESCE(MAX(version_number), 0) = $5
+      RETURNING *
+    `;
+
+    try {
+      const result = await this.pool.query(query, [
+        version.checkType,
+        version.content,
+        version.changeNote || null,
+        version.createdBy || null,
+        baseVersion
+      ]);
+      return result.rows.length > 0 ? this.mapPromptTemplateRow(result.rows[0]) : null;
+    } catch (error: any) {
+      // A save on the same base committed first and took the version number
+      if (error.code === '23505') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Store a check type's first prompt version, unless it already has one (so processes starting
+   * together don't import it twice)
+   */
+  async seedPromptTemplate(checkType: string, content: string, changeNote: string): Promise<void> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      INSERT INTO prompt_templates (check_type, version_number, content, change_note, created_by)
+      VALUES ($1, 1, $2, $3, 'system')
+      ON CONFLICT (check_type, version_number) DO NOTHING
+    `;
+
+    await this.pool.query(query, [checkType, content, changeNote]);
+  }
+
+  /**
+   * Pin a check type to one version of its prompt, or unpin it (null) so it runs the latest
+   */
+  async setPromptTemplatePin(checkType: string, versionNumber: number | null, pinnedBy: string): Promise<void> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    if (versionNumber === null) {
+      await this.pool.query('DELETE FROM prompt_template_pins WHERE check_type = $1', [checkType]);
+      return;
+    }
+
+    const query = `
+      INSERT INTO prompt_template_pins (check_type, version_number, pinned_by, pinned_at)
+      VALUES ($1, $2, $3, CURRENT_TIMESTAMP)
+      ON CONFLICT (check_type)
+      DO UPDATE SET
+        version_number = EXCLUDED.version_number,
+        pinned_by = EXCLUDED.pinned_by,
+        pinned_at = CURRENT_TIMESTAMP
+    `;
+
+    await this.pool.query(query, [checkType, versionNumber, pinnedBy]);
+  }
+
+  /**
+   * Get the completed note checks a reviewer marked at least one issue of as invalid, with the
+   * issues they marked
+   */
+  async getReviewedNoteChecks(): Promise<ReviewedNoteCheck[]> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      SELECT nc.id, nc.patient_name, nc.note_content, nc.note_content_md5, nc.ai_analysis,
+        json_agg(json_build_object('issue', ii.issue_type, 'assessment', ii.assessment) ORDER BY ii.issue_index) AS invalid_issues
+      FROM note_checks nc
+      JOIN invalid_issues ii ON ii.check_id = nc.id
+      WHERE nc.status = 'completed'
+        AND nc.ai_analysis IS NOT NULL
+        AND nc.note_content IS NOT NULL
+        AND nc.note_content_md5 IS NOT NULL
+      GROUP BY nc.id
+      ORDER BY nc.id
+    `;
+
+    const result = await this.pool.query(query);
+    return result.rows.map(row => ({
+      checkId: row.id,
+      patientName: row.patient_name,
+      noteContent: row.note_content,
+      noteContentMd5: row.note_content_md5,
+      aiAnalysis: row.ai_analysis,
+      invalidIssues: row.invalid_issues
+    }));
+  }
+
+  /**
+   * Add a note to the prompt evaluation corpus, or update its labels if it's already there
+   */
+  async savePromptEvalSample(sample: NewPromptEvalSample): Promise<void> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      INSERT INTO prompt_eval_samples (source_md5, note_content, expected_issues, rejected_issues, label_source)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (source_md5)
+      DO UPDATE SET
+        note_content = EXCLUDED.note_content,
+        expected_issues = EXCLUDED.expected_issues,
+        rejected_issues = EXCLUDED.rejected_issues,
+        label_source = EXCLUDED.label_source,
+        updated_at = CURRENT_TIMESTAMP
+    `;
+
+    await this.pool.query(query, [
+      sample.sourceMd5,
+      sample.noteContent,
+      JSON.stringify(sample.expectedIssues),
+      JSON.stringify(sample.rejectedIssues),
+      sample.labelSource
+    ]);
+  }
+
+  /**
+   * Get the prompt evaluation corpus, oldest first
+   */
+  async getPromptEvalSamples(limit?: number): Promise<PromptEvalSample[]> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const result = await this.pool.query('SELECT * FROM prompt_eval_samples ORDER BY id LIMIT $1', [limit ?? null]);
+    return result.rows.map(row => this.mapPromptEvalSampleRow(row));
+  }
+
+  /**
+   * Record what a prompt version and model reported for a sample, replacing an earlier run
+   */
+  async savePromptEvalResult(evalResult: NewPromptEvalResult): Promise<void> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      INSERT INTO prompt_eval_results (sample_id, check_type, prompt_version, provider, model, status, reported_issues, error_message)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      ON CONFLICT (sample_id, check_type, prompt_version, provider, model)
+      DO UPDATE SET
+        status = EXCLUDED.status,
+        reported_issues = EXCLUDED.reported_issues,
+        error_message = EXCLUDED.error_message,
+        evaluated_at = CURRENT_TIMESTAMP
+    `;
+
+    await this.pool.query(query, [
+      evalResult.sampleId,
+      evalResult.checkType,
+      evalResult.promptVersion,
+      evalResult.provider,
+      evalResult.model,
+      evalResult.status,
+      JSON.stringify(evalResult.reportedIssues),
+      evalResult.errorMessage || null
+    ]);
+  }
+
+  /**
+   * Get stored prompt evaluation results, optionally for one check type or one of its versions
+   */
+  async getPromptEvalResults(checkType?: string, promptVersion?: number): Promise<PromptEvalResult[]> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      SELECT * FROM prompt_eval_results
+      WHERE ($1::varchar IS NULL OR check_type = $1)
+        AND ($2::integer IS NULL OR prompt_version = $2)
+      ORDER BY check_type, prompt_version, provider, model, sample_id
+    `;
+
+    const result = await this.pool.query(query, [checkType ?? null, promptVersion ?? null]);
+    return result.rows.map(row => this.mapPromptEvalResultRow(row));
+  }
+
+  /**
+   * Get the schedules of the worker's recurring jobs
+   */
+  async getJobSchedules(): Promise<JobSchedule[]> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const result = await this.pool.query('SELECT * FROM job_schedules ORDER BY job_name');
+    return result.rows.map(row => this.mapJobScheduleRow(row));
+  }
+
+  /**
+   * Get the schedule of one recurring job
+   */
+  async getJobSchedule(jobName: ScheduledJobName): Promise<JobSchedule | null> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const result = await this.pool.query('SELECT * FROM job_schedules WHERE job_name = $1', [jobName]);
+    return result.rows.length > 0 ? this.mapJobScheduleRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Save a recurring job's schedule in full
+   */
+  async saveJobSchedule(schedule: Omit<JobSchedule, 'updatedAt'>): Promise<JobSchedule> {
+    if (!this.pool) {
+      throw new Error('Database not initialized');
+    }
+
+    const query = `
+      INSERT INTO job_schedules
+      (job_name, enabled, cron_expression, time_zone, active_from, active_until, business_days,
+       eligibility_delay_minutes, recheck_after_minutes, updated_by, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, CURRENT_TIMESTAMP)
+      ON CONFLICT (job_name)
+      DO UPDATE SET
+        enabled = EXCLUDED.enabled,
+        cron_expression = EXCLUDED.cron_expression,
+        time_zone = EXCLUDED.time_zone,
+        active_from = EXCLUDED.active_from,
+        active_until = EXCLUDED.active_until,
+        business_days = EXCLUDED.business_days,
+        eligibility_delay_minutes = EXCLUDED.eligibility_delay_minutes,
+        recheck_after_minutes = EXCLUDED.recheck_after_minutes,
+        updated_by = EXCLUDED.updated_by,
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING *
+    `;
+
+    const result = await this.pool.query(query, [
+      schedule.jobName,
+      schedule.enabled,
+      schedule.cronExpression,
+      schedule.timeZone || null,
+      schedule.activeFrom || null,
+      schedule.activeUntil || null,
+      schedule.businessDays || null,
+      schedule.eligibilityDelayMinutes ?? null,
+      schedule.recheckAfterMinutes ?? null,
+      schedule.updatedBy || null
+    ]);
+    return this.mapJobScheduleRow(result.rows[0]);
+  }
+
+  private mapJobScheduleRow(row: any): JobSchedule {
+    return {
+      jobName: row.job_name,
+      enabled: row.enabled,
+      cronExpression: row.cron_expression,
+      timeZone: row.time_zone || undefined,
+      activeFrom: row.active_from ? row.active_from.slice(0, 5) : undefined, // TIME comes back as HH:MM:SS
+      activeUntil: row.active_until ? row.active_until.slice(0, 5) : undefined,
+      businessDays: row.business_days || undefined,
+      eligibilityDelayMinutes: row.eligibility_delay_minutes ?? undefined,
+      recheckAfterMinutes: row.recheck_after_minutes ?? undefined,
+      updatedBy: row.updated_by || undefined,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapHpiVersionRow(row: any): HpiVersion {
+    return {
+      id: row.id,
+      encounterId: row.encounter_id,
+      patientId: row.patient_id,
+      versionNumber: row.version_number,
+      noteText: row.note_text,
+      source: row.source,
+      revertedFromVersion: row.reverted_from_version ?? undefined,
+      createdBy: row.created_by || undefined,
+      createdAt: row.created_at
+    };
+  }
+
+  private mapPromptTemplateRow(row: any): PromptTemplateVersion {
+    return {
+      id: row.id,
+      checkType: row.check_type,
+      versionNumber: row.version_number,
+      content: row.content,
+      changeNote: row.change_note || undefined,
+      createdBy: row.created_by || undefined,
+      createdAt: row.created_at
+    };
+  }
+
+  private mapPromptEvalSampleRow(row: any): PromptEvalSample {
+    return {
+      id: row.id,
+      sourceMd5: row.source_md5,
+      noteContent: row.note_content,
+      expectedIssues: row.expected_issues,
+      rejectedIssues: row.rejected_issues,
+      labelSource: row.label_source,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapPromptEvalResultRow(row: any): PromptEvalResult {
+    return {
+      sampleId: row.sample_id,
+      checkType: row.check_type,
+      promptVersion: row.prompt_version,
+      provider: row.provider,
+      model: row.model,
+      status: row.status,
+      reportedIssues: row.reported_issues,
+      errorMessage: row.error_message || undefined,
+      evaluatedAt: row.evaluated_at
+    };
+  }
+
+  private mapAuditEventRow(row: any): AuditEvent {
+    return {
+      id: row.id,
+      actor: row.actor,
+      action: row.action,
+      encounterId: row.encounter_id || undefined,
+      patientId: row.patient_id || undefined,
+      requestPayload: row.request_payload ?? undefined,
+      changes: row.changes || undefined,
+      responseStatus: row.response_status ?? undefined,
+      success: row.success,
+      errorMessage: row.error_message || undefined,
+      occurredAt: row.occurred_at
+    };
+  }
+
+  private mapUserRoleRow(row: any): UserRoleAssignment {
+    return {
+      username: row.username,
+      role: row.role,
+      source: row.source,
+      ezdermTitle: row.ezderm_title || undefined,
+      updatedBy: row.updated_by || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapKioskDisplayTokenRow(row: any): KioskDisplayToken {
+    return {
+      id: row.id,
+      clinicId: row.clinic_id,
+      label: row.label,
+      maskingMode: row.masking_mode,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      lastUsedAt: row.last_used_at || undefined,
+      revokedAt: row.revoked_at || undefined
+    };
+  }
+
+  private mapWaitTimeAlertRuleRow(row: any): WaitTimeAlertRule {
+    return {
+      id: row.id,
+      status: row.status,
+      appointmentType: row.appointment_type || undefined,
+      thresholdMinutes: row.threshold_minutes,
+      severity: row.severity,
+      isActive: row.is_active,
+      createdBy: row.created_by || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private mapEncounterStatusEventRow(row: any): EncounterStatusEvent {
+    return {
+      id: row.id,
+      encounterId: row.encounter_id,
+      clinicId: row.clinic_id,
+      patientId: row.patient_id,
+      status: row.status,
+      previousStatus: row.previous_status || undefined,
+      room: row.room || undefined,
+      providerId: row.provider_id || undefined,
+      providerName: row.provider_name || undefined,
+      appointmentType: row.appointment_type || undefined,
+      dateOfService: row.date_of_service,
+      arrivalTime: row.arrival_time || undefined,
+      observedAt: row.observed_at
+    };
+  }
+
+  private mapClinicRow(row: any): Clinic {
+    return {
+      id: row.id,
+      clinicId: row.clinic_id,
+      practiceId: row.practice_id,
+      name: row.name,
+      timeZone: row.time_zone,
+      isActive: row.is_active,
+      vitalSignsEnabled: row.vital_signs_enabled,
+      aiScanEnabled: row.ai_scan_enabled,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  /**
+   * Round-trip a trivial query, for health checks
+   */
+  async ping(): Promise<void> {
+    if (!this.pool) throw new Error('Database not initialized');
+
+    await this.pool.query('SELECT 1');
+  }
+
   async close(): Promise<void> {
     if (this.pool) {
       console.log('Closing PostgreSQL database connection pool');
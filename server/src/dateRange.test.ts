@@ -0,0 +1,47 @@
+import { getDayRange, getDayRangeForDate, getLocalDate } from './dateRange';
+
+const DETROIT = 'America/Detroit';
+
+describe('getDayRange', () => {
+  it('uses standard time on an ordinary winter day', () => {
+    expect(getDayRange(DETROIT, new Date('2025-01-15T17:00:00Z'))).toEqual({
+      start: '2025-01-15T00:00:00-0500',
+      end: '2025-01-15T23:59:59-0500'
+    });
+  });
+
+  it('switches to daylight time partway through the spring-forward day', () => {
+    expect(getDayRange(DETROIT, new Date('2025-03-09T12:00:00Z'))).toEqual({
+      start: '2025-03-09T00:00:00-0500',
+      end: '2025-03-09T23:59:59-0400'
+    });
+  });
+
+  it('switches back to standard time partway through the fall-back day', () => {
+    expect(getDayRange(DETROIT, new Date('2025-11-02T12:00:00Z'))).toEqual({
+      start: '2025-11-02T00:00:00-0400',
+      end: '2025-11-02T23:59:59-0500'
+    });
+  });
+
+  it('takes the local day, not the UTC one, late in the evening', () => {
+    // 23:30 EDT on March 9 is already March 10 in UTC
+    expect(getDayRange(DETROIT, new Date('2025-03-10T03:30:00Z')).start).toBe('2025-03-09T00:00:00-0500');
+    // 23:30 EST on November 2 is already November 3 in UTC
+    expect(getDayRange(DETROIT, new Date('2025-11-03T04:30:00Z')).end).toBe('2025-11-02T23:59:59-0500');
+  });
+});
+
+describe('getDayRangeForDate', () => {
+  it('gives the same ranges for the DST transition dates', () => {
+    expect(getDayRangeForDate(DETROIT, '2025-03-09')).toEqual({ start: '2025-03-09T00:00:00-0500', end: '2025-03-09T23:59:59-0400' });
+    expect(getDayRangeForDate(DETROIT, '2025-11-02')).toEqual({ start: '2025-11-02T00:00:00-0400', end: '2025-11-02T23:59:59-0500' });
+  });
+});
+
+describe('getLocalDate', () => {
+  it('shifts by whole local days across a DST switch', () => {
+    expect(getLocalDate(DETROIT, new Date('2025-03-09T12:00:00Z'), 1)).toBe('2025-03-10');
+    expect(getLocalDate(DETROIT, new Date('2025-11-03T04:30:00Z'), -1)).toBe('2025-11-01');
+  });
+});
@@ -0,0 +1,154 @@
+/*
+ * Day windows for EZDerm encounter queries.
+ *
+ * EZDerm compares dateOfService against the range we send, so the range has to be the
+ * clinic's local day with the UTC offset that is actually in effect on that day. The
+ * offset is looked up separately for midnight and 23:59:59 so DST transition days
+ * get the right value at both ends.
+ */
+
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+interface ZonedDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check that a string is an IANA time zone the runtime knows about (e.g. 'America/Detroit')
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall-clock time in a time zone for an instant
+function toZonedDateTime(date: Date, timeZone: string): ZonedDateTime {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+
+  return {
+    year: parts.year ?? 0,
+    month: parts.month ?? 1,
+    day: parts.day ?? 1,
+    hour: parts.hour ?? 0,
+    minute: parts.minute ?? 0,
+    second: parts.second ?? 0
+  };
+}
+
+// Offset from UTC (in minutes, east positive) in effect in a time zone at an instant
+function getOffsetMinutes(date: Date, timeZone: string): number {
+  const zoned = toZonedDateTime(date, timeZone);
+  const asUtc = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+// Offset in effect at a wall-clock time; a second pass settles times near a DST switch
+function getOffsetAtWallTime(wallTime: ZonedDateTime, timeZone: string): number {
+  const asUtc = Date.UTC(wallTime.year, wallTime.month - 1, wallTime.day, wallTime.hour, wallTime.minute, wallTime.second);
+  const firstGuess = getOffsetMinutes(new Date(asUtc), timeZone);
+  return getOffsetMinutes(new Date(asUtc - firstGuess * 60000), timeZone);
+}
+
+function formatOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const absolute = Math.abs(offsetMinutes);
+  const hours = String(Math.floor(absolute / 60)).padStart(2, '0');
+  const minutes = String(absolute % 60).padStart(2, '0');
+  return `${sign}${hours}${minutes}`;
+}
+
+function formatWallTime(wallTime: ZonedDateTime, timeZone: string): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const date = `${wallTime.year}-${pad(wallTime.month)}-${pad(wallTime.day)}`;
+  const time = `${pad(wallTime.hour)}:${pad(wallTime.minute)}:${pad(wallTime.second)}`;
+  return `${date}T${time}${formatOffset(getOffsetAtWallTime(wallTime, timeZone))}`;
+}
+
+/**
+ * Get the start (00:00:00) and end (23:59:59) of the local day containing `date` in a
+ * time zone, formatted the way EZDerm expects (e.g. 2025-11-03T00:00:00-0500)
+ */
+export function getDayRange(timeZone: string, date: Date = new Date()): DateRange {
+  const { year, month, day } = toZonedDateTime(date, timeZone);
+  return buildDayRange(year, month, day, timeZone);
+}
+
+/**
+ * Get the day range for a calendar date (YYYY-MM-DD) in a time zone
+ */
+export function getDayRangeForDate(timeZone: string, localDate: string): DateRange {
+  const [year = 0, month = 1, day = 1] = localDate.split('-').map(part => parseInt(part, 10));
+  return buildDayRange(year, month, day, timeZone);
+}
+
+/**
+ * Get the calendar date (YYYY-MM-DD) in a time zone, optionally shifted by whole days
+ */
+export function getLocalDate(timeZone: string, date: Date = new Date(), dayOffset: number = 0): string {
+  const { year, month, day } = toZonedDateTime(date, timeZone);
+  const shifted = new Date(Date.UTC(year, month - 1, day + dayOffset));
+  return shifted.toISOString().slice(0, 10);
+}
+
+/**
+ * Get the wall-clock time in a time zone as a Date whose UTC fields hold the local time
+ * (so getUTCHours() is the local hour). Handy for bucketing timestamps by local hour or day.
+ */
+export function getWallClockTime(timeZone: string, date: Date): Date {
+  return new Date(date.getTime() + getOffsetMinutes(date, timeZone) * 60000);
+}
+
+/**
+ * Check a YYYY-MM-DD calendar date
+ */
+export function isValidLocalDate(localDate: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(localDate)) {
+    return false;
+  }
+  const date = new Date(`${localDate}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(localDate);
+}
+
+function buildDayRange(year: number, month: number, day: number, timeZone: string): DateRange {
+  return {
+    start: formatWallTime({ year, month, day, hour: 0, minute: 0, second: 0 }, timeZone),
+    end: formatWallTime({ year, month, day, hour: 23, minute: 59, second: 59 }, timeZone)
+  };
+}
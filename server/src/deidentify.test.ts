@@ -0,0 +1,65 @@
+import { deidentify } from './deidentify';
+
+const NOTE = `--- SUBJECTIVE ---
+Margaret O'Neil is a 92 year old female seen on March 5, 2024 for a changing mole on the left shoulder.
+Previous visit 03-05-2023; biopsy 2023-11-14 and again on 12/01/23. Last seen 4/12.
+Lives at 1420 Maple Ridge Dr., Apt 4B, Flint, MI 48503 with her daughter, Mrs. Castillo.
+Contact (810) 555-0142 or margaret.oneil@example.com. SSN 123-45-6789. MRN: 48213. Acct #A-1234.
+Rash has been present for 3 months and itch is 7/10. Family history of melanoma since 2019.
+
+--- ASSESSMENT_AND_PLAN ---
+1. Atypical nevus, left shoulder (D48.5). Shave biopsy today; pathology to Ms. O'Neil by phone.
+Follow up 2 weeks, ideally by the 3rd of June. Age: 94.`;
+
+describe('deidentify', () => {
+  const deidentified = deidentify(NOTE, "O'Neil, Margaret");
+
+  it.each([
+    'Margaret',
+    "O'Neil",
+    'March 5, 2024',
+    '03-05-2023',
+    '2023-11-14',
+    '12/01/23',
+    '4/12',
+    '3rd of June',
+    '92 year old',
+    'Age: 94',
+    '1420 Maple Ridge',
+    'Apt 4B',
+    'Flint, MI 48503',
+    'Castillo',
+    '555-0142',
+    'margaret.oneil@example.com',
+    '123-45-6789',
+    '48213',
+    'A-1234'
+  ])('removes %s', identifier => {
+    expect(deidentified).not.toContain(identifier);
+  });
+
+  it('says what was removed', () => {
+    expect(deidentified).toContain('[PATIENT] [PATIENT] is a 90+ year old female seen on [DATE] for a changing mole');
+    expect(deidentified).toContain('Lives at [ADDRESS], [ADDRESS] with her daughter, Mrs. [NAME].');
+    expect(deidentified).toContain('Contact [PHONE] or [EMAIL]. SSN [ID]. MRN: [ID]. Acct #[ID].');
+    expect(deidentified).toContain('Age: 90+.');
+  });
+
+  it('keeps the clinical content', () => {
+    expect(deidentified).toContain('Rash has been present for 3 months and itch is 7/10.');
+    expect(deidentified).toContain('Family history of melanoma since 2019.');
+    expect(deidentified).toContain('1. Atypical nevus, left shoulder (D48.5). Shave biopsy today');
+    expect(deidentified).toContain('Follow up 2 weeks');
+    expect(deidentified).toContain('--- SUBJECTIVE ---');
+  });
+
+  it('leaves ages under 90 alone', () => {
+    expect(deidentify('67 yo male, aged 89 per chart', 'John Smith')).toBe('67 yo male, aged 89 per chart');
+  });
+
+  it('removes other date and ID formats', () => {
+    expect(deidentify('DOB 7.4.1931, seen Jan 9 and 14 Feb 2022, next visit Sept 2024', 'Ann Lee')).toBe('DOB [DATE], seen [DATE] and [DATE], next visit [DATE]');
+    expect(deidentify('Medical record number 4521, member ID: XJ123, account 0099812', 'Ann Lee')).toBe('Medical record number [ID], member ID: [ID], account [ID]');
+    expect(deidentify('Photos at https://portal.example.com/p/8812 from 10.0.0.12', 'Ann Lee')).toBe('Photos at [URL] from [IP]');
+  });
+});
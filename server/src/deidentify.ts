@@ -0,0 +1,59 @@
+/*
+ * De-identification of note text for the prompt regression corpus, following the HIPAA Safe
+ * Harbor identifiers that turn up in clinical notes: names, street addresses, cities with ZIP
+ * codes, every date element except the year, ages over 89, phone and fax numbers, email
+ * addresses, SSNs, medical record, account and other ID numbers, URLs and IP addresses.
+ *
+ * It works on patterns, so it only knows the patient's own name; other people are caught when
+ * they are written with a courtesy title ("Mrs. Jones").
+ */
+
+const MONTH = '(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\\.?';
+const DAY = '(?:0?[1-9]|[12]\\d|3[01])(?:st|nd|rd|th)?';
+const STREET_SUFFIX = '(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Drive|Dr|Lane|Ln|Court|Ct|Way|Place|Pl|Circle|Cir|Highway|Hwy|Parkway|Pkwy|Terrace|Ter|Trail|Trl)\\b\\.?';
+const UNIT = '(?:,?\\s+(?:Apt|Apartment|Suite|Ste|Unit|#)\\.?\\s*[\\w-]+)?';
+
+// Applied in order, before the patient's name: emails and URLs before the numbers they contain,
+// SSNs and phone numbers before the dates and IDs that would match parts of them
+const REDACTIONS: { pattern: RegExp; replacement: string }[] = [
+  { pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g, replacement: '[EMAIL]' },
+  { pattern: /\b(?:https?:\/\/|www\.)\S+/gi, replacement: '[URL]' },
+  { pattern: /\b\d{1,3}(?:\.\d{1,3}){3}\b/g, replacement: '[IP]' },
+  { pattern: /\b(Mr|Mrs|Ms|Miss|Mx)\.?\s+[A-Z][A-Za-z'-]+/g, replacement: '$1. [NAME]' },
+  { pattern: /\b\d{3}-\d{2}-\d{4}\b/g, replacement: '[ID]' },
+  { pattern: /(?:\+?1[-.\s]?)?\(?\b\d{3}\)?[-.\s]?\d{3}[-.\s]\d{4}\b(?:\s*(?:x|ext\.?)\s*\d+)?/gi, replacement: '[PHONE]' },
+  // Dates: 03/05/2024, 3-5-24, 2024-03-05, 3/5, 03/2024, March 5, 2024, 5th of March 2024, March 2024
+  { pattern: /\b\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}\b/g, replacement: '[DATE]' },
+  { pattern: /\b\d{4}[/.-]\d{1,2}[/.-]\d{1,2}\b/g, replacement: '[DATE]' },
+  // (x/10 is a rating, as in "itch 7/10", not a date)
+  { pattern: /\b(?:0?[1-9]|1[0-2])\/(?:\d{4}|(?!10\b)(?:0?[1-9]|[12]\d|3[01]))\b/g, replacement: '[DATE]' },
+  { pattern: new RegExp(`\\b${MONTH}\\s+${DAY}\\b(?:,?\\s+\\d{4}\\b)?`, 'g'), replacement: '[DATE]' },
+  { pattern: new RegExp(`\\b${DAY}\\s+(?:of\\s+)?${MONTH}(?:,?\\s+\\d{4}\\b)?`, 'g'), replacement: '[DATE]' },
+  { pattern: new RegExp(`\\b${MONTH}\\s+\\d{4}\\b`, 'g'), replacement: '[DATE]' },
+  // Ages over 89 become "90+"
+  { pattern: /\b(?:9\d|1[0-4]\d)(?=\s*-?\s*(?:years?|yrs?|y\/o|y\.o|yo)\b)/gi, replacement: '90+' },
+  { pattern: /(?<=\bage[d:]?\s*:?\s*)(?:9\d|1[0-4]\d)\b/gi, replacement: '90+' },
+  // Addresses: street lines, PO boxes, and "City, ST 12345"
+  { pattern: new RegExp(`\\b\\d+\\s+(?:[A-Z0-9][\\w'-]*\\.?\\s+){1,4}${STREET_SUFFIX}${UNIT}`, 'g'), replacement: '[ADDRESS]' },
+  { pattern: /\bP\.?\s?O\.?\s+Box\s+\d+/gi, replacement: '[ADDRESS]' },
+  { pattern: /\b(?:[A-Z][a-z]+\s+){0,2}[A-Z][a-z]+,\s*[A-Z]{2}\s+\d{5}(?:-\d{4})?\b/g, replacement: '[ADDRESS]' },
+  // Labeled identifiers, however short: MRN 4521, Acct #A-1234, Member ID: XJ123
+  { pattern: /\b(MRN|MR#|medical record(?: number| no\.?)?|chart(?: number| no\.?)?|acct|account(?: number| no\.?)?|member id|policy(?: number| no\.?)?|patient id|license(?: number| no\.?)?|serial(?: number| no\.?)?)(\s*(?:#|no\.?|number)?\s*:?\s*)(?=[A-Z0-9-]{3,})[A-Z0-9-]*\d[A-Z0-9-]*/gi, replacement: '$1$2[ID]' },
+  { pattern: /\b\d{6,}\b/g, replacement: '[ID]' }
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Strip the Safe Harbor identifiers from note text, including every part of the patient's name.
+ * Durations ("for 3 months") and years on their own are clinical content and stay.
+ */
+export function deidentify(text: string, patientName: string): string {
+  let deidentified = REDACTIONS.reduce((result, { pattern, replacement }) => result.replace(pattern, replacement), text);
+  for (const part of patientName.split(/[\s,]+/).filter(part => part.length > 1)) {
+    deidentified = deidentified.replace(new RegExp(`\\b${escapeRegExp(part)}\\b`, 'gi'), '[PATIENT]');
+  }
+  return deidentified;
+}
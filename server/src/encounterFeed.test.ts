@@ -0,0 +1,51 @@
+import { diffEncounters } from './encounterFeed';
+import { Encounter } from './types';
+
+const encounter = (id: string, overrides: Partial<Encounter> = {}): Encounter => ({
+  id,
+  patientName: `Patient ${id}`,
+  patientInfo: { id: `patient-${id}`, firstName: 'Patient', lastName: id, dateOfBirth: '1980-01-01', gender: 'OTHER', medicalRecordNumber: `MRN-${id}` },
+  appointmentTime: '2025-06-02T14:00:00Z',
+  chiefComplaint: 'Rash',
+  status: 'CHECKED_IN',
+  room: 'N/A',
+  providers: [],
+  clinicName: 'Main',
+  appointmentType: 'Follow-up',
+  appointmentColor: '#2196F3',
+  establishedPatient: true,
+  ...overrides
+});
+
+const poll = (...encounters: Encounter[]) => new Map(encounters.map(encounter => [encounter.id, encounter]));
+
+describe('diffEncounters', () => {
+  const previous = poll(encounter('a'), encounter('b'));
+
+  it('reports nothing when a poll is unchanged', () => {
+    expect(diffEncounters(previous, poll(encounter('a'), encounter('b')))).toEqual({ added: [], updated: [], removed: [] });
+  });
+
+  it('reports new encounters as added', () => {
+    const arrived = encounter('c');
+    expect(diffEncounters(previous, poll(encounter('a'), encounter('b'), arrived))).toEqual({ added: [arrived], updated: [], removed: [] });
+  });
+
+  it('reports any changed field as an update', () => {
+    const roomed = encounter('a', { status: 'IN_ROOM', room: 3 });
+    const alerted = encounter('b', { alert: { ruleId: 1, severity: 'critical', thresholdMinutes: 10 } });
+    expect(diffEncounters(previous, poll(roomed, alerted))).toEqual({ added: [], updated: [roomed, alerted], removed: [] });
+  });
+
+  it('reports encounters missing from the poll as removed', () => {
+    expect(diffEncounters(previous, poll(encounter('b')))).toEqual({ added: [], updated: [], removed: ['a'] });
+  });
+
+  it('adds an encounter again after it was removed', () => {
+    const withoutA = poll(encounter('b'));
+    const back = encounter('a', { status: 'WITH_STAFF' });
+
+    expect(diffEncounters(previous, withoutA).removed).toEqual(['a']);
+    expect(diffEncounters(withoutA, poll(back, encounter('b')))).toEqual({ added: [back], updated: [], removed: [] });
+  });
+});
@@ -0,0 +1,365 @@
+import { Response } from 'express';
+import crypto from 'crypto';
+import { ezdermClient } from './ezdermClient';
+import { getDayRange } from './dateRange';
+import { encounterTimeline } from './encounterTimeline';
+import { waitTimeAlerts } from './waitTimeAlerts';
+import {
+  Clinic,
+  Encounter,
+  EncounterStatus,
+  EncountersDelta,
+  EZDermEncounter,
+  EZDermEncounterFilter
+} from './types';
+
+// How often each watched clinic is fetched from EZDerm, shared by every connected board
+const POLL_INTERVAL_MS = parseInt(process.env.ENCOUNTER_POLL_INTERVAL_MS || '10000', 10);
+// Comment lines keep idle proxies from closing the stream
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+// Statuses of patients currently in clinic (not checked out)
+export const ACTIVE_STATUSES: EncounterStatus[] = [
+  'CHECKED_IN',
+  'IN_ROOM',
+  'WITH_PROVIDER',
+  'WITH_STAFF',
+  'READY_FOR_STAFF',
+  'READY_FOR_PROVIDER'
+];
+
+export const transformEZDermEncounter = (encounter: EZDermEncounter): Encounter => {
+  return {
+    id: encounter.id,
+    patientName: `${encounter.patientInfo.firstName} ${encounter.patientInfo.lastName}`,
+    patientInfo: {
+      id: encounter.patientInfo.id,
+      firstName: encounter.patientInfo.firstName,
+      lastName: encounter.patientInfo.lastName,
+      dateOfBirth: encounter.patientInfo.dateOfBirth,
+      gender: encounter.patientInfo.gender,
+      medicalRecordNumber: encounter.patientInfo.medicalRecordNumber,
+      ...(encounter.patientInfo.phoneNumber && { phoneNumber: encounter.patientInfo.phoneNumber }),
+      ...(encounter.patientInfo.emailAddress && { emailAddress: encounter.patientInfo.emailAddress })
+    },
+    appointmentTime: encounter.dateOfService,
+    ...(encounter.dateOfArrival && { arrivalTime: encounter.dateOfArrival }),
+    chiefComplaint: encounter.chiefComplaintName,
+    status: encounter.status,
+    room: encounter.room || 'N/A',
+    providers: encounter.encounterRoleInfoList.map(role => ({
+      id: role.providerId,
+      name: `${role.firstName} ${role.lastName}`,
+      role: role.encounterRoleType,
+      title: role.title || ''
+    })),
+    clinicName: encounter.clinicName,
+    appointmentType: encounter.appointmentType.name,
+    appointmentColor: encounter.appointmentType.color,
+    establishedPatient: encounter.establishedPatient
+  };
+};
+
+/**
+ * What changed between two polls of a clinic, by encounter id
+ */
+export function diffEncounters(previous: Map<string, Encounter>, next: Map<string, Encounter>): Omit<EncountersDelta, 'version'> {
+  const added: Encounter[] = [];
+  const updated: Encounter[] = [];
+  const removed: string[] = [];
+
+  for (const [id, encounter] of next) {
+    const before = previous.get(id);
+    if (!before) {
+      added.push(encounter);
+    } else if (JSON.stringify(before) !== JSON.stringify(encounter)) {
+      updated.push(encounter);
+    }
+  }
+
+  for (const id of previous.keys()) {
+    if (!next.has(id)) {
+      removed.push(id);
+    }
+  }
+
+  return { added, updated, removed };
+}
+
+interface Subscriber {
+  id: string;
+  username: string;
+  sessionToken: string;
+  sessionExpiresAt: Date;
+  res: Response;
+  initialized: boolean; // Has received a full snapshot
+}
+
+interface ClinicFeed {
+  clinic: Clinic;
+  subscribers: Map<string, Subscriber>;
+  snapshot: Map<string, Encounter> | null;
+  version: number;
+  pollTimer: NodeJS.Timeout | null;
+  polling: boolean;
+}
+
+class EncounterFeed {
+  private feeds = new Map<string, ClinicFeed>();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Fetch the patients currently in clinic, sorted by appointment time, with how long each
+   * has been in their current status and any wait-time alert they trigger
+   */
+  async getActiveEncounters(
+    username: string,
+    clinic: Clinic,
+    options: { dateRangeStart?: string; dateRangeEnd?: string; providerIds?: string[] } = {}
+  ): Promise<{ encounters: Encounter[]; total: number }> {
+    // Default to the clinic's current day in its own time zone
+    const today = getDayRange(clinic.timeZone);
+
+    // Prepare request data exactly like the curl command
+    const encounterData: EZDermEncounterFilter = {
+      dateOfServiceRangeHigh: options.dateRangeEnd || today.end,
+      clinicId: clinic.clinicId,
+      providerIds: options.providerIds || [],
+      practiceId: clinic.practiceId,
+      dateOfServiceRangeLow: options.dateRangeStart || today.start,
+      lightBean: true,
+      dateSelection: 'SPECIFY_RANGE'
+    };
+
+    const ezdermEncounters = await ezdermClient.getEncountersByFilter(username, encounterData);
+    const allEncounters = ezdermEncounters.map(transformEZDermEncounter);
+
+    // Record every status (check-outs included) so wait times can be measured from status changes
+    await encounterTimeline.record(clinic, allEncounters);
+
+    const activeEncounters = allEncounters
+      .filter(encounter => ACTIVE_STATUSES.includes(encounter.status))
+      .map(encounter => {
+        const statusSince = encounterTimeline.getStatusSince(encounter.id);
+        return statusSince ? { ...encounter, statusSince: statusSince.toISOString() } : encounter;
+      })
+      .sort((a, b) => new Date(a.appointmentTime).getTime() - new Date(b.appointmentTime).getTime());
+
+    const encounters = await waitTimeAlerts.evaluate(activeEncounters);
+
+    return { encounters, total: allEncounters.length };
+  }
+
+  /**
+   * Attach a board to a clinic's feed. The response is kept open as an SSE stream until
+   * the client disconnects.
+   */
+  subscribe(clinic: Clinic, session: { username: string; sessionToken: string; expiresAt: Date }, res: Response): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no' // Stop nginx from buffering the stream
+    });
+    res.write(`retry: ${POLL_INTERVAL_MS}\n\n`);
+
+    let feed = this.feeds.get(clinic.clinicId);
+    if (!feed) {
+      feed = {
+        clinic,
+        subscribers: new Map(),
+        snapshot: null,
+        version: 0,
+        pollTimer: null,
+        polling: false
+      };
+      this.feeds.set(clinic.clinicId, feed);
+    }
+    // Pick up registry edits (e.g. time zone) made since the feed started
+    feed.clinic = clinic;
+
+    const subscriber: Subscriber = {
+      id: crypto.randomUUID(),
+      username: session.username,
+      sessionToken: session.sessionToken,
+      sessionExpiresAt: session.expiresAt,
+      res,
+      initialized: false
+    };
+    feed.subscribers.set(subscriber.id, subscriber);
+    console.log(`📡 Board connected to ${clinic.name} feed (${feed.subscribers.size} connected)`);
+
+    // Late joiners get the current snapshot straight away instead of waiting a poll
+    if (feed.snapshot) {
+      this.sendSnapshot(feed, subscriber);
+    }
+
+    const activeFeed = feed;
+    res.on('close', () => {
+      activeFeed.subscribers.delete(subscriber.id);
+      console.log(`📡 Board disconnected from ${clinic.name} feed (${activeFeed.subscribers.size} connected)`);
+
+      if (activeFeed.subscribers.size === 0) {
+        this.stopPolling(activeFeed);
+        if (this.feeds.get(clinic.clinicId) === activeFeed) {
+          this.feeds.delete(clinic.clinicId);
+        }
+      }
+      if (this.feeds.size === 0) {
+        this.stopHeartbeat();
+      }
+    });
+
+    this.startPolling(feed);
+    this.startHeartbeat();
+  }
+
+  /**
+   * Close the streams opened with revoked sessions; their boards have to sign in again
+   */
+  disconnectSessions(sessionTokens: string[]): void {
+    for (const feed of this.feeds.values()) {
+      for (const subscriber of feed.subscribers.values()) {
+        if (sessionTokens.includes(subscriber.sessionToken)) {
+          this.write(subscriber, 'session-expired', { error: 'Session revoked' });
+          subscriber.res.end();
+        }
+      }
+    }
+  }
+
+  /**
+   * Close every open stream (used on shutdown)
+   */
+  closeAll(): void {
+    for (const feed of this.feeds.values()) {
+      this.stopPolling(feed);
+      for (const subscriber of feed.subscribers.values()) {
+        subscriber.res.end();
+      }
+    }
+    this.feeds.clear();
+    this.stopHeartbeat();
+  }
+
+  private startPolling(feed: ClinicFeed): void {
+    if (feed.pollTimer) {
+      return;
+    }
+
+    this.poll(feed);
+    feed.pollTimer = setInterval(() => this.poll(feed), POLL_INTERVAL_MS);
+  }
+
+  private stopPolling(feed: ClinicFeed): void {
+    if (feed.pollTimer) {
+      clearInterval(feed.pollTimer);
+      feed.pollTimer = null;
+    }
+  }
+
+  private async poll(feed: ClinicFeed): Promise<void> {
+    // A slow EZDerm response must not stack up overlapping polls
+    if (feed.polling) {
+      return;
+    }
+    feed.polling = true;
+
+    try {
+      const encounters = await this.fetchForFeed(feed);
+      const next = new Map(encounters.map(encounter => [encounter.id, encounter]));
+
+      if (!feed.snapshot) {
+        feed.snapshot = next;
+        feed.version++;
+      } else {
+        const delta = diffEncounters(feed.snapshot, next);
+        feed.snapshot = next;
+
+        if (delta.added.length > 0 || delta.updated.length > 0 || delta.removed.length > 0) {
+          feed.version++;
+          this.broadcast(feed, 'delta', { ...delta, version: feed.version });
+          console.log(`📡 ${feed.clinic.name}: +${delta.added.length} ~${delta.updated.length} -${delta.removed.length} pushed to ${feed.subscribers.size} board(s)`);
+        }
+      }
+
+      for (const subscriber of feed.subscribers.values()) {
+        if (!subscriber.initialized) {
+          this.sendSnapshot(feed, subscriber);
+        }
+      }
+    } catch (error: any) {
+      console.error(`❌ Encounter feed poll failed for ${feed.clinic.name}:`, error.response?.data || error.message);
+      this.broadcast(feed, 'feed-error', { error: 'Failed to fetch encounters from EZDerm' });
+    } finally {
+      feed.polling = false;
+    }
+  }
+
+  // Poll as any connected user whose EZDerm tokens still work
+  private async fetchForFeed(feed: ClinicFeed): Promise<Encounter[]> {
+    const usernames = [...new Set([...feed.subscribers.values()].map(subscriber => subscriber.username))];
+    let lastError: unknown = new Error('No connected boards');
+
+    for (const username of usernames) {
+      try {
+        const { encounters } = await this.getActiveEncounters(username, feed.clinic);
+        return encounters;
+      } catch (error) {
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  private sendSnapshot(feed: ClinicFeed, subscriber: Subscriber): void {
+    this.write(subscriber, 'snapshot', {
+      encounters: [...(feed.snapshot?.values() || [])],
+      version: feed.version
+    });
+    subscriber.initialized = true;
+  }
+
+  private broadcast(feed: ClinicFeed, event: string, data: unknown): void {
+    for (const subscriber of feed.subscribers.values()) {
+      if (subscriber.initialized || event !== 'delta') {
+        this.write(subscriber, event, data);
+      }
+    }
+  }
+
+  private write(subscriber: Subscriber, event: string, data: unknown): void {
+    subscriber.res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      return;
+    }
+
+    this.heartbeatTimer = setInterval(() => {
+      for (const feed of this.feeds.values()) {
+        for (const subscriber of feed.subscribers.values()) {
+          // Boards must re-authenticate once their session runs out
+          if (subscriber.sessionExpiresAt.getTime() < Date.now()) {
+            this.write(subscriber, 'session-expired', { error: 'Session expired' });
+            subscriber.res.end();
+            continue;
+          }
+          subscriber.res.write(': heartbeat\n\n');
+        }
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+}
+
+// Export singleton instance
+export const encounterFeed = new EncounterFeed();
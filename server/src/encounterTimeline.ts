@@ -0,0 +1,103 @@
+import { vitalSignsDb } from './database';
+import { Clinic, Encounter, EncounterStatus, NewEncounterStatusEvent } from './types';
+
+// Forget encounters this long after their appointment so the cache doesn't grow forever
+const CACHE_RETENTION_MS = 2 * 24 * 60 * 60 * 1000;
+
+interface KnownStatus {
+  status: EncounterStatus;
+  since: Date; // When the status was first seen
+  appointmentTime: number;
+}
+
+class EncounterTimeline {
+  // Last stored status per encounter, so each poll only sends what may have changed. The
+  // database decides what is new, since other processes record the same clinics.
+  private knownStatuses = new Map<string, KnownStatus>();
+
+  /**
+   * Record status changes seen in a getByFilter result. Pass every encounter returned,
+   * not just the active ones, so check-outs are captured too. Called by the board feed and
+   * the vital signs worker, so changes are recorded whether or not a board is open.
+   */
+  async record(clinic: Clinic, encounters: Encounter[]): Promise<void> {
+    try {
+      // After a restart, pick up where the timeline left off
+      const unknownIds = encounters
+        .filter(encounter => !this.knownStatuses.has(encounter.id))
+        .map(encounter => encounter.id);
+      if (unknownIds.length > 0) {
+        await this.loadStoredStatuses(encounters, unknownIds);
+      }
+
+      const events: NewEncounterStatusEvent[] = [];
+      for (const encounter of encounters) {
+        const previous = this.knownStatuses.get(encounter.id);
+        if (previous?.status === encounter.status) {
+          continue;
+        }
+
+        const provider = encounter.providers.find(p => p.role === 'PROVIDER');
+        events.push({
+          encounterId: encounter.id,
+          clinicId: clinic.clinicId,
+          patientId: encounter.patientInfo.id,
+          status: encounter.status,
+          ...(encounter.room !== 'N/A' && { room: String(encounter.room) }),
+          ...(provider && { providerId: provider.id, providerName: provider.name }),
+          ...(encounter.appointmentType && { appointmentType: encounter.appointmentType }),
+          dateOfService: new Date(encounter.appointmentTime),
+          ...(encounter.arrivalTime && { arrivalTime: new Date(encounter.arrivalTime) })
+        });
+      }
+
+      if (events.length === 0) {
+        return;
+      }
+
+      const recorded = await vitalSignsDb.recordEncounterStatusEvents(events);
+
+      // Another process may have stored the change first, so take the time from the database
+      await this.loadStoredStatuses(encounters, events.map(event => event.encounterId));
+
+      if (recorded > 0) {
+        console.log(`🕒 Recorded ${recorded} status change(s) at ${clinic.name}`);
+      }
+      this.pruneCache();
+    } catch (error) {
+      // Analytics must never break the board
+      console.error(`❌ Failed to record encounter status events for ${clinic.name}:`, error);
+    }
+  }
+
+  /**
+   * When an encounter entered its current status, as far as the recorded timeline knows
+   */
+  getStatusSince(encounterId: string): Date | undefined {
+    return this.knownStatuses.get(encounterId)?.since;
+  }
+
+  private async loadStoredStatuses(encounters: Encounter[], encounterIds: string[]): Promise<void> {
+    const latest = await vitalSignsDb.getLatestEncounterStatuses(encounterIds);
+    for (const [encounterId, { status, observedAt }] of latest) {
+      const encounter = encounters.find(enc => enc.id === encounterId);
+      this.knownStatuses.set(encounterId, {
+        status,
+        since: new Date(observedAt),
+        appointmentTime: encounter ? new Date(encounter.appointmentTime).getTime() : Date.now()
+      });
+    }
+  }
+
+  private pruneCache(): void {
+    const cutoff = Date.now() - CACHE_RETENTION_MS;
+    for (const [encounterId, known] of this.knownStatuses) {
+      if (known.appointmentTime < cutoff) {
+        this.knownStatuses.delete(encounterId);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const encounterTimeline = new EncounterTimeline();
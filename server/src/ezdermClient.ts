@@ -0,0 +1,441 @@
+import axios from './axiosConfig';
+import { AxiosResponse } from 'axios';
+import { vitalSignsDb } from './database';
+import { appConfig } from './config';
+import { tokenBroker } from './tokenBroker';
+import { auditLog, diffFields } from './auditLog';
+import {
+  AuditAction,
+  EZDermLoginRequest,
+  EZDermLoginResponse,
+  EZDermRefreshTokenResponse,
+  EZDermTokens,
+  EZDermEncounterFilter,
+  EZDermEncounter,
+  EZDermPatientEncounterFilter,
+  EZDermPatientEncounter,
+  EZDermEncounterDetails,
+  EZDermVitalSigns,
+  EZDermSignOffRequest,
+  EZDermSetPNInfoRequest,
+  EZDermSetPNInfoResponse,
+  EZDermToDoRequest,
+  EZDermToDoResponse,
+  EZDermPracticeInfo,
+  IncompleteNotesRequest,
+  IncompleteNotesResponse,
+  ProgressNoteRequest,
+  ProgressNoteResponse
+} from './types';
+
+// Used when neither the config nor the login response names a webservice host
+const EZDERM_DEFAULT_API_BASE = 'https://srvprod.ezinfra.net/';
+
+// Client identity - every process presents itself as the same ezDerm build
+const EZDERM_CLIENT_VERSION = '4.28.1';
+const EZDERM_USER_AGENT = 'ezDerm/4.28.1 (build:133.1; macOS(Catalyst) 15.6.1)';
+const EZDERM_LOGIN_USER_AGENT = 'ezDerm/4.28.1 (com.ezderm.ezderm; build:133.1; macOS(Catalyst) 15.6.1) Alamofire/5.10.2';
+// The refresh endpoint is only used by the web app, so it expects a browser
+const EZDERM_WEB_USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/139.0.0.0 Safari/537.36';
+
+interface RequestOptions {
+  data?: unknown;
+  encounterId?: string;
+  patientId?: string;
+}
+
+class EZDermClient {
+  /**
+   * Log in to EZDerm with a username and password
+   */
+  async login(username: string, password: string): Promise<EZDermLoginResponse> {
+    const loginData: EZDermLoginRequest = {
+      username,
+      password,
+      application: 'EZDERM',
+      timeZoneId: appConfig.ezderm.timeZone,
+      clientVersion: EZDERM_CLIENT_VERSION
+    };
+
+    const response: AxiosResponse<EZDermLoginResponse> = await axios.post(appConfig.ezderm.loginUrl, loginData, {
+      headers: {
+        'Host': new URL(appConfig.ezderm.loginUrl).host,
+        'accept': 'application/json',
+        'content-type': 'application/json',
+        'user-agent': EZDERM_LOGIN_USER_AGENT,
+        'accept-language': 'en-US;q=1.0'
+      }
+    });
+
+    return response.data;
+  }
+
+  /**
+   * Exchange a refresh token for a new access token.
+   * EZDerm only returns a new access token; the refresh token stays valid and is reused.
+   */
+  async refreshAccessToken(refreshToken: string): Promise<string | null> {
+    try {
+      console.log('🔄 Attempting to refresh EZDerm token...');
+
+      const response: AxiosResponse<EZDermRefreshTokenResponse> = await axios.get(appConfig.ezderm.refreshUrl, {
+        headers: {
+          'Host': new URL(appConfig.ezderm.refreshUrl).host,
+          'accept': 'application/json',
+          'accept-language': 'en-US,en;q=0.9',
+          'authorization': `Bearer ${refreshToken}`,
+          'content-type': 'application/json',
+          'origin': 'https://pms.ezderm.com',
+          'referer': 'https://pms.ezderm.com/',
+          'user-agent': EZDERM_WEB_USER_AGENT
+        }
+      });
+
+      console.log('✅ Token refresh successful');
+      return response.data.accessToken;
+    } catch (error: any) {
+      console.error('❌ Token refresh failed:', error.response?.data || error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Get valid tokens for a user: the shared cache, then the database, then refresh, then
+   * re-login. Refreshes go through the token broker so every process shares one at a time.
+   * The configured service user logs in with EZDERM_USER/EZDERM_PASS, everyone else with
+   * the credentials stored at login time. Pass the access token EZDerm just rejected to
+   * force a refresh; if someone else has already replaced it, their tokens are returned.
+   */
+  async getValidTokens(username: string, rejectedAccessToken?: string): Promise<EZDermTokens | null> {
+    try {
+      if (!rejectedAccessToken) {
+        const cachedTokens = await tokenBroker.get(username);
+        if (cachedTokens) {
+          return cachedTokens;
+        }
+
+        const tokens = await vitalSignsDb.getStoredTokens(username);
+        if (tokens) {
+          await tokenBroker.store(username, tokens);
+          return tokens;
+        }
+      }
+
+      return await tokenBroker.refresh(username, async () => {
+        // Another process may have refreshed while we waited for the lock
+        const currentTokens = await tokenBroker.get(username) || await vitalSignsDb.getStoredTokens(username);
+        if (currentTokens && currentTokens.accessToken !== rejectedAccessToken) {
+          await tokenBroker.store(username, currentTokens);
+          return currentTokens;
+        }
+
+        const tokens = await this.refreshOrLogin(username);
+        if (tokens) {
+          await tokenBroker.store(username, tokens);
+        }
+        return tokens;
+      });
+    } catch (error: any) {
+      console.error(`💥 Error getting valid tokens for user ${username}:`, error.response?.data || error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Store tokens from an interactive login and share them with every process
+   */
+  async storeLoginTokens(username: string, tokens: EZDermTokens): Promise<void> {
+    await vitalSignsDb.storeTokens(username, tokens.accessToken, tokens.refreshToken, tokens.serverUrl);
+    await tokenBroker.store(username, tokens);
+  }
+
+  /**
+   * The EZDerm provider ID an access token was issued to (the JWT's `u` claim)
+   */
+  getProviderId(accessToken: string): string {
+    const tokenParts = accessToken.split('.');
+    if (tokenParts.length !== 3 || !tokenParts[1]) {
+      throw new Error('Invalid JWT token format');
+    }
+
+    const payload = JSON.parse(Buffer.from(tokenParts[1], 'base64').toString());
+    return payload.u;
+  }
+
+  /**
+   * Get encounters matching a clinic/date range filter
+   */
+  async getEncountersByFilter(username: string, filter: EZDermEncounterFilter): Promise<EZDermEncounter[]> {
+    const response = await this.request<EZDermEncounter[]>(username, 'POST', 'encounter/getByFilter', {
+      data: filter
+    });
+    return response.data;
+  }
+
+  /**
+   * Get the encounter history of a single patient
+   */
+  async getPatientEncounters(username: string, patientId: string): Promise<EZDermPatientEncounter[]> {
+    const filter: EZDermPatientEncounterFilter = {
+      lightBean: true,
+      patientId,
+      includeVirtualEncounters: true
+    };
+
+    const response = await this.request<EZDermPatientEncounter[]>(username, 'POST', 'encounter/getByFilter', {
+      data: filter,
+      patientId
+    });
+    return response.data;
+  }
+
+  /**
+   * Get full encounter details including care team and vital signs
+   */
+  async getEncounterById(username: string, encounterId: string, patientId?: string): Promise<EZDermEncounterDetails> {
+    const response = await this.request<EZDermEncounterDetails>(username, 'GET', `encounter/getById/_rid/${encounterId}`, {
+      encounterId,
+      ...(patientId && { patientId })
+    });
+    return response.data;
+  }
+
+  /**
+   * Get the progress note for an encounter
+   */
+  async getProgressNoteInfo(username: string, encounterId: string, patientId: string): Promise<ProgressNoteResponse> {
+    const request: ProgressNoteRequest = { encounterId };
+
+    const response = await this.request<ProgressNoteResponse>(username, 'POST', 'progressnote/getProgressNoteInfo', {
+      data: request,
+      encounterId,
+      patientId
+    });
+    return response.data;
+  }
+
+  /**
+   * Update a section of the progress note (e.g. the HPI). Pass the note text being replaced
+   * so the audit log records the change.
+   */
+  async setPNInfo(username: string, patientId: string, request: EZDermSetPNInfoRequest, previousNote?: string): Promise<EZDermSetPNInfoResponse> {
+    const response = await this.write<EZDermSetPNInfoResponse>(username, 'note.hpi_update', 'progressnote/setPNInfo', {
+      data: request,
+      encounterId: request.encounterId,
+      patientId
+    }, previousNote === undefined ? undefined : { note: previousNote });
+    return response.data;
+  }
+
+  /**
+   * Sign off an encounter
+   */
+  async signOff(username: string, patientId: string, request: EZDermSignOffRequest): Promise<void> {
+    await this.write<void>(username, 'note.sign_off', 'encounter/signOff', {
+      data: request,
+      encounterId: request.id,
+      patientId
+    });
+  }
+
+  /**
+   * Create a ToDo (task)
+   */
+  async addTask(username: string, patientId: string, request: EZDermToDoRequest, encounterId?: string): Promise<EZDermToDoResponse> {
+    const response = await this.write<EZDermToDoResponse>(username, 'todo.create', 'task/add', {
+      data: request,
+      ...(encounterId && { encounterId }),
+      patientId
+    });
+    return response.data;
+  }
+
+  /**
+   * Get a page of incomplete notes from the inbox
+   */
+  async getIncompleteNotes(username: string, request: IncompleteNotesRequest = {}): Promise<IncompleteNotesResponse[]> {
+    const requestData = {
+      fetchFrom: request.fetchFrom || 0,
+      size: request.size || 50,
+      ...(request.group && { group: request.group })
+    };
+
+    const response = await this.request<IncompleteNotesResponse[]>(username, 'POST', 'inbox/getIncompleteNotes', {
+      data: requestData
+    });
+    return response.data;
+  }
+
+  /**
+   * Get the practice's users (with their titles and EZDerm roles) and role catalogue
+   */
+  async getPracticeInfo(username: string): Promise<EZDermPracticeInfo> {
+    const response = await this.request<EZDermPracticeInfo>(username, 'GET', 'practice/info');
+    return response.data;
+  }
+
+  /**
+   * Update the vital signs record of an encounter. Pass the record being replaced so the
+   * audit log records which values changed.
+   */
+  async updateVitalSigns(username: string, patientId: string, vitalSigns: EZDermVitalSigns, previousVitalSigns?: EZDermVitalSigns): Promise<void> {
+    await this.write<void>(username, 'vital_signs.update', 'vitalSigns/updateVitalSigns', {
+      data: vitalSigns,
+      encounterId: vitalSigns.encounterId,
+      patientId
+    }, previousVitalSigns);
+  }
+
+  /**
+   * Replace a user's expired tokens, by refresh token if possible, otherwise by logging in again
+   */
+  private async refreshOrLogin(username: string): Promise<EZDermTokens | null> {
+    console.log(`🔄 Tokens expired for user ${username}, attempting refresh...`);
+
+    // Get the refresh token even if access token is expired
+    const expiredTokenData = await vitalSignsDb.getStoredTokensIgnoreExpiry(username);
+
+    if (expiredTokenData?.refreshToken) {
+      const accessToken = await this.refreshAccessToken(expiredTokenData.refreshToken);
+
+      if (accessToken) {
+        await vitalSignsDb.storeTokens(username, accessToken, expiredTokenData.refreshToken, expiredTokenData.serverUrl);
+
+        return {
+          accessToken,
+          refreshToken: expiredTokenData.refreshToken,
+          serverUrl: expiredTokenData.serverUrl
+        };
+      }
+    }
+
+    // Refresh failed, try re-login
+    console.log(`🔑 Token refresh failed for user ${username}, attempting re-login...`);
+    const password = await this.getLoginPassword(username);
+
+    if (!password) {
+      console.log(`❌ No valid credentials found for user ${username}`);
+      return null;
+    }
+
+    const { accessToken, refreshToken, servers } = await this.login(username, password);
+    await vitalSignsDb.storeTokens(username, accessToken, refreshToken, servers.app);
+
+    console.log(`✅ Re-login successful for user ${username}`);
+
+    return {
+      accessToken,
+      refreshToken,
+      serverUrl: servers.app
+    };
+  }
+
+  /**
+   * Resolve the password used to re-login a user whose tokens can't be refreshed
+   */
+  private async getLoginPassword(username: string): Promise<string | null> {
+    if (username === appConfig.ezderm.serviceUser && appConfig.ezderm.servicePassword) {
+      return appConfig.ezderm.servicePassword;
+    }
+
+    const credentials = await vitalSignsDb.getUserCredentials(username);
+    return credentials?.password || null;
+  }
+
+  /**
+   * Send a change to EZDerm and record it in the audit log, whether or not it succeeds
+   */
+  private async write<T>(
+    username: string,
+    action: AuditAction,
+    path: string,
+    options: RequestOptions,
+    before?: object
+  ): Promise<AxiosResponse<T>> {
+    const changes = before && options.data ? diffFields(before, options.data) : undefined;
+    const event = {
+      actor: username,
+      action,
+      ...(options.encounterId && { encounterId: options.encounterId }),
+      ...(options.patientId && { patientId: options.patientId }),
+      requestPayload: options.data,
+      ...(changes && { changes })
+    };
+
+    try {
+      const response = await this.request<T>(username, 'POST', path, options);
+      await auditLog.record({ ...event, responseStatus: response.status, success: true });
+      return response;
+    } catch (error: any) {
+      await auditLog.record({
+        ...event,
+        ...(error.response?.status && { responseStatus: error.response.status }),
+        success: false,
+        errorMessage: error.message
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Make an authenticated webservice request, refreshing tokens and retrying once on 401
+   */
+  private async request<T>(
+    username: string,
+    method: 'GET' | 'POST',
+    path: string,
+    options: RequestOptions = {}
+  ): Promise<AxiosResponse<T>> {
+    const tokens = await this.getValidTokens(username);
+    if (!tokens) {
+      throw new Error(`Unable to obtain valid EZDerm tokens for user ${username}`);
+    }
+
+    try {
+      return await this.send<T>(tokens, method, path, options);
+    } catch (error: any) {
+      if (error.response?.status !== 401) {
+        throw error;
+      }
+
+      console.log(`🔄 EZDerm rejected token for ${username} on ${path}, refreshing and retrying...`);
+      const refreshedTokens = await this.getValidTokens(username, tokens.accessToken);
+      if (!refreshedTokens) {
+        throw error;
+      }
+
+      return await this.send<T>(refreshedTokens, method, path, options);
+    }
+  }
+
+  private async send<T>(
+    tokens: EZDermTokens,
+    method: 'GET' | 'POST',
+    path: string,
+    options: RequestOptions
+  ): Promise<AxiosResponse<T>> {
+    // A configured API base wins over the login response so a simulator setup never
+    // falls through to production with tokens cached from an earlier session
+    const baseUrl = appConfig.ezderm.apiBase || tokens.serverUrl || EZDERM_DEFAULT_API_BASE;
+    const url = new URL(`ezderm-webservice/rest/${path}`, baseUrl);
+
+    return axios.request<T>({
+      method,
+      url: url.toString(),
+      ...(method === 'POST' && { data: options.data }),
+      headers: {
+        'Host': url.host,
+        'accept': 'application/json',
+        'content-type': 'application/json',
+        'authorization': `Bearer ${tokens.accessToken}`,
+        ...(options.encounterId && { 'encounterid': options.encounterId }),
+        ...(options.patientId && { 'patientid': options.patientId }),
+        'user-agent': EZDERM_USER_AGENT,
+        'accept-language': 'en-US;q=1.0'
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const ezdermClient = new EZDermClient();
@@ -0,0 +1,577 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { config } from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import {
+  EZDermLoginRequest,
+  EZDermLoginResponse,
+  EZDermVitalSigns,
+  EZDermSignOffRequest,
+  EZDermSetPNInfoRequest,
+  EZDermToDoRequest,
+  EZDermPracticeInfo,
+  IncompleteNotesRequest,
+  IncompletePatientEncounter
+} from './types';
+
+// Load environment variables
+config();
+
+/*
+ * Local stand-in for the EZDerm login and webservice hosts.
+ *
+ * Serves the captured responses in ezDermRE/ from mutable in-memory state so the
+ * tracking server, worker and vital signs job can run end-to-end offline. Point the
+ * other processes at it with EZDERM_SIMULATOR_URL=http://localhost:5055.
+ */
+
+const PORT: number = parseInt(process.env.EZDERM_SIMULATOR_PORT || '5055', 10);
+const PUBLIC_URL = (process.env.EZDERM_SIMULATOR_PUBLIC_URL || `http://localhost:${PORT}`).replace(/\/+$/, '');
+const FIXTURES_DIR = process.env.EZDERM_FIXTURES_DIR || path.resolve(__dirname, '../../ezDermRE');
+
+const ACCESS_TOKEN_TTL_MS = 10 * 60 * 1000; // Matches the 10 minute lifetime of real EZDerm tokens
+const PRACTICE_ID = '4cc96922-4d83-4183-863b-748d69de621f';
+// Clinic of the captured schedule; incomplete notes don't carry one so they're assumed to be here too
+const CLINIC_ID = '44b62760-50a1-488c-92ed-e0c7aa3cde92';
+const TIME_ZONE_ID = 'America/Detroit';
+
+interface SimulatorState {
+  encounters: any[];                          // Today's encounters returned by getByFilter
+  patientHistory: any[];                      // Past encounters returned by the patient filter
+  encounterDetails: Map<string, any>;         // getById responses keyed by encounter ID
+  vitalSigns: Map<string, EZDermVitalSigns>;  // Vital signs keyed by encounter ID
+  progressNotes: Map<string, any>;            // Progress notes keyed by encounter ID
+  incompletePatients: IncompletePatientEncounter[];
+  tasks: EZDermToDoRequest[];
+  accessTokens: Map<string, { username: string; expiresAt: number }>;
+  refreshTokens: Map<string, string>;         // Refresh token -> username
+}
+
+interface Fixtures {
+  encounters: any[];
+  patientHistory: any[];
+  encounterDetails: any[];
+  progressNote: any;
+  incompletePatients: IncompletePatientEncounter[];
+  practiceInfo: EZDermPracticeInfo;
+}
+
+// Pull every JSON document out of a captured curl transcript. Bodies start at the
+// beginning of a line; the escaped JSON inside curl --data-binary arguments never does.
+function extractJsonDocuments(text: string): any[] {
+  const documents: any[] = [];
+  const startPattern = /^[[{]/gm;
+  let match: RegExpExecArray | null;
+
+  while ((match = startPattern.exec(text)) !== null) {
+    const end = findJsonEnd(text, match.index);
+    if (end === -1) {
+      continue;
+    }
+
+    try {
+      documents.push(JSON.parse(text.slice(match.index, end)));
+      startPattern.lastIndex = end;
+    } catch {
+      // Not valid JSON (e.g. a markdown fragment) - keep scanning
+    }
+  }
+
+  return documents;
+}
+
+// Find the index just past the bracket that closes the one at `start`
+function findJsonEnd(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      if (depth === 0) {
+        return i + 1;
+      }
+    }
+  }
+
+  return -1;
+}
+
+function readFixture(relativePath: string): any[] {
+  const fullPath = path.join(FIXTURES_DIR, relativePath);
+
+  if (!fs.existsSync(fullPath)) {
+    console.warn(`⚠️ Simulator fixture not found: ${fullPath}`);
+    return [];
+  }
+
+  return extractJsonDocuments(fs.readFileSync(fullPath, 'utf8'));
+}
+
+function loadFixtures(): Fixtures {
+  console.log(`📂 Loading EZDerm fixtures from ${FIXTURES_DIR}`);
+
+  // Response bodies are the last array/object in each transcript
+  const encounters = readFixture('Encounter data').filter(Array.isArray).pop() || [];
+  const patientHistory = readFixture('VitalSigns').filter(Array.isArray).pop() || [];
+  const encounterDetails = [
+    ...readFixture('GetEncounter'),
+    ...readFixture('AI Checker/encounter.json')
+  ].filter(doc => doc && !Array.isArray(doc) && doc.id);
+  const progressNote = readFixture('AI Checker/note.json')[0] || { progressNotes: [] };
+  const incompleteBatches = readFixture('AI Checker/incomplete.json')[0] || [];
+  const incompletePatients = incompleteBatches.flatMap((batch: any) => batch.incompletePatientEncounters || []);
+  const practiceInfo = readFixture('AI Checker/user-info.json')[0] || { cpUserInfoList: [], cpUserRoleInfoList: [] };
+
+  console.log(`✅ Loaded ${encounters.length} encounters, ${patientHistory.length} historical encounters, ${encounterDetails.length} encounter details, ${incompletePatients.length} patients with incomplete notes`);
+
+  return { encounters, patientHistory, encounterDetails, progressNote, incompletePatients, practiceInfo };
+}
+
+// Move a captured timestamp onto today, keeping its time of day
+function shiftToToday(timestamp: string | undefined, dayOffsetMs: number): string | undefined {
+  if (!timestamp) {
+    return timestamp;
+  }
+  return new Date(new Date(timestamp).getTime() + dayOffsetMs).toISOString();
+}
+
+function createState(fixtures: Fixtures): SimulatorState {
+  const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+  // The captured schedule is from a past day; replay it as today's schedule
+  const firstDateOfService = fixtures.encounters[0]?.dateOfService;
+  const dayMs = 24 * 60 * 60 * 1000;
+  const dayOffsetMs = firstDateOfService
+    ? Math.round((Date.now() - new Date(firstDateOfService).getTime()) / dayMs) * dayMs
+    : 0;
+
+  const encounters = clone(fixtures.encounters).map((encounter: any) => ({
+    ...encounter,
+    dateOfService: shiftToToday(encounter.dateOfService, dayOffsetMs),
+    dateOfArrival: shiftToToday(encounter.dateOfArrival, dayOffsetMs)
+  }));
+
+  const encounterDetails = new Map<string, any>();
+  const vitalSigns = new Map<string, EZDermVitalSigns>();
+  for (const details of clone(fixtures.encounterDetails)) {
+    encounterDetails.set(details.id, details);
+    if (details.vitalSignsInfo) {
+      vitalSigns.set(details.id, details.vitalSignsInfo);
+    }
+  }
+
+  return {
+    encounters,
+    patientHistory: clone(fixtures.patientHistory),
+    encounterDetails,
+    vitalSigns,
+    progressNotes: new Map<string, any>(),
+    incompletePatients: clone(fixtures.incompletePatients),
+    tasks: [],
+    accessTokens: new Map(),
+    refreshTokens: new Map()
+  };
+}
+
+const fixtures = loadFixtures();
+let state = createState(fixtures);
+
+// Tokens look like EZDerm's JWTs so the tracking server can decode the provider ID ('u')
+function issueAccessToken(username: string): string {
+  const header = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url');
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const payload = Buffer.from(JSON.stringify({
+    iat: issuedAt,
+    exp: issuedAt + ACCESS_TOKEN_TTL_MS / 1000,
+    n: username,
+    u: providerIdForUser(username),
+    p: PRACTICE_ID,
+    z: TIME_ZONE_ID
+  })).toString('base64url');
+  const token = `${header}.${payload}.${crypto.randomBytes(16).toString('base64url')}`;
+
+  state.accessTokens.set(token, { username, expiresAt: Date.now() + ACCESS_TOKEN_TTL_MS });
+  return token;
+}
+
+// Stable fake provider ID per username
+function providerIdForUser(username: string): string {
+  const hash = crypto.createHash('md5').update(username).digest('hex');
+  return `${hash.slice(0, 8)}-${hash.slice(8, 12)}-${hash.slice(12, 16)}-${hash.slice(16, 20)}-${hash.slice(20, 32)}`;
+}
+
+function unauthorized(res: Response, message: string): void {
+  res.status(401).json({
+    status: 'UNAUTHORIZED',
+    message,
+    description: 'The Token has expired or is not recognised by the simulator.'
+  });
+}
+
+function bearerToken(req: Request): string | undefined {
+  return req.headers.authorization?.replace('Bearer ', '');
+}
+
+// Build a getById response for an encounter we only have the light bean for
+function buildEncounterDetails(encounterId: string): any | null {
+  const captured = state.encounterDetails.get(encounterId);
+  const lightBean = state.encounters.find(enc => enc.id === encounterId) ||
+    state.patientHistory.find(enc => enc.id === encounterId) ||
+    findIncompleteEncounter(encounterId);
+
+  if (!captured && !lightBean) {
+    return null;
+  }
+
+  const details = { ...(lightBean || {}), ...(captured || {}) };
+  details.patientId = details.patientId || details.patientInfo?.id;
+  details.clinicId = details.clinicId || CLINIC_ID;
+  details.encounterRoleInfoList = details.encounterRoleInfoList || [];
+  details.vitalSignsInfo = state.vitalSigns.get(encounterId) || details.vitalSignsInfo || {
+    id: crypto.randomUUID(),
+    active: true,
+    encounterId
+  };
+
+  return details;
+}
+
+// Shape an incomplete notes inbox entry like the light bean of a getByFilter result
+function findIncompleteEncounter(encounterId: string): any | undefined {
+  for (const patient of state.incompletePatients) {
+    const encounter = patient.incompleteEncounters.find(enc => enc.id === encounterId);
+    if (encounter) {
+      return {
+        ...encounter,
+        patientInfo: {
+          id: patient.id,
+          firstName: patient.firstName,
+          lastName: patient.lastName,
+          dateOfBirth: patient.dateOfBirth
+        }
+      };
+    }
+  }
+
+  return undefined;
+}
+
+function setEncounterStatus(encounterId: string, status: string): boolean {
+  let found = false;
+
+  for (const encounter of [...state.encounters, ...state.patientHistory]) {
+    if (encounter.id === encounterId) {
+      encounter.status = status;
+      found = true;
+    }
+  }
+
+  const captured = state.encounterDetails.get(encounterId);
+  if (captured) {
+    captured.status = status;
+    found = true;
+  }
+
+  for (const patient of state.incompletePatients) {
+    for (const encounter of patient.incompleteEncounters) {
+      if (encounter.id === encounterId) {
+        encounter.status = status as any;
+        found = true;
+      }
+    }
+  }
+
+  return found;
+}
+
+const app = express();
+app.use(express.json({ limit: '5mb' }));
+
+app.use((req: Request, res: Response, next: NextFunction) => {
+  if (process.env.DEBUG_SIMULATOR === 'true') {
+    console.log(`🧪 ${req.method} ${req.path}`);
+  }
+  next();
+});
+
+// Login host
+
+app.post('/api/login', (req: Request<{}, EZDermLoginResponse | { error: string }, EZDermLoginRequest>, res: Response) => {
+  const { username, password } = req.body;
+
+  if (!username || !password) {
+    res.status(400).json({ error: 'Username and password are required' });
+    return;
+  }
+
+  const refreshToken = crypto.randomBytes(32).toString('base64url');
+  state.refreshTokens.set(refreshToken, username);
+
+  console.log(`🔐 Simulator login for ${username}`);
+  res.json({
+    accessToken: issueAccessToken(username),
+    refreshToken,
+    servers: { app: `${PUBLIC_URL}/` }
+  });
+});
+
+app.get('/api/refreshToken/getAccessToken', (req: Request, res: Response) => {
+  const refreshToken = bearerToken(req);
+  const username = refreshToken ? state.refreshTokens.get(refreshToken) : undefined;
+
+  if (!username) {
+    unauthorized(res, 'JWT_TOKEN_EXPIRED');
+    return;
+  }
+
+  res.json({ accessToken: issueAccessToken(username) });
+});
+
+// Webservice host - every call needs a live access token
+
+const rest = express.Router();
+
+rest.use((req: Request, res: Response, next: NextFunction) => {
+  const token = bearerToken(req);
+  const session = token ? state.accessTokens.get(token) : undefined;
+
+  if (!session || session.expiresAt < Date.now()) {
+    unauthorized(res, 'JWT_TOKEN_EXPIRED');
+    return;
+  }
+
+  next();
+});
+
+rest.post('/encounter/getByFilter', (req: Request, res: Response) => {
+  const { patientId, clinicId, providerIds, dateOfServiceRangeLow, dateOfServiceRangeHigh } = req.body;
+
+  // Patient history lookup used by the vital signs carryforward
+  if (patientId) {
+    const history = [...state.patientHistory, ...state.encounters]
+      .filter(encounter => encounter.patientInfo?.id === patientId);
+    res.json(history);
+    return;
+  }
+
+  const low = dateOfServiceRangeLow ? new Date(dateOfServiceRangeLow).getTime() : NaN;
+  const high = dateOfServiceRangeHigh ? new Date(dateOfServiceRangeHigh).getTime() : NaN;
+
+  const encounters = state.encounters.filter(encounter => {
+    const dateOfService = new Date(encounter.dateOfService).getTime();
+    if (!isNaN(low) && dateOfService < low) return false;
+    if (!isNaN(high) && dateOfService > high) return false;
+    if (clinicId && (encounter.clinicId || CLINIC_ID) !== clinicId) return false;
+
+    if (Array.isArray(providerIds) && providerIds.length > 0) {
+      return (encounter.encounterRoleInfoList || []).some((role: any) => providerIds.includes(role.providerId));
+    }
+    return true;
+  });
+
+  res.json(encounters);
+});
+
+rest.get('/encounter/getById/_rid/:encounterId', (req: Request, res: Response) => {
+  const details = buildEncounterDetails(req.params.encounterId || '');
+
+  if (!details) {
+    res.status(404).json({ status: 'NOT_FOUND', message: 'Encounter not found' });
+    return;
+  }
+
+  res.json(details);
+});
+
+rest.post('/encounter/signOff', (req: Request<{}, any, EZDermSignOffRequest>, res: Response) => {
+  const { id, status } = req.body;
+
+  if (!setEncounterStatus(id, status || 'SIGNED_OFF')) {
+    res.status(404).json({ status: 'NOT_FOUND', message: 'Encounter not found' });
+    return;
+  }
+
+  // A signed note leaves the incomplete notes inbox
+  for (const patient of state.incompletePatients) {
+    patient.incompleteEncounters = patient.incompleteEncounters.filter(encounter => encounter.id !== id);
+  }
+  state.incompletePatients = state.incompletePatients.filter(patient => patient.incompleteEncounters.length > 0);
+
+  console.log(`🖊️ Simulator signed off encounter ${id}`);
+  res.status(200).end();
+});
+
+rest.post('/progressnote/getProgressNoteInfo', (req: Request, res: Response) => {
+  const { encounterId } = req.body;
+
+  if (!state.progressNotes.has(encounterId)) {
+    // Every encounter starts from the captured note
+    state.progressNotes.set(encounterId, {
+      ...JSON.parse(JSON.stringify(fixtures.progressNote)),
+      patientId: req.headers.patientid || fixtures.progressNote.patientId
+    });
+  }
+
+  res.json(state.progressNotes.get(encounterId));
+});
+
+rest.post('/progressnote/setPNInfo', (req: Request<{}, any, EZDermSetPNInfoRequest>, res: Response) => {
+  const { note, encounterId, type } = req.body;
+  const progressNote = state.progressNotes.get(encounterId) || JSON.parse(JSON.stringify(fixtures.progressNote));
+
+  for (const section of progressNote.progressNotes || []) {
+    for (const item of section.items || []) {
+      if (item.elementType === type) {
+        item.text = note;
+        item.note = note;
+      }
+    }
+  }
+  state.progressNotes.set(encounterId, progressNote);
+
+  res.json({ type, encounterId, note });
+});
+
+rest.post('/task/add', (req: Request<{}, any, EZDermToDoRequest>, res: Response) => {
+  const task = { ...req.body, id: req.body.id || crypto.randomUUID() };
+  state.tasks.push(task);
+
+  console.log(`📝 Simulator created ToDo ${task.id}: ${task.subject}`);
+  res.json({ id: task.id });
+});
+
+rest.post('/inbox/getIncompleteNotes', (req: Request<{}, any, IncompleteNotesRequest>, res: Response) => {
+  const fetchFrom = req.body.fetchFrom || 0;
+  const size = req.body.size || 50;
+
+  res.json([{
+    count: state.incompletePatients.length,
+    incompletePatientEncounters: state.incompletePatients.slice(fetchFrom, fetchFrom + size)
+  }]);
+});
+
+// Practice users come from the captured fixture. Simulator logins that aren't in it are listed
+// with EZDERM_SIMULATOR_USER_TITLE (default MD), so they get a role on the tracking board.
+rest.get('/practice/info', (req: Request, res: Response) => {
+  const username = state.accessTokens.get(bearerToken(req) || '')?.username || '';
+  const users = fixtures.practiceInfo.cpUserInfoList;
+  const providerRole = fixtures.practiceInfo.cpUserRoleInfoList.find(role => role.name === 'PROVIDER');
+
+  const cpUserInfoList = users.some(user => user.userName.toLowerCase() === username.toLowerCase())
+    ? users
+    : [...users, {
+      id: providerIdForUser(username),
+      userName: username,
+      firstName: username,
+      lastName: 'Simulator',
+      title: process.env.EZDERM_SIMULATOR_USER_TITLE || 'MD',
+      active: true,
+      roleIds: providerRole ? [providerRole.id] : []
+    }];
+
+  res.json({ ...fixtures.practiceInfo, cpUserInfoList });
+});
+
+rest.post('/vitalSigns/updateVitalSigns', (req: Request<{}, any, EZDermVitalSigns>, res: Response) => {
+  const { changeStatus, ...vitalSigns } = req.body;
+
+  if (!vitalSigns.encounterId) {
+    res.status(400).json({ status: 'BAD_REQUEST', message: 'encounterId is required' });
+    return;
+  }
+
+  state.vitalSigns.set(vitalSigns.encounterId, vitalSigns);
+
+  console.log(`🩺 Simulator updated vital signs for encounter ${vitalSigns.encounterId}`);
+  res.status(200).end();
+});
+
+app.use('/ezderm-webservice/rest', rest);
+
+// Simulator controls for driving scenarios from tests or the command line
+
+app.get('/__simulator/state', (req: Request, res: Response) => {
+  res.json({
+    encounters: state.encounters.map(encounter => ({
+      id: encounter.id,
+      patientName: `${encounter.patientInfo?.firstName} ${encounter.patientInfo?.lastName}`,
+      status: encounter.status,
+      room: encounter.room,
+      dateOfService: encounter.dateOfService
+    })),
+    incompletePatients: state.incompletePatients.length,
+    vitalSigns: Object.fromEntries(state.vitalSigns),
+    tasks: state.tasks,
+    activeAccessTokens: state.accessTokens.size
+  });
+});
+
+app.post('/__simulator/encounters/:encounterId/status', (req: Request, res: Response) => {
+  const { status, room } = req.body;
+  const encounterId = req.params.encounterId || '';
+
+  if (!status || !setEncounterStatus(encounterId, status)) {
+    res.status(404).json({ error: 'Encounter not found or status missing' });
+    return;
+  }
+
+  if (room !== undefined) {
+    const encounter = state.encounters.find(enc => enc.id === encounterId);
+    if (encounter) {
+      encounter.room = room;
+    }
+  }
+
+  res.json({ success: true, encounterId, status });
+});
+
+// Expire every access token so clients exercise the 401 -> refresh path
+app.post('/__simulator/expire-tokens', (req: Request, res: Response) => {
+  for (const session of state.accessTokens.values()) {
+    session.expiresAt = 0;
+  }
+  res.json({ success: true, expired: state.accessTokens.size });
+});
+
+app.post('/__simulator/reset', (req: Request, res: Response) => {
+  state = createState(fixtures);
+  console.log('🔄 Simulator state reset from fixtures');
+  res.json({ success: true });
+});
+
+app.get('/health', (req: Request, res: Response) => {
+  res.json({ status: 'healthy', timestamp: new Date().toISOString(), fixturesDir: FIXTURES_DIR });
+});
+
+app.use((req: Request, res: Response) => {
+  console.warn(`⚠️ Simulator has no handler for ${req.method} ${req.path}`);
+  res.status(404).json({ error: 'Endpoint not simulated' });
+});
+
+export function startSimulator(port: number = PORT) {
+  return app.listen(port, '0.0.0.0', () => {
+    console.log(`🧪 EZDerm simulator running on port ${port}`);
+    console.log(`🔗 Point other services at it with EZDERM_SIMULATOR_URL=${PUBLIC_URL}`);
+  });
+}
+
+if (require.main === module) {
+  startSimulator();
+}
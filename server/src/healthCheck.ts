@@ -0,0 +1,206 @@
+import express, { Request, Response, Router } from 'express';
+import { Queue, Worker } from 'bullmq';
+import { vitalSignsDb } from './database';
+import { ezdermClient } from './ezdermClient';
+import { jobControl } from './jobControl';
+import { llmProviders } from './llmProviders';
+import { appConfig } from './config';
+import { HealthComponent, HealthServiceName, LivenessResponse, ReadinessResponse } from './types';
+
+// A check that hasn't answered by then counts as down
+const CHECK_TIMEOUT_MS = parseInt(process.env.HEALTH_CHECK_TIMEOUT_MS || '5000', 10);
+// EZDerm is an outside service, so readiness probes reuse a recent answer instead of calling it every time
+const EZDERM_CHECK_CACHE_MS = 60000;
+
+export interface ComponentCheck {
+  name: string;
+  critical: boolean;
+  // Resolves with optional details when the component is up, throws when it is down
+  run: () => Promise<string | void>;
+}
+
+let lastEZDermCheck: { checkedAt: number; result: Promise<string | void> } | null = null;
+
+/**
+ * Postgres answers a query
+ */
+export const databaseCheck = (critical = true): ComponentCheck => ({
+  name: 'database',
+  critical,
+  run: () => vitalSignsDb.ping()
+});
+
+/**
+ * Redis answers a PING on the given connection
+ */
+export const redisCheck = (ping: () => Promise<unknown>, critical = true): ComponentCheck => ({
+  name: 'redis',
+  critical,
+  run: async () => {
+    await ping();
+  }
+});
+
+/**
+ * The BullMQ queues can be read, and in the worker process their workers are running
+ */
+export const queuesCheck = (queues: Queue[], getWorkers?: () => Array<Worker | null>, critical = true): ComponentCheck => ({
+  name: 'queues',
+  critical,
+  run: async () => {
+    const counts = await Promise.all(queues.map(queue => queue.getJobCounts('waiting', 'active', 'failed')));
+
+    if (getWorkers) {
+      const stopped = getWorkers().filter(worker => !worker || !worker.isRunning()).length;
+      if (stopped > 0) {
+        throw new Error(`${stopped} of ${queues.length} queue worker(s) not running`);
+      }
+    }
+
+    return queues.map((queue, index) => {
+      const { waiting = 0, active = 0, failed = 0 } = counts[index] || {};
+      return `${queue.name}: ${waiting} waiting, ${active} active, ${failed} failed`;
+    }).join('; ');
+  }
+});
+
+/**
+ * At least one worker process has reported its state recently (see jobControl)
+ */
+export const workerHeartbeatCheck = (critical = false): ComponentCheck => ({
+  name: 'worker-heartbeat',
+  critical,
+  run: async () => {
+    const workers = await jobControl.getWorkerStates();
+    if (workers.length === 0) {
+      throw new Error('No worker has reported in recently');
+    }
+
+    const newest = Math.max(...workers.map(worker => new Date(worker.reportedAt).getTime()));
+    return `${workers.length} worker(s), last report ${Math.round((Date.now() - newest) / 1000)}s ago`;
+  }
+});
+
+/**
+ * EZDerm accepts the service user's token. Answers are cached for a minute.
+ */
+export const ezdermCheck = (critical = false): ComponentCheck => ({
+  name: 'ezderm',
+  critical,
+  run: () => {
+    if (!lastEZDermCheck || Date.now() - lastEZDermCheck.checkedAt > EZDERM_CHECK_CACHE_MS) {
+      lastEZDermCheck = { checkedAt: Date.now(), result: checkEZDerm() };
+    }
+    return lastEZDermCheck.result;
+  }
+});
+
+/**
+ * Every check type's LLM provider has its credentials or endpoint set (providers aren't
+ * called, to avoid spending on probes)
+ */
+export const llmProvidersCheck = (checkTypes: string[], critical = false): ComponentCheck => ({
+  name: 'llm',
+  critical,
+  run: async () => {
+    const providers = checkTypes.map(checkType => ({ checkType, provider: llmProviders.forCheck(checkType) }));
+    const unconfigured = providers.filter(({ provider }) => !provider.isConfigured());
+    if (unconfigured.length > 0) {
+      throw new Error(`Not configured: ${unconfigured.map(({ checkType, provider }) => `${checkType} (${provider.name})`).join(', ')}`);
+    }
+    return providers.map(({ checkType, provider }) => `${checkType}: ${provider.name}:${provider.model}`).join('; ');
+  }
+});
+
+async function checkEZDerm(): Promise<string> {
+  const serviceUser = appConfig.ezderm.serviceUser;
+  if (!serviceUser || !appConfig.ezderm.servicePassword) {
+    throw new Error('EZDERM_USER and EZDERM_PASS are not set');
+  }
+
+  // Goes through the normal token handling, so an expired token is refreshed or the user logged back in
+  await ezdermClient.getPracticeInfo(serviceUser);
+  return `Service user ${serviceUser} authenticated`;
+}
+
+/**
+ * Run one check with a time limit, recording how long it took
+ */
+async function runCheck(check: ComponentCheck): Promise<HealthComponent> {
+  const startedAt = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`No answer within ${CHECK_TIMEOUT_MS}ms`)), CHECK_TIMEOUT_MS);
+    });
+    const details = await Promise.race([check.run(), timeout]);
+    return {
+      name: check.name,
+      status: 'up',
+      critical: check.critical,
+      latencyMs: Date.now() - startedAt,
+      ...(details && { details })
+    };
+  } catch (error: any) {
+    return {
+      name: check.name,
+      status: 'down',
+      critical: check.critical,
+      latencyMs: Date.now() - startedAt,
+      error: error.response?.status ? `HTTP ${error.response.status}` : error.message
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run every check at once. Not ready when a critical component is down, degraded when only
+ * non-critical ones are.
+ */
+export async function checkReadiness(service: HealthServiceName, checks: ComponentCheck[]): Promise<ReadinessResponse> {
+  const components = await Promise.all(checks.map(runCheck));
+  const down = components.filter(component => component.status === 'down');
+
+  if (down.length > 0) {
+    console.warn(`⚠️ ${service} readiness: ${down.map(component => `${component.name} (${component.error})`).join(', ')} down`);
+  }
+
+  return {
+    status: down.some(component => component.critical) ? 'not_ready' : down.length > 0 ? 'degraded' : 'ready',
+    service,
+    timestamp: new Date().toISOString(),
+    components
+  };
+}
+
+/**
+ * The process is up and serving requests; depends on nothing else
+ */
+export function getLiveness(service: HealthServiceName): LivenessResponse {
+  return {
+    status: 'alive',
+    service,
+    timestamp: new Date().toISOString(),
+    uptimeSeconds: Math.round(process.uptime())
+  };
+}
+
+/**
+ * `/health/live` and `/health/ready` for a service. Readiness responds 503 when not ready.
+ */
+export function healthRoutes(service: HealthServiceName, checks: ComponentCheck[]): Router {
+  const router = express.Router();
+
+  router.get('/health/live', (req: Request, res: Response<LivenessResponse>) => {
+    res.json(getLiveness(service));
+  });
+
+  router.get('/health/ready', async (req: Request, res: Response<ReadinessResponse>) => {
+    const readiness = await checkReadiness(service, checks);
+    res.status(readiness.status === 'not_ready' ? 503 : 200).json(readiness);
+  });
+
+  return router;
+}
@@ -0,0 +1,69 @@
+import { vitalSignsDb } from './database';
+import { ezdermClient } from './ezdermClient';
+import { aiNoteChecker } from './aiNoteChecker';
+import { EZDermSetPNInfoRequest, EZDermSetPNInfoResponse, HpiVersion, ProgressNoteResponse } from './types';
+
+export type HpiUpdateResult =
+  | { conflict: false; updatedInfo: EZDermSetPNInfoResponse; version: HpiVersion }
+  | { conflict: true; currentMd5: string };
+
+/**
+ * The HPI note text of a progress note; empty when the note has no HPI yet
+ */
+const getHpiText = (progressNote: ProgressNoteResponse): string => {
+  const hpiItem = progressNote.progressNotes
+    .flatMap(section => section.items)
+    .find(item => item.elementType === 'HISTORY_OF_PRESENT_ILLNESS');
+  return hpiItem?.note ?? '';
+};
+
+class HpiHistory {
+  /**
+   * Replace an encounter's HPI in EZDerm, keeping the text it replaces as a version.
+   * `expectedMd5` is the note MD5 the user was shown; if the note has changed in EZDerm
+   * since, nothing is written and the current MD5 is returned instead.
+   */
+  async updateHpi(
+    username: string,
+    encounterId: string,
+    patientId: string,
+    note: string,
+    expectedMd5: string,
+    revertedFromVersion?: number
+  ): Promise<HpiUpdateResult> {
+    const progressNote = await ezdermClient.getProgressNoteInfo(username, encounterId, patientId);
+    const currentMd5 = aiNoteChecker.calculateNoteContentMd5(progressNote);
+    if (expectedMd5 !== currentMd5) {
+      console.log(`⛔ HPI edit for encounter ${encounterId} refused: note changed in EZDerm (expected ${expectedMd5}, found ${currentMd5})`);
+      return { conflict: true, currentMd5 };
+    }
+
+    // Keep the text being replaced, unless it is already the latest version we know of
+    const previousNote = getHpiText(progressNote);
+    const [latestVersion] = await vitalSignsDb.getHpiVersions(encounterId);
+    if (!latestVersion || latestVersion.noteText !== previousNote) {
+      await vitalSignsDb.addHpiVersion({ encounterId, patientId, noteText: previousNote, source: 'ezderm' });
+    }
+
+    const hpiData: EZDermSetPNInfoRequest = {
+      note,
+      encounterId,
+      type: 'HISTORY_OF_PRESENT_ILLNESS'
+    };
+    const updatedInfo = await ezdermClient.setPNInfo(username, patientId, hpiData, previousNote);
+
+    const version = await vitalSignsDb.addHpiVersion({
+      encounterId,
+      patientId,
+      noteText: note,
+      source: revertedFromVersion === undefined ? 'edit' : 'revert',
+      ...(revertedFromVersion !== undefined && { revertedFromVersion }),
+      createdBy: username
+    });
+
+    return { conflict: false, updatedInfo, version };
+  }
+}
+
+// Export singleton instance
+export const hpiHistory = new HpiHistory();
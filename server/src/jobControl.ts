@@ -0,0 +1,273 @@
+import crypto from 'crypto';
+import IORedis from 'ioredis';
+import { appConfig } from './config';
+import {
+  JobControlAck,
+  JobControlAction,
+  JobControlCommand,
+  JobControlRequest,
+  JobControlResponse,
+  JobQueueName,
+  WorkerState
+} from './types';
+
+export const JOB_QUEUE_NAMES: JobQueueName[] = ['vital-signs-processing', 'ai-note-scan', 'ai-note-check'];
+export const JOB_CONTROL_ACTIONS: JobControlAction[] = ['pause', 'resume', 'drain', 'set-concurrency', 'run-vital-signs'];
+export const MAX_WORKER_CONCURRENCY = 10;
+
+const COMMAND_CHANNEL = 'jobs:control:commands';
+const ACK_CHANNEL = 'jobs:control:acks';
+const WORKER_STATES_KEY = 'jobs:control:worker-states';
+
+// How long the API waits for workers to acknowledge a command
+const ACK_TIMEOUT_MS = parseInt(process.env.JOB_CONTROL_ACK_TIMEOUT_MS || '10000', 10);
+// Workers report their state this often, and a state older than STATE_STALE_MS is a worker that has gone away
+const STATE_REPORT_INTERVAL_MS = 15000;
+const STATE_STALE_MS = STATE_REPORT_INTERVAL_MS * 3;
+
+interface PendingCommand {
+  expected: number;
+  acks: JobControlAck[];
+  resolve: (acks: JobControlAck[]) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Carries job control commands from the API to the worker processes over Redis pub/sub.
+ * The API publishes a command and waits for every subscribed worker to acknowledge it;
+ * workers run the command, reply with the outcome and their queue state, and also report
+ * that state on an interval so it can be shown without sending a command.
+ */
+class JobControl {
+  private publisher: IORedis | null = null;
+  private subscriber: IORedis | null = null;
+  private ackSubscription: Promise<unknown> | null = null;
+  private pending = new Map<string, PendingCommand>();
+  private stateTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Send a command to the workers and wait for their acknowledgements
+   */
+  async send(request: JobControlRequest, requestedBy: string): Promise<JobControlResponse> {
+    await this.subscribeToAcks();
+
+    const command: JobControlCommand = {
+      ...request,
+      commandId: crypto.randomUUID(),
+      requestedBy,
+      requestedAt: new Date().toISOString()
+    };
+
+    // Register before publishing so an ack can't arrive ahead of us
+    const acksReceived = new Promise<JobControlAck[]>(resolve => {
+      const timer = setTimeout(() => this.settle(command.commandId), ACK_TIMEOUT_MS);
+      this.pending.set(command.commandId, { expected: Infinity, acks: [], resolve, timer });
+    });
+
+    const receivers = await this.getPublisher().publish(COMMAND_CHANNEL, JSON.stringify(command));
+    console.log(`🎛️ Job control ${command.action}${command.queue ? ` ${command.queue}` : ''} sent by ${requestedBy} to ${receivers} worker(s)`);
+
+    if (receivers === 0) {
+      this.settle(command.commandId);
+      return { success: false, commandId: command.commandId, acks: [], error: 'No worker is listening for job control commands' };
+    }
+
+    const pending = this.pending.get(command.commandId);
+    if (pending) {
+      pending.expected = receivers;
+      if (pending.acks.length >= receivers) {
+        this.settle(command.commandId);
+      }
+    }
+
+    const acks = await acksReceived;
+    const failed = acks.find(ack => !ack.success);
+    if (failed) {
+      return { success: false, commandId: command.commandId, acks, error: failed.error || `Worker ${failed.workerId} failed the command` };
+    }
+    if (acks.length < receivers) {
+      return { success: false, commandId: command.commandId, acks, error: `Only ${acks.length} of ${receivers} worker(s) acknowledged the command` };
+    }
+    return { success: true, commandId: command.commandId, acks };
+  }
+
+  /**
+   * The latest state each live worker has reported, dropping workers that stopped reporting
+   */
+  async getWorkerStates(): Promise<WorkerState[]> {
+    const entries = await this.getPublisher().hgetall(WORKER_STATES_KEY);
+    const states: WorkerState[] = [];
+    const stale: string[] = [];
+
+    for (const [workerId, value] of Object.entries(entries)) {
+      const state: WorkerState = JSON.parse(value);
+      if (Date.now() - new Date(state.reportedAt).getTime() > STATE_STALE_MS) {
+        stale.push(workerId);
+      } else {
+        states.push(state);
+      }
+    }
+
+    if (stale.length > 0) {
+      await this.getPublisher().hdel(WORKER_STATES_KEY, ...stale);
+    }
+    return states.sort((a, b) => a.workerId.localeCompare(b.workerId));
+  }
+
+  /**
+   * Check the Redis connection used for commands
+   */
+  async ping(): Promise<void> {
+    await this.getPublisher().ping();
+  }
+
+  /**
+   * Run commands from the API in this worker process. `execute` returns a message for the
+   * acknowledgement or throws to report the command as failed.
+   */
+  async listen(
+    execute: (command: JobControlCommand) => Promise<string>,
+    getState: () => Promise<WorkerState>
+  ): Promise<void> {
+    const subscriber = this.getSubscriber();
+
+    subscriber.on('message', async (channel: string, message: string) => {
+      if (channel !== COMMAND_CHANNEL) return;
+
+      let command: JobControlCommand;
+      try {
+        command = JSON.parse(message);
+      } catch (error) {
+        console.error('❌ Ignoring malformed job control command:', message);
+        return;
+      }
+
+      console.log(`🎛️ Job control ${command.action}${command.queue ? ` ${command.queue}` : ''} requested by ${command.requestedBy}`);
+      let outcome: { success: true; message: string } | { success: false; error: string };
+      try {
+        outcome = { success: true, message: await execute(command) };
+      } catch (error: any) {
+        console.error(`❌ Job control ${command.action} failed:`, error.message);
+        outcome = { success: false, error: error.message };
+      }
+
+      try {
+        const state = await getState();
+        await this.storeState(state);
+        const ack: JobControlAck = { commandId: command.commandId, workerId: state.workerId, ...outcome, state };
+        await this.getPublisher().publish(ACK_CHANNEL, JSON.stringify(ack));
+      } catch (error: any) {
+        console.error('❌ Failed to acknowledge job control command:', error.message);
+      }
+    });
+
+    await subscriber.subscribe(COMMAND_CHANNEL);
+
+    const report = () => getState()
+      .then(state => this.storeState(state))
+      .catch(error => console.error('❌ Failed to report worker state:', error.message));
+    await report();
+    this.stateTimer = setInterval(report, STATE_REPORT_INTERVAL_MS);
+
+    console.log('🎛️ Listening for job control commands');
+  }
+
+  /**
+   * Stop listening, drop this worker's reported state and close the Redis connections
+   */
+  async close(workerId?: string): Promise<void> {
+    if (this.stateTimer) {
+      clearInterval(this.stateTimer);
+      this.stateTimer = null;
+    }
+    if (workerId && this.publisher) {
+      await this.publisher.hdel(WORKER_STATES_KEY, workerId).catch(() => undefined);
+    }
+    for (const connection of [this.subscriber, this.publisher]) {
+      if (connection) {
+        await connection.quit().catch(() => undefined);
+      }
+    }
+    this.subscriber = null;
+    this.publisher = null;
+    this.ackSubscription = null;
+  }
+
+  private async storeState(state: WorkerState): Promise<void> {
+    await this.getPublisher().hset(WORKER_STATES_KEY, state.workerId, JSON.stringify(state));
+  }
+
+  private subscribeToAcks(): Promise<unknown> {
+    if (!this.ackSubscription) {
+      this.ackSubscription = this.getSubscriber().subscribe(ACK_CHANNEL).catch(error => {
+        this.ackSubscription = null;
+        throw error;
+      });
+    }
+    return this.ackSubscription;
+  }
+
+  private handleAck(message: string): void {
+    let ack: JobControlAck;
+    try {
+      ack = JSON.parse(message);
+    } catch (error) {
+      console.error('❌ Ignoring malformed job control acknowledgement:', message);
+      return;
+    }
+
+    const pending = this.pending.get(ack.commandId);
+    if (!pending) return;
+
+    pending.acks.push(ack);
+    if (pending.acks.length >= pending.expected) {
+      this.settle(ack.commandId);
+    }
+  }
+
+  private settle(commandId: string): void {
+    const pending = this.pending.get(commandId);
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pending.delete(commandId);
+      pending.resolve(pending.acks);
+    }
+  }
+
+  private getPublisher(): IORedis {
+    if (!this.publisher) {
+      this.publisher = this.createConnection();
+    }
+    return this.publisher;
+  }
+
+  // Subscribed connections can't run other commands, so they get their own
+  private getSubscriber(): IORedis {
+    if (!this.subscriber) {
+      this.subscriber = this.createConnection();
+      this.subscriber.on('message', (channel: string, message: string) => {
+        if (channel === ACK_CHANNEL) {
+          this.handleAck(message);
+        }
+      });
+    }
+    return this.subscriber;
+  }
+
+  private createConnection(): IORedis {
+    const connection = new IORedis({
+      host: appConfig.redis.host,
+      port: appConfig.redis.port,
+      ...(appConfig.redis.password && { password: appConfig.redis.password }),
+      // Same TLS rule as the BullMQ connection
+      ...((appConfig.redis.tls || appConfig.nodeEnv === 'production') && { tls: { rejectUnauthorized: false } }),
+      maxRetriesPerRequest: 1
+    });
+    // Commands fail on their own during an outage; don't log every reconnect attempt as well
+    connection.on('error', () => undefined);
+    return connection;
+  }
+}
+
+// Export singleton instance
+export const jobControl = new JobControl();
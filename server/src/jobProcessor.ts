@@ -1,21 +1,33 @@
+import os from 'os';
+import http from 'http';
+import express from 'express';
 import { Queue, Worker, Job } from 'bullmq';
 import IORedis from 'ioredis';
-import axios from './axiosConfig';
-import { AxiosResponse } from 'axios';
 import { vitalSignsDb } from './database';
 import { vitalSignsService } from './vitalSignsService';
 import { aiNoteChecker } from './aiNoteChecker';
+import { ezdermClient } from './ezdermClient';
+import { tokenBroker } from './tokenBroker';
 import { appConfig } from './config';
+import { getDayRange } from './dateRange';
+import { getNoteCheckWindows, isDueForRecheck, isWithinActiveWindow } from './jobSchedule';
+import { jobControl } from './jobControl';
+import { encounterTimeline } from './encounterTimeline';
+import { isRetryableLLMError, LLMUnavailableError } from './llmProviders';
+import { healthRoutes, databaseCheck, redisCheck, queuesCheck, ezdermCheck, llmProvidersCheck } from './healthCheck';
 import {
-  EZDermLoginRequest,
-  EZDermLoginResponse,
   EZDermEncounterFilter,
   EZDermEncounter,
   Encounter,
   EncounterStatus,
   AINoteScanJobData,
   AINoteCheckJobData,
-  StoredTokens
+  Clinic,
+  JobSchedule,
+  ScheduledJobName,
+  JobQueueName,
+  JobControlCommand,
+  WorkerState
 } from './types';
 
 // Redis connection configuration
@@ -79,11 +91,22 @@ export const aiNoteCheckQueue = new Queue('ai-note-check', {
   },
 });
 
-// EZDerm API configuration
-const EZDERM_LOGIN_URL = 'https://login.ezinfra.net/api/login';
-const EZDERM_REFRESH_URL = 'https://login.ezinfra.net/api/refreshToken/getAccessToken';
-const DEFAULT_CLINIC_ID = '44b62760-50a1-488c-92ed-e0c7aa3cde92';
-const DEFAULT_PRACTICE_ID = '4cc96922-4d83-4183-863b-748d69de621f';
+// How each scheduled job is registered with BullMQ
+const SCHEDULED_JOBS: Record<ScheduledJobName, { queue: Queue; schedulerId: string; jobName: string }> = {
+  'vital-signs': { queue: vitalSignsQueue, schedulerId: 'vital-signs-carryforward', jobName: 'process-vital-signs' },
+  'ai-note-scan': { queue: aiNoteScanQueue, schedulerId: 'recurring-ai-note-scan', jobName: 'scan-incomplete-notes' }
+};
+
+// Queues the job control commands act on, by name
+const CONTROLLED_QUEUES: Record<JobQueueName, Queue> = {
+  'vital-signs-processing': vitalSignsQueue,
+  'ai-note-scan': aiNoteScanQueue,
+  'ai-note-check': aiNoteCheckQueue
+};
+
+// Identifies this worker process in job control acknowledgements
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+const WORKER_STARTED_AT = new Date().toISOString();
 
 // Active statuses that should be processed
 const TARGET_STATUSES: EncounterStatus[] = ['READY_FOR_STAFF', 'WITH_STAFF'];
@@ -94,21 +117,6 @@ const IS_DEVELOPMENT = process.env.NODE_ENV === 'development';
 
 // AI Note Checker instance (imported from aiNoteChecker.ts)
 
-// Date formatting utilities
-const formatDateStartOfDay = (date: Date): string => {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}T00:00:00-0400`;
-};
-
-const formatDateEndOfDay = (date: Date): string => {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}T23:59:59-0400`;
-};
-
 // Transform EZDerm encounter to our format
 const transformEZDermEncounter = (encounter: EZDermEncounter): Encounter => {
   return {
@@ -142,236 +150,90 @@ const transformEZDermEncounter = (encounter: EZDermEncounter): Encounter => {
   };
 };
 
-// Login to EZDerm with stored credentials
-async function loginToEZDerm(username: string, password: string): Promise<{ accessToken: string; refreshToken: string; serverUrl: string } | null> {
-  try {
-    const loginData: EZDermLoginRequest = {
-      username,
-      password,
-      application: 'EZDERM',
-      timeZoneId: 'America/Detroit',
-      clientVersion: '4.28.0'
-    };
+// Resolve the service user that background jobs act as in EZDerm
+function getServiceUser(): string {
+  const serviceUser = appConfig.ezderm.serviceUser;
 
-    const response: AxiosResponse<EZDermLoginResponse> = await axios.post(EZDERM_LOGIN_URL, loginData, {
-      headers: {
-        'Host': 'login.ezinfra.net',
-        'accept': 'application/json',
-        'content-type': 'application/json',
-        'user-agent': 'ezDerm/4.28.0 (com.ezderm.ezderm; build:132.19; macOS(Catalyst) 15.5.0) Alamofire/5.10.2',
-        'accept-language': 'en-US;q=1.0'
-      }
-    });
-
-    const { accessToken, refreshToken, servers } = response.data;
-    
-    // Store tokens in database
-    await vitalSignsDb.storeTokens(username, accessToken, refreshToken, servers.app);
-    
-    return {
-      accessToken,
-      refreshToken,
-      serverUrl: servers.app
-    };
-  } catch (error: any) {
-    console.error('EZDerm login failed:', error.response?.data || error.message);
-    return null;
+  if (!serviceUser || !appConfig.ezderm.servicePassword) {
+    throw new Error('EZDerm service user credentials not configured. Set EZDERM_USER and EZDERM_PASS environment variables.');
   }
-}
-
-// Token refresh function for job processor
-async function refreshEZDermTokenInJob(refreshToken: string): Promise<{ accessToken: string; refreshToken: string } | null> {
-  try {
-    console.log('🔄 Job: Attempting to refresh EZDerm token...');
-    
-    const response: AxiosResponse<{ accessToken: string }> = await axios.get(EZDERM_REFRESH_URL, {
-      headers: {
-        'Host': 'login.ezinfra.net',
-        'accept': 'application/json',
-        'accept-language': 'en-US,en;q=0.9',
-        'authorization': `Bearer ${refreshToken}`,
-        'content-type': 'application/json',
-        'origin': 'https://pms.ezderm.com',
-        'referer': 'https://pms.ezderm.com/',
-        'user-agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/139.0.0.0 Safari/537.36'
-      }
-    });
 
-    const { accessToken } = response.data;
-    console.log('✅ Job: Token refresh successful');
-    
-    // Note: EZDerm refresh token API only returns new accessToken, not a new refreshToken
-    // The refresh token remains the same and can be reused
-    return {
-      accessToken,
-      refreshToken: refreshToken // Keep the same refresh token
-    };
-  } catch (error: any) {
-    console.error('❌ Job: Token refresh failed:', error.response?.data || error.message);
-    return null;
-  }
+  return serviceUser;
 }
 
-// Enhanced function to get valid tokens using service user credentials
-async function getValidTokensForJob(): Promise<{ accessToken: string; refreshToken: string; serverUrl: string } | null> {
+// Get today's encounters for a clinic from EZDerm
+async function getTodaysEncounters(username: string, clinic: Clinic): Promise<Encounter[]> {
   try {
-    const serviceUser = appConfig.ezderm.serviceUser;
-    const servicePassword = appConfig.ezderm.servicePassword;
-    
-    if (!serviceUser || !servicePassword) {
-      console.error('❌ Job: EZDerm service user credentials not configured. Set EZDERM_USER and EZDERM_PASS environment variables.');
-      return null;
-    }
-    
-    console.log(`🔑 Job: Using service user: ${serviceUser}`);
-    
-    // First, try to get stored tokens for the service user
-    let tokens = await vitalSignsDb.getStoredTokens(serviceUser);
-    
-    if (tokens) {
-      // Tokens are valid and not expired
-      console.log(`✅ Job: Using cached tokens for service user: ${serviceUser}`);
-      return tokens;
-    }
-    
-    // Tokens are expired or don't exist, try to refresh
-    console.log(`🔄 Job: Tokens expired for service user ${serviceUser}, attempting refresh...`);
-    
-    // Get the refresh token even if access token is expired
-    const expiredTokenData = await vitalSignsDb.getStoredTokensIgnoreExpiry(serviceUser);
-    
-    if (expiredTokenData?.refreshToken) {
-      const refreshedTokens = await refreshEZDermTokenInJob(expiredTokenData.refreshToken);
-      
-      if (refreshedTokens) {
-        // Store the new tokens
-        await vitalSignsDb.storeTokens(serviceUser, refreshedTokens.accessToken, refreshedTokens.refreshToken, expiredTokenData.serverUrl);
-        
-        console.log(`✅ Job: Token refresh successful for service user: ${serviceUser}`);
-        return {
-          accessToken: refreshedTokens.accessToken,
-          refreshToken: refreshedTokens.refreshToken,
-          serverUrl: expiredTokenData.serverUrl
-        };
-      }
-    }
-    
-    // Refresh failed, try fresh login with service credentials
-    console.log(`🔑 Job: Token refresh failed for service user ${serviceUser}, attempting fresh login...`);
-    const authData = await loginToEZDerm(serviceUser, servicePassword);
-    
-    if (authData) {
-      console.log(`✅ Job: Fresh login successful for service user: ${serviceUser}`);
-      return authData;
-    }
-    
-    console.log(`❌ Job: Failed to authenticate service user: ${serviceUser}`);
-    return null;
-    
-  } catch (error: any) {
-    console.error(`💥 Job: Error getting valid tokens for service user:`, error.message);
-    return null;
-  }
-}
-
-// Get today's encounters from EZDerm
-async function getTodaysEncounters(accessToken: string, serverUrl: string): Promise<Encounter[]> {
-  try {
-    const today = new Date();
+    const today = getDayRange(clinic.timeZone);
     const encounterData: EZDermEncounterFilter = {
-      dateOfServiceRangeHigh: formatDateEndOfDay(today),
-      clinicId: DEFAULT_CLINIC_ID,
+      dateOfServiceRangeHigh: today.end,
+      clinicId: clinic.clinicId,
       providerIds: [],
-      practiceId: DEFAULT_PRACTICE_ID,
-      dateOfServiceRangeLow: formatDateStartOfDay(today),
+      practiceId: clinic.practiceId,
+      dateOfServiceRangeLow: today.start,
       lightBean: true,
       dateSelection: 'SPECIFY_RANGE'
     };
 
-    const response: AxiosResponse<EZDermEncounter[]> = await axios.post(
-      `${serverUrl}ezderm-webservice/rest/encounter/getByFilter`,
-      encounterData,
-      {
-        headers: {
-          'Host': 'srvprod.ezinfra.net',
-          'accept': 'application/json',
-          'content-type': 'application/json',
-          'authorization': `Bearer ${accessToken}`,
-          'user-agent': 'ezDerm/4.28.0 (build:132.19; macOS(Catalyst) 15.5.0)',
-          'accept-language': 'en-US;q=1.0'
-        }
-      }
-    );
+    const ezdermEncounters = await ezdermClient.getEncountersByFilter(username, encounterData);
 
-    return response.data.map(transformEZDermEncounter);
+    return ezdermEncounters.map(transformEZDermEncounter);
   } catch (error: any) {
-    console.error('Failed to fetch encounters:', error.response?.data || error.message);
+    console.error(`Failed to fetch encounters for ${clinic.name}:`, error.response?.data || error.message);
     throw error;
   }
 }
 
+// Load a recurring job's schedule; every job is seeded with one when the tables are created
+async function loadJobSchedule(jobName: ScheduledJobName): Promise<JobSchedule> {
+  const schedule = await vitalSignsDb.getJobSchedule(jobName);
+  if (!schedule) {
+    throw new Error(`No schedule configured for ${jobName}`);
+  }
+  return schedule;
+}
+
+// Whether a scheduled run should go ahead now (the schedule is read on every run, so edits apply at once)
+async function isScheduledRunActive(jobName: ScheduledJobName): Promise<boolean> {
+  const schedule = await loadJobSchedule(jobName);
+  if (!schedule.enabled || !isWithinActiveWindow(schedule)) {
+    console.debug(`⏸️ Skipping scheduled ${jobName} run: ${schedule.enabled ? 'outside its active hours' : 'schedule disabled'}`);
+    return false;
+  }
+  return true;
+}
+
 // Job processor function
 async function processVitalSignsCarryforward(job: Job): Promise<{ processed: number; successful: number; failed: number }> {
-  console.log('🔄 Starting vital signs carryforward job...');
-  
   try {
-    // Get stored credentials
-    // Get valid tokens using service user credentials
-    let authData = await getValidTokensForJob();
-    
-    if (!authData) {
-      throw new Error('Failed to obtain valid EZDerm tokens');
+    // Runs triggered from the job control panel go ahead whatever the schedule says
+    if (job.name === SCHEDULED_JOBS['vital-signs'].jobName && !(await isScheduledRunActive('vital-signs'))) {
+      return { processed: 0, successful: 0, failed: 0 };
     }
 
-    // Get today's encounters
-    const allEncounters = await getTodaysEncounters(authData.accessToken, authData.serverUrl);
-    
-    // Filter to target statuses (READY_FOR_STAFF, WITH_STAFF)
-    let targetEncounters = allEncounters.filter(encounter => 
-      TARGET_STATUSES.includes(encounter.status)
-    );
+    console.log('🔄 Starting vital signs carryforward job...');
+    const serviceUser = getServiceUser();
 
-    if (targetEncounters.length === 0) {
-      const statusMsg = 'No patients found with READY_FOR_STAFF or WITH_STAFF status';
-      console.log(`ℹ️ ${statusMsg}`);
+    const clinics = (await vitalSignsDb.getClinics()).filter(clinic => clinic.vitalSignsEnabled);
+    if (clinics.length === 0) {
+      console.log('ℹ️ No active clinics have vital signs carryforward enabled');
       return { processed: 0, successful: 0, failed: 0 };
     }
 
-    // Process each encounter
-    let processed = 0;
-    let successful = 0;
-    let failed = 0;
+    const summary = { processed: 0, successful: 0, failed: 0 };
 
-    for (const encounter of targetEncounters) {
+    // One clinic failing to load shouldn't hold up the others
+    for (const clinic of clinics) {
       try {
-        // Check if already processed
-        const alreadyProcessed = await vitalSignsDb.hasBeenProcessed(encounter.id);
-        if (alreadyProcessed) {
-          console.debug(`⏭️ Skipping ${encounter.patientName} - already processed`);
-          continue;
-        }
-
-        processed++;
-        console.log(`🩺 Processing vital signs for ${encounter.patientName} (${encounter.status})`);
-        console.log(`📋 Encounter data: ID=${encounter.id}, PatientID=${(encounter.patientInfo as any)?.id}, PatientName=${encounter.patientInfo?.firstName} ${encounter.patientInfo?.lastName}`);
-        
-        const result = await vitalSignsService.processVitalSignsCarryforward(encounter, authData.accessToken);
-        
-        if (result) {
-          successful++;
-          console.log(`✅ Successfully processed vital signs for ${encounter.patientName}`);
-        } else {
-          failed++;
-          console.log(`❌ Failed to process vital signs for ${encounter.patientName}`);
-        }
+        const clinicSummary = await processClinicVitalSigns(serviceUser, clinic);
+        summary.processed += clinicSummary.processed;
+        summary.successful += clinicSummary.successful;
+        summary.failed += clinicSummary.failed;
       } catch (error) {
-        processed++;
-        failed++;
-        console.error(`💥 Error processing ${encounter.patientName}:`, error);
+        console.error(`💥 Vital signs processing failed for ${clinic.name}:`, error);
       }
     }
 
-    const summary = { processed, successful, failed };
     console.log(`🏁 Vital signs job completed: ${JSON.stringify(summary)}`);
     
     return summary;
@@ -382,29 +244,102 @@ async function processVitalSignsCarryforward(job: Job): Promise<{ processed: num
   }
 }
 
-// Token management helper for AI note checking jobs (reuse existing pattern)
-const getValidTokensForAI = async (): Promise<{ accessToken: string; refreshToken: string; serverUrl: string } | null> => {
-  // Use the service user token management function
-  return await getValidTokensForJob();
-};
+// Process vital signs carryforward for today's encounters at a single clinic
+async function processClinicVitalSigns(serviceUser: string, clinic: Clinic): Promise<{ processed: number; successful: number; failed: number }> {
+  // Get today's encounters
+  const allEncounters = await getTodaysEncounters(serviceUser, clinic);
+
+  // Keep the status timeline going when no board is open (it never throws)
+  await encounterTimeline.record(clinic, allEncounters);
+  
+  // Filter to target statuses (READY_FOR_STAFF, WITH_STAFF)
+  let targetEncounters = allEncounters.filter(encounter => 
+    TARGET_STATUSES.includes(encounter.status)
+  );
+
+  if (targetEncounters.length === 0) {
+    console.log(`ℹ️ No patients found with READY_FOR_STAFF or WITH_STAFF status at ${clinic.name}`);
+    return { processed: 0, successful: 0, failed: 0 };
+  }
+
+  // Process each encounter
+  let processed = 0;
+  let successful = 0;
+  let failed = 0;
+
+  for (const encounter of targetEncounters) {
+    try {
+      // Check if already processed
+      const alreadyProcessed = await vitalSignsDb.hasBeenProcessed(encounter.id);
+      if (alreadyProcessed) {
+        console.debug(`⏭️ Skipping ${encounter.patientName} - already processed`);
+        continue;
+      }
+
+      processed++;
+      console.log(`🩺 Processing vital signs for ${encounter.patientName} (${encounter.status}) at ${clinic.name}`);
+      console.log(`📋 Encounter data: ID=${encounter.id}, PatientID=${(encounter.patientInfo as any)?.id}, PatientName=${encounter.patientInfo?.firstName} ${encounter.patientInfo?.lastName}`);
+      
+      const result = await vitalSignsService.processVitalSignsCarryforward(encounter, serviceUser);
+      
+      if (result) {
+        successful++;
+        console.log(`✅ Successfully processed vital signs for ${encounter.patientName}`);
+      } else {
+        failed++;
+        console.log(`❌ Failed to process vital signs for ${encounter.patientName}`);
+      }
+    } catch (error) {
+      processed++;
+      failed++;
+      console.error(`💥 Error processing ${encounter.patientName}:`, error);
+    }
+  }
+
+  return { processed, successful, failed };
+}
+
+// Look up which clinic an encounter belongs to (the incomplete notes inbox doesn't say)
+async function getEncounterClinicId(username: string, encounterId: string, patientId: string): Promise<string | null> {
+  try {
+    const details = await ezdermClient.getEncounterById(username, encounterId, patientId);
+    return details.clinicId || null;
+  } catch (error: any) {
+    console.error(`❌ Failed to look up clinic for encounter ${encounterId}:`, error.response?.data || error.message);
+    return null;
+  }
+}
 
 // AI Note Scan Job Processor
 const processAINoteScan = async (job: Job<AINoteScanJobData>) => {
-  const { scanId, batchSize = 100 } = job.data;
+  const { scanId, batchSize = 100, clinicId } = job.data;
   
-  console.log(`🔍 Starting AI note scan, scanId: ${scanId}`);
+  console.log(`🔍 Starting AI note scan, scanId: ${scanId}${clinicId ? `, clinic: ${clinicId}` : ''}`);
   
   try {
-    // Get valid tokens using service user credentials
-    const tokens = await getValidTokensForAI();
-    if (!tokens) {
-      throw new Error('Failed to get valid tokens for service user');
+    // Manual scans run whenever they are triggered; scheduled ones keep to the schedule's hours
+    if (job.name === SCHEDULED_JOBS['ai-note-scan'].jobName && !(await isScheduledRunActive('ai-note-scan'))) {
+      return { scanId, totalEligible: 0, totalQueued: 0, completedAt: new Date().toISOString() };
     }
 
+    const serviceUser = getServiceUser();
     console.log('🔑 Using service user credentials for AI note scanning');
+    const { eligibilityDelayMinutes, recheckAfterMinutes } = await getNoteCheckWindows();
+
+    // Incomplete notes are practice-wide, so each candidate is matched to a clinic below
+    const scanClinicIds = new Set(
+      (await vitalSignsDb.getClinics())
+        .filter(clinic => clinic.aiScanEnabled && (!clinicId || clinic.clinicId === clinicId))
+        .map(clinic => clinic.clinicId)
+    );
+
+    if (scanClinicIds.size === 0) {
+      console.log('ℹ️ No active clinics have AI note scanning enabled, skipping scan');
+      return { scanId, totalEligible: 0, totalQueued: 0, completedAt: new Date().toISOString() };
+    }
 
     // Fetch incomplete notes
-    const incompleteNotes = await aiNoteChecker.fetchIncompleteNotes(tokens.accessToken, {
+    const incompleteNotes = await aiNoteChecker.fetchIncompleteNotes(serviceUser, {
       fetchFrom: 0,
       size: batchSize
     });
@@ -418,25 +353,19 @@ const processAINoteScan = async (job: Job<AINoteScanJobData>) => {
         for (const patientData of batch.incompletePatientEncounters) {
           for (const encounter of patientData.incompleteEncounters) {
             // Apply same eligibility filter as the main endpoint
-            const eligibleStatuses = ['PENDING_COSIGN', 'CHECKED_OUT', 'WITH_PROVIDER'];
-            const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
-            const serviceDate = new Date(encounter.dateOfService);
-            
-            const isEligible = eligibleStatuses.includes(encounter.status) && serviceDate < twoHoursAgo;
-            
-            if (isEligible) {
+            if (aiNoteChecker.isEligibleForCheck(encounter, eligibilityDelayMinutes)) {
               totalEligible++;
               
-              // Check if we already have a recent check for this note
+              // Only queue if no existing check or if the last one is older than the recheck window
               const existingCheck = await vitalSignsDb.getNoteCheckByEncounterId(encounter.id);
               
-              // Only queue if no existing check or if it's been more than 6 hours
-              const sixHoursAgo = new Date(Date.now() - 6 * 60 * 60 * 1000);
-              const shouldCheck = !existingCheck || 
-                                 (existingCheck.status === 'error') ||
-                                 (new Date(existingCheck.checkedAt) < sixHoursAgo);
-              
-              if (shouldCheck) {
+              if (isDueForRecheck(existingCheck, recheckAfterMinutes)) {
+                const encounterClinicId = await getEncounterClinicId(serviceUser, encounter.id, patientData.id);
+                if (!encounterClinicId || !scanClinicIds.has(encounterClinicId)) {
+                  console.debug(`⏭️ Skipping encounter ${encounter.id}: clinic ${encounterClinicId || 'unknown'} is not being scanned`);
+                  continue;
+                }
+
                 // Queue individual note check
                 await aiNoteCheckQueue.add('check-note', {
                   encounterId: encounter.id,
@@ -444,7 +373,8 @@ const processAINoteScan = async (job: Job<AINoteScanJobData>) => {
                   patientName: `${patientData.firstName} ${patientData.lastName}`,
                   chiefComplaint: encounter.chiefComplaintName || 'No chief complaint',
                   dateOfService: encounter.dateOfService,
-                  scanId
+                  scanId,
+                  clinicId: encounterClinicId
                 }, {
                   delay: totalQueued * 5000, // Stagger jobs every 5 seconds
                 });
@@ -486,27 +416,25 @@ const processAINoteCheck = async (job: Job<AINoteCheckJobData>) => {
   }
   
   try {
-    // Get stored credentials (SAME PATTERN AS VITAL SIGNS)
-    // Use the same robust token management as vital signs
-    console.log('🔑 AI Job: Getting valid tokens using service user credentials');
-    const tokens = await getValidTokensForJob();
-    if (!tokens) {
-      throw new Error('Failed to get valid tokens for service user');
-    }
-    console.log('✅ AI Job: Got valid tokens using service user credentials');
+    const serviceUser = getServiceUser();
 
     // Perform the AI check with force flag
     const checkId = await aiNoteChecker.checkSingleNote(
-      tokens.accessToken,  // 1st: accessToken
+      serviceUser,         // 1st: EZDerm user
       encounterId,         // 2nd: encounterId  
       patientId,           // 3rd: patientId
       patientName,         // 4th: patientName
       chiefComplaint,      // 5th: chiefComplaint
       dateOfService,       // 6th: dateOfService
-      appConfig.ezderm.serviceUser, // 7th: checkedBy
+      serviceUser,         // 7th: checkedBy
       Boolean(force)       // 8th: force flag
     );
 
+    // checkSingleNote records failures instead of throwing; hand provider outages to the retry below
+    if (checkId.retryable) {
+      throw new LLMUnavailableError(checkId.errorMessage || `LLM provider unavailable for encounter ${encounterId}`);
+    }
+
     // Get the AI analysis result to check for issues
     const noteCheckResult = await vitalSignsDb.getNoteCheckResult(encounterId);
     
@@ -586,38 +514,21 @@ const processAINoteCheck = async (job: Job<AINoteCheckJobData>) => {
   } catch (error: any) {
     console.error(`❌ AI check failed for encounter: ${encounterId}`, error);
     
-    // Check if this is a retryable error from Anthropic (529 overloaded or timeout)
-    const isRetryableError = (
-      // 529 Overloaded errors
-      error.message?.includes('Request failed with status code 529') ||
-      error.message?.includes('Overloaded') ||
-      (error.response?.status === 529) ||
-      (error.response?.data?.error?.type === 'overloaded_error') ||
-      // Timeout errors
-      error.message?.includes('timeout of') ||
-      error.message?.includes('exceeded') ||
-      error.code === 'ECONNABORTED' ||
-      error.code === 'ETIMEDOUT'
-    );
-    
-    if (isRetryableError) {
-      // Determine error type for logging
-      const isTimeout = error.message?.includes('timeout') || error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
-      const errorType = isTimeout ? 'timeout' : 'overloaded (529)';
+    // Retry when the LLM provider was overloaded, rate limited or timed out
+    if (isRetryableLLMError(error)) {
+      console.log(`🔄 LLM provider unavailable for encounter ${encounterId}, will retry: ${error.message}`);
       
-      console.log(`🔄 Anthropic API ${errorType} for encounter ${encounterId}, will retry...`);
-      
-      // Get current attempt count
-      const attemptsMade = (job.attemptsMade || 0) + 1;
+      // Each retry is a new job, so the count travels in the job data
+      const attemptsMade = (job.data.llmRetries || 0) + 1;
       const maxRetries = 5; // Maximum 5 retries for API errors
       
       if (attemptsMade < maxRetries) {
         // Calculate exponential backoff delay (2^attempts * 30 seconds)
         const delaySeconds = Math.min(Math.pow(2, attemptsMade) * 30, 300); // Max 5 minutes
-        console.log(`⏱️ Scheduling retry ${attemptsMade}/${maxRetries} in ${delaySeconds} seconds for encounter ${encounterId} (${errorType})`);
+        console.log(`⏱️ Scheduling retry ${attemptsMade}/${maxRetries} in ${delaySeconds} seconds for encounter ${encounterId}`);
         
         // Re-enqueue the job with delay
-        await aiNoteCheckQueue.add('ai-note-check', job.data, {
+        await aiNoteCheckQueue.add('ai-note-check', { ...job.data, llmRetries: attemptsMade }, {
           delay: delaySeconds * 1000, // Convert to milliseconds
           attempts: 1, // Each retry is treated as a new job
           removeOnComplete: 10,
@@ -631,12 +542,12 @@ const processAINoteCheck = async (job: Job<AINoteCheckJobData>) => {
           status: 'retrying',
           attemptsMade,
           nextRetryIn: delaySeconds,
-          reason: `Anthropic API ${errorType}`,
+          reason: error.message,
           scanId
         };
       } else {
-        console.error(`❌ Max retries (${maxRetries}) exceeded for encounter ${encounterId} due to Anthropic ${errorType} errors`);
-        throw new Error(`AI analysis failed after ${maxRetries} retries due to Anthropic API ${errorType}`);
+        console.error(`❌ Max retries (${maxRetries}) exceeded for encounter ${encounterId} due to LLM provider errors`);
+        throw new Error(`AI analysis failed after ${maxRetries} retries: ${error.message}`);
       }
     }
     
@@ -645,6 +556,29 @@ const processAINoteCheck = async (job: Job<AINoteCheckJobData>) => {
   }
 };
 
+/**
+ * Register a recurring job's schedule with BullMQ, replacing the previous one, or remove it
+ * when disabled. Schedulers live in Redis, so the running worker picks the change up
+ * without a restart.
+ */
+export async function applyJobSchedule(schedule: JobSchedule): Promise<void> {
+  const { queue, schedulerId, jobName } = SCHEDULED_JOBS[schedule.jobName];
+
+  if (!schedule.enabled) {
+    await queue.removeJobScheduler(schedulerId);
+    console.log(`⏸️ ${schedule.jobName} schedule disabled`);
+    return;
+  }
+
+  const timeZone = schedule.timeZone || appConfig.ezderm.timeZone;
+  const data: AINoteScanJobData | {} = schedule.jobName === 'ai-note-scan' ? { scanId: `scan-${Date.now()}`, batchSize: 200 } : {};
+  await queue.upsertJobScheduler(schedulerId, { pattern: schedule.cronExpression, tz: timeZone }, { name: jobName, data });
+
+  const hours = schedule.activeFrom && schedule.activeUntil ? `, ${schedule.activeFrom}-${schedule.activeUntil}` : '';
+  const days = schedule.businessDays ? `, days ${schedule.businessDays.join(',')}` : '';
+  console.log(`🗓️ ${schedule.jobName} scheduled: "${schedule.cronExpression}" (${timeZone}${hours}${days})`);
+}
+
 // Workers - will be created only when explicitly started
 export let vitalSignsWorker: Worker | null = null;
 export let aiNoteScanWorker: Worker | null = null;
@@ -683,19 +617,10 @@ export async function startVitalSignsJob(): Promise<void> {
     // Resume the queue
     await vitalSignsQueue.resume();
     
-    // Add recurring job every 10 seconds
-    await vitalSignsQueue.add(
-      'process-vital-signs',
-      {},
-      {
-        repeat: {
-          every: 10000, // 10 seconds
-        },
-        jobId: 'vital-signs-carryforward', // Ensures only one instance
-      }
-    );
+    // Schedule the recurring job from its stored schedule
+    await applyJobSchedule(await loadJobSchedule('vital-signs'));
 
-    console.log('🚀 Vital signs carryforward job started (every 10 seconds)');
+    console.log('🚀 Vital signs carryforward job started');
   } catch (error) {
     console.error('Failed to start vital signs job:', error);
     throw error;
@@ -769,37 +694,35 @@ export async function startAINoteCheckingJob(): Promise<void> {
     await aiNoteScanQueue.resume();
     await aiNoteCheckQueue.resume();
 
-    // Schedule recurring AI note scans every 5 minutes
-    await aiNoteScanQueue.add('scan-incomplete-notes', {
-      scanId: `scan-${Date.now()}`,
-      batchSize: 200
-    }, {
-      repeat: {
-        every: 5 * 60 * 1000, // 5 minutes
-        immediately: true
-      },
-      jobId: 'recurring-ai-note-scan'
-    });
+    // Schedule recurring AI note scans from the stored schedule, and scan once now as before
+    const scanSchedule = await loadJobSchedule('ai-note-scan');
+    await applyJobSchedule(scanSchedule);
+    if (scanSchedule.enabled) {
+      await aiNoteScanQueue.add(SCHEDULED_JOBS['ai-note-scan'].jobName, {
+        scanId: `scan-${Date.now()}`,
+        batchSize: 200
+      });
+    }
 
     console.log('✅ AI note checking job system started successfully');
-    console.log('📋 Scheduled recurring AI note scans every 30 minutes');
   } catch (error) {
     console.error('Error starting AI note checking job system:', error);
     throw error;
   }
 }
 
-// Manually trigger an AI note scan
-export async function triggerAINoteScan(): Promise<string> {
+// Manually trigger an AI note scan, optionally limited to one clinic
+export async function triggerAINoteScan(clinicId?: string): Promise<string> {
   try {
     const scanId = `manual-scan-${Date.now()}`;
     
     await aiNoteScanQueue.add('manual-scan', {
       scanId,
-      batchSize: 200
+      batchSize: 200,
+      ...(clinicId && { clinicId })
     });
 
-    console.log(`🔍 Triggered manual AI note scan, scanId: ${scanId}`);
+    console.log(`🔍 Triggered manual AI note scan, scanId: ${scanId}${clinicId ? `, clinic: ${clinicId}` : ''}`);
     return scanId;
   } catch (error) {
     console.error('Error triggering AI note scan:', error);
@@ -844,6 +767,80 @@ export async function getAINoteJobStats() {
   }
 }
 
+// The worker running a queue in this process, if it has been started
+function getQueueWorker(queue: JobQueueName): Worker | null {
+  switch (queue) {
+    case 'vital-signs-processing': return vitalSignsWorker;
+    case 'ai-note-scan': return aiNoteScanWorker;
+    case 'ai-note-check': return aiNoteCheckWorker;
+  }
+}
+
+// Run a job control command sent by the API, returning a message for the acknowledgement
+async function executeJobControlCommand(command: JobControlCommand): Promise<string> {
+  if (command.action === 'run-vital-signs') {
+    // Every worker receives the command; the shared job id means only the first one queues a run
+    const job = await vitalSignsQueue.add('manual-vital-signs', {}, { jobId: `manual-vital-signs-${command.commandId}` });
+    return `Vital signs run queued (job ${job.id})`;
+  }
+
+  const queue = command.queue && CONTROLLED_QUEUES[command.queue];
+  if (!command.queue || !queue) {
+    throw new Error(`Unknown queue: ${command.queue}`);
+  }
+
+  switch (command.action) {
+    case 'pause':
+      await queue.pause();
+      return `${command.queue} paused`;
+    case 'resume':
+      await queue.resume();
+      return `${command.queue} resumed`;
+    case 'drain': {
+      // Only waiting jobs go; delayed ones include the next scheduled run
+      const waiting = await queue.getWaitingCount();
+      await queue.drain();
+      return `Removed ${waiting} waiting job(s) from ${command.queue}`;
+    }
+    case 'set-concurrency': {
+      const worker = getQueueWorker(command.queue);
+      if (!worker) {
+        throw new Error(`No ${command.queue} worker is running in ${WORKER_ID}`);
+      }
+      if (!command.concurrency || !Number.isInteger(command.concurrency) || command.concurrency < 1) {
+        throw new Error(`Invalid concurrency: ${command.concurrency}`);
+      }
+      worker.concurrency = command.concurrency;
+      return `${command.queue} concurrency set to ${command.concurrency}`;
+    }
+    default:
+      throw new Error(`Unknown job control action: ${command.action}`);
+  }
+}
+
+// This worker's queues as reported to the API
+async function getWorkerState(): Promise<WorkerState> {
+  const queueNames = Object.keys(CONTROLLED_QUEUES) as JobQueueName[];
+  const queues = await Promise.all(queueNames.map(async name => {
+    const queue = CONTROLLED_QUEUES[name];
+    const [paused, counts] = await Promise.all([
+      queue.isPaused(),
+      queue.getJobCounts('waiting', 'active', 'delayed', 'failed')
+    ]);
+    return {
+      queue: name,
+      paused,
+      concurrency: getQueueWorker(name)?.concurrency ?? 0,
+      waiting: counts.waiting ?? 0,
+      active: counts.active ?? 0,
+      delayed: counts.delayed ?? 0,
+      failed: counts.failed ?? 0
+    };
+  }));
+
+  return { workerId: WORKER_ID, startedAt: WORKER_STARTED_AT, reportedAt: new Date().toISOString(), queues };
+}
+
 // Stop the job systems
 export async function stopVitalSignsJob(): Promise<void> {
   try {
@@ -876,6 +873,24 @@ export async function stopAINoteCheckingJob(): Promise<void> {
   }
 }
 
+// Serve /health/live and /health/ready so the worker can be probed like the API
+function startHealthServer(): http.Server {
+  const port = parseInt(process.env.WORKER_HEALTH_PORT || '3002', 10);
+  const app = express();
+
+  app.use(healthRoutes('worker', [
+    databaseCheck(),
+    redisCheck(() => redis.ping()),
+    queuesCheck(Object.values(CONTROLLED_QUEUES), () => [vitalSignsWorker, aiNoteScanWorker, aiNoteCheckWorker]),
+    ezdermCheck(),
+    llmProvidersCheck(aiNoteChecker.getCheckTypes())
+  ]));
+
+  return app.listen(port, '0.0.0.0', () => {
+    console.log(`🏥 Worker health checks: http://0.0.0.0:${port}/health/ready`);
+  });
+}
+
 // Main execution when running as a standalone worker process
 async function main() {
   try {
@@ -897,20 +912,31 @@ async function main() {
     await startAINoteCheckingJob();
     console.log('✅ AI note checking job processor started');
 
+    // Take pause/resume/drain/concurrency commands from the API
+    await jobControl.listen(executeJobControlCommand, getWorkerState);
+
+    const healthServer = startHealthServer();
+
     console.log('🚀 Worker process is ready and listening for jobs!');
 
     // Handle graceful shutdown
     process.on('SIGTERM', async () => {
       console.log('📡 Received SIGTERM, shutting down gracefully...');
+      healthServer.close();
+      await jobControl.close(WORKER_ID);
       await stopVitalSignsJob();
       await stopAINoteCheckingJob();
+      await tokenBroker.close();
       process.exit(0);
     });
 
     process.on('SIGINT', async () => {
       console.log('📡 Received SIGINT, shutting down gracefully...');
+      healthServer.close();
+      await jobControl.close(WORKER_ID);
       await stopVitalSignsJob();
       await stopAINoteCheckingJob();
+      await tokenBroker.close();
       process.exit(0);
     });
 
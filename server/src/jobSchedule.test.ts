@@ -0,0 +1,30 @@
+import { isDueForRecheck } from './jobSchedule';
+
+const NOW = new Date('2025-06-02T15:00:00Z');
+const minutesAgo = (minutes: number) => new Date(NOW.getTime() - minutes * 60 * 1000);
+
+describe('isDueForRecheck', () => {
+  it('checks notes that have never been checked', () => {
+    expect(isDueForRecheck(null, 360, NOW)).toBe(true);
+  });
+
+  it('leaves completed checks alone inside the recheck window', () => {
+    expect(isDueForRecheck({ status: 'completed', checked_at: minutesAgo(30) }, 360, NOW)).toBe(false);
+    expect(isDueForRecheck({ status: 'completed', checked_at: minutesAgo(359) }, 360, NOW)).toBe(false);
+  });
+
+  it('rechecks completed checks once the window has passed', () => {
+    expect(isDueForRecheck({ status: 'completed', checked_at: minutesAgo(361) }, 360, NOW)).toBe(true);
+    expect(isDueForRecheck({ status: 'completed', checked_at: minutesAgo(61) }, 60, NOW)).toBe(true);
+  });
+
+  it('accepts checked_at as an ISO string', () => {
+    expect(isDueForRecheck({ status: 'completed', checked_at: minutesAgo(400).toISOString() }, 360, NOW)).toBe(true);
+    expect(isDueForRecheck({ status: 'completed', checked_at: minutesAgo(10).toISOString() }, 360, NOW)).toBe(false);
+  });
+
+  it('retries failed checks straight away', () => {
+    expect(isDueForRecheck({ status: 'error', checked_at: minutesAgo(1) }, 360, NOW)).toBe(true);
+    expect(isDueForRecheck({ status: 'parse_failed', checked_at: minutesAgo(1) }, 360, NOW)).toBe(true);
+  });
+});
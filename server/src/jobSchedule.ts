@@ -0,0 +1,81 @@
+import { vitalSignsDb } from './database';
+import { appConfig } from './config';
+import { getWallClockTime } from './dateRange';
+import { JobSchedule, NoteCheckStatus, ScheduledJobName } from './types';
+
+export const SCHEDULED_JOB_NAMES: ScheduledJobName[] = ['vital-signs', 'ai-note-scan'];
+
+// Used when the AI note scan schedule leaves its windows unset
+const DEFAULT_ELIGIBILITY_DELAY_MINUTES = 120;
+const DEFAULT_RECHECK_AFTER_MINUTES = 360;
+
+export interface NoteCheckWindows {
+  eligibilityDelayMinutes: number;
+  recheckAfterMinutes: number;
+}
+
+/**
+ * Rough shape check for a cron expression: 5 fields, or 6 with seconds first. BullMQ
+ * parses it properly when the schedule is applied.
+ */
+export function isValidCronExpression(expression: string): boolean {
+  const fields = expression.trim().split(/\s+/);
+  return (fields.length === 5 || fields.length === 6) && fields.every(field => /^[\d*/,\-?LW#A-Za-z]+$/.test(field));
+}
+
+/**
+ * Check an HH:MM time of day
+ */
+export function isValidTimeOfDay(value: string): boolean {
+  return /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+}
+
+/**
+ * Whether a scheduled run at `now` falls on a business day and inside the clinic hours
+ * of its schedule, in the schedule's time zone. A window ending before it starts
+ * (e.g. 22:00-06:00) runs overnight.
+ */
+export function isWithinActiveWindow(schedule: JobSchedule, now: Date = new Date()): boolean {
+  const wallClock = getWallClockTime(schedule.timeZone || appConfig.ezderm.timeZone, now);
+
+  if (schedule.businessDays && !schedule.businessDays.includes(wallClock.getUTCDay())) {
+    return false;
+  }
+
+  if (schedule.activeFrom && schedule.activeUntil) {
+    const time = wallClock.toISOString().slice(11, 16);
+    return schedule.activeFrom <= schedule.activeUntil
+      ? time >= schedule.activeFrom && time < schedule.activeUntil
+      : time >= schedule.activeFrom || time < schedule.activeUntil;
+  }
+
+  return true;
+}
+
+/**
+ * How old a note must be before it is checked and how long a check stays fresh, from the
+ * AI note scan schedule
+ */
+export async function getNoteCheckWindows(): Promise<NoteCheckWindows> {
+  const schedule = await vitalSignsDb.getJobSchedule('ai-note-scan');
+  return {
+    eligibilityDelayMinutes: schedule?.eligibilityDelayMinutes ?? DEFAULT_ELIGIBILITY_DELAY_MINUTES,
+    recheckAfterMinutes: schedule?.recheckAfterMinutes ?? DEFAULT_RECHECK_AFTER_MINUTES
+  };
+}
+
+/**
+ * Whether the AI note scan should check a note again, given its latest note_checks row (as
+ * stored, so `checked_at`). Failed checks are always retried; completed ones once they are
+ * older than the recheck window.
+ */
+export function isDueForRecheck(
+  lastCheck: { status: NoteCheckStatus; checked_at: Date | string } | null,
+  recheckAfterMinutes: number,
+  now: Date = new Date()
+): boolean {
+  if (!lastCheck || lastCheck.status === 'error' || lastCheck.status === 'parse_failed') {
+    return true;
+  }
+  return new Date(lastCheck.checked_at).getTime() < now.getTime() - recheckAfterMinutes * 60 * 1000;
+}
@@ -0,0 +1,156 @@
+import { vitalSignsDb } from './database';
+import { encounterFeed } from './encounterFeed';
+import { appConfig } from './config';
+import { getDayRange, getDayRangeForDate, getLocalDate } from './dateRange';
+import {
+  Clinic,
+  Encounter,
+  KioskBoardResponse,
+  KioskMaskingMode,
+  KioskPatient,
+  KioskPatientStatus,
+  WaitTimeStats
+} from './types';
+
+// Every screen in a waiting room polls, so the board is built at most this often per clinic
+const BOARD_CACHE_MS = 10000;
+// Typical stage times change slowly; re-read them at most this often
+const ESTIMATE_CACHE_MS = 5 * 60 * 1000;
+// Days of history behind the wait estimates, and the visits needed before estimating at all
+const ESTIMATE_HISTORY_DAYS = 14;
+const ESTIMATE_MIN_VISITS = 5;
+
+const STATUS_LABELS: Record<KioskPatientStatus, string> = {
+  waiting: 'Waiting to be roomed',
+  in_room: 'In exam room',
+  with_provider: 'With provider'
+};
+
+interface CachedBoard {
+  board: KioskBoardResponse;
+  builtAt: number;
+}
+
+interface CachedEstimates {
+  stats: WaitTimeStats | null;
+  loadedAt: number;
+}
+
+/**
+ * Initials plus the last two MRN digits, e.g. "JD-42". Enough for a patient to spot
+ * themselves without identifying them to the rest of the room.
+ */
+const maskPatient = (encounter: Encounter): string => {
+  const { firstName, lastName, medicalRecordNumber } = encounter.patientInfo;
+  const initials = `${firstName.charAt(0)}${lastName.charAt(0)}`.toUpperCase();
+  const mrnDigits = (medicalRecordNumber || '').replace(/\D/g, '').slice(-2);
+  return mrnDigits ? `${initials}-${mrnDigits}` : initials;
+};
+
+const getKioskStatus = (encounter: Encounter): KioskPatientStatus => {
+  if (encounter.status === 'CHECKED_IN') {
+    return 'waiting';
+  }
+  return encounter.status === 'WITH_PROVIDER' ? 'with_provider' : 'in_room';
+};
+
+const getArrivalTime = (encounter: Encounter): number => {
+  return new Date(encounter.arrivalTime || encounter.appointmentTime).getTime();
+};
+
+class KioskDisplay {
+  private boards = new Map<string, CachedBoard>();
+  private estimates = new Map<string, CachedEstimates>();
+
+  /**
+   * Kiosk screens aren't tied to a user, so the board is read with the EZDerm service account
+   */
+  isAvailable(): boolean {
+    return !!appConfig.ezderm.serviceUser && !!appConfig.ezderm.servicePassword;
+  }
+
+  /**
+   * Build the waiting-room board for a clinic: masked identifiers, a coarse status and an
+   * estimated wait, in arrival order. Nothing else about the encounter leaves the server.
+   */
+  async getBoard(clinic: Clinic, maskingMode: KioskMaskingMode, now: Date = new Date()): Promise<KioskBoardResponse> {
+    const cacheKey = `${clinic.clinicId}:${maskingMode}`;
+    const cached = this.boards.get(cacheKey);
+    if (cached && now.getTime() - cached.builtAt < BOARD_CACHE_MS) {
+      return cached.board;
+    }
+
+    const { encounters } = await encounterFeed.getActiveEncounters(appConfig.ezderm.serviceUser, clinic);
+    const inArrivalOrder = [...encounters].sort((a, b) => getArrivalTime(a) - getArrivalTime(b));
+
+    const [tickets, stats] = await Promise.all([
+      maskingMode === 'ticket'
+        ? vitalSignsDb.assignKioskTickets(clinic.clinicId, getLocalDate(clinic.timeZone, now), inArrivalOrder.map(enc => enc.id))
+        : Promise.resolve(null),
+      this.getStageStats(clinic, now)
+    ]);
+
+    const patients: KioskPatient[] = inArrivalOrder.map(encounter => {
+      const status = getKioskStatus(encounter);
+      const ticket = tickets?.get(encounter.id);
+      return {
+        displayId: tickets ? (ticket !== undefined ? `#${ticket}` : '#—') : maskPatient(encounter),
+        status,
+        statusLabel: STATUS_LABELS[status],
+        estimatedWaitMinutes: this.estimateWait(encounter, status, stats, now)
+      };
+    });
+
+    const board: KioskBoardResponse = {
+      clinicName: clinic.name,
+      timeZone: clinic.timeZone,
+      generatedAt: now.toISOString(),
+      patients
+    };
+
+    this.boards.set(cacheKey, { board, builtAt: now.getTime() });
+    return board;
+  }
+
+  /**
+   * Minutes until the next step: the clinic's typical door-to-room or room-to-provider time,
+   * less the time already spent in the current status. Patients with the provider have no wait.
+   */
+  private estimateWait(encounter: Encounter, status: KioskPatientStatus, stats: WaitTimeStats | null, now: Date): number | null {
+    if (status === 'with_provider') {
+      return null;
+    }
+
+    const stage = status === 'waiting' ? stats?.doorToRoom : stats?.roomToProvider;
+    if (!stage || stage.count < ESTIMATE_MIN_VISITS || stage.medianMinutes === null) {
+      return null;
+    }
+
+    // Waiting patients are measured from arrival; roomed ones from when their current status began
+    const startedAt = status === 'waiting' && encounter.arrivalTime ? encounter.arrivalTime : encounter.statusSince;
+    const elapsedMinutes = startedAt ? (now.getTime() - new Date(startedAt).getTime()) / 60000 : 0;
+    return Math.max(0, Math.round(stage.medianMinutes - elapsedMinutes));
+  }
+
+  private async getStageStats(clinic: Clinic, now: Date): Promise<WaitTimeStats | null> {
+    const cached = this.estimates.get(clinic.clinicId);
+    if (cached && now.getTime() - cached.loadedAt < ESTIMATE_CACHE_MS) {
+      return cached.stats;
+    }
+
+    try {
+      const rangeStart = getDayRangeForDate(clinic.timeZone, getLocalDate(clinic.timeZone, now, -ESTIMATE_HISTORY_DAYS)).start;
+      const rangeEnd = getDayRange(clinic.timeZone, now).end;
+      const [stats] = await vitalSignsDb.getWaitTimeStats(clinic.clinicId, clinic.timeZone, rangeStart, rangeEnd, 'overall');
+      this.estimates.set(clinic.clinicId, { stats: stats || null, loadedAt: now.getTime() });
+      return stats || null;
+    } catch (error) {
+      // Estimates are a nicety; show the board without them rather than failing
+      console.error(`❌ Failed to load kiosk wait estimates for ${clinic.name}:`, error);
+      return cached?.stats || null;
+    }
+  }
+}
+
+// Export singleton instance
+export const kioskDisplay = new KioskDisplay();
@@ -0,0 +1,102 @@
+import { isRetryableLLMError, LLMUnavailableError } from './llmProviders';
+import type { ActiveCheck } from './aiNoteChecker';
+import { PromptTemplateVersion } from './types';
+
+type LLMProvidersModule = typeof import('./llmProviders');
+type AINoteCheckerModule = typeof import('./aiNoteChecker');
+
+// The LLM settings are read from the environment when the modules load
+function loadWithEnv(env: Record<string, string>): { llmProviders: LLMProvidersModule['llmProviders']; aiNoteChecker: AINoteCheckerModule['aiNoteChecker'] } {
+  let modules!: { llmProviders: LLMProvidersModule['llmProviders']; aiNoteChecker: AINoteCheckerModule['aiNoteChecker'] };
+  jest.isolateModules(() => {
+    Object.assign(process.env, env);
+    modules = { llmProviders: require('./llmProviders').llmProviders, aiNoteChecker: require('./aiNoteChecker').aiNoteChecker };
+  });
+  return modules;
+}
+
+const ENV_NAMES = ['LLM_MODEL', 'LLM_CHECK_MODELS', 'LLM_FAKE_RESPONSE'];
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  for (const name of ENV_NAMES) {
+    delete process.env[name];
+  }
+});
+
+describe('llmProviders', () => {
+  it('runs each check on its configured model, falling back to LLM_MODEL', () => {
+    const { llmProviders } = loadWithEnv({ LLM_MODEL: 'fake', LLM_CHECK_MODELS: 'plan-check=fake:strict' });
+
+    expect(llmProviders.getModelChoice('plan-check')).toEqual({ provider: 'fake', model: 'strict' });
+    expect(llmProviders.forCheck('plan-check').model).toBe('strict');
+    expect(llmProviders.forCheck('accuracy-check')).toMatchObject({ name: 'fake', model: 'fake' });
+  });
+
+  it('shares one provider between checks on the same model', () => {
+    const { llmProviders } = loadWithEnv({ LLM_MODEL: 'fake' });
+    expect(llmProviders.forCheck('plan-check')).toBe(llmProviders.forCheck('accuracy-check'));
+  });
+
+  it('answers with LLM_FAKE_RESPONSE from the fake provider', async () => {
+    const { llmProviders } = loadWithEnv({ LLM_MODEL: 'fake', LLM_FAKE_RESPONSE: '{"status":"ok"}' });
+    await expect(llmProviders.forCheck('plan-check').complete('Any prompt')).resolves.toEqual({ text: '{"status":"ok"}', provider: 'fake', model: 'fake' });
+  });
+});
+
+describe('performSingleCheck with the fake provider', () => {
+  const prompt: PromptTemplateVersion = { id: 1, checkType: 'plan-check', versionNumber: 3, content: 'Check the plan.', createdAt: new Date() };
+  const note = '--- SUBJECTIVE ---\nItchy rash on both elbows.\n\n--- ASSESSMENT_AND_PLAN ---\n1. Psoriasis, continue.';
+
+  const runCheck = (env: Record<string, string>) => {
+    const { llmProviders, aiNoteChecker } = loadWithEnv({ LLM_MODEL: 'fake', ...env });
+    const check: ActiveCheck = { checkType: 'plan-check', prompt, provider: llmProviders.forCheck('plan-check') };
+    return aiNoteChecker.performSingleCheck(check, note);
+  };
+
+  it('passes the note with the default fake response', async () => {
+    await expect(runCheck({})).resolves.toEqual({ status: 'ok', reason: 'Fake provider: no issues reported' });
+  });
+
+  it('reports the issues given in LLM_FAKE_RESPONSE', async () => {
+    const response = {
+      status: 'corrections_needed',
+      reason: null,
+      summary: 'The psoriasis plan does not say what to continue',
+      issues: [{
+        assessment: 'Psoriasis',
+        issue: 'no_explicit_plan',
+        details: { HPI: 'Itchy rash on both elbows.', 'A&P': '1. Psoriasis, continue.', correction: 'Name the treatment to continue' }
+      }]
+    };
+
+    await expect(runCheck({ LLM_FAKE_RESPONSE: JSON.stringify(response) })).resolves.toEqual({
+      status: 'corrections_needed',
+      summary: 'The psoriasis plan does not say what to continue',
+      issues: [{
+        assessment: 'Psoriasis',
+        issue: 'no_explicit_plan',
+        details: { HPI: 'Itchy rash on both elbows.', 'A&P': '1. Psoriasis, continue.', correction: 'Name the treatment to continue' }
+      }]
+    });
+  });
+});
+
+describe('isRetryableLLMError', () => {
+  it('finds an outage through the errors wrapped around it', () => {
+    const outage = new LLMUnavailableError('anthropic temporarily unavailable (HTTP 529): Overloaded');
+    const checkFailed = new Error('plan-check check failed', { cause: outage });
+    expect(isRetryableLLMError(outage)).toBe(true);
+    expect(isRetryableLLMError(new Error('AI analysis failed', { cause: checkFailed }))).toBe(true);
+  });
+
+  it('does not retry requests that failed for good', () => {
+    expect(isRetryableLLMError(new Error('openai request failed (HTTP 400): Invalid schema'))).toBe(false);
+    expect(isRetryableLLMError(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,253 @@
+import axios from 'axios';
+import OpenAI from 'openai';
+import { appConfig } from './config';
+import { JSONSchema, LLMModelChoice, LLMProviderName } from './types';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+const ANTHROPIC_MAX_TOKENS = 8192;
+
+// Statuses that mean "try again later" rather than "this request is wrong" (529 is Anthropic's overloaded)
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504, 529];
+const RETRYABLE_CODES = ['ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'EAI_AGAIN'];
+
+const FAKE_RESPONSE = JSON.stringify({ status: 'ok', reason: 'Fake provider: no issues reported', summary: null, issues: [] });
+
+export interface LLMCompletion {
+  text: string;
+  provider: LLMProviderName;
+  model: string;
+}
+
+// A JSON schema the response must follow. Providers that support structured output are held
+// to it; the text they return is still only the JSON, for the caller to validate.
+export interface ResponseSchema {
+  name: string;
+  schema: JSONSchema;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  // Whether the credentials or endpoint the provider needs are set
+  isConfigured(): boolean;
+  complete(prompt: string, responseSchema?: ResponseSchema): Promise<LLMCompletion>;
+}
+
+/**
+ * A provider was overloaded, rate limited or timed out, so the request is worth making again later
+ */
+export class LLMUnavailableError extends Error {
+  override readonly name = 'LLMUnavailableError';
+}
+
+/**
+ * Whether an error, or one it was wrapped around, is an LLMUnavailableError
+ */
+export function isRetryableLLMError(error: unknown): boolean {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if (current instanceof LLMUnavailableError) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Turn an SDK or HTTP error into one with a readable message, an LLMUnavailableError when it is
+ * worth retrying
+ */
+function toLLMError(provider: LLMProviderName, error: any): Error {
+  const status: number | undefined = error?.status ?? error?.response?.status;
+  const timedOut = error?.name === 'APIConnectionTimeoutError' || error?.code === 'ECONNABORTED' || error?.code === 'ETIMEDOUT';
+  const detail = error?.response?.data?.error?.message || error?.error?.message || error?.message || 'unknown error';
+
+  if (timedOut || (status && RETRYABLE_STATUSES.includes(status)) || RETRYABLE_CODES.includes(error?.code) ||
+      error?.name === 'APIConnectionError' || error?.response?.data?.error?.type === 'overloaded_error') {
+    const reason = timedOut ? 'timeout' : status ? `HTTP ${status}` : error?.code || 'connection error';
+    return new LLMUnavailableError(`${provider} temporarily unavailable (${reason}): ${detail}`, { cause: error });
+  }
+  return new Error(`${provider} request failed${status ? ` (HTTP ${status})` : ''}: ${detail}`, { cause: error });
+}
+
+/**
+ * OpenAI's Responses API, with strict structured output when a schema is given
+ */
+class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  private client: OpenAI;
+
+  constructor(readonly model: string) {
+    this.client = new OpenAI({ apiKey: appConfig.llm.openaiApiKey, timeout: appConfig.llm.timeoutMs });
+  }
+
+  isConfigured(): boolean {
+    return !!appConfig.llm.openaiApiKey;
+  }
+
+  async complete(prompt: string, responseSchema?: ResponseSchema): Promise<LLMCompletion> {
+    try {
+      const response = await this.client.responses.create({
+        model: this.model,
+        input: prompt,
+        ...(responseSchema && {
+          text: { format: { type: 'json_schema', name: responseSchema.name, schema: { ...responseSchema.schema }, strict: true } }
+        })
+      });
+      return { text: response.output_text, provider: this.name, model: this.model };
+    } catch (error) {
+      throw toLLMError(this.name, error);
+    }
+  }
+}
+
+// A block of an Anthropic Messages API response: text, or the input of a tool the model called
+interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+  name?: string;
+  input?: unknown;
+}
+
+/**
+ * Anthropic's Messages API, called over HTTP. A schema is given to the model as the input of a
+ * tool it is made to call, and the tool input is returned as the response.
+ */
+class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+
+  constructor(readonly model: string) {}
+
+  isConfigured(): boolean {
+    return !!appConfig.llm.anthropicApiKey;
+  }
+
+  async complete(prompt: string, responseSchema?: ResponseSchema): Promise<LLMCompletion> {
+    try {
+      const response = await axios.post<{ content?: AnthropicContentBlock[] }>(ANTHROPIC_API_URL, {
+        model: this.model,
+        max_tokens: ANTHROPIC_MAX_TOKENS,
+        messages: [{ role: 'user', content: prompt }],
+        ...(responseSchema && {
+          tools: [{ name: responseSchema.name, description: 'Record the result of the analysis', input_schema: responseSchema.schema }],
+          tool_choice: { type: 'tool', name: responseSchema.name }
+        })
+      }, {
+        headers: {
+          'x-api-key': appConfig.llm.anthropicApiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+          'content-type': 'application/json'
+        },
+        timeout: appConfig.llm.timeoutMs
+      });
+
+      const content = response.data.content || [];
+      const toolUse = responseSchema && content.find(block => block.type === 'tool_use' && block.name === responseSchema.name);
+      const text = toolUse
+        ? JSON.stringify(toolUse.input)
+        : content.filter(block => block.type === 'text').map(block => block.text).join('');
+      return { text, provider: this.name, model: this.model };
+    } catch (error) {
+      throw toLLMError(this.name, error);
+    }
+  }
+}
+
+/**
+ * A self-hosted model behind an OpenAI-compatible chat completions endpoint (vLLM, Ollama, ...)
+ */
+class LocalProvider implements LLMProvider {
+  readonly name = 'local' as const;
+  private client: OpenAI;
+
+  constructor(readonly model: string) {
+    this.client = new OpenAI({
+      baseURL: appConfig.llm.localBaseUrl,
+      // Most local servers ignore the key, but the SDK insists on one
+      apiKey: appConfig.llm.localApiKey || 'local',
+      timeout: appConfig.llm.timeoutMs
+    });
+  }
+
+  isConfigured(): boolean {
+    return !!appConfig.llm.localBaseUrl;
+  }
+
+  async complete(prompt: string, responseSchema?: ResponseSchema): Promise<LLMCompletion> {
+    try {
+      const response = await this.client.chat.completions.create({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        // Servers that support guided decoding constrain the output to the schema
+        ...(responseSchema && {
+          response_format: { type: 'json_schema', json_schema: { name: responseSchema.name, schema: { ...responseSchema.schema }, strict: true } }
+        })
+      });
+      return { text: response.choices[0]?.message?.content || '', provider: this.name, model: this.model };
+    } catch (error) {
+      throw toLLMError(this.name, error);
+    }
+  }
+}
+
+/**
+ * Answers every prompt with the same response (LLM_FAKE_RESPONSE, or a fixed "ok" result)
+ * without calling anything, for tests and local runs
+ */
+class FakeProvider implements LLMProvider {
+  readonly name = 'fake' as const;
+
+  constructor(readonly model: string) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(prompt: string, responseSchema?: ResponseSchema): Promise<LLMCompletion> {
+    return { text: appConfig.llm.fakeResponse || FAKE_RESPONSE, provider: this.name, model: this.model };
+  }
+}
+
+/**
+ * Hands out the provider configured for each AI note check type (LLM_CHECK_MODELS, falling
+ * back to LLM_MODEL), so models can be swapped per check without code changes
+ */
+class LLMProviderRegistry {
+  private providers = new Map<string, LLMProvider>();
+
+  /**
+   * The provider and model a check type runs on
+   */
+  forCheck(checkType: string): LLMProvider {
+    return this.get(this.getModelChoice(checkType));
+  }
+
+  /**
+   * Which provider and model a check type is configured to use
+   */
+  getModelChoice(checkType: string): LLMModelChoice {
+    return appConfig.llm.checkModels[checkType] || appConfig.llm.defaultModel;
+  }
+
+  private get(choice: LLMModelChoice): LLMProvider {
+    const key = `${choice.provider}:${choice.model}`;
+    let provider = this.providers.get(key);
+    if (!provider) {
+      provider = this.create(choice);
+      this.providers.set(key, provider);
+    }
+    return provider;
+  }
+
+  private create({ provider, model }: LLMModelChoice): LLMProvider {
+    switch (provider) {
+      case 'openai': return new OpenAIProvider(model);
+      case 'anthropic': return new AnthropicProvider(model);
+      case 'local': return new LocalProvider(model);
+      case 'fake': return new FakeProvider(model);
+    }
+  }
+}
+
+// Export singleton instance
+export const llmProviders = new LLMProviderRegistry();
@@ -0,0 +1,94 @@
+import { vitalSignsDb } from './database';
+import { ezdermClient } from './ezdermClient';
+import { aiNoteChecker } from './aiNoteChecker';
+import { BulkSignOffNote, BulkSignOffResponse, BulkSignOffResult, EZDermSignOffRequest } from './types';
+
+/**
+ * The sign-off request EZDerm expects for an encounter (see SignOff.md)
+ */
+export const buildSignOffRequest = (encounterId: string, status?: string): EZDermSignOffRequest => ({
+  room: 0,
+  dateOfArrival: new Date().toISOString(),
+  status: status || 'SIGNED_OFF',
+  id: encounterId
+});
+
+class NoteSignOff {
+  /**
+   * Sign off several notes one after another. Each note is only signed if its latest AI check
+   * completed with no open issues, the user is its attending provider, it isn't signed off yet
+   * and its content still matches what was checked; otherwise it is skipped with a reason.
+   */
+  async signOffCleanNotes(username: string, notes: BulkSignOffNote[]): Promise<BulkSignOffResponse> {
+    const tokens = await ezdermClient.getValidTokens(username);
+    if (!tokens) {
+      throw new Error('Unable to obtain valid tokens. Please login again.');
+    }
+    const providerId = ezdermClient.getProviderId(tokens.accessToken);
+
+    const results: BulkSignOffResult[] = [];
+    const seen = new Set<string>();
+    for (const note of notes) {
+      if (seen.has(note.encounterId)) continue;
+      seen.add(note.encounterId);
+      results.push(await this.signOffIfClean(username, providerId, note));
+    }
+
+    const count = (outcome: BulkSignOffResult['outcome']) => results.filter(result => result.outcome === outcome).length;
+    const response = { results, signedOff: count('signed_off'), skipped: count('skipped'), failed: count('failed') };
+    console.log(`🖊️ Bulk sign-off by ${username}: ${response.signedOff} signed off, ${response.skipped} skipped, ${response.failed} failed`);
+    return response;
+  }
+
+  /**
+   * Check that one note qualifies for bulk sign-off and sign it
+   */
+  private async signOffIfClean(username: string, providerId: string, note: BulkSignOffNote): Promise<BulkSignOffResult> {
+    const { encounterId, patientId } = note;
+    const skip = (reason: string): BulkSignOffResult => {
+      console.log(`⏭️ Bulk sign-off skipped encounter ${encounterId}: ${reason}`);
+      return { encounterId, patientId, outcome: 'skipped', reason };
+    };
+
+    try {
+      const check = await vitalSignsDb.getNoteCheckByEncounterId(encounterId);
+      if (!check || check.status !== 'completed') {
+        return skip('Note has no completed AI check');
+      }
+      if (await vitalSignsDb.hasValidIssues(encounterId)) {
+        return skip('Note has open issues');
+      }
+
+      const encounterDetails = await aiNoteChecker.fetchEncounterDetails(username, encounterId);
+      const attendingProvider = (encounterDetails.encounterRoleInfoList || []).find(
+        member => member.encounterRoleType === 'PROVIDER' && member.active
+      );
+      if (attendingProvider?.providerId !== providerId) {
+        return skip('You are not the attending provider');
+      }
+
+      const progressNote = await aiNoteChecker.fetchProgressNote(username, encounterId, patientId);
+      if (progressNote.progressNotes.some(section => section.sectionType === 'POST_SIGNOFF_INFO')) {
+        return skip('Note is already signed off');
+      }
+      if (!check.note_content_md5 || aiNoteChecker.calculateNoteContentMd5(progressNote) !== check.note_content_md5) {
+        return skip('Note changed since it was checked; re-check it first');
+      }
+    } catch (error: any) {
+      console.error(`❌ Bulk sign-off could not verify encounter ${encounterId}:`, error.message);
+      return { encounterId, patientId, outcome: 'failed', reason: error.message };
+    }
+
+    try {
+      await ezdermClient.signOff(username, patientId, buildSignOffRequest(encounterId));
+      console.log(`✅ Bulk sign-off signed encounter ${encounterId}`);
+      return { encounterId, patientId, outcome: 'signed_off' };
+    } catch (error: any) {
+      console.error(`❌ Bulk sign-off failed for encounter ${encounterId}:`, error.message);
+      return { encounterId, patientId, outcome: 'failed', reason: error.response?.data?.error || error.message };
+    }
+  }
+}
+
+// Export singleton instance
+export const noteSignOff = new NoteSignOff();
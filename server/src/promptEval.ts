@@ -0,0 +1,384 @@
+import { config } from 'dotenv';
+import { vitalSignsDb } from './database';
+import { aiNoteChecker, ActiveCheck } from './aiNoteChecker';
+import { isSchemaValidationFailure } from './analysisSchema';
+import { deidentify } from './deidentify';
+import { AIAnalysisIssue, LabeledIssue, NewPromptEvalSample, PromptEvalResult, PromptEvalSample, ReviewedNoteCheck } from './types';
+
+// Load environment variables
+config();
+
+/*
+ * Prompt regression harness.
+ *
+ * Scores AI check prompt versions against a corpus of de-identified notes labeled by reviewers:
+ * an issue the AI reported on a note is expected if nobody marked it invalid, and expected
+ * absent if someone did. Each check type is scored per issue type, treating every note as one
+ * yes/no call per issue type. Results are stored per prompt version and model, so a version is
+ * only sent to the provider once and reports and diffs are free.
+ */
+
+const USAGE = `Usage: npm run prompt-eval -- <command>
+
+  seed                                        Add notes with issues marked invalid to the corpus (and refresh their labels)
+  run [--check <type>] [--version <n>]        Evaluate each check type's active prompt, or one version of one check
+      [--limit <n>] [--force]                 Only the first n samples / re-run samples already evaluated
+  report [--check <type>]                     Precision and recall per issue type for every evaluated prompt version
+  diff <check-type> <version-a> <version-b>   Compare two prompt versions side by side, evaluating them first if needed
+      [--limit <n>]`;
+
+interface CommandLine {
+  command: string | undefined;
+  args: string[];
+  options: Record<string, string | true>;
+}
+
+interface IssueTypeScore {
+  issueType: AIAnalysisIssue['issue'];
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+}
+
+function parseCommandLine(argv: string[]): CommandLine {
+  const args: string[] = [];
+  const options: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (arg.startsWith('--')) {
+      const next = argv[i + 1];
+      if (next !== undefined && !next.startsWith('--')) {
+        options[arg.slice(2)] = next;
+        i++;
+      } else {
+        options[arg.slice(2)] = true;
+      }
+    } else {
+      args.push(arg);
+    }
+  }
+  const [command, ...rest] = args;
+  return { command, args: rest, options };
+}
+
+function parseCount(value: string | true | undefined, name: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const count = typeof value === 'string' ? parseInt(value, 10) : NaN;
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`${name} must be a positive whole number`);
+  }
+  return count;
+}
+
+/**
+ * Turn a reviewed note check into a sample: the issues marked invalid are rejected, the rest expected
+ */
+function toSample(check: ReviewedNoteCheck): NewPromptEvalSample {
+  const isInvalid = (issue: LabeledIssue) => check.invalidIssues.some(invalid =>
+    invalid.issue === issue.issue && invalid.assessment === issue.assessment
+  );
+  const label = (issue: LabeledIssue): LabeledIssue => ({
+    issue: issue.issue,
+    assessment: deidentify(issue.assessment, check.patientName)
+  });
+  const reported = (check.aiAnalysis.issues || []).map(({ issue, assessment }) => ({ issue, assessment }));
+
+  return {
+    sourceMd5: check.noteContentMd5,
+    noteContent: deidentify(check.noteContent, check.patientName),
+    expectedIssues: reported.filter(issue => !isInvalid(issue)).map(label),
+    rejectedIssues: check.invalidIssues.map(label),
+    labelSource: 'mark-invalid'
+  };
+}
+
+async function seed(): Promise<void> {
+  const reviewed = await vitalSignsDb.getReviewedNoteChecks();
+  for (const check of reviewed) {
+    await vitalSignsDb.savePromptEvalSample(toSample(check));
+  }
+  const samples = await vitalSignsDb.getPromptEvalSamples();
+  console.log(`✅ Seeded ${reviewed.length} reviewed note(s); the corpus has ${samples.length} sample(s)`);
+}
+
+/**
+ * Run a check over the samples it hasn't been evaluated on with this prompt version and model
+ * (or all of them when forced), storing what it reported
+ */
+async function evaluate(check: ActiveCheck, samples: PromptEvalSample[], force: boolean): Promise<void> {
+  const { checkType, prompt, provider } = check;
+  const existing = await vitalSignsDb.getPromptEvalResults(checkType, prompt.versionNumber);
+  const evaluated = new Set(existing
+    .filter(result => result.provider === provider.name && result.model === provider.model)
+    .map(result => result.sampleId));
+  const pending = force ? samples : samples.filter(sample => !evaluated.has(sample.id));
+
+  console.log(`🧪 Evaluating ${checkType} v${prompt.versionNumber} (${provider.name}:${provider.model}) on ${pending.length} sample(s), ${samples.length - pending.length} already evaluated`);
+
+  for (const sample of pending) {
+    const base = { sampleId: sample.id, checkType, promptVersion: prompt.versionNumber, provider: provider.name, model: provider.model };
+    try {
+      const analysis = await aiNoteChecker.performSingleCheck(check, sample.noteContent);
+      await vitalSignsDb.savePromptEvalResult({
+        ...base,
+        status: 'completed',
+        reportedIssues: (analysis.issues || []).map(({ issue, assessment }) => ({ issue, assessment }))
+      });
+    } catch (error: any) {
+      await vitalSignsDb.savePromptEvalResult({
+        ...base,
+        status: isSchemaValidationFailure(error) ? 'parse_failed' : 'error',
+        reportedIssues: [],
+        errorMessage: error.message
+      });
+    }
+  }
+}
+
+async function getCheck(checkType: string, version: number | undefined): Promise<ActiveCheck> {
+  if (version !== undefined) {
+    return aiNoteChecker.getCheckAtVersion(checkType, version);
+  }
+  const check = (await aiNoteChecker.getActiveChecks()).find(active => active.checkType === checkType);
+  if (!check) {
+    throw new Error(`Unknown check type: ${checkType}`);
+  }
+  return check;
+}
+
+function requireCheckType(checkType: string | true | undefined): string | undefined {
+  if (checkType === true || (checkType !== undefined && !aiNoteChecker.getCheckTypes().includes(checkType))) {
+    throw new Error(`--check must be one of ${aiNoteChecker.getCheckTypes().join(', ')}`);
+  }
+  return checkType;
+}
+
+async function run(options: CommandLine['options']): Promise<void> {
+  const checkType = requireCheckType(options.check);
+  const version = parseCount(options.version, '--version');
+  if (version !== undefined && !checkType) {
+    throw new Error('--version needs --check');
+  }
+
+  const samples = await vitalSignsDb.getPromptEvalSamples(parseCount(options.limit, '--limit'));
+  if (samples.length === 0) {
+    throw new Error('The corpus is empty. Run "seed" first.');
+  }
+
+  const checks = [];
+  for (const type of checkType ? [checkType] : aiNoteChecker.getCheckTypes()) {
+    checks.push(await getCheck(type, version));
+  }
+  for (const check of checks) {
+    await evaluate(check, samples, options.force === true);
+  }
+
+  for (const check of checks) {
+    const results = await vitalSignsDb.getPromptEvalResults(check.checkType, check.prompt.versionNumber);
+    printScores(check.checkType, results.filter(result => result.provider === check.provider.name && result.model === check.provider.model), samples);
+  }
+}
+
+function expectedTypes(sample: PromptEvalSample, issueTypes: AIAnalysisIssue['issue'][]): Set<string> {
+  return new Set(sample.expectedIssues.map(issue => issue.issue).filter(issue => issueTypes.includes(issue)));
+}
+
+function reportedTypes(result: PromptEvalResult, issueTypes: AIAnalysisIssue['issue'][]): Set<string> {
+  return new Set(result.reportedIssues.map(issue => issue.issue).filter(issue => issueTypes.includes(issue)));
+}
+
+/**
+ * Count each issue type's hits and misses over the completed results, one yes/no call per note
+ */
+function score(checkType: string, results: PromptEvalResult[], samples: Map<number, PromptEvalSample>): IssueTypeScore[] {
+  return aiNoteChecker.getIssueTypes(checkType).map(issueType => {
+    const issueScore: IssueTypeScore = { issueType, truePositives: 0, falsePositives: 0, falseNegatives: 0 };
+    for (const result of results) {
+      const sample = samples.get(result.sampleId);
+      if (!sample || result.status !== 'completed') {
+        continue;
+      }
+      const expected = expectedTypes(sample, [issueType]).size > 0;
+      const reported = reportedTypes(result, [issueType]).size > 0;
+      if (expected && reported) issueScore.truePositives++;
+      if (!expected && reported) issueScore.falsePositives++;
+      if (expected && !reported) issueScore.falseNegatives++;
+    }
+    return issueScore;
+  });
+}
+
+function formatRatio(numerator: number, denominator: number): string {
+  return denominator === 0 ? '—' : `${(numerator / denominator * 100).toFixed(1)}%`;
+}
+
+function precision(issueScore: IssueTypeScore): string {
+  return formatRatio(issueScore.truePositives, issueScore.truePositives + issueScore.falsePositives);
+}
+
+function recall(issueScore: IssueTypeScore): string {
+  return formatRatio(issueScore.truePositives, issueScore.truePositives + issueScore.falseNegatives);
+}
+
+function printScores(checkType: string, results: PromptEvalResult[], samples: PromptEvalSample[]): void {
+  const sampleMap = new Map(samples.map(sample => [sample.id, sample]));
+  const scored = results.filter(result => sampleMap.has(result.sampleId));
+  const failed = scored.filter(result => result.status !== 'completed').length;
+  const first = scored[0];
+
+  console.log(`\n📊 ${checkType}${first ? ` v${first.promptVersion} (${first.provider}:${first.model})` : ''}: ${scored.length - failed} scored, ${failed} failed`);
+  console.table(score(checkType, scored, sampleMap).map(issueScore => ({
+    'issue type': issueScore.issueType,
+    TP: issueScore.truePositives,
+    FP: issueScore.falsePositives,
+    FN: issueScore.falseNegatives,
+    precision: precision(issueScore),
+    recall: recall(issueScore)
+  })));
+}
+
+async function report(options: CommandLine['options']): Promise<void> {
+  const checkType = requireCheckType(options.check);
+  const samples = await vitalSignsDb.getPromptEvalSamples();
+  const results = await vitalSignsDb.getPromptEvalResults(checkType);
+  if (results.length === 0) {
+    console.log('ℹ️ No prompt versions have been evaluated yet. Run "run" first.');
+    return;
+  }
+
+  // Results come ordered by check type, version, provider and model
+  const groups = new Map<string, PromptEvalResult[]>();
+  for (const result of results) {
+    const key = `${result.checkType}|${result.promptVersion}|${result.provider}|${result.model}`;
+    groups.set(key, [...(groups.get(key) || []), result]);
+  }
+  const registered = aiNoteChecker.getCheckTypes();
+  for (const group of groups.values()) {
+    const { checkType: groupCheckType, promptVersion, provider, model } = group[0]!;
+    // Results outlive their check type's module; there are no issue types left to score them by
+    if (!registered.includes(groupCheckType)) {
+      console.log(`\n⚠️ ${groupCheckType} v${promptVersion} (${provider}:${model}): ${group.length} result(s) not scored, ${groupCheckType} is no longer a registered check type`);
+      continue;
+    }
+    printScores(groupCheckType, group, samples);
+  }
+}
+
+/**
+ * What a result said about a note, for listing side by side: the issue types, "ok" or why it failed
+ */
+function describeOutcome(result: PromptEvalResult | undefined, issueTypes: AIAnalysisIssue['issue'][]): string {
+  if (!result) return 'not evaluated';
+  if (result.status !== 'completed') return result.status;
+  const reported = [...reportedTypes(result, issueTypes)].sort();
+  return reported.length > 0 ? reported.join(', ') : 'ok';
+}
+
+function isCorrect(result: PromptEvalResult | undefined, expected: Set<string>, issueTypes: AIAnalysisIssue['issue'][]): boolean {
+  if (!result || result.status !== 'completed') {
+    return false;
+  }
+  const reported = reportedTypes(result, issueTypes);
+  return reported.size === expected.size && [...reported].every(issue => expected.has(issue));
+}
+
+async function diff(args: string[], options: CommandLine['options']): Promise<void> {
+  const [checkType, versionA, versionB] = args;
+  requireCheckType(checkType);
+  if (!checkType || !versionA || !versionB) {
+    throw new Error('diff needs a check type and two version numbers');
+  }
+
+  const samples = await vitalSignsDb.getPromptEvalSamples(parseCount(options.limit, '--limit'));
+  if (samples.length === 0) {
+    throw new Error('The corpus is empty. Run "seed" first.');
+  }
+  const checkA = await aiNoteChecker.getCheckAtVersion(checkType, parseCount(versionA, 'version-a')!);
+  const checkB = await aiNoteChecker.getCheckAtVersion(checkType, parseCount(versionB, 'version-b')!);
+  await evaluate(checkA, samples, false);
+  await evaluate(checkB, samples, false);
+
+  // Both versions are compared on the model the check is configured for now
+  const { name: provider, model } = checkA.provider;
+  const resultsFor = async (check: ActiveCheck) => {
+    const results = await vitalSignsDb.getPromptEvalResults(checkType, check.prompt.versionNumber);
+    return new Map(results
+      .filter(result => result.provider === provider && result.model === model)
+      .map(result => [result.sampleId, result]));
+  };
+  const resultsA = await resultsFor(checkA);
+  const resultsB = await resultsFor(checkB);
+  const sampleMap = new Map(samples.map(sample => [sample.id, sample]));
+  const labelA = `v${checkA.prompt.versionNumber}`;
+  const labelB = `v${checkB.prompt.versionNumber}`;
+
+  const scoresA = score(checkType, [...resultsA.values()], sampleMap);
+  const scoresB = score(checkType, [...resultsB.values()], sampleMap);
+  console.log(`\n📊 ${checkType} ${labelA} vs ${labelB} (${provider}:${model}) on ${samples.length} sample(s)`);
+  console.table(scoresA.map((scoreA, index) => {
+    const scoreB = scoresB[index]!;
+    return {
+      'issue type': scoreA.issueType,
+      [`${labelA} precision`]: precision(scoreA),
+      [`${labelB} precision`]: precision(scoreB),
+      [`${labelA} recall`]: recall(scoreA),
+      [`${labelB} recall`]: recall(scoreB)
+    };
+  }));
+
+  const issueTypes = aiNoteChecker.getIssueTypes(checkType);
+  const changed = samples.flatMap(sample => {
+    const resultA = resultsA.get(sample.id);
+    const resultB = resultsB.get(sample.id);
+    const outcomeA = describeOutcome(resultA, issueTypes);
+    const outcomeB = describeOutcome(resultB, issueTypes);
+    if (outcomeA === outcomeB) {
+      return [];
+    }
+    const expected = expectedTypes(sample, issueTypes);
+    const correctA = isCorrect(resultA, expected, issueTypes);
+    const correctB = isCorrect(resultB, expected, issueTypes);
+    return [{
+      sample: sample.id,
+      expected: expected.size > 0 ? [...expected].sort().join(', ') : 'ok',
+      [labelA]: outcomeA,
+      [labelB]: outcomeB,
+      change: correctB && !correctA ? 'fixed' : correctA && !correctB ? 'regressed' : 'changed'
+    }];
+  });
+
+  if (changed.length === 0) {
+    console.log(`✅ ${labelA} and ${labelB} agree on every sample`);
+    return;
+  }
+  console.log(`\n🔀 ${changed.length} sample(s) with a different outcome`);
+  console.table(changed);
+}
+
+async function main(): Promise<void> {
+  const { command, args, options } = parseCommandLine(process.argv.slice(2));
+  if (!command || !['seed', 'run', 'report', 'diff'].includes(command)) {
+    console.log(USAGE);
+    process.exitCode = command ? 1 : 0;
+    return;
+  }
+
+  await vitalSignsDb.initialize();
+  try {
+    switch (command) {
+      case 'seed': await seed(); break;
+      case 'run': await run(options); break;
+      case 'report': await report(options); break;
+      case 'diff': await diff(args, options); break;
+    }
+  } finally {
+    await vitalSignsDb.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Prompt evaluation failed:', error.message);
+  process.exitCode = 1;
+});
@@ -0,0 +1,79 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { vitalSignsDb } from './database';
+import { llmProviders } from './llmProviders';
+import { checkTypes } from './checkTypes';
+import { PromptTemplateSummary, PromptTemplateVersion } from './types';
+
+/**
+ * The AI checks' prompts, stored in the database as numbered versions. A check type runs its
+ * pinned version, or its latest when none is pinned. The markdown files in src/prompts are
+ * only the first version: each is imported the first time its check type is needed.
+ */
+class PromptTemplates {
+  // Check types known to have a version stored, so the import is only attempted once per process
+  private imported = new Set<string>();
+
+  /**
+   * The prompt version each check type runs with, by check type
+   */
+  async getActive(checkTypes: string[]): Promise<Map<string, PromptTemplateVersion>> {
+    await this.importMissing(checkTypes);
+    const templates = await vitalSignsDb.getActivePromptTemplates(checkTypes);
+    return new Map(templates.map(template => [template.checkType, template]));
+  }
+
+  /**
+   * Each check type's latest, active and pinned versions and the model it runs on
+   */
+  async getSummaries(checkTypes: string[]): Promise<PromptTemplateSummary[]> {
+    await this.importMissing(checkTypes);
+    const states = await vitalSignsDb.getPromptTemplateStates(checkTypes);
+    return states.map(state => ({
+      ...state,
+      activeVersion: state.pinnedVersion ?? state.latestVersion,
+      model: llmProviders.getModelChoice(state.checkType)
+    }));
+  }
+
+  private async importMissing(checkTypes: string[]): Promise<void> {
+    const missing = checkTypes.filter(checkType => !this.imported.has(checkType));
+    if (missing.length === 0) {
+      return;
+    }
+
+    // Check types with a version stored don't need their file
+    for (const { checkType } of await vitalSignsDb.getPromptTemplateStates(missing)) {
+      this.imported.add(checkType);
+    }
+
+    for (const checkType of missing.filter(checkType => !this.imported.has(checkType))) {
+      const bundled = await this.readBundledPrompt(checkType);
+      // Nothing is stored without the file, so the import is tried again on the next call
+      if (!bundled) {
+        continue;
+      }
+      await vitalSignsDb.seedPromptTemplate(checkType, bundled.content, `Imported from ${bundled.source}`);
+      this.imported.add(checkType);
+    }
+  }
+
+  private async readBundledPrompt(checkType: string): Promise<{ content: string; source: string } | null> {
+    const check = checkTypes.get(checkType);
+    if (!check) {
+      throw new Error(`Unknown check type: ${checkType}`);
+    }
+
+    const promptPath = path.join(__dirname, 'prompts', check.promptFile);
+    try {
+      const content = await fs.readFile(promptPath, 'utf8');
+      return { content, source: `src/prompts/${check.promptFile}` };
+    } catch (error) {
+      console.error(`❌ ${checkType} has no stored prompt and ${promptPath} can't be read, so ${checkType} can't run until it is deployed:`, error);
+      return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const promptTemplates = new PromptTemplates();
@@ -0,0 +1,158 @@
+import { EZDermTokens } from './types';
+
+type TokenBrokerModule = typeof import('./tokenBroker');
+
+// An in-memory Redis shared by every broker, standing in for the one the processes share
+const mockRedisState = { values: new Map<string, string>(), down: false };
+
+jest.mock('ioredis', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => {
+    const { values } = mockRedisState;
+    const reachable = () => {
+      if (mockRedisState.down) {
+        throw new Error('connect ECONNREFUSED 127.0.0.1:6379');
+      }
+    };
+    return {
+      on: () => undefined,
+      get: async (key: string) => {
+        reachable();
+        return values.get(key) ?? null;
+      },
+      set: async (key: string, value: string, ...options: unknown[]) => {
+        reachable();
+        if (options.includes('NX') && values.has(key)) {
+          return null;
+        }
+        values.set(key, value);
+        return 'OK';
+      },
+      del: async (key: string) => {
+        reachable();
+        return values.delete(key) ? 1 : 0;
+      },
+      // Only the release-lock script is ever run
+      eval: async (_script: string, _keyCount: number, key: string, value: string) => {
+        reachable();
+        if (values.get(key) !== value) {
+          return 0;
+        }
+        values.delete(key);
+        return 1;
+      },
+      quit: async () => 'OK'
+    };
+  })
+}));
+
+// Each load is a separate broker, like one in the API and one in the worker
+function loadBroker(): TokenBrokerModule['tokenBroker'] {
+  let loaded!: TokenBrokerModule['tokenBroker'];
+  jest.isolateModules(() => {
+    loaded = require('./tokenBroker').tokenBroker;
+  });
+  return loaded;
+}
+
+const tokens = (accessToken: string): EZDermTokens => ({ accessToken, refreshToken: `refresh-${accessToken}`, serverUrl: 'https://srvprod.ezinfra.net' });
+
+// A refresh that finishes when the test says so
+function deferredRefresh() {
+  let finish!: (value: EZDermTokens | null) => void;
+  const refreshFn = jest.fn(() => new Promise<EZDermTokens | null>(resolve => {
+    finish = resolve;
+  }));
+  return { refreshFn, finish: (value: EZDermTokens | null) => finish(value) };
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+beforeEach(() => {
+  mockRedisState.values.clear();
+  mockRedisState.down = false;
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('tokenBroker', () => {
+  it('shares stored tokens between processes', async () => {
+    await loadBroker().store('jdoe', tokens('a1'));
+    await expect(loadBroker().get('jdoe')).resolves.toEqual(tokens('a1'));
+  });
+
+  it('drops cached tokens on invalidate', async () => {
+    const broker = loadBroker();
+    await broker.store('jdoe', tokens('a1'));
+    await broker.invalidate('jdoe');
+    await expect(broker.get('jdoe')).resolves.toBeNull();
+  });
+
+  it('runs one refresh for concurrent callers in a process', async () => {
+    const broker = loadBroker();
+    const { refreshFn, finish } = deferredRefresh();
+
+    const first = broker.refresh('jdoe', refreshFn);
+    const second = broker.refresh('jdoe', refreshFn);
+    await flush();
+    finish(tokens('a2'));
+
+    await expect(Promise.all([first, second])).resolves.toEqual([tokens('a2'), tokens('a2')]);
+    expect(refreshFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('makes another process wait for the lock holder to finish', async () => {
+    const api = loadBroker();
+    const worker = loadBroker();
+    const holder = deferredRefresh();
+    const waiter = jest.fn(async () => tokens('a3'));
+
+    const apiRefresh = api.refresh('jdoe', holder.refreshFn);
+    await flush();
+    expect(holder.refreshFn).toHaveBeenCalledTimes(1);
+
+    const workerRefresh = worker.refresh('jdoe', waiter);
+    await new Promise(resolve => setTimeout(resolve, 300));
+    expect(waiter).not.toHaveBeenCalled();
+
+    holder.finish(tokens('a2'));
+    await expect(apiRefresh).resolves.toEqual(tokens('a2'));
+    await expect(workerRefresh).resolves.toEqual(tokens('a3'));
+    expect(waiter).toHaveBeenCalledTimes(1);
+    expect(mockRedisState.values.has('ezderm:token-lock:jdoe')).toBe(false);
+  });
+
+  it('lets refreshes for different users run side by side', async () => {
+    const broker = loadBroker();
+    const jdoe = deferredRefresh();
+    const asmith = deferredRefresh();
+
+    const jdoeRefresh = broker.refresh('jdoe', jdoe.refreshFn);
+    const asmithRefresh = broker.refresh('asmith', asmith.refreshFn);
+    await flush();
+    expect(jdoe.refreshFn).toHaveBeenCalledTimes(1);
+    expect(asmith.refreshFn).toHaveBeenCalledTimes(1);
+
+    jdoe.finish(tokens('j1'));
+    asmith.finish(tokens('s1'));
+    await expect(Promise.all([jdoeRefresh, asmithRefresh])).resolves.toEqual([tokens('j1'), tokens('s1')]);
+  });
+
+  it('keeps working without the cache or lock when Redis is down', async () => {
+    const broker = loadBroker();
+    mockRedisState.down = true;
+
+    await expect(broker.store('jdoe', tokens('a1'))).resolves.toBeUndefined();
+    await expect(broker.get('jdoe')).resolves.toBeNull();
+    await expect(broker.invalidate('jdoe')).resolves.toBeUndefined();
+    await expect(broker.refresh('jdoe', async () => tokens('a2'))).resolves.toEqual(tokens('a2'));
+
+    mockRedisState.down = false;
+    await broker.store('jdoe', tokens('a3'));
+    await expect(broker.get('jdoe')).resolves.toEqual(tokens('a3'));
+  });
+});
@@ -0,0 +1,173 @@
+import crypto from 'crypto';
+import IORedis from 'ioredis';
+import { appConfig } from './config';
+import { credentialCrypto } from './credentialCrypto';
+import { EZDermTokens } from './types';
+
+// Cached tokens live as long as storeTokens says an access token does
+const TOKEN_TTL_MS = 10 * 60 * 1000;
+// A refresh or re-login that takes longer than this loses the lock to the next caller
+const LOCK_TTL_MS = parseInt(process.env.TOKEN_LOCK_TTL_MS || '30000', 10);
+// How long to wait for another process's refresh before doing our own
+const LOCK_WAIT_MS = LOCK_TTL_MS + 5000;
+const LOCK_POLL_MS = 200;
+
+const TOKEN_KEY_PREFIX = 'ezderm:tokens:';
+const LOCK_KEY_PREFIX = 'ezderm:token-lock:';
+
+// Only delete the lock if we still hold it
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0`;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Shares EZDerm tokens between the API and worker processes. The current tokens for each
+ * user are cached (encrypted) in Redis, and refreshes run under a per-user Redis lock so
+ * only one process talks to EZDerm while the others wait for its result. When Redis is
+ * unreachable everything still works from the database, just without the shared lock.
+ */
+class TokenBroker {
+  private redis: IORedis | null = null;
+  private redisAvailable = true;
+  // Refreshes in flight in this process, so concurrent requests share one
+  private refreshes = new Map<string, Promise<EZDermTokens | null>>();
+
+  /**
+   * Get a user's cached tokens, or null when nothing is cached
+   */
+  async get(username: string): Promise<EZDermTokens | null> {
+    try {
+      const value = await this.getRedis().get(TOKEN_KEY_PREFIX + username);
+      this.markAvailable();
+      return value ? JSON.parse(credentialCrypto.decrypt(value)) : null;
+    } catch (error) {
+      this.markUnavailable(error);
+      return null;
+    }
+  }
+
+  /**
+   * Publish a user's current tokens to every process
+   */
+  async store(username: string, tokens: EZDermTokens): Promise<void> {
+    try {
+      const value = credentialCrypto.encrypt(JSON.stringify(tokens));
+      await this.getRedis().set(TOKEN_KEY_PREFIX + username, value, 'PX', TOKEN_TTL_MS);
+      this.markAvailable();
+    } catch (error) {
+      this.markUnavailable(error);
+    }
+  }
+
+  /**
+   * Drop a user's cached tokens so the next request reloads them
+   */
+  async invalidate(username: string): Promise<void> {
+    try {
+      await this.getRedis().del(TOKEN_KEY_PREFIX + username);
+      this.markAvailable();
+    } catch (error) {
+      this.markUnavailable(error);
+    }
+  }
+
+  /**
+   * Run a token refresh for a user at most once at a time across all processes. Callers
+   * in this process join a refresh already in flight; other processes wait for the Redis
+   * lock and should re-check the cache first thing, since the holder will usually have
+   * stored fresh tokens by then.
+   */
+  async refresh(username: string, refreshFn: () => Promise<EZDermTokens | null>): Promise<EZDermTokens | null> {
+    const inFlight = this.refreshes.get(username);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const refresh = this.withLock(username, refreshFn).finally(() => {
+      this.refreshes.delete(username);
+    });
+    this.refreshes.set(username, refresh);
+    return refresh;
+  }
+
+  /**
+   * Close the Redis connection
+   */
+  async close(): Promise<void> {
+    if (this.redis) {
+      await this.redis.quit().catch(() => undefined);
+      this.redis = null;
+    }
+  }
+
+  private async withLock(username: string, refreshFn: () => Promise<EZDermTokens | null>): Promise<EZDermTokens | null> {
+    const lockKey = LOCK_KEY_PREFIX + username;
+    const lockValue = crypto.randomBytes(16).toString('hex');
+    const locked = await this.acquireLock(lockKey, lockValue);
+
+    try {
+      return await refreshFn();
+    } finally {
+      if (locked) {
+        await this.getRedis().eval(RELEASE_LOCK_SCRIPT, 1, lockKey, lockValue).catch(error => this.markUnavailable(error));
+      }
+    }
+  }
+
+  private async acquireLock(lockKey: string, lockValue: string): Promise<boolean> {
+    const deadline = Date.now() + LOCK_WAIT_MS;
+
+    try {
+      while (Date.now() < deadline) {
+        if (await this.getRedis().set(lockKey, lockValue, 'PX', LOCK_TTL_MS, 'NX')) {
+          this.markAvailable();
+          return true;
+        }
+        await sleep(LOCK_POLL_MS);
+      }
+
+      console.warn(`⚠️ Timed out waiting for token lock ${lockKey}, refreshing without it`);
+      return false;
+    } catch (error) {
+      this.markUnavailable(error);
+      return false;
+    }
+  }
+
+  private getRedis(): IORedis {
+    if (!this.redis) {
+      this.redis = new IORedis({
+        host: appConfig.redis.host,
+        port: appConfig.redis.port,
+        ...(appConfig.redis.password && { password: appConfig.redis.password }),
+        // Same TLS rule as the BullMQ connection
+        ...((appConfig.redis.tls || appConfig.nodeEnv === 'production') && { tls: { rejectUnauthorized: false } }),
+        // Give up on a command quickly during an outage so callers fall back to the database
+        maxRetriesPerRequest: 1
+      });
+      this.redis.on('error', () => undefined);
+    }
+    return this.redis;
+  }
+
+  private markAvailable(): void {
+    if (!this.redisAvailable) {
+      console.log('✅ Token broker reconnected to Redis');
+      this.redisAvailable = true;
+    }
+  }
+
+  private markUnavailable(error: unknown): void {
+    if (this.redisAvailable) {
+      console.warn('⚠️ Token broker cannot reach Redis, falling back to the database:', error instanceof Error ? error.message : error);
+      this.redisAvailable = false;
+    }
+  }
+}
+
+// Export singleton instance
+export const tokenBroker = new TokenBroker();
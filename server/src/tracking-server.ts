@@ -1,7 +1,5 @@
 import express, { Request, Response } from 'express';
 import cors from 'cors';
-import axios from './axiosConfig';
-import { AxiosResponse } from 'axios';
 import rateLimit from 'express-rate-limit';
 import { config } from 'dotenv';
 import crypto from 'crypto';
@@ -9,28 +7,85 @@ import { vitalSignsDb } from './database';
 import { vitalSignsService } from './vitalSignsService';
 import { 
   triggerAINoteScan, 
-  getAINoteJobStats 
+  getAINoteJobStats,
+  applyJobSchedule
 } from './jobProcessor';
 import { aiNoteChecker } from './aiNoteChecker';
+import { ezdermClient } from './ezdermClient';
 import { appConfig } from './config';
+import { getDayRange, getDayRangeForDate, getLocalDate, isValidLocalDate, isValidTimeZone } from './dateRange';
+import { encounterFeed, transformEZDermEncounter, ACTIVE_STATUSES } from './encounterFeed';
+import { waitTimeAlerts, ALERT_SEVERITIES } from './waitTimeAlerts';
+import { summarizeClinicFlow } from './clinicFlow';
+import { kioskDisplay } from './kioskDisplay';
+import { accessControl, USER_ROLES } from './accessControl';
+import { tokenBroker } from './tokenBroker';
+import { hpiHistory } from './hpiHistory';
+import { noteSignOff, buildSignOffRequest } from './noteSignOff';
+import { getNoteCheckWindows, isValidCronExpression, isValidTimeOfDay, SCHEDULED_JOB_NAMES } from './jobSchedule';
+import { jobControl, JOB_QUEUE_NAMES, JOB_CONTROL_ACTIONS, MAX_WORKER_CONCURRENCY } from './jobControl';
+import { healthRoutes, databaseCheck, redisCheck, workerHeartbeatCheck, ezdermCheck, llmProvidersCheck } from './healthCheck';
+import { promptTemplates } from './promptTemplates';
+import { checkTypes } from './checkTypes';
 import {
   LoginRequest,
   LoginResponse,
   EncountersRequest,
   EncountersResponse,
+  StreamTicketResponse,
   LogoutRequest,
   ErrorResponse,
   HealthResponse,
-  EZDermLoginRequest,
-  EZDermLoginResponse,
   EZDermEncounterFilter,
-  EZDermEncounter,
   Encounter,
-  EncounterStatus,
-  StoredTokens,
-  TokenStore,
   RefreshTokenRequest,
-  RefreshTokenResponse
+  RefreshTokenResponse,
+  Clinic,
+  ClinicsResponse,
+  CreateClinicRequest,
+  UpdateClinicRequest,
+  WaitTimeGroupBy,
+  WaitTimeAnalyticsResponse,
+  ClinicFlowAnalyticsResponse,
+  WaitTimeAlertRule,
+  WaitTimeAlertRulesResponse,
+  CreateWaitTimeAlertRuleRequest,
+  UpdateWaitTimeAlertRuleRequest,
+  KioskMaskingMode,
+  KioskBoardResponse,
+  KioskDisplayToken,
+  KioskDisplayTokensResponse,
+  CreateKioskDisplayTokenRequest,
+  CreateKioskDisplayTokenResponse,
+  Permission,
+  UserRole,
+  UserRoleAssignment,
+  UserRolesResponse,
+  UpdateUserRoleRequest,
+  UserSession,
+  UserSessionsResponse,
+  AuditAction,
+  AuditEventsResponse,
+  HpiVersionsResponse,
+  RevertHpiRequest,
+  BulkSignOffRequest,
+  BulkSignOffResponse,
+  JobSchedule,
+  JobSchedulesResponse,
+  JobControlRequest,
+  JobControlResponse,
+  JobControlStateResponse,
+  JobQueueName,
+  ScheduledJobName,
+  UpdateJobScheduleRequest,
+  UpdateSessionLabelRequest,
+  PromptTemplatesResponse,
+  CheckTypesResponse,
+  PromptTemplateSummary,
+  PromptTemplateVersion,
+  PromptTemplateVersionsResponse,
+  CreatePromptTemplateVersionRequest,
+  PinPromptTemplateRequest
 } from './types';
 
 // Load environment variables
@@ -54,12 +109,10 @@ app.use(cors({
 app.use(express.json());
 app.use('/', limiter);
 
-// Store tokens in memory (in production, use Redis or a database)
-const tokenStore: TokenStore = new Map<string, StoredTokens>();
-
 // Session configuration
 const SESSION_DURATION = 8 * 60 * 60 * 1000; // 8 hours in milliseconds
 const REFRESH_TOKEN_DURATION = 30 * 24 * 60 * 60 * 1000; // 30 days in milliseconds
+const STREAM_TICKET_DURATION = 60 * 1000; // 60 seconds in milliseconds
 
 // Generate secure session token
 function generateSessionToken(): string {
@@ -95,7 +148,8 @@ async function validateSession(req: Request, res: Response, next: any): Promise<
 
     console.log('✅ Session validation successful for user:', session.username);
     // Add user info to request
-    (req as any).user = { username: session.username };
+    const access = await accessControl.getAccess(session.username);
+    (req as any).user = { username: session.username, sessionToken, role: access.role, permissions: access.permissions };
     next();
   } catch (error) {
     console.error('💥 Session validation middleware error:', error);
@@ -103,73 +157,77 @@ async function validateSession(req: Request, res: Response, next: any): Promise<
   }
 }
 
-// EZDerm API endpoints
-const EZDERM_LOGIN_URL = 'https://login.ezinfra.net/api/login';
-const EZDERM_REFRESH_URL = 'https://login.ezinfra.net/api/refreshToken/getAccessToken';
-const EZDERM_API_BASE = 'https://srvprod.ezinfra.net';
+// Permission middleware, used after validateSession: rejects users whose role doesn't allow the action
+function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: any): void => {
+    const user = (req as any).user;
 
-// Constants
-const TOKEN_EXPIRY_MS = 600000; // 10 minutes
-const DEFAULT_CLINIC_ID = '44b62760-50a1-488c-92ed-e0c7aa3cde92';
-const DEFAULT_PRACTICE_ID = '4cc96922-4d83-4183-863b-748d69de621f';
-const ACTIVE_STATUSES: EncounterStatus[] = [
-  'CHECKED_IN', 
-  'IN_ROOM', 
-  'WITH_PROVIDER',
-  'WITH_STAFF',
-  'READY_FOR_STAFF',
-  'READY_FOR_PROVIDER'
-];
-
-// Utility functions
-const formatDateStartOfDay = (date: Date): string => {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}T00:00:00-0400`;
-};
+    if (!user?.permissions?.includes(permission)) {
+      console.log(`🚫 ${user?.username || 'Unknown user'} (${user?.role || 'no role'}) denied ${req.method} ${req.path}: missing ${permission}`);
+      res.status(403).json({ error: 'You do not have permission to perform this action', details: `Requires ${permission}` });
+      return;
+    }
 
-const formatDateEndOfDay = (date: Date): string => {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}T23:59:59-0400`;
-};
+    next();
+  };
+}
+
+// Hash a kiosk display token or stream ticket; only the hash is stored
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Kiosk token middleware: read-only access for waiting-room screens, not tied to any user
+async function validateKioskToken(req: Request, res: Response, next: any): Promise<void> {
+  try {
+    const kioskToken = req.headers['x-kiosk-token'];
+
+    if (typeof kioskToken !== 'string' || !kioskToken) {
+      res.status(401).json({ error: 'No kiosk token provided' });
+      return;
+    }
 
-const isTokenExpired = (tokens: StoredTokens): boolean => {
-  return Date.now() - tokens.timestamp > TOKEN_EXPIRY_MS;
+    const display = await vitalSignsDb.getKioskDisplayTokenByHash(hashToken(kioskToken));
+
+    if (!display) {
+      console.log('❌ Kiosk token validation failed - token not found or revoked');
+      res.status(401).json({ error: 'Invalid or revoked kiosk token' });
+      return;
+    }
+
+    // Add display info to request
+    (req as any).kioskDisplay = display;
+    vitalSignsDb.touchKioskDisplayToken(display.id).catch(error => {
+      console.error('❌ Failed to update kiosk display last use:', error);
+    });
+    next();
+  } catch (error) {
+    console.error('💥 Kiosk token middleware error:', error);
+    res.status(500).json({ error: 'Kiosk token validation failed' });
+  }
+}
+
+// Constants
+const MAX_DEVICE_LABEL_LENGTH = 100;
+const HPI_CONFLICT_MESSAGE = 'This note was changed in EZDerm since you opened it. Reload it and try again.';
+const HPI_EXPECTED_MD5_MESSAGE = 'expectedMd5 (the noteContentMd5 of the note as loaded) is required';
+const MAX_BULK_SIGN_OFF_NOTES = 50;
+
+// Tidy a device label from a request; blank labels clear it
+const normalizeDeviceLabel = (deviceLabel: unknown): string | null => {
+  return typeof deviceLabel === 'string' && deviceLabel.trim() ? deviceLabel.trim().slice(0, MAX_DEVICE_LABEL_LENGTH) : null;
 };
 
-const transformEZDermEncounter = (encounter: EZDermEncounter): Encounter => {
-  return {
-    id: encounter.id,
-    patientName: `${encounter.patientInfo.firstName} ${encounter.patientInfo.lastName}`,
-    patientInfo: {
-      id: encounter.patientInfo.id,
-      firstName: encounter.patientInfo.firstName,
-      lastName: encounter.patientInfo.lastName,
-      dateOfBirth: encounter.patientInfo.dateOfBirth,
-      gender: encounter.patientInfo.gender,
-      medicalRecordNumber: encounter.patientInfo.medicalRecordNumber,
-      ...(encounter.patientInfo.phoneNumber && { phoneNumber: encounter.patientInfo.phoneNumber }),
-      ...(encounter.patientInfo.emailAddress && { emailAddress: encounter.patientInfo.emailAddress })
-    },
-    appointmentTime: encounter.dateOfService,
-    ...(encounter.dateOfArrival && { arrivalTime: encounter.dateOfArrival }),
-    chiefComplaint: encounter.chiefComplaintName,
-    status: encounter.status,
-    room: encounter.room || 'N/A',
-    providers: encounter.encounterRoleInfoList.map(role => ({
-      id: role.providerId,
-      name: `${role.firstName} ${role.lastName}`,
-      role: role.encounterRoleType,
-      title: role.title || ''
-    })),
-    clinicName: encounter.clinicName,
-    appointmentType: encounter.appointmentType.name,
-    appointmentColor: encounter.appointmentType.color,
-    establishedPatient: encounter.establishedPatient
-  };
+// Resolve the clinic a request operates on: the requested clinic if it is registered
+// and active, otherwise the first active clinic. Returns null when nothing matches.
+const resolveClinic = async (clinicId?: string): Promise<Clinic | null> => {
+  if (clinicId) {
+    const clinic = await vitalSignsDb.getClinic(clinicId);
+    return clinic?.isActive ? clinic : null;
+  }
+
+  const clinics = await vitalSignsDb.getClinics();
+  return clinics[0] || null;
 };
 
 // Login endpoint
@@ -177,6 +235,7 @@ app.post('/login', async (req: Request<{}, LoginResponse | ErrorResponse, LoginR
   try {
     console.log('🔐 Login attempt received');
     const { username, password } = req.body;
+    const deviceLabel = normalizeDeviceLabel(req.body.deviceLabel);
 
     if (!username || !password) {
       console.log('❌ Login failed: Missing username or password');
@@ -186,44 +245,18 @@ app.post('/login', async (req: Request<{}, LoginResponse | ErrorResponse, LoginR
 
     console.log(`🔐 Attempting login for user: ${username}`);
 
-    // Prepare EZDerm login request
-    const loginData: EZDermLoginRequest = {
-      username,
-      password,
-      application: 'EZDERM',
-      timeZoneId: 'America/Detroit',
-      clientVersion: '4.28.0'
-    };
-
     // Make request to EZDerm login API
     console.log(`🌐 Making login request to EZDerm API for user: ${username}`);
-    const loginResponse: AxiosResponse<EZDermLoginResponse> = await axios.post(EZDERM_LOGIN_URL, loginData, {
-      headers: {
-        'Host': 'login.ezinfra.net',
-        'accept': 'application/json',
-        'content-type': 'application/json',
-        'user-agent': 'ezDerm/4.28.0 (com.ezderm.ezderm; build:132.19; macOS(Catalyst) 15.5.0) Alamofire/5.10.2',
-        'accept-language': 'en-US;q=1.0'
-      }
-    });
+    const loginResponse = await ezdermClient.login(username, password);
 
     console.log(`✅ EZDerm API login successful for user: ${username}`);
 
-    const { accessToken, refreshToken: ezDermRefreshToken, servers } = loginResponse.data;
+    const { accessToken, refreshToken: ezDermRefreshToken, servers } = loginResponse;
 
-    // Store user credentials in database for job system
-    await vitalSignsDb.storeUserCredentials(username, password);
-    await vitalSignsDb.storeTokens(username, accessToken, ezDermRefreshToken, servers.app);
-
-    // Store tokens with username as key (for backwards compatibility with existing endpoints)
-    const tokenData: StoredTokens = {
-      accessToken,
-      refreshToken: ezDermRefreshToken,
-      serverUrl: servers.app,
-      timestamp: Date.now()
-    };
-    
-    tokenStore.set(username, tokenData);
+    // Store user credentials in database for job system. Without the password, the user can
+    // only be re-logged in while their EZDerm refresh token lasts.
+    await vitalSignsDb.storeUserCredentials(username, appConfig.credentials.persistPasswords ? password : null);
+    await ezdermClient.storeLoginTokens(username, { accessToken, refreshToken: ezDermRefreshToken, serverUrl: servers.app });
 
     // Create session and refresh token
     const sessionToken = generateSessionToken();
@@ -241,10 +274,14 @@ app.post('/login', async (req: Request<{}, LoginResponse | ErrorResponse, LoginR
       refreshExpiresAt: refreshExpiresAt.toISOString()
     });
 
-    await vitalSignsDb.createSession(sessionToken, username, sessionExpiresAt, userAgent, ipAddress);
+    await vitalSignsDb.createSession(sessionToken, username, sessionExpiresAt, userAgent, ipAddress, deviceLabel || undefined);
     await vitalSignsDb.createRefreshToken(userRefreshToken, sessionToken, username, refreshExpiresAt);
     console.log('✅ Session and refresh token created successfully');
 
+    // Pick up title changes in EZDerm at every login (manually assigned roles are kept)
+    await accessControl.syncRole(username, true);
+    const access = await accessControl.getAccess(username);
+
     // Return success response with session and refresh tokens
     res.json({
       success: true,
@@ -252,7 +289,9 @@ app.post('/login', async (req: Request<{}, LoginResponse | ErrorResponse, LoginR
       serverUrl: servers.app,
       sessionToken,
       refreshToken: userRefreshToken,
-      expiresAt: sessionExpiresAt.toISOString()
+      expiresAt: sessionExpiresAt.toISOString(),
+      role: access.role,
+      permissions: access.permissions
     });
 
   } catch (error: any) {
@@ -277,76 +316,44 @@ app.post('/login', async (req: Request<{}, LoginResponse | ErrorResponse, LoginR
 });
 
 // Get encounters endpoint
-app.post('/encounters', validateSession, async (req: Request<{}, EncountersResponse | ErrorResponse, EncountersRequest>, res: Response<EncountersResponse | ErrorResponse>) => {
+app.post('/encounters', validateSession, requirePermission('board:view'), async (req: Request<{}, EncountersResponse | ErrorResponse, EncountersRequest>, res: Response<EncountersResponse | ErrorResponse>) => {
   try {
     const username = (req as any).user.username; // From session validation middleware
     const { dateRangeStart, dateRangeEnd, clinicId, providerIds } = req.body;
 
+    // Only clinics in the registry can be queried
+    const clinic = await resolveClinic(clinicId);
+    if (!clinic) {
+      res.status(400).json({
+        error: clinicId ? `Unknown or inactive clinic: ${clinicId}` : 'No active clinics are configured'
+      });
+      return;
+    }
+
     // Get valid tokens (with automatic refresh if needed)
-    const userTokens = await getValidTokens(username);
+    const userTokens = await ezdermClient.getValidTokens(username);
     if (!userTokens) {
       res.status(401).json({ error: 'Unable to obtain valid tokens. Please login again.' });
       return;
     }
 
-    // Get today's date for default range (start of day to end of day)
-    const today = new Date();
-
-    // Prepare request data exactly like the curl command
-    const encounterData: EZDermEncounterFilter = {
-      dateOfServiceRangeHigh: dateRangeEnd || formatDateEndOfDay(today),
-      clinicId: clinicId || DEFAULT_CLINIC_ID,
-      providerIds: providerIds || [],
-      practiceId: DEFAULT_PRACTICE_ID,
-      dateOfServiceRangeLow: dateRangeStart || formatDateStartOfDay(today),
-      lightBean: true,
-      dateSelection: 'SPECIFY_RANGE'
-    };
-
-
-    // Make request to EZDerm encounters API
-    const encountersResponse: AxiosResponse<EZDermEncounter[]> = await axios.post(
-      `${userTokens.serverUrl}ezderm-webservice/rest/encounter/getByFilter`,
-      encounterData,
-      {
-        headers: {
-          'Host': 'srvprod.ezinfra.net',
-          'accept': 'application/json',
-          'content-type': 'application/json',
-          'authorization': `Bearer ${userTokens.accessToken}`,
-          'user-agent': 'ezDerm/4.28.0 (build:132.19; macOS(Catalyst) 15.5.0)',
-          'accept-language': 'en-US;q=1.0'
-        }
-      }
-    );
-
-    // Process and format the encounters data
-    const allEncounters: Encounter[] = encountersResponse.data.map(transformEZDermEncounter);
-
-    // Filter to only show patients currently in clinic (not checked out)
-    const activeEncounters = allEncounters.filter(encounter => {
-      return ACTIVE_STATUSES.includes(encounter.status);
-    });
-
-    // Sort by appointment time in ascending order
-    const sortedEncounters = activeEncounters.sort((a, b) => {
-      const timeA = new Date(a.appointmentTime).getTime();
-      const timeB = new Date(b.appointmentTime).getTime();
-      return timeA - timeB;
+    // Patients currently in clinic, sorted by appointment time
+    const { encounters, total } = await encounterFeed.getActiveEncounters(username, clinic, {
+      ...(dateRangeStart && { dateRangeStart }),
+      ...(dateRangeEnd && { dateRangeEnd }),
+      ...(providerIds && { providerIds })
     });
 
-    console.log(`Found ${sortedEncounters.length} active patients out of ${allEncounters.length} total`);
+    console.log(`Found ${encounters.length} active patients out of ${total} total at ${clinic.name}`);
 
-    res.json({ encounters: sortedEncounters });
+    res.json({ encounters });
 
   } catch (error: any) {
     console.error('Encounters error:', error.response?.data || error.message);
     
     if (error.response?.status === 401) {
-      const { username } = req.body;
-      if (username) {
-        tokenStore.delete(username);
-      }
+      // EZDerm rejected even freshly refreshed tokens, so don't hand them to anyone else
+      await tokenBroker.invalidate((req as any).user.username);
       res.status(401).json({ error: 'Authentication failed. Please login again.' });
       return;
     }
@@ -359,6 +366,65 @@ app.post('/encounters', validateSession, async (req: Request<{}, EncountersRespo
   }
 });
 
+// Issue a ticket for opening the encounter stream. EventSource can't send headers, so the stream
+// takes this in its query string instead of the session token, which would end up in access logs.
+app.post('/encounters/stream-ticket', validateSession, requirePermission('board:view'), async (req: Request, res: Response<StreamTicketResponse | ErrorResponse>): Promise<void> => {
+  try {
+    const ticket = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + STREAM_TICKET_DURATION);
+    await vitalSignsDb.createStreamTicket(hashToken(ticket), (req as any).user.sessionToken, expiresAt);
+
+    res.json({ ticket, expiresAt: expiresAt.toISOString() });
+  } catch (error: any) {
+    console.error('Error issuing stream ticket:', error);
+    res.status(500).json({ error: 'Failed to issue stream ticket', details: error.message });
+  }
+});
+
+// Stream encounter changes for a clinic over Server-Sent Events. Each ticket opens one stream.
+app.get('/encounters/stream', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const ticket = typeof req.query.ticket === 'string' ? req.query.ticket : undefined;
+    const clinicId = typeof req.query.clinicId === 'string' ? req.query.clinicId : undefined;
+
+    if (!ticket) {
+      res.status(401).json({ error: 'No stream ticket provided' });
+      return;
+    }
+
+    const sessionToken = await vitalSignsDb.redeemStreamTicket(hashToken(ticket));
+    if (!sessionToken) {
+      res.status(401).json({ error: 'Invalid, used or expired stream ticket' });
+      return;
+    }
+
+    const session = await vitalSignsDb.validateSession(sessionToken);
+    if (!session) {
+      res.status(401).json({ error: 'Invalid or expired session' });
+      return;
+    }
+
+    const access = await accessControl.getAccess(session.username);
+    if (!access.permissions.includes('board:view')) {
+      res.status(403).json({ error: 'You do not have permission to perform this action', details: 'Requires board:view' });
+      return;
+    }
+
+    const clinic = await resolveClinic(clinicId);
+    if (!clinic) {
+      res.status(400).json({ error: clinicId ? `Unknown or inactive clinic: ${clinicId}` : 'No active clinics are configured' });
+      return;
+    }
+
+    encounterFeed.subscribe(clinic, { ...session, sessionToken }, res);
+  } catch (error: any) {
+    console.error('Encounter stream error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to open encounter stream', details: error.message });
+    }
+  }
+});
+
 // Session validation endpoint
 app.post('/validate-session', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -387,10 +453,14 @@ app.post('/validate-session', async (req: Request, res: Response): Promise<void>
       expiresAt: session.expiresAt
     });
 
+    const access = await accessControl.getAccess(session.username);
+
     res.json({ 
       valid: true, 
       username: session.username,
-      expiresAt: session.expiresAt.toISOString()
+      expiresAt: session.expiresAt.toISOString(),
+      role: access.role,
+      permissions: access.permissions
     });
   } catch (error) {
     console.error('💥 Session validation error:', error);
@@ -398,173 +468,1102 @@ app.post('/validate-session', async (req: Request, res: Response): Promise<void>
   }
 });
 
-// Refresh token endpoint
-app.post('/refresh-token', async (req: Request<{}, RefreshTokenResponse | ErrorResponse, RefreshTokenRequest>, res: Response<RefreshTokenResponse | ErrorResponse>): Promise<void> => {
+// Refresh token endpoint
+app.post('/refresh-token', async (req: Request<{}, RefreshTokenResponse | ErrorResponse, RefreshTokenRequest>, res: Response<RefreshTokenResponse | ErrorResponse>): Promise<void> => {
+  try {
+    const { refreshToken } = req.body;
+    
+    console.log('🔄 Refresh token request received');
+    console.log('🔑 Refresh token (first 20 chars):', refreshToken ? refreshToken.substring(0, 20) + '...' : 'NONE');
+    
+    if (!refreshToken) {
+      console.log('❌ No refresh token provided');
+      res.status(400).json({ error: 'Refresh token is required' });
+      return;
+    }
+
+    console.log('📊 Validating refresh token in database...');
+    const tokenData = await vitalSignsDb.validateRefreshToken(refreshToken);
+    
+    if (!tokenData) {
+      console.log('❌ Refresh token not found or expired in database');
+      res.status(401).json({ error: 'Invalid or expired refresh token' });
+      return;
+    }
+
+    console.log('✅ Refresh token is valid for user:', tokenData.username);
+    
+    // Generate new session and refresh tokens
+    const newSessionToken = generateSessionToken();
+    const newRefreshToken = generateRefreshToken();
+    const sessionExpiresAt = new Date(Date.now() + SESSION_DURATION);
+    const refreshExpiresAt = new Date(Date.now() + REFRESH_TOKEN_DURATION);
+    const userAgent = req.headers['user-agent'];
+    const ipAddress = req.ip || req.connection.remoteAddress;
+
+    console.log('🔄 Creating new session and refresh token pair');
+    
+    // Invalidate old refresh token
+    await vitalSignsDb.invalidateRefreshToken(refreshToken);
+    
+    // Invalidate old session
+    await vitalSignsDb.deleteSession(tokenData.sessionToken);
+    
+    // Create new session and refresh token
+    await vitalSignsDb.createSession(newSessionToken, tokenData.username, sessionExpiresAt, userAgent, ipAddress, tokenData.deviceLabel);
+    await vitalSignsDb.createRefreshToken(newRefreshToken, newSessionToken, tokenData.username, refreshExpiresAt);
+    
+    console.log('✅ Token refresh successful for user:', tokenData.username);
+
+    const access = await accessControl.getAccess(tokenData.username);
+    
+    res.json({
+      success: true,
+      sessionToken: newSessionToken,
+      refreshToken: newRefreshToken,
+      expiresAt: sessionExpiresAt.toISOString(),
+      role: access.role,
+      permissions: access.permissions
+    });
+  } catch (error) {
+    console.error('💥 Token refresh error:', error);
+    res.status(500).json({ error: 'Token refresh failed' });
+  }
+});
+
+// Debug endpoint to check sessions in database (development only)
+app.get('/debug/sessions', async (req: Request, res: Response) => {
+  if (process.env.NODE_ENV === 'production') {
+    res.status(404).json({ error: 'Not found' });
+    return;
+  }
+
+  try {
+    const sessions = await vitalSignsDb.getAllSessions();
+    res.json({ sessions });
+  } catch (error) {
+    console.error('Error getting sessions:', error);
+    res.status(500).json({ error: 'Failed to get sessions' });
+  }
+});
+
+// Logout endpoint
+app.post('/logout', async (req: Request<{}, { success: boolean }, LogoutRequest>, res: Response<{ success: boolean }>) => {
+  try {
+    const sessionToken = req.headers.authorization?.replace('Bearer ', '');
+    const { username } = req.body;
+    
+    if (sessionToken) {
+      // Delete specific session
+      await vitalSignsDb.deleteSession(sessionToken);
+      encounterFeed.disconnectSessions([sessionToken]);
+    } else if (username) {
+      // Fallback: delete all sessions for user
+      const deletedTokens = await vitalSignsDb.deleteAllUserSessions(username);
+      encounterFeed.disconnectSessions(deletedTokens);
+    }
+    
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.json({ success: true }); // Still return success to avoid client issues
+  }
+});
+
+// Session management endpoints
+
+// List the signed-in user's active sessions (devices)
+app.get('/sessions', validateSession, async (req: Request, res: Response<UserSessionsResponse | ErrorResponse>): Promise<void> => {
+  try {
+    const { username, sessionToken } = (req as any).user;
+    const sessions = await vitalSignsDb.getActiveSessions(sessionToken, username);
+    res.json({ sessions });
+  } catch (error: any) {
+    console.error('Error getting sessions:', error);
+    res.status(500).json({ error: 'Failed to get sessions', details: error.message });
+  }
+});
+
+// Look up a session the requesting user may manage: their own, or anyone's for admins
+const findManageableSession = async (req: Request, res: Response, idParam: string | undefined): Promise<{ id: number; sessionToken: string; username: string } | null> => {
+  const user = (req as any).user;
+  const id = parseInt(idParam || '', 10);
+  if (isNaN(id)) {
+    res.status(400).json({ error: 'Invalid session id' });
+    return null;
+  }
+
+  const session = await vitalSignsDb.getSessionById(id);
+  // Other users' sessions are reported as missing unless the user can manage them
+  if (!session || !session.isActive || (session.username !== user.username && !user.permissions.includes('admin:manage'))) {
+    res.status(404).json({ error: 'Session not found' });
+    return null;
+  }
+
+  return { id, sessionToken: session.sessionToken, username: session.username };
+};
+
+// Label a session's device, e.g. "Front desk wall display"
+app.put('/sessions/:id/label', validateSession, async (req: Request<{ id: string }, UserSession | ErrorResponse, UpdateSessionLabelRequest>, res: Response<UserSession | ErrorResponse>): Promise<void> => {
+  try {
+    const session = await findManageableSession(req, res, req.params.id);
+    if (!session) {
+      return;
+    }
+
+    const updated = await vitalSignsDb.setSessionDeviceLabel(session.id, normalizeDeviceLabel(req.body.deviceLabel));
+    if (!updated) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    res.json({ ...updated, current: session.sessionToken === (req as any).user.sessionToken });
+  } catch (error: any) {
+    console.error('Error labelling session:', error);
+    res.status(500).json({ error: 'Failed to label session', details: error.message });
+  }
+});
+
+// Revoke a session and its refresh tokens. Revoking the current session signs the user out.
+app.delete('/sessions/:id', validateSession, async (req: Request<{ id: string }>, res: Response): Promise<void> => {
+  try {
+    const username = (req as any).user.username;
+    const session = await findManageableSession(req, res, req.params.id);
+    if (!session) {
+      return;
+    }
+
+    const revokedTokens = await vitalSignsDb.revokeSessions({ id: session.id });
+    encounterFeed.disconnectSessions(revokedTokens);
+
+    console.log(`🚪 Session ${session.id} of ${session.username} revoked by ${username}`);
+    res.json({ success: true, message: 'Session revoked', id: session.id });
+  } catch (error: any) {
+    console.error('Error revoking session:', error);
+    res.status(500).json({ error: 'Failed to revoke session', details: error.message });
+  }
+});
+
+// List every active session, optionally for one user
+app.get('/admin/sessions', validateSession, requirePermission('admin:manage'), async (req: Request, res: Response<UserSessionsResponse | ErrorResponse>): Promise<void> => {
+  try {
+    const { sessionToken } = (req as any).user;
+    const username = typeof req.query.username === 'string' && req.query.username ? req.query.username : undefined;
+    const sessions = await vitalSignsDb.getActiveSessions(sessionToken, username);
+    res.json({ sessions });
+  } catch (error: any) {
+    console.error('Error getting sessions:', error);
+    res.status(500).json({ error: 'Failed to get sessions', details: error.message });
+  }
+});
+
+// Force-logout a user: revoke all their sessions and refresh tokens
+app.post('/admin/users/:username/logout', validateSession, requirePermission('admin:manage'), async (req: Request<{ username: string }>, res: Response): Promise<void> => {
+  try {
+    const username = (req as any).user.username;
+    const target = req.params.username;
+
+    const revokedTokens = await vitalSignsDb.revokeSessions({ username: target });
+    encounterFeed.disconnectSessions(revokedTokens);
+    await tokenBroker.invalidate(target);
+
+    console.log(`🚪 ${revokedTokens.length} session(s) of ${target} revoked by ${username}`);
+    res.json({ success: true, message: 'User logged out', username: target, revoked: revokedTokens.length });
+  } catch (error: any) {
+    console.error('Error logging out user:', error);
+    res.status(500).json({ error: 'Failed to log out user', details: error.message });
+  }
+});
+
+const AUDIT_ACTIONS: AuditAction[] = ['note.sign_off', 'note.hpi_update', 'todo.create', 'vital_signs.update'];
+const MAX_AUDIT_PAGE_SIZE = 200;
+
+// Query the audit log of writes sent to EZDerm by patient, encounter, user, action and date.
+// Dates are YYYY-MM-DD in the practice time zone.
+app.get('/audit/events', validateSession, requirePermission('audit:view'), async (req: Request, res: Response<AuditEventsResponse | ErrorResponse>): Promise<void> => {
+  try {
+    const { patientId, encounterId, actor, action, from, to, limit = '50', offset = '0' } = req.query as Record<string, string | undefined>;
+
+    if (action && !AUDIT_ACTIONS.includes(action as AuditAction)) {
+      res.status(400).json({ error: `action must be one of: ${AUDIT_ACTIONS.join(', ')}` });
+      return;
+    }
+    if ((from && !isValidLocalDate(from)) || (to && !isValidLocalDate(to))) {
+      res.status(400).json({ error: 'from and to must be dates in YYYY-MM-DD format' });
+      return;
+    }
+    if (from && to && from > to) {
+      res.status(400).json({ error: 'from must not be after to' });
+      return;
+    }
+
+    const pageSize = parseInt(limit, 10);
+    const pageOffset = parseInt(offset, 10);
+    if (!(pageSize > 0) || !(pageOffset >= 0)) {
+      res.status(400).json({ error: 'limit must be a positive number and offset must not be negative' });
+      return;
+    }
+
+    const timeZone = appConfig.ezderm.timeZone;
+    const result = await vitalSignsDb.getAuditEvents({
+      ...(patientId && { patientId }),
+      ...(encounterId && { encounterId }),
+      ...(actor && { actor }),
+      ...(action && { action: action as AuditAction }),
+      ...(from && { from: getDayRangeForDate(timeZone, from).start }),
+      ...(to && { to: getDayRangeForDate(timeZone, to).end }),
+      limit: Math.min(pageSize, MAX_AUDIT_PAGE_SIZE),
+      offset: pageOffset
+    });
+
+    res.json(result);
+  } catch (error: any) {
+    console.error('Error getting audit events:', error);
+    res.status(500).json({ error: 'Failed to get audit events', details: error.message });
+  }
+});
+
+// Health check endpoint (kept for existing probes; /health/ready checks every dependency)
+app.get('/health', async (req: Request, res: Response<HealthResponse>) => {
+  console.log('🏥 Health check requested');
+  const databaseConnected = await vitalSignsDb.ping().then(() => true, () => false);
+  res.json({ 
+    status: databaseConnected ? 'healthy' : 'degraded', 
+    timestamp: new Date().toISOString(),
+    database: databaseConnected ? 'connected' : 'disconnected',
+    environment: process.env.NODE_ENV || 'development'
+  });
+});
+
+// Liveness and readiness probes
+app.use(healthRoutes('api', [
+  databaseCheck(),
+  redisCheck(() => jobControl.ping()),
+  workerHeartbeatCheck(),
+  ezdermCheck(),
+  llmProvidersCheck(aiNoteChecker.getCheckTypes())
+]));
+
+// Clinic registry endpoints
+
+// Get active clinics (used by the dashboard clinic switcher)
+app.get('/clinics', validateSession, requirePermission('board:view'), async (req: Request, res: Response<ClinicsResponse | ErrorResponse>): Promise<void> => {
+  try {
+    const clinics = await vitalSignsDb.getClinics();
+    res.json({ clinics });
+  } catch (error: any) {
+    console.error('Error fetching clinics:', error);
+    res.status(500).json({ error: 'Failed to fetch clinics', details: error.message });
+  }
+});
+
+// Get all registered clinics, including inactive ones
+app.get('/admin/clinics', validateSession, requirePermission('admin:manage'), async (req: Request, res: Response<ClinicsResponse | ErrorResponse>): Promise<void> => {
+  try {
+    const clinics = await vitalSignsDb.getClinics(true);
+    res.json({ clinics });
+  } catch (error: any) {
+    console.error('Error fetching clinic registry:', error);
+    res.status(500).json({ error: 'Failed to fetch clinics', details: error.message });
+  }
+});
+
+// Register a clinic
+app.post('/admin/clinics', validateSession, requirePermission('admin:manage'), async (req: Request<{}, Clinic | ErrorResponse, CreateClinicRequest>, res: Response<Clinic | ErrorResponse>): Promise<void> => {
+  try {
+    const username = (req as any).user.username;
+    const { clinicId, practiceId, name, timeZone, vitalSignsEnabled, aiScanEnabled } = req.body;
+
+    if (!clinicId || !practiceId || !name) {
+      res.status(400).json({ error: 'clinicId, practiceId and name are required' });
+      return;
+    }
+
+    if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+      res.status(400).json({ error: `Invalid time zone: ${timeZone}. Use an IANA name such as America/Detroit.` });
+      return;
+    }
+
+    const clinic = await vitalSignsDb.createClinic({
+      clinicId,
+      practiceId,
+      name,
+      ...(timeZone !== undefined && { timeZone }),
+      ...(vitalSignsEnabled !== undefined && { vitalSignsEnabled: Boolean(vitalSignsEnabled) }),
+      ...(aiScanEnabled !== undefined && { aiScanEnabled: Boolean(aiScanEnabled) })
+    });
+
+    console.log(`🏥 Clinic ${clinic.clinicId} (${clinic.name}) registered by ${username}`);
+    res.status(201).json(clinic);
+  } catch (error: any) {
+    // Unique violation: the clinic is already registered
+    if (error.code === '23505') {
+      res.status(409).json({ error: `Clinic ${req.body.clinicId} is already registered. Update it instead.` });
+      return;
+    }
+    console.error('Error registering clinic:', error);
+    res.status(500).json({ error: 'Failed to register clinic', details: error.message });
+  }
+});
+
+// Update a clinic's name, practice or feature flags
+app.put('/admin/clinics/:clinicId', validateSession, requirePermission('admin:manage'), async (req: Request<{ clinicId: string }, Clinic | ErrorResponse, UpdateClinicRequest>, res: Response<Clinic | ErrorResponse>): Promise<void> => {
+  try {
+    const username = (req as any).user.username;
+    const { clinicId } = req.params;
+    const { practiceId, name, timeZone, isActive, vitalSignsEnabled, aiScanEnabled } = req.body;
+
+    if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+      res.status(400).json({ error: `Invalid time zone: ${timeZone}. Use an IANA name such as America/Detroit.` });
+      return;
+    }
+
+    const clinic = await vitalSignsDb.updateClinic(clinicId, {
+      ...(practiceId !== undefined && { practiceId }),
+      ...(name !== undefined && { name }),
+      ...(timeZone !== undefined && { timeZone }),
+      ...(isActive !== undefined && { isActive: Boolean(isActive) }),
+      ...(vitalSignsEnabled !== undefined && { vitalSignsEnabled: Boolean(vitalSignsEnabled) }),
+      ...(aiScanEnabled !== undefined && { aiScanEnabled: Boolean(aiScanEnabled) })
+    });
+
+    if (!clinic) {
+      res.status(404).json({ error: 'Clinic not found' });
+      return;
+    }
+
+    console.log(`🏥 Clinic ${clinic.clinicId} updated by ${username}`);
+    res.json(clinic);
+  } catch (error: any) {
+    console.error('Error updating clinic:', error);
+    res.status(500).json({ error: 'Failed to update clinic', details: error.message });
+  }
+});
+
+// Deactivate a clinic
+app.delete('/admin/clinics/:clinicId', validateSession, requirePermission('admin:manage'), async (req: Request<{ clinicId: string }>, res: Response): Promise<void> => {
+  try {
+    const username = (req as any).user.username;
+    const { clinicId } = req.params;
+
+    const deactivated = await vitalSignsDb.deactivateClinic(clinicId);
+    if (!deactivated) {
+      res.status(404).json({ error: 'Clinic not found' });
+      return;
+    }
+
+    console.log(`🏥 Clinic ${clinicId} deactivated by ${username}`);
+    res.json({ success: true, message: 'Clinic deactivated', clinicId });
+  } catch (error: any) {
+    console.error('Error deactivating clinic:', error);
+    res.status(500).json({ error: 'Failed to deactivate clinic', details: error.message });
+  }
+});
+
+// Wait-time alert rule endpoints
+
+// Check the fields of a create/update request; returns an error message or null
+const validateAlertRuleFields = (rule: UpdateWaitTimeAlertRuleRequest): string | null => {
+  if (rule.status !== undefined && !ACTIVE_STATUSES.includes(rule.status)) {
+    return `status must be one of: ${ACTIVE_STATUSES.join(', ')}`;
+  }
+  if (rule.thresholdMinutes !== undefined && (!Number.isInteger(rule.thresholdMinutes) || rule.thresholdMinutes <= 0)) {
+    return 'thresholdMinutes must be a positive whole number';
+  }
+  if (rule.severity !== undefined && !ALERT_SEVERITIES.includes(rule.severity)) {
+    return `severity must be one of: ${ALERT_SEVERITIES.join(', ')}`;
+  }
+  if (rule.appointmentType !== undefined && rule.appointmentType !== null && typeof rule.appointmentType !== 'string') {
+    return 'appointmentType must be a string or null';
+  }
+  return null;
+};
+
+// Get all wait-time alert rules, including inactive ones
+app.get('/admin/alert-rules', validateSession, requirePermission('admin:manage'), async (req: Request, res: Response<WaitTimeAlertRulesResponse | ErrorResponse>): Promise<void> => {
+  try {
+    const rules = await vitalSignsDb.getWaitTimeAlertRules(true);
+    res.json({ rules });
+  } catch (error: any) {
+    console.error('Error fetching alert rules:', error);
+    res.status(500).json({ error: 'Failed to fetch alert rules', details: error.message });
+  }
+});
+
+// Add a wait-time alert rule
+app.post('/admin/alert-rules', validateSession, requirePermission('admin:manage'), async (req: Request<{}, WaitTimeAlertRule | ErrorResponse, CreateWaitTimeAlertRuleRequest>, res: Response<WaitTimeAlertRule | ErrorResponse>): Promise<void> => {
+  try {
+    const username = (req as any).user.username;
+    const { status, appointmentType, thresholdMinutes, severity } = req.body;
+
+    if (!status || thresholdMinutes === undefined || !severity) {
+      res.status(400).json({ error: 'status, thresholdMinutes and severity are required' });
+      return;
+    }
+
+    const validationError = validateAlertRuleFields(req.body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const rule = await vitalSignsDb.createWaitTimeAlertRule({
+      status,
+      thresholdMinutes,
+      severity,
+      ...(appointmentType && { appointmentType })
+    }, username);
+    waitTimeAlerts.invalidate();
+
+    console.log(`⏱️ Alert rule ${rule.id} (${status} > ${thresholdMinutes} min, ${severity}) created by ${username}`);
+    res.status(201).json(rule);
+  } catch (error: any) {
+    console.error('Error creating alert rule:', error);
+    res.status(500).json({ error: 'Failed to create alert rule', details: error.message });
+  }
+});
+
+// Update a wait-time alert rule
+app.put('/admin/alert-rules/:id', validateSession, requirePermission('admin:manage'), async (req: Request<{ id: string }, WaitTimeAlertRule | ErrorResponse, UpdateWaitTimeAlertRuleRequest>, res: Response<WaitTimeAlertRule | ErrorResponse>): Promise<void> => {
+  try {
+    const username = (req as any).user.username;
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid rule id' });
+      return;
+    }
+
+    const validationError = validateAlertRuleFields(req.body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const { status, appointmentType, thresholdMinutes, severity, isActive } = req.body;
+    const rule = await vitalSignsDb.updateWaitTimeAlertRule(id, {
+      ...(status !== undefined && { status }),
+      ...(appointmentType !== undefined && { appointmentType }),
+      ...(thresholdMinutes !== undefined && { thresholdMinutes }),
+      ...(severity !== undefined && { severity }),
+      ...(isActive !== undefined && { isActive: Boolean(isActive) })
+    });
+    if (!rule) {
+      res.status(404).json({ error: 'Alert rule not found' });
+      return;
+    }
+    waitTimeAlerts.invalidate();
+
+    console.log(`⏱️ Alert rule ${id} updated by ${username}`);
+    res.json(rule);
+  } catch (error: any) {
+    console.error('Error updating alert rule:', error);
+    res.status(500).json({ error: 'Failed to update alert rule', details: error.message });
+  }
+});
+
+// Delete a wait-time alert rule
+app.delete('/admin/alert-rules/:id', validateSession, requirePermission('admin:manage'), async (req: Request<{ id: string }>, res: Response): Promise<void> => {
+  try {
+    const username = (req as any).user.username;
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid rule id' });
+      return;
+    }
+
+    const deleted = await vitalSignsDb.deleteWaitTimeAlertRule(id);
+    if (!deleted) {
+      res.status(404).json({ error: 'Alert rule not found' });
+      return;
+    }
+    waitTimeAlerts.invalidate();
+
+    console.log(`⏱️ Alert rule ${id} deleted by ${username}`);
+    res.json({ success: true, message: 'Alert rule deleted', id });
+  } catch (error: any) {
+    console.error('Error deleting alert rule:', error);
+    res.status(500).json({ error: 'Failed to delete alert rule', details: error.message });
+  }
+});
+
+// Validate the fields of a job schedule update; returns an error message or null
+const validateJobScheduleFields = (schedule: UpdateJobScheduleRequest): string | null => {
+  if (schedule.enabled !== undefined && typeof schedule.enabled !== 'boolean') {
+    return 'enabled must be true or false';
+  }
+  if (schedule.cronExpression !== undefined && (typeof schedule.cronExpression !== 'string' || !isValidCronExpression(schedule.cronExpression))) {
+    return 'cronExpression must be a cron expression with 5 fields, or 6 with seconds first';
+  }
+  if (schedule.timeZone !== undefined && schedule.timeZone !== null && (typeof schedule.timeZone !== 'string' || !isValidTimeZone(schedule.timeZone))) {
+    return 'timeZone must be an IANA time zone (e.g. America/Detroit) or null';
+  }
+  for (const field of ['activeFrom', 'activeUntil'] as const) {
+    const value = schedule[field];
+    if (value !== undefined && value !== null && (typeof value !== 'string' || !isValidTimeOfDay(value))) {
+      return `${field} must be a time of day (HH:MM) or null`;
+    }
+  }
+  if (schedule.businessDays !== undefined && schedule.businessDays !== null &&
+      (!Array.isArray(schedule.businessDays) || schedule.businessDays.length === 0 ||
+       !schedule.businessDays.every(day => Number.isInteger(day) && day >= 0 && day <= 6))) {
+    return 'businessDays must be a non-empty list of weekdays (0 = Sunday ... 6 = Saturday) or null';
+  }
+  if (schedule.eligibilityDelayMinutes !== undefined && schedule.eligibilityDelayMinutes !== null && (!Number.isInteger(schedule.eligibilityDelayMinutes) || schedule.eligibilityDelayMinutes < 0)) {
+    return 'eligibilityDelayMinutes must be a whole number of minutes or null';
+  }
+  if (schedule.recheckAfterMinutes !== undefined && schedule.recheckAfterMinutes !== null && (!Number.isInteger(schedule.recheckAfterMinutes) || schedule.recheckAfterMinutes <= 0)) {
+    return 'recheckAfterMinutes must be a positive whole number of minutes or null';
+  }
+  return null;
+};
+
+// Get the schedules of the worker's recurring jobs
+app.get('/admin/job-schedules', validateSession, requirePermission('admin:manage'), async (req: Request, res: Response<JobSchedulesResponse | ErrorResponse>): Promise<void> => {
+  try {
+    const schedules = await vitalSignsDb.getJobSchedules();
+    res.json({ schedules });
+  } catch (error: any) {
+    console.error('Error fetching job schedules:', error);
+    res.status(500).json({ error: 'Failed to fetch job schedules', details: error.message });
+  }
+});
+
+// Update a recurring job's schedule and apply it to the running worker
+app.put('/admin/job-schedules/:jobName', validateSession, requirePermission('admin:manage'), async (req: Request<{ jobName: string }, JobSchedule | ErrorResponse, UpdateJobScheduleRequest>, res: Response<JobSchedule | ErrorResponse>): Promise<void> => {
+  try {
+    const username = (req as any).user.username;
+    const jobName = req.params.jobName as ScheduledJobName;
+    if (!SCHEDULED_JOB_NAMES.includes(jobName)) {
+      res.status(400).json({ error: `jobName must be one of: ${SCHEDULED_JOB_NAMES.join(', ')}` });
+      return;
+    }
+
+    const validationError = validateJobScheduleFields(req.body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const current = await vitalSignsDb.getJobSchedule(jobName);
+    if (!current) {
+      res.status(404).json({ error: 'Job schedule not found' });
+      return;
+    }
+
+    // null clears an optional setting; fields left out keep their current value
+    const updates = req.body;
+    const keep = <K extends keyof UpdateJobScheduleRequest & keyof JobSchedule>(field: K) =>
+      updates[field] === undefined ? current[field] : updates[field] ?? undefined;
+    const nextTimeZone = keep('timeZone');
+    const nextActiveFrom = keep('activeFrom');
+    const nextActiveUntil = keep('activeUntil');
+    const nextBusinessDays = keep('businessDays');
+    const nextEligibilityDelay = keep('eligibilityDelayMinutes');
+    const nextRecheckAfter = keep('recheckAfterMinutes');
+    const next = {
+      jobName,
+      enabled: updates.enabled ?? current.enabled,
+      cronExpression: updates.cronExpression?.trim() || current.cronExpression,
+      ...(nextTimeZone && { timeZone: nextTimeZone }),
+      ...(nextActiveFrom && { activeFrom: nextActiveFrom }),
+      ...(nextActiveUntil && { activeUntil: nextActiveUntil }),
+      ...(nextBusinessDays && { businessDays: nextBusinessDays }),
+      ...(nextEligibilityDelay !== undefined && { eligibilityDelayMinutes: nextEligibilityDelay }),
+      ...(nextRecheckAfter !== undefined && { recheckAfterMinutes: nextRecheckAfter }),
+      updatedBy: username
+    };
+
+    if (Boolean(next.activeFrom) !== Boolean(next.activeUntil)) {
+      res.status(400).json({ error: 'activeFrom and activeUntil must be set together' });
+      return;
+    }
+
+    // Save first so the worker never runs a schedule the settings page doesn't show; if BullMQ
+    // rejects it, put the previous schedule back in both places
+    const schedule = await vitalSignsDb.saveJobSchedule(next);
+    try {
+      await applyJobSchedule(schedule);
+    } catch (scheduleError: any) {
+      const { updatedAt, ...previous } = current;
+      await vitalSignsDb.saveJobSchedule(previous);
+      await applyJobSchedule(current).catch(restoreError =>
+        console.error(`❌ Failed to re-apply the previous ${jobName} schedule:`, restoreError)
+      );
+      res.status(400).json({ error: `Schedule could not be applied: ${scheduleError.message}` });
+      return;
+    }
+
+    console.log(`🗓️ Job schedule ${jobName} updated by ${username}`);
+    res.json(schedule);
+  } catch (error: any) {
+    console.error('Error updating job schedule:', error);
+    res.status(500).json({ error: 'Failed to update job schedule', details: error.message });
+  }
+});
+
+// Prompt template endpoints
+
+const MAX_PROMPT_LENGTH = 100000;
+const MAX_CHANGE_NOTE_LENGTH = 500;
+
+// Validate a new prompt version; returns an error message or null
+const validatePromptTemplateFields = (version: CreatePromptTemplateVersionRequest): string | null => {
+  if (typeof version.content !== 'string' || !version.content.trim()) {
+    return 'content is required';
+  }
+  if (version.content.length > MAX_PROMPT_LENGTH) {
+    return `content must be at most ${MAX_PROMPT_LENGTH} characters`;
+  }
+  if (typeof version.changeNote !== 'string' || !version.changeNote.trim()) {
+    return 'changeNote is required: say what changed and why';
+  }
+  if (version.changeNote.length > MAX_CHANGE_NOTE_LENGTH) {
+    return `changeNote must be at most ${MAX_CHANGE_NOTE_LENGTH} characters`;
+  }
+  if (!Number.isInteger(version.baseVersion) || version.baseVersion < 0) {
+    return 'baseVersion must be the latest version number when the edit started';
+  }
+  return null;
+};
+
+// Get each AI check's prompt: latest, pinned and active versions and the model it runs on
+app.get('/admin/prompts', validateSession, requirePermission('admin:manage'), async (req: Request, res: Response<PromptTemplatesResponse | ErrorResponse>): Promise<void> => {
+  try {
+    const templates = await promptTemplates.getSummaries(aiNoteChecker.getCheckTypes());
+    res.json({ templates });
+  } catch (error: any) {
+    console.error('Error fetching prompt templates:', error);
+    res.status(500).json({ error: 'Failed to fetch prompt templates', details: error.message });
+  }
+});
+
+// Get every version of a check's prompt, newest first
+app.get('/admin/prompts/:checkType/versions', validateSession, requirePermission('admin:manage'), async (req: Request<{ checkType: string }>, res: Response<PromptTemplateVersionsResponse | ErrorResponse>): Promise<void> => {
+  try {
+    const { checkType } = req.params;
+    if (!aiNoteChecker.getCheckTypes().includes(checkType)) {
+      res.status(404).json({ error: `Unknown check type: ${checkType}` });
+      return;
+    }
+
+    // Make sure the bundled prompt has been imported as version 1
+    await promptTemplates.getSummaries([checkType]);
+    const versions = await vitalSignsDb.getPromptTemplateVersions(checkType);
+    res.json({ checkType, versions });
+  } catch (error: any) {
+    console.error('Error fetching prompt template versions:', error);
+    res.status(500).json({ error: 'Failed to fetch prompt template versions', details: error.message });
+  }
+});
+
+// Save an edited prompt as the check's next version. Unless the check is pinned, the next note checked uses it.
+app.post('/admin/prompts/:checkType/versions', validateSession, requirePermission('admin:manage'), async (req: Request<{ checkType: string }, PromptTemplateVersion | ErrorResponse, CreatePromptTemplateVersionRequest>, res: Response<PromptTemplateVersion | ErrorResponse>): Promise<void> => {
+  try {
+    const username = (req as any).user.username;
+    const { checkType } = req.params;
+    if (!aiNoteChecker.getCheckTypes().includes(checkType)) {
+      res.status(404).json({ error: `Unknown check type: ${checkType}` });
+      return;
+    }
+
+    const validationError = validatePromptTemplateFields(req.body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    // Import the bundled prompt first so it stays version 1
+    await promptTemplates.getSummaries([checkType]);
+    const version = await vitalSignsDb.addPromptTemplateVersion({
+      checkType,
+      content: req.body.content,
+      changeNote: req.body.changeNote.trim(),
+      createdBy: username
+    }, req.body.baseVersion);
+    if (!version) {
+      res.status(409).json({ error: `Another version of the ${checkType} prompt was saved after v${req.body.baseVersion}. Review it, then save your edit again.` });
+      return;
+    }
+
+    console.log(`📝 Prompt ${checkType} v${version.versionNumber} saved by ${username}`);
+    res.status(201).json(version);
+  } catch (error: any) {
+    console.error('Error saving prompt template version:', error);
+    res.status(500).json({ error: 'Failed to save prompt template version', details: error.message });
+  }
+});
+
+// Pin a check to one version of its prompt, or unpin it (versionNumber null) to run the latest
+app.put('/admin/prompts/:checkType/pin', validateSession, requirePermission('admin:manage'), async (req: Request<{ checkType: string }, PromptTemplateSummary | ErrorResponse, PinPromptTemplateRequest>, res: Response<PromptTemplateSummary | ErrorResponse>): Promise<void> => {
+  try {
+    const username = (req as any).user.username;
+    const { checkType } = req.params;
+    const { versionNumber } = req.body;
+    if (!aiNoteChecker.getCheckTypes().includes(checkType)) {
+      res.status(404).json({ error: `Unknown check type: ${checkType}` });
+      return;
+    }
+    if (versionNumber !== null && (!Number.isInteger(versionNumber) || versionNumber < 1)) {
+      res.status(400).json({ error: 'versionNumber must be a version number, or null to unpin' });
+      return;
+    }
+    if (versionNumber !== null && !(await vitalSignsDb.getPromptTemplateVersion(checkType, versionNumber))) {
+      res.status(404).json({ error: `${checkType} has no prompt version ${versionNumber}` });
+      return;
+    }
+
+    await vitalSignsDb.setPromptTemplatePin(checkType, versionNumber, username);
+    const [summary] = await promptTemplates.getSummaries([checkType]);
+    if (!summary) {
+      res.status(404).json({ error: `No prompt stored for ${checkType}` });
+      return;
+    }
+
+    console.log(`📌 Prompt ${checkType} ${versionNumber === null ? 'unpinned' : `pinned to v${versionNumber}`} by ${username}`);
+    res.json(summary);
+  } catch (error: any) {
+    console.error('Error pinning prompt template:', error);
+    res.status(500).json({ error: 'Failed to pin prompt template', details: error.message });
+  }
+});
+
+// Kiosk display endpoints
+
+const KIOSK_MASKING_MODES: KioskMaskingMode[] = ['initials_mrn', 'ticket'];
+
+// Get the waiting-room board for the kiosk's clinic (masked identifiers, status and estimated wait only)
+app.get('/kiosk/board', validateKioskToken, async (req: Request, res: Response<KioskBoardResponse | ErrorResponse>): Promise<void> => {
+  try {
+    const display: KioskDisplayToken = (req as any).kioskDisplay;
+
+    if (!kioskDisplay.isAvailable()) {
+      res.status(503).json({ error: 'Kiosk display is unavailable: the EZDerm service account is not configured' });
+      return;
+    }
+
+    const clinic = await resolveClinic(display.clinicId);
+    if (!clinic) {
+      res.status(404).json({ error: `Unknown or inactive clinic: ${display.clinicId}` });
+      return;
+    }
+
+    const board = await kioskDisplay.getBoard(clinic, display.maskingMode);
+    res.json(board);
+  } catch (error: any) {
+    console.error('Error fetching kiosk board:', error);
+    res.status(500).json({ error: 'Failed to fetch kiosk board', details: error.message });
+  }
+});
+
+// Get all kiosk displays that haven't been revoked
+app.get('/admin/kiosk-tokens', validateSession, requirePermission('admin:manage'), async (req: Request, res: Response<KioskDisplayTokensResponse | ErrorResponse>): Promise<void> => {
+  try {
+    const displays = await vitalSignsDb.getKioskDisplayTokens();
+    res.json({ displays });
+  } catch (error: any) {
+    console.error('Error fetching kiosk tokens:', error);
+    res.status(500).json({ error: 'Failed to fetch kiosk tokens', details: error.message });
+  }
+});
+
+// Create a kiosk display token. The token is returned once and can't be retrieved again.
+app.post('/admin/kiosk-tokens', validateSession, requirePermission('admin:manage'), async (req: Request<{}, CreateKioskDisplayTokenResponse | ErrorResponse, CreateKioskDisplayTokenRequest>, res: Response<CreateKioskDisplayTokenResponse | ErrorResponse>): Promise<void> => {
+  try {
+    const username = (req as any).user.username;
+    const { clinicId, label, maskingMode = 'initials_mrn' } = req.body;
+
+    if (!clinicId || !label?.trim()) {
+      res.status(400).json({ error: 'clinicId and label are required' });
+      return;
+    }
+
+    if (!KIOSK_MASKING_MODES.includes(maskingMode)) {
+      res.status(400).json({ error: `maskingMode must be one of: ${KIOSK_MASKING_MODES.join(', ')}` });
+      return;
+    }
+
+    const clinic = await resolveClinic(clinicId);
+    if (!clinic) {
+      res.status(400).json({ error: `Unknown or inactive clinic: ${clinicId}` });
+      return;
+    }
+
+    const token = crypto.randomBytes(24).toString('base64url');
+    const display = await vitalSignsDb.createKioskDisplayToken(hashToken(token), clinic.clinicId, label.trim(), maskingMode, username);
+
+    console.log(`📺 Kiosk display ${display.id} (${display.label}) created for ${clinic.name} by ${username}`);
+    res.status(201).json({ token, display });
+  } catch (error: any) {
+    console.error('Error creating kiosk token:', error);
+    res.status(500).json({ error: 'Failed to create kiosk token', details: error.message });
+  }
+});
+
+// Revoke a kiosk display token
+app.delete('/admin/kiosk-tokens/:id', validateSession, requirePermission('admin:manage'), async (req: Request<{ id: string }>, res: Response): Promise<void> => {
+  try {
+    const username = (req as any).user.username;
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid kiosk token id' });
+      return;
+    }
+
+    const revoked = await vitalSignsDb.revokeKioskDisplayToken(id);
+    if (!revoked) {
+      res.status(404).json({ error: 'Kiosk token not found' });
+      return;
+    }
+
+    console.log(`📺 Kiosk display ${id} revoked by ${username}`);
+    res.json({ success: true, message: 'Kiosk token revoked', id });
+  } catch (error: any) {
+    console.error('Error revoking kiosk token:', error);
+    res.status(500).json({ error: 'Failed to revoke kiosk token', details: error.message });
+  }
+});
+
+// User role endpoints
+
+// List users' tracking board roles
+app.get('/admin/users/roles', validateSession, requirePermission('admin:manage'), async (req: Request, res: Response<UserRolesResponse | ErrorResponse>): Promise<void> => {
+  try {
+    const users = await vitalSignsDb.getUserRoles();
+    res.json({ users });
+  } catch (error: any) {
+    console.error('Error getting user roles:', error);
+    res.status(500).json({ error: 'Failed to get user roles', details: error.message });
+  }
+});
+
+// Assign a user's role by hand, overriding the role derived from their EZDerm title
+app.put('/admin/users/:username/role', validateSession, requirePermission('admin:manage'), async (req: Request<{ username: string }, UserRoleAssignment | ErrorResponse, UpdateUserRoleRequest>, res: Response<UserRoleAssignment | ErrorResponse>): Promise<void> => {
+  try {
+    const username = (req as any).user.username;
+    const target = req.params.username.toLowerCase();
+    const { role } = req.body;
+
+    if (!USER_ROLES.includes(role)) {
+      res.status(400).json({ error: `role must be one of: ${USER_ROLES.join(', ')}` });
+      return;
+    }
+
+    if (target === username.toLowerCase() && role !== 'admin') {
+      res.status(400).json({ error: 'You cannot remove your own admin role' });
+      return;
+    }
+
+    const assignment = await vitalSignsDb.setManualUserRole(target, role, username);
+    accessControl.invalidate(target);
+
+    console.log(`🪪 Role for ${target} set to ${role} by ${username}`);
+    res.json(assignment);
+  } catch (error: any) {
+    console.error('Error updating user role:', error);
+    res.status(500).json({ error: 'Failed to update user role', details: error.message });
+  }
+});
+
+// Clear a manually assigned role so it is derived from the user's EZDerm title again
+app.delete('/admin/users/:username/role', validateSession, requirePermission('admin:manage'), async (req: Request<{ username: string }>, res: Response): Promise<void> => {
   try {
-    const { refreshToken } = req.body;
-    
-    console.log('🔄 Refresh token request received');
-    console.log('🔑 Refresh token (first 20 chars):', refreshToken ? refreshToken.substring(0, 20) + '...' : 'NONE');
-    
-    if (!refreshToken) {
-      console.log('❌ No refresh token provided');
-      res.status(400).json({ error: 'Refresh token is required' });
+    const username = (req as any).user.username;
+    const target = req.params.username.toLowerCase();
+
+    if (target === username.toLowerCase()) {
+      res.status(400).json({ error: 'You cannot reset your own role' });
       return;
     }
 
-    console.log('📊 Validating refresh token in database...');
-    const tokenData = await vitalSignsDb.validateRefreshToken(refreshToken);
-    
-    if (!tokenData) {
-      console.log('❌ Refresh token not found or expired in database');
-      res.status(401).json({ error: 'Invalid or expired refresh token' });
+    const deleted = await vitalSignsDb.deleteUserRole(target);
+    if (!deleted) {
+      res.status(404).json({ error: 'User role not found' });
       return;
     }
 
-    console.log('✅ Refresh token is valid for user:', tokenData.username);
-    
-    // Generate new session and refresh tokens
-    const newSessionToken = generateSessionToken();
-    const newRefreshToken = generateRefreshToken();
-    const sessionExpiresAt = new Date(Date.now() + SESSION_DURATION);
-    const refreshExpiresAt = new Date(Date.now() + REFRESH_TOKEN_DURATION);
-    const userAgent = req.headers['user-agent'];
-    const ipAddress = req.ip || req.connection.remoteAddress;
+    accessControl.invalidate(target);
+    const role: UserRole | null = await accessControl.syncRole(target, true, username);
 
-    console.log('🔄 Creating new session and refresh token pair');
-    
-    // Invalidate old refresh token
-    await vitalSignsDb.invalidateRefreshToken(refreshToken);
-    
-    // Invalidate old session
-    await vitalSignsDb.deleteSession(tokenData.sessionToken);
-    
-    // Create new session and refresh token
-    await vitalSignsDb.createSession(newSessionToken, tokenData.username, sessionExpiresAt, userAgent, ipAddress);
-    await vitalSignsDb.createRefreshToken(newRefreshToken, newSessionToken, tokenData.username, refreshExpiresAt);
-    
-    console.log('✅ Token refresh successful for user:', tokenData.username);
-    
-    res.json({
-      success: true,
-      sessionToken: newSessionToken,
-      refreshToken: newRefreshToken,
-      expiresAt: sessionExpiresAt.toISOString()
-    });
-  } catch (error) {
-    console.error('💥 Token refresh error:', error);
-    res.status(500).json({ error: 'Token refresh failed' });
+    console.log(`🪪 Role for ${target} reset by ${username}`);
+    res.json({ success: true, message: 'User role reset', username: target, role });
+  } catch (error: any) {
+    console.error('Error resetting user role:', error);
+    res.status(500).json({ error: 'Failed to reset user role', details: error.message });
   }
 });
 
-// Debug endpoint to check sessions in database (development only)
-app.get('/debug/sessions', async (req: Request, res: Response) => {
-  if (process.env.NODE_ENV === 'production') {
-    res.status(404).json({ error: 'Not found' });
-    return;
+// Clinic flow analytics endpoints
+
+const WAIT_TIME_GROUP_BY: WaitTimeGroupBy[] = ['provider', 'day', 'appointmentType'];
+
+interface AnalyticsRange {
+  clinic: Clinic;
+  from: string;
+  to: string;
+  rangeStart: string;
+  rangeEnd: string;
+}
+
+// Resolve the clinic and from/to dates (days in the clinic's time zone, default the last 7 days)
+const resolveAnalyticsRange = async (query: Record<string, string | undefined>): Promise<AnalyticsRange | { error: string }> => {
+  const { clinicId, from, to } = query;
+
+  const clinic = await resolveClinic(clinicId);
+  if (!clinic) {
+    return { error: clinicId ? `Unknown or inactive clinic: ${clinicId}` : 'No active clinics are configured' };
   }
 
+  const toDate = to || getLocalDate(clinic.timeZone);
+  const fromDate = from || getLocalDate(clinic.timeZone, new Date(), -6);
+  if (!isValidLocalDate(fromDate) || !isValidLocalDate(toDate)) {
+    return { error: 'from and to must be dates in YYYY-MM-DD format' };
+  }
+  if (fromDate > toDate) {
+    return { error: 'from must not be after to' };
+  }
+
+  return {
+    clinic,
+    from: fromDate,
+    to: toDate,
+    rangeStart: getDayRangeForDate(clinic.timeZone, fromDate).start,
+    rangeEnd: getDayRangeForDate(clinic.timeZone, toDate).end
+  };
+};
+
+// Get door-to-room, room-to-provider and total visit times for a clinic over a date range
+app.get('/analytics/wait-times', validateSession, requirePermission('analytics:view'), async (req: Request, res: Response<WaitTimeAnalyticsResponse | ErrorResponse>): Promise<void> => {
   try {
-    const sessions = await vitalSignsDb.getAllSessions();
-    res.json({ sessions });
-  } catch (error) {
-    console.error('Error getting sessions:', error);
-    res.status(500).json({ error: 'Failed to get sessions' });
+    const query = req.query as Record<string, string | undefined>;
+    const { groupBy = 'provider', providerId } = query;
+
+    if (!WAIT_TIME_GROUP_BY.includes(groupBy as WaitTimeGroupBy)) {
+      res.status(400).json({ error: `groupBy must be one of: ${WAIT_TIME_GROUP_BY.join(', ')}` });
+      return;
+    }
+
+    const range = await resolveAnalyticsRange(query);
+    if ('error' in range) {
+      res.status(400).json({ error: range.error });
+      return;
+    }
+
+    const { clinic, rangeStart, rangeEnd } = range;
+    const [[overall], groups] = await Promise.all([
+      vitalSignsDb.getWaitTimeStats(clinic.clinicId, clinic.timeZone, rangeStart, rangeEnd, 'overall', providerId),
+      vitalSignsDb.getWaitTimeStats(clinic.clinicId, clinic.timeZone, rangeStart, rangeEnd, groupBy as WaitTimeGroupBy, providerId)
+    ]);
+    if (!overall) {
+      throw new Error('Overall wait-time query returned no rows');
+    }
+
+    res.json({
+      clinicId: clinic.clinicId,
+      from: range.from,
+      to: range.to,
+      groupBy: groupBy as WaitTimeGroupBy,
+      ...(providerId && { providerId }),
+      overall,
+      groups
+    });
+  } catch (error: any) {
+    console.error('Error fetching wait-time analytics:', error);
+    res.status(500).json({ error: 'Failed to fetch wait-time analytics', details: error.message });
   }
 });
 
-// Logout endpoint
-app.post('/logout', async (req: Request<{}, { success: boolean }, LogoutRequest>, res: Response<{ success: boolean }>) => {
+// Get throughput per hour, room occupancy, provider utilization and no-show/cancel rates
+app.get('/analytics/flow', validateSession, requirePermission('analytics:view'), async (req: Request, res: Response<ClinicFlowAnalyticsResponse | ErrorResponse>): Promise<void> => {
   try {
-    const sessionToken = req.headers.authorization?.replace('Bearer ', '');
-    const { username } = req.body;
-    
-    if (sessionToken) {
-      // Delete specific session
-      await vitalSignsDb.deleteSession(sessionToken);
-    } else if (username) {
-      // Fallback: delete all sessions for user
-      await vitalSignsDb.deleteAllUserSessions(username);
-    }
-    
-    // Also clean up memory store for backwards compatibility
-    if (username) {
-      tokenStore.delete(username);
+    const query = req.query as Record<string, string | undefined>;
+    const { providerId } = query;
+
+    const range = await resolveAnalyticsRange(query);
+    if ('error' in range) {
+      res.status(400).json({ error: range.error });
+      return;
     }
-    
-    res.json({ success: true });
-  } catch (error) {
-    console.error('Logout error:', error);
-    res.json({ success: true }); // Still return success to avoid client issues
+
+    const { clinic, rangeStart, rangeEnd } = range;
+    const events = await vitalSignsDb.getEncounterStatusEvents(clinic.clinicId, rangeStart, rangeEnd);
+
+    res.json({
+      clinicId: clinic.clinicId,
+      from: range.from,
+      to: range.to,
+      ...(providerId && { providerId }),
+      ...summarizeClinicFlow(events, clinic.timeZone, providerId)
+    });
+  } catch (error: any) {
+    console.error('Error fetching clinic flow analytics:', error);
+    res.status(500).json({ error: 'Failed to fetch clinic flow analytics', details: error.message });
   }
 });
 
-// Health check endpoint
-app.get('/health', (req: Request, res: Response<HealthResponse>) => {
-  console.log('🏥 Health check requested');
-  res.json({ 
-    status: 'healthy', 
-    timestamp: new Date().toISOString(),
-    database: 'connected',
-    environment: process.env.NODE_ENV || 'development'
-  });
+// Get the recorded status changes for an encounter
+app.get('/analytics/encounters/:encounterId/timeline', validateSession, requirePermission('analytics:view'), async (req: Request<{ encounterId: string }>, res: Response): Promise<void> => {
+  try {
+    const { encounterId } = req.params;
+    const events = await vitalSignsDb.getEncounterTimeline(encounterId);
+    res.json({ encounterId, events });
+  } catch (error: any) {
+    console.error('Error fetching encounter timeline:', error);
+    res.status(500).json({ error: 'Failed to fetch encounter timeline', details: error.message });
+  }
 });
 
 // Vital signs management endpoints
 
 // Process vital signs carryforward for specific encounter
-app.post('/vital-signs/process/:encounterId', validateSession, async (req: Request, res: Response) => {
+app.post('/vital-signs/process/:encounterId', validateSession, requirePermission('vitals:process'), async (req: Request, res: Response) => {
   try {
     const encounterId = req.params.encounterId;
     const username = (req as any).user.username; // From session validation middleware
+    const { clinicId } = req.body || {};
     
     if (!encounterId) {
       return res.status(400).json({ error: 'Encounter ID is required' });
     }
+
+    const clinic = await resolveClinic(clinicId);
+    if (!clinic) {
+      return res.status(400).json({ error: clinicId ? `Unknown or inactive clinic: ${clinicId}` : 'No active clinics are configured' });
+    }
+
+    if (!clinic.vitalSignsEnabled) {
+      return res.status(400).json({ error: `Vital signs carryforward is disabled for ${clinic.name}` });
+    }
     
     // Get valid tokens (with automatic refresh if needed)
-    const userTokens = await getValidTokens(username);
+    const userTokens = await ezdermClient.getValidTokens(username);
     if (!userTokens) {
       return res.status(401).json({ error: 'Unable to obtain valid tokens. Please login again.' });
     }
     
     // Get today's encounters to find the specific encounter
-    const today = new Date();
+    const today = getDayRange(clinic.timeZone);
     const encounterData: EZDermEncounterFilter = {
-      dateOfServiceRangeHigh: formatDateEndOfDay(today),
-      clinicId: DEFAULT_CLINIC_ID,
+      dateOfServiceRangeHigh: today.end,
+      clinicId: clinic.clinicId,
       providerIds: [],
-      practiceId: DEFAULT_PRACTICE_ID,
-      dateOfServiceRangeLow: formatDateStartOfDay(today),
+      practiceId: clinic.practiceId,
+      dateOfServiceRangeLow: today.start,
       lightBean: true,
       dateSelection: 'SPECIFY_RANGE'
     };
 
     // Make request to EZDerm encounters API
-    const encountersResponse: AxiosResponse<EZDermEncounter[]> = await axios.post(
-      `${userTokens.serverUrl}ezderm-webservice/rest/encounter/getByFilter`,
-      encounterData,
-      {
-        headers: {
-          'Host': 'srvprod.ezinfra.net',
-          'accept': 'application/json',
-          'content-type': 'application/json',
-          'authorization': `Bearer ${userTokens.accessToken}`,
-          'user-agent': 'ezDerm/4.28.0 (build:132.19; macOS(Catalyst) 15.5.0)',
-          'accept-language': 'en-US;q=1.0'
-        }
-      }
-    );
+    const ezdermEncounters = await ezdermClient.getEncountersByFilter(username, encounterData);
 
     // Transform encounters and find the specific one
-    const allEncounters: Encounter[] = encountersResponse.data.map(transformEZDermEncounter);
+    const allEncounters: Encounter[] = ezdermEncounters.map(transformEZDermEncounter);
     const encounter = allEncounters.find(enc => enc.id === encounterId);
 
     if (!encounter) {
       return res.status(404).json({ error: 'Encounter not found' });
     }
     
-    const result = await vitalSignsService.processVitalSignsCarryforward(encounter, userTokens.accessToken);
+    const result = await vitalSignsService.processVitalSignsCarryforward(encounter, username);
     
     if (result) {
       res.json({ 
@@ -589,52 +1588,50 @@ app.post('/vital-signs/process/:encounterId', validateSession, async (req: Reque
 });
 
 // Process vital signs carryforward for all eligible encounters
-app.post('/vital-signs/process-all', validateSession, async (req: Request, res: Response) => {
+app.post('/vital-signs/process-all', validateSession, requirePermission('vitals:process'), async (req: Request, res: Response) => {
   try {
     const username = (req as any).user.username; // From session validation middleware
+    const { clinicId } = req.body || {};
+
+    const clinic = await resolveClinic(clinicId);
+    if (!clinic) {
+      return res.status(400).json({ error: clinicId ? `Unknown or inactive clinic: ${clinicId}` : 'No active clinics are configured' });
+    }
+
+    if (!clinic.vitalSignsEnabled) {
+      return res.status(400).json({ error: `Vital signs carryforward is disabled for ${clinic.name}` });
+    }
     
     // Get valid tokens (with automatic refresh if needed)
-    const userTokens = await getValidTokens(username);
+    const userTokens = await ezdermClient.getValidTokens(username);
     if (!userTokens) {
       return res.status(401).json({ error: 'Unable to obtain valid tokens. Please login again.' });
     }
     
     // Get today's encounters for vital signs processing
-    const today = new Date();
+    const today = getDayRange(clinic.timeZone);
     const encounterData: EZDermEncounterFilter = {
-      dateOfServiceRangeHigh: formatDateEndOfDay(today),
-      clinicId: DEFAULT_CLINIC_ID,
+      dateOfServiceRangeHigh: today.end,
+      clinicId: clinic.clinicId,
       providerIds: [],
-      practiceId: DEFAULT_PRACTICE_ID,
-      dateOfServiceRangeLow: formatDateStartOfDay(today),
+      practiceId: clinic.practiceId,
+      dateOfServiceRangeLow: today.start,
       lightBean: true,
       dateSelection: 'SPECIFY_RANGE'
     };
 
     // Make request to EZDerm encounters API
-    const encountersResponse: AxiosResponse<EZDermEncounter[]> = await axios.post(
-      `${userTokens.serverUrl}ezderm-webservice/rest/encounter/getByFilter`,
-      encounterData,
-      {
-        headers: {
-          'Host': 'srvprod.ezinfra.net',
-          'accept': 'application/json',
-          'content-type': 'application/json',
-          'authorization': `Bearer ${userTokens.accessToken}`,
-          'user-agent': 'ezDerm/4.28.0 (build:132.19; macOS(Catalyst) 15.5.0)',
-          'accept-language': 'en-US;q=1.0'
-        }
-      }
-    );
+    const ezdermEncounters = await ezdermClient.getEncountersByFilter(username, encounterData);
 
     // Transform encounters
-    const allEncounters: Encounter[] = encountersResponse.data.map(transformEZDermEncounter);
+    const allEncounters: Encounter[] = ezdermEncounters.map(transformEZDermEncounter);
     
-    const result = await vitalSignsService.processMultipleEncounters(allEncounters, userTokens.accessToken);
+    const result = await vitalSignsService.processMultipleEncounters(allEncounters, username);
     
     res.json({ 
       success: true, 
-      message: 'Vital signs carryforward processing completed',
+      message: `Vital signs carryforward processing completed for ${clinic.name}`,
+      clinicId: clinic.clinicId,
       ...result
     });
     return;
@@ -646,7 +1643,7 @@ app.post('/vital-signs/process-all', validateSession, async (req: Request, res:
 });
 
 // Get vital signs processing statistics
-app.get('/vital-signs/stats', async (req: Request, res: Response) => {
+app.get('/vital-signs/stats', validateSession, requirePermission('vitals:process'), async (req: Request, res: Response) => {
   try {
     const stats = await vitalSignsService.getProcessingStats();
     res.json(stats);
@@ -658,24 +1655,118 @@ app.get('/vital-signs/stats', async (req: Request, res: Response) => {
 
 // AI Note Checking Job System Endpoints
 
-// Start AI note checking job system
-app.post('/ai-notes/jobs/start', validateSession, async (req: Request, res: Response) => {
-  res.status(501).json({ 
-    error: 'Job control is managed by the dedicated worker service. Use docker-compose restart worker to restart job processing.' 
-  });
+const AI_NOTE_QUEUES: JobQueueName[] = ['ai-note-scan', 'ai-note-check'];
+
+const validateJobControlFields = (request: JobControlRequest): string | null => {
+  if (!JOB_CONTROL_ACTIONS.includes(request.action)) {
+    return `action must be one of: ${JOB_CONTROL_ACTIONS.join(', ')}`;
+  }
+  if (request.action !== 'run-vital-signs' && !JOB_QUEUE_NAMES.includes(request.queue as JobQueueName)) {
+    return `queue must be one of: ${JOB_QUEUE_NAMES.join(', ')}`;
+  }
+  if (request.action === 'set-concurrency' &&
+      (!Number.isInteger(request.concurrency) || request.concurrency! < 1 || request.concurrency! > MAX_WORKER_CONCURRENCY)) {
+    return `concurrency must be a whole number from 1 to ${MAX_WORKER_CONCURRENCY}`;
+  }
+  return null;
+};
+
+// Status for a command the workers didn't all carry out: 503 when no worker answered at all
+const jobControlErrorStatus = (response: JobControlResponse): number => response.acks.length === 0 ? 503 : 502;
+
+// Pause or resume both AI note queues through the worker
+const setAINoteQueuesPaused = async (paused: boolean, username: string): Promise<JobControlResponse[]> => {
+  const results: JobControlResponse[] = [];
+  for (const queue of AI_NOTE_QUEUES) {
+    results.push(await jobControl.send({ action: paused ? 'pause' : 'resume', queue }, username));
+  }
+  return results;
+};
+
+// Start AI note checking job system (resumes the AI note queues in the worker)
+app.post('/ai-notes/jobs/start', validateSession, requirePermission('jobs:manage'), async (req: Request, res: Response) => {
+  try {
+    const results = await setAINoteQueuesPaused(false, (req as any).user.username);
+    const failed = results.find(result => !result.success);
+    if (failed) {
+      res.status(jobControlErrorStatus(failed)).json({ error: failed.error, results });
+      return;
+    }
+    res.json({ success: true, message: 'AI note checking resumed', results });
+  } catch (error: any) {
+    console.error('Error starting AI note checking:', error);
+    res.status(500).json({ error: 'Failed to start AI note checking', details: error.message });
+  }
 });
 
-// Stop AI note checking job system
-app.post('/ai-notes/jobs/stop', validateSession, async (req: Request, res: Response) => {
-  res.status(501).json({ 
-    error: 'Job control is managed by the dedicated worker service. Use docker-compose stop worker to stop job processing.' 
-  });
+// Stop AI note checking job system (pauses the AI note queues in the worker)
+app.post('/ai-notes/jobs/stop', validateSession, requirePermission('jobs:manage'), async (req: Request, res: Response) => {
+  try {
+    const results = await setAINoteQueuesPaused(true, (req as any).user.username);
+    const failed = results.find(result => !result.success);
+    if (failed) {
+      res.status(jobControlErrorStatus(failed)).json({ error: failed.error, results });
+      return;
+    }
+    res.json({ success: true, message: 'AI note checking paused', results });
+  } catch (error: any) {
+    console.error('Error stopping AI note checking:', error);
+    res.status(500).json({ error: 'Failed to stop AI note checking', details: error.message });
+  }
+});
+
+// Get the queue state the worker processes last reported
+app.get('/ai-notes/jobs/control', validateSession, requirePermission('jobs:manage'), async (req: Request, res: Response<JobControlStateResponse | ErrorResponse>): Promise<void> => {
+  try {
+    res.json({ workers: await jobControl.getWorkerStates() });
+  } catch (error: any) {
+    console.error('Error fetching worker state:', error);
+    res.status(500).json({ error: 'Failed to fetch worker state', details: error.message });
+  }
+});
+
+// Send a job control command to the worker processes and wait for them to acknowledge it
+app.post('/ai-notes/jobs/control', validateSession, requirePermission('jobs:manage'), async (req: Request, res: Response<JobControlResponse | ErrorResponse>): Promise<void> => {
+  try {
+    const validationError = validateJobControlFields(req.body || {});
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const { action, queue, concurrency } = req.body as JobControlRequest;
+    const result = await jobControl.send({
+      action,
+      ...(action !== 'run-vital-signs' && queue && { queue }),
+      ...(action === 'set-concurrency' && concurrency && { concurrency })
+    }, (req as any).user.username);
+
+    res.status(result.success ? 200 : jobControlErrorStatus(result)).json(result);
+  } catch (error: any) {
+    console.error('Error sending job control command:', error);
+    res.status(500).json({ error: 'Failed to send job control command', details: error.message });
+  }
 });
 
 // Trigger manual AI note scan
-app.post('/ai-notes/jobs/scan', validateSession, async (req: Request, res: Response) => {
+app.post('/ai-notes/jobs/scan', validateSession, requirePermission('jobs:manage'), async (req: Request, res: Response) => {
   try {
-    const scanId = await triggerAINoteScan();
+    const { clinicId } = req.body || {};
+
+    if (clinicId) {
+      const clinic = await resolveClinic(clinicId);
+      if (!clinic) {
+        res.status(400).json({ error: `Unknown or inactive clinic: ${clinicId}` });
+        return;
+      }
+
+      if (!clinic.aiScanEnabled) {
+        res.status(400).json({ error: `AI note scanning is disabled for ${clinic.name}` });
+        return;
+      }
+    }
+
+    const scanId = await triggerAINoteScan(clinicId);
     
     res.json({ 
       success: true, 
@@ -692,7 +1783,7 @@ app.post('/ai-notes/jobs/scan', validateSession, async (req: Request, res: Respo
 });
 
 // Get AI note checking job statistics
-app.get('/ai-notes/jobs/stats', validateSession, async (req: Request, res: Response) => {
+app.get('/ai-notes/jobs/stats', validateSession, requirePermission('notes:view'), async (req: Request, res: Response) => {
   try {
     const stats = await getAINoteJobStats();
     res.json({ 
@@ -711,23 +1802,24 @@ app.get('/ai-notes/jobs/stats', validateSession, async (req: Request, res: Respo
 // AI Note Checker Endpoints
 
 // Get incomplete notes from EZDerm
-app.post('/notes/incomplete', validateSession, async (req: Request, res: Response): Promise<void> => {
+app.post('/notes/incomplete', validateSession, requirePermission('notes:view'), async (req: Request, res: Response): Promise<void> => {
   try {
     const username = (req as any).user.username;
     const { fetchFrom, size, group } = req.body;
     
     // Get valid tokens
-    const userTokens = await getValidTokens(username);
+    const userTokens = await ezdermClient.getValidTokens(username);
     if (!userTokens) {
       res.status(401).json({ error: 'Unable to obtain valid tokens. Please login again.' });
       return;
     }
     
-    const incompleteNotesData = await aiNoteChecker.fetchIncompleteNotes(userTokens.accessToken, {
+    const incompleteNotesData = await aiNoteChecker.fetchIncompleteNotes(username, {
       fetchFrom,
       size,
       group
     });
+    const { eligibilityDelayMinutes } = await getNoteCheckWindows();
     
     // Transform the EZDerm response to the format expected by frontend
     const encounters: any[] = [];
@@ -743,14 +1835,8 @@ app.post('/notes/incomplete', validateSession, async (req: Request, res: Respons
               return;
             }
             
-            // Apply eligibility filter: only show encounters with appropriate status and > 2 hours old
-            const eligibleStatuses = ['PENDING_COSIGN', 'CHECKED_OUT', 'WITH_PROVIDER'];
-            const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
-            const serviceDate = new Date(encounter.dateOfService);
-            
-            const isEligible = eligibleStatuses.includes(encounter.status) && serviceDate < twoHoursAgo;
-            
-            if (!isEligible) {
+            // Apply eligibility filter: only show encounters with appropriate status and old enough to check
+            if (!aiNoteChecker.isEligibleForCheck(encounter, eligibilityDelayMinutes)) {
               console.debug(`⏰ Skipping encounter ${encounter.id}: status=${encounter.status}, dateOfService=${encounter.dateOfService} (not eligible - either wrong status or too recent)`);
               return;
             }
@@ -793,7 +1879,7 @@ app.post('/notes/incomplete', validateSession, async (req: Request, res: Respons
       })
     );
 
-    console.log(`📊 Processed ${encountersWithTodoStatus.length} eligible encounters from ${incompleteNotesData.length} batches (filtered by status and 2+ hour age requirement)`);
+    console.log(`📊 Processed ${encountersWithTodoStatus.length} eligible encounters from ${incompleteNotesData.length} batches (filtered by status and the ${eligibilityDelayMinutes} minute eligibility delay)`);
     res.json({ success: true, encounters: encountersWithTodoStatus });
   } catch (error: any) {
     console.error('Error fetching incomplete notes:', error);
@@ -802,19 +1888,20 @@ app.post('/notes/incomplete', validateSession, async (req: Request, res: Respons
 });
 
 // Get all eligible encounters for AI checking
-app.get('/notes/eligible', validateSession, async (req: Request, res: Response): Promise<void> => {
+app.get('/notes/eligible', validateSession, requirePermission('notes:view'), async (req: Request, res: Response): Promise<void> => {
   try {
     const username = (req as any).user.username;
     
     // Get valid tokens
-    const userTokens = await getValidTokens(username);
+    const userTokens = await ezdermClient.getValidTokens(username);
     if (!userTokens) {
       res.status(401).json({ error: 'Unable to obtain valid tokens. Please login again.' });
       return;
     }
     
-    const allPatients = await aiNoteChecker.getAllIncompleteNotes(userTokens.accessToken);
-    const eligibleEncounters = aiNoteChecker.filterEligibleEncounters(allPatients);
+    const allPatients = await aiNoteChecker.getAllIncompleteNotes(username);
+    const { eligibilityDelayMinutes } = await getNoteCheckWindows();
+    const eligibleEncounters = aiNoteChecker.filterEligibleEncounters(allPatients, eligibilityDelayMinutes);
     
     res.json({ 
       success: true, 
@@ -835,14 +1922,14 @@ app.get('/notes/eligible', validateSession, async (req: Request, res: Response):
 });
 
 // Get progress note for specific encounter
-app.get('/notes/progress/:encounterId', validateSession, async (req: Request, res: Response): Promise<void> => {
+app.get('/notes/progress/:encounterId', validateSession, requirePermission('notes:view'), async (req: Request, res: Response): Promise<void> => {
   try {
     const username = (req as any).user.username;
     const { encounterId } = req.params;
     let { patientId } = req.query;
     
     // Get valid tokens
-    const userTokens = await getValidTokens(username);
+    const userTokens = await ezdermClient.getValidTokens(username);
     if (!userTokens) {
       res.status(401).json({ error: 'Unable to obtain valid tokens. Please login again.' });
       return;
@@ -858,7 +1945,7 @@ app.get('/notes/progress/:encounterId', validateSession, async (req: Request, re
     let encounterRoleInfoList: any[] = [];
     
     try {
-      const incompleteNotesData = await aiNoteChecker.fetchIncompleteNotes(userTokens.accessToken, {
+      const incompleteNotesData = await aiNoteChecker.fetchIncompleteNotes(username, {
         fetchFrom: 0,
         size: 200  // Get more notes to increase chance of finding the encounter
       });
@@ -898,7 +1985,7 @@ app.get('/notes/progress/:encounterId', validateSession, async (req: Request, re
     // Now fetch the FULL encounter details to get care team with actual names
     try {
       console.log('🏥 Fetching full encounter details for care team...');
-      const encounterDetails = await aiNoteChecker.fetchEncounterDetails(userTokens.accessToken, encounterId);
+      const encounterDetails = await aiNoteChecker.fetchEncounterDetails(username, encounterId);
       encounterRoleInfoList = encounterDetails.encounterRoleInfoList || [];
       console.log(`✅ Got care team with names: ${encounterRoleInfoList.length} members`);
       
@@ -914,17 +2001,19 @@ app.get('/notes/progress/:encounterId', validateSession, async (req: Request, re
     }
 
     const progressNote = await aiNoteChecker.fetchProgressNote(
-      userTokens.accessToken, 
+      username, 
       encounterId, 
       patientId as string
     );
     
-    // Also return the patient info and care team we found
+    // Also return the patient info and care team we found, and the note's MD5 so edits can
+    // be refused if the note changes in EZDerm in the meantime
     res.json({ 
       success: true, 
       data: progressNote,
       patientId: patientId,
-      careTeam: encounterRoleInfoList
+      careTeam: encounterRoleInfoList,
+      noteContentMd5: aiNoteChecker.calculateNoteContentMd5(progressNote)
     });
   } catch (error: any) {
     console.error('Error fetching progress note:', error);
@@ -933,7 +2022,7 @@ app.get('/notes/progress/:encounterId', validateSession, async (req: Request, re
 });
 
 // Create ToDo for note deficiencies
-app.post('/notes/:encounterId/create-todo', validateSession, async (req: Request, res: Response): Promise<void> => {
+app.post('/notes/:encounterId/create-todo', validateSession, requirePermission('notes:review'), async (req: Request, res: Response): Promise<void> => {
   try {
     const { encounterId } = req.params;
     const username = (req as any).user.username;
@@ -944,7 +2033,7 @@ app.post('/notes/:encounterId/create-todo', validateSession, async (req: Request
     }
     
     // Get valid tokens
-    const userTokens = await getValidTokens(username);
+    const userTokens = await ezdermClient.getValidTokens(username);
     if (!userTokens) {
       res.status(401).json({ error: 'Unable to obtain valid tokens. Please login again.' });
       return;
@@ -964,7 +2053,7 @@ app.post('/notes/:encounterId/create-todo', validateSession, async (req: Request
     }
 
     // Get encounter details directly by ID
-    const encounterDetails = await aiNoteChecker.fetchEncounterDetails(userTokens.accessToken, encounterId);
+    const encounterDetails = await aiNoteChecker.fetchEncounterDetails(username, encounterId);
     
     if (!encounterDetails) {
       res.status(404).json({ error: 'Encounter not found' });
@@ -981,7 +2070,7 @@ app.post('/notes/:encounterId/create-todo', validateSession, async (req: Request
 
     // Create the ToDo
     const todoId = await aiNoteChecker.createNoteDeficiencyToDo(
-      userTokens.accessToken,
+      username,
       encounterId,
       patientData.id,
       `${patientData.firstName} ${patientData.lastName}`,
@@ -1000,17 +2089,8 @@ app.post('/notes/:encounterId/create-todo', validateSession, async (req: Request
     });
     const subject = `Note Deficiencies - ${formattedDate}`;
     
-    // Build description
-    const issuesList = noteCheckResult.aiAnalysis.issues.map((issue: any, index: number) => {
-      const issueTypeMap: { [key: string]: string } = {
-        'no_explicit_plan': 'Missing Explicit Plan',
-        'chronicity_mismatch': 'Chronicity Mismatch',
-        'unclear_documentation': 'Unclear Documentation',
-        'chief_complaint_structure': 'Chief Complaint Structure'
-      };
-      return `${index + 1}. ${issueTypeMap[issue.issue] || issue.issue}: ${issue.assessment}\n   ${issue.details.correction}`;
-    }).join('\n\n');
-    const description = `The following deficiencies were identified in the progress note:\n\n${issuesList}`;
+    // Record the description the ToDo was created with
+    const description = aiNoteChecker.buildDeficiencyDescription(noteCheckResult.aiAnalysis.issues);
     
     // Determine assignee info
     const assignee = encounterData.encounterRoleInfoList.find((member: any) => 
@@ -1052,7 +2132,7 @@ app.post('/notes/:encounterId/create-todo', validateSession, async (req: Request
 });
 
 // Get created ToDos for a specific encounter
-app.get('/notes/:encounterId/todos', validateSession, async (req: Request, res: Response): Promise<void> => {
+app.get('/notes/:encounterId/todos', validateSession, requirePermission('notes:view'), async (req: Request, res: Response): Promise<void> => {
   try {
     const { encounterId } = req.params;
     
@@ -1074,7 +2154,7 @@ app.get('/notes/:encounterId/todos', validateSession, async (req: Request, res:
 });
 
 // Check specific encounter note with AI
-app.post('/notes/check/:encounterId', validateSession, async (req: Request, res: Response): Promise<void> => {
+app.post('/notes/check/:encounterId', validateSession, requirePermission('notes:review'), async (req: Request, res: Response): Promise<void> => {
   try {
     const username = (req as any).user.username;
     const { encounterId } = req.params;
@@ -1086,7 +2166,7 @@ app.post('/notes/check/:encounterId', validateSession, async (req: Request, res:
     }
     
     // Get valid tokens
-    const userTokens = await getValidTokens(username);
+    const userTokens = await ezdermClient.getValidTokens(username);
     if (!userTokens) {
       res.status(401).json({ error: 'Unable to obtain valid tokens. Please login again.' });
       return;
@@ -1098,7 +2178,7 @@ app.post('/notes/check/:encounterId', validateSession, async (req: Request, res:
     }
 
     const result = await aiNoteChecker.checkSingleNote(
-      userTokens.accessToken,
+      username,
       encounterId,
       patientId,
       patientName || 'Unknown Patient',
@@ -1120,18 +2200,18 @@ app.post('/notes/check/:encounterId', validateSession, async (req: Request, res:
 });
 
 // Process all eligible encounters
-app.post('/notes/check-all', validateSession, async (req: Request, res: Response): Promise<void> => {
+app.post('/notes/check-all', validateSession, requirePermission('notes:bulk'), async (req: Request, res: Response): Promise<void> => {
   try {
     const username = (req as any).user.username;
     
     // Get valid tokens
-    const userTokens = await getValidTokens(username);
+    const userTokens = await ezdermClient.getValidTokens(username);
     if (!userTokens) {
       res.status(401).json({ error: 'Unable to obtain valid tokens. Please login again.' });
       return;
     }
     
-    const result = await aiNoteChecker.processEligibleEncounters(userTokens.accessToken, username);
+    const result = await aiNoteChecker.processEligibleEncounters(username, username);
     
     res.json({ 
       success: true, 
@@ -1144,8 +2224,18 @@ app.post('/notes/check-all', validateSession, async (req: Request, res: Response
   }
 });
 
+// Get the AI check types notes go through, with their issue codes
+app.get('/notes/check-types', validateSession, requirePermission('notes:view'), async (req: Request, res: Response<CheckTypesResponse | ErrorResponse>): Promise<void> => {
+  try {
+    res.json({ checkTypes: checkTypes.toInfo() });
+  } catch (error: any) {
+    console.error('Error fetching check types:', error);
+    res.status(500).json({ error: 'Failed to fetch check types', details: error.message });
+  }
+});
+
 // Get note check results
-app.get('/notes/results', validateSession, async (req: Request, res: Response): Promise<void> => {
+app.get('/notes/results', validateSession, requirePermission('notes:view'), async (req: Request, res: Response): Promise<void> => {
   try {
     const { limit = 50, offset = 0 } = req.query;
     
@@ -1162,7 +2252,7 @@ app.get('/notes/results', validateSession, async (req: Request, res: Response):
 });
 
 // Get specific note check result
-app.get('/notes/result/:encounterId', validateSession, async (req: Request, res: Response): Promise<void> => {
+app.get('/notes/result/:encounterId', validateSession, requirePermission('notes:view'), async (req: Request, res: Response): Promise<void> => {
   try {
     const { encounterId } = req.params;
     
@@ -1186,7 +2276,7 @@ app.get('/notes/result/:encounterId', validateSession, async (req: Request, res:
 });
 
 // Mark an issue as invalid
-app.post('/notes/:encounterId/issues/:checkId/:issueIndex/mark-invalid', validateSession, async (req: Request, res: Response): Promise<void> => {
+app.post('/notes/:encounterId/issues/:checkId/:issueIndex/mark-invalid', validateSession, requirePermission('notes:review'), async (req: Request, res: Response): Promise<void> => {
   try {
     const { encounterId, checkId, issueIndex } = req.params;
     const { reason, issueType, assessment, issueHash } = req.body;
@@ -1219,7 +2309,7 @@ app.post('/notes/:encounterId/issues/:checkId/:issueIndex/mark-invalid', validat
 });
 
 // Remove invalid marking from an issue
-app.delete('/notes/:encounterId/issues/:checkId/:issueIndex/mark-invalid', validateSession, async (req: Request, res: Response): Promise<void> => {
+app.delete('/notes/:encounterId/issues/:checkId/:issueIndex/mark-invalid', validateSession, requirePermission('notes:review'), async (req: Request, res: Response): Promise<void> => {
   try {
     const { encounterId, checkId, issueIndex } = req.params;
     
@@ -1245,7 +2335,7 @@ app.delete('/notes/:encounterId/issues/:checkId/:issueIndex/mark-invalid', valid
 });
 
 // Get invalid issues for an encounter
-app.get('/notes/:encounterId/invalid-issues', validateSession, async (req: Request, res: Response): Promise<void> => {
+app.get('/notes/:encounterId/invalid-issues', validateSession, requirePermission('notes:view'), async (req: Request, res: Response): Promise<void> => {
   try {
     const { encounterId } = req.params;
     
@@ -1267,7 +2357,7 @@ app.get('/notes/:encounterId/invalid-issues', validateSession, async (req: Reque
 });
 
 // Bulk force re-check: Enqueue multiple notes for force re-check
-app.post('/notes/bulk-force-recheck', validateSession, async (req: Request, res: Response): Promise<void> => {
+app.post('/notes/bulk-force-recheck', validateSession, requirePermission('notes:bulk'), async (req: Request, res: Response): Promise<void> => {
   try {
     const { jobs } = req.body;
     
@@ -1334,22 +2424,15 @@ app.get('/user/provider-info', validateSession, async (req: Request, res: Respon
     const username = (req as any).user.username;
     
     // Get valid tokens
-    const userTokens = await getValidTokens(username);
+    const userTokens = await ezdermClient.getValidTokens(username);
     if (!userTokens) {
       res.status(401).json({ error: 'Unable to obtain valid tokens. Please login again.' });
       return;
     }
     
     // Decode the JWT token to get provider ID
-    // The JWT token contains the provider ID in the 'u' field
     try {
-      const tokenParts = userTokens.accessToken.split('.');
-      if (tokenParts.length !== 3 || !tokenParts[1]) {
-        throw new Error('Invalid JWT token format');
-      }
-      
-      const payload = JSON.parse(Buffer.from(tokenParts[1], 'base64').toString());
-      const providerId = payload.u; // Provider ID from JWT
+      const providerId = ezdermClient.getProviderId(userTokens.accessToken);
       
       console.log(`🔍 Current user provider info - Username: ${username}, Provider ID: ${providerId}`);
       
@@ -1369,7 +2452,7 @@ app.get('/user/provider-info', validateSession, async (req: Request, res: Respon
 });
 
 // Sign off a note
-app.post('/notes/sign-off', validateSession, async (req: Request, res: Response): Promise<void> => {
+app.post('/notes/sign-off', validateSession, requirePermission('notes:sign'), async (req: Request, res: Response): Promise<void> => {
   try {
     const username = (req as any).user.username;
     const { encounterId, patientId, status } = req.body;
@@ -1380,7 +2463,7 @@ app.post('/notes/sign-off', validateSession, async (req: Request, res: Response)
     }
     
     // Get valid tokens
-    const userTokens = await getValidTokens(username);
+    const userTokens = await ezdermClient.getValidTokens(username);
     if (!userTokens) {
       res.status(401).json({ error: 'Unable to obtain valid tokens. Please login again.' });
       return;
@@ -1388,31 +2471,9 @@ app.post('/notes/sign-off', validateSession, async (req: Request, res: Response)
     
     console.log(`🖊️ Signing off note for encounter ${encounterId} by user ${username}`);
     
-    // Prepare sign-off data based on the SignOff.md example
-    const signOffData = {
-      room: 0,
-      dateOfArrival: new Date().toISOString(),
-      status: status || 'SIGNED_OFF',
-      id: encounterId
-    };
+    const signOffData = buildSignOffRequest(encounterId, status);
     
-    // Make request to EZDerm sign-off API
-    const response = await axios.post(
-      `${userTokens.serverUrl}ezderm-webservice/rest/encounter/signOff`,
-      signOffData,
-      {
-        headers: {
-          'Host': 'srvprod.ezinfra.net',
-          'accept': 'application/json',
-          'content-type': 'application/json',
-          'authorization': `Bearer ${userTokens.accessToken}`,
-          'encounterid': encounterId,
-          'patientid': patientId,
-          'user-agent': 'ezDerm/4.28.1 (build:133.1; macOS(Catalyst) 15.6.1)',
-          'accept-language': 'en-US;q=1.0'
-        }
-      }
-    );
+    await ezdermClient.signOff(username, patientId, signOffData);
     
     console.log(`✅ Note signed off successfully for encounter ${encounterId}`);
     
@@ -1429,19 +2490,48 @@ app.post('/notes/sign-off', validateSession, async (req: Request, res: Response)
   }
 });
 
+// Sign off several clean notes; each is re-verified before it is signed
+app.post('/notes/bulk-sign-off', validateSession, requirePermission('notes:sign'), async (req: Request<{}, any, BulkSignOffRequest>, res: Response<BulkSignOffResponse | ErrorResponse>): Promise<void> => {
+  try {
+    const username = (req as any).user.username;
+    const { notes } = req.body;
+
+    if (!Array.isArray(notes) || notes.length === 0 || notes.some(note => !note?.encounterId || !note?.patientId)) {
+      res.status(400).json({ error: 'A notes array of { encounterId, patientId } is required' });
+      return;
+    }
+    if (notes.length > MAX_BULK_SIGN_OFF_NOTES) {
+      res.status(400).json({ error: `At most ${MAX_BULK_SIGN_OFF_NOTES} notes can be signed off at once` });
+      return;
+    }
+
+    console.log(`🖊️ Bulk sign-off of ${notes.length} notes requested by ${username}`);
+    const result = await noteSignOff.signOffCleanNotes(username, notes.map(({ encounterId, patientId }) => ({ encounterId, patientId })));
+    res.json(result);
+  } catch (error: any) {
+    console.error('Error processing bulk sign-off:', error);
+    res.status(500).json({ error: 'Failed to process bulk sign-off', details: error.message });
+  }
+});
+
 // Modify HPI note section
-app.post('/notes/modify-hpi', validateSession, async (req: Request, res: Response): Promise<void> => {
+app.post('/notes/modify-hpi', validateSession, requirePermission('notes:sign'), async (req: Request, res: Response): Promise<void> => {
   try {
     const username = (req as any).user.username;
-    const { note, encounterId, patientId, type } = req.body;
+    const { note, encounterId, patientId, type, expectedMd5 } = req.body;
     
     if (!encounterId || !patientId || !note || type !== 'HISTORY_OF_PRESENT_ILLNESS') {
       res.status(400).json({ error: 'Encounter ID, Patient ID, note text, and type (HISTORY_OF_PRESENT_ILLNESS) are required' });
       return;
     }
+
+    if (typeof expectedMd5 !== 'string' || !expectedMd5) {
+      res.status(400).json({ error: HPI_EXPECTED_MD5_MESSAGE });
+      return;
+    }
     
     // Get valid tokens
-    const userTokens = await getValidTokens(username);
+    const userTokens = await ezdermClient.getValidTokens(username);
     if (!userTokens) {
       res.status(401).json({ error: 'Unable to obtain valid tokens. Please login again.' });
       return;
@@ -1449,34 +2539,15 @@ app.post('/notes/modify-hpi', validateSession, async (req: Request, res: Respons
     
     console.log(`📝 Modifying HPI for encounter ${encounterId}, patient ${patientId} by user ${username}`);
     
-    // Prepare HPI modification data exactly as shown in modifyHPI.md
-    const hpiData = {
-      note: note,
-      encounterId: encounterId,
-      type: 'HISTORY_OF_PRESENT_ILLNESS'
-    };
-    
-    // Make request to EZDerm HPI modification API exactly as shown in modifyHPI.md
-    const response = await axios.post(
-      `${userTokens.serverUrl}ezderm-webservice/rest/progressnote/setPNInfo`,
-      hpiData,
-      {
-        headers: {
-          'Host': 'srvprod.ezinfra.net',
-          'accept': 'application/json',
-          'content-type': 'application/json',
-          'authorization': `Bearer ${userTokens.accessToken}`,
-          'encounterid': encounterId,
-          'patientid': patientId,
-          'user-agent': 'ezDerm/4.28.1 (build:133.1; macOS(Catalyst) 15.6.1)',
-          'accept-language': 'en-US;q=1.0'
-        }
-      }
-    );
+    const result = await hpiHistory.updateHpi(username, encounterId, patientId, note, expectedMd5);
+    if (result.conflict) {
+      res.status(409).json({ error: HPI_CONFLICT_MESSAGE, currentMd5: result.currentMd5 });
+      return;
+    }
     
-    console.log(`✅ HPI modified successfully for encounter ${encounterId}`);
+    console.log(`✅ HPI modified successfully for encounter ${encounterId} (version ${result.version.versionNumber})`);
     
-    res.json(response.data);
+    res.json({ ...result.updatedInfo, version: result.version });
   } catch (error: any) {
     console.error('Error modifying HPI:', error);
     const errorMessage = error.response?.data?.error || error.message || 'Failed to modify HPI';
@@ -1484,116 +2555,62 @@ app.post('/notes/modify-hpi', validateSession, async (req: Request, res: Respons
   }
 });
 
-// Token refresh function
-async function refreshEZDermToken(refreshToken: string): Promise<{ accessToken: string; refreshToken: string } | null> {
+// Get the HPI versions kept for an encounter, newest first
+app.get('/notes/:encounterId/hpi-versions', validateSession, requirePermission('notes:view'), async (req: Request<{ encounterId: string }>, res: Response<HpiVersionsResponse | ErrorResponse>): Promise<void> => {
   try {
-    console.log('🔄 Attempting to refresh EZDerm token...');
-    
-    const response: AxiosResponse<{ accessToken: string }> = await axios.get(EZDERM_REFRESH_URL, {
-      headers: {
-        'Host': 'login.ezinfra.net',
-        'accept': 'application/json',
-        'accept-language': 'en-US,en;q=0.9',
-        'authorization': `Bearer ${refreshToken}`,
-        'content-type': 'application/json',
-        'origin': 'https://pms.ezderm.com',
-        'referer': 'https://pms.ezderm.com/',
-        'user-agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/139.0.0.0 Safari/537.36'
-      }
-    });
-
-    const { accessToken } = response.data;
-    console.log('✅ Token refresh successful');
-    
-    // Note: EZDerm refresh token API only returns new accessToken, not a new refreshToken
-    // The refresh token remains the same and can be reused
-    return {
-      accessToken,
-      refreshToken: refreshToken // Keep the same refresh token
-    };
+    const { encounterId } = req.params;
+    const versions = await vitalSignsDb.getHpiVersions(encounterId);
+    res.json({ encounterId, versions });
   } catch (error: any) {
-    console.error('❌ Token refresh failed:', error.response?.data || error.message);
-    return null;
+    console.error('Error getting HPI versions:', error);
+    res.status(500).json({ error: 'Failed to get HPI versions', details: error.message });
   }
-}
+});
 
-// Enhanced function to get valid tokens (with refresh logic)
-async function getValidTokens(username: string): Promise<{ accessToken: string; refreshToken: string; serverUrl: string } | null> {
+// Put an earlier HPI version back into EZDerm (recorded as a new version)
+app.post('/notes/:encounterId/hpi-versions/:versionNumber/revert', validateSession, requirePermission('notes:sign'), async (req: Request<{ encounterId: string; versionNumber: string }, any, RevertHpiRequest>, res: Response): Promise<void> => {
   try {
-    // First, try to get stored tokens
-    let tokens = await vitalSignsDb.getStoredTokens(username);
-    
-    if (tokens) {
-      // Tokens are valid and not expired
-      return tokens;
+    const username = (req as any).user.username;
+    const { encounterId } = req.params;
+    const versionNumber = Number(req.params.versionNumber);
+    const { patientId, expectedMd5 } = req.body;
+
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      res.status(400).json({ error: 'Version number must be a positive whole number' });
+      return;
     }
-    
-    // Tokens are expired or don't exist, try to refresh
-    console.log(`🔄 Tokens expired for user ${username}, attempting refresh...`);
-    
-    // Get the refresh token even if access token is expired
-    const expiredTokenData = await vitalSignsDb.getStoredTokensIgnoreExpiry(username);
-    
-    if (expiredTokenData?.refreshToken) {
-      const refreshedTokens = await refreshEZDermToken(expiredTokenData.refreshToken);
-      
-      if (refreshedTokens) {
-        // Store the new tokens
-        await vitalSignsDb.storeTokens(username, refreshedTokens.accessToken, refreshedTokens.refreshToken, expiredTokenData.serverUrl);
-        
-        return {
-          accessToken: refreshedTokens.accessToken,
-          refreshToken: refreshedTokens.refreshToken,
-          serverUrl: expiredTokenData.serverUrl
-        };
-      }
+
+    if (!patientId) {
+      res.status(400).json({ error: 'Patient ID is required' });
+      return;
     }
-    
-    // Refresh failed, try re-login with stored credentials
-    console.log(`🔑 Token refresh failed for user ${username}, attempting re-login...`);
-    const credentials = await vitalSignsDb.getUserCredentials(username);
-    
-    if (credentials) {
-      const loginData: EZDermLoginRequest = {
-        username: credentials.username,
-        password: credentials.password,
-        application: 'EZDERM',
-        timeZoneId: 'America/Detroit',
-        clientVersion: '4.28.0'
-      };
-
-      const loginResponse: AxiosResponse<EZDermLoginResponse> = await axios.post(EZDERM_LOGIN_URL, loginData, {
-        headers: {
-          'Host': 'login.ezinfra.net',
-          'accept': 'application/json',
-          'content-type': 'application/json',
-          'user-agent': 'ezDerm/4.28.0 (com.ezderm.ezderm; build:132.19; macOS(Catalyst) 15.5.0) Alamofire/5.10.2',
-          'accept-language': 'en-US;q=1.0'
-        }
-      });
 
-      const { accessToken, refreshToken, servers } = loginResponse.data;
-      
-      // Store the new tokens
-      await vitalSignsDb.storeTokens(username, accessToken, refreshToken, servers.app);
-      
-      console.log(`✅ Re-login successful for user ${username}`);
-      
-      return {
-        accessToken,
-        refreshToken,
-        serverUrl: servers.app
-      };
+    if (typeof expectedMd5 !== 'string' || !expectedMd5) {
+      res.status(400).json({ error: HPI_EXPECTED_MD5_MESSAGE });
+      return;
     }
-    
-    console.log(`❌ No valid credentials found for user ${username}`);
-    return null;
-    
+
+    const version = await vitalSignsDb.getHpiVersion(encounterId, versionNumber);
+    if (!version) {
+      res.status(404).json({ error: 'HPI version not found' });
+      return;
+    }
+
+    console.log(`⏪ Reverting HPI for encounter ${encounterId} to version ${versionNumber} by user ${username}`);
+
+    const result = await hpiHistory.updateHpi(username, encounterId, patientId, version.noteText, expectedMd5, versionNumber);
+    if (result.conflict) {
+      res.status(409).json({ error: HPI_CONFLICT_MESSAGE, currentMd5: result.currentMd5 });
+      return;
+    }
+
+    console.log(`✅ HPI for encounter ${encounterId} reverted to version ${versionNumber} (now version ${result.version.versionNumber})`);
+    res.json({ ...result.updatedInfo, version: result.version });
   } catch (error: any) {
-    console.error(`💥 Error getting valid tokens for user ${username}:`, error.message);
-    return null;
+    console.error('Error reverting HPI:', error);
+    res.status(500).json({ error: 'Failed to revert HPI', details: error.response?.data?.error || error.message });
   }
-}
+});
 
 // Error handling middleware
 app.use((error: Error, req: Request, res: Response, next: any) => {
@@ -1637,13 +2654,19 @@ async function startServer() {
     // Clean up sessions on startup
     await vitalSignsDb.cleanupExpiredSessions();
 
+    // Encrypt credentials stored before encryption was enabled and re-wrap any under retired keys
+    const reencrypted = await vitalSignsDb.reencryptUserCredentials();
+    if (reencrypted > 0) {
+      console.log(`🔒 Re-encrypted stored credentials for ${reencrypted} user(s)`);
+    }
+
     app.listen(PORT, '0.0.0.0', () => {
       console.log(`🚀 Server is running on port ${PORT}`);
       console.log(`📋 Environment: ${process.env.NODE_ENV || 'development'}`);
-      console.log(`🏥 EZDerm API Base: ${EZDERM_LOGIN_URL}`);
       console.log(`🩺 Vital signs carryforward enabled (server-side jobs)`);
       console.log(`🤖 AI Note Checker enabled (Claude AI integration)`);
       console.log(`🌐 Health check: http://0.0.0.0:${PORT}/health`);
+      console.log(`🏥 Readiness: http://0.0.0.0:${PORT}/health/ready`);
       console.log(`🔐 Login endpoint: http://0.0.0.0:${PORT}/login`);
       console.log(`📝 AI Note Checker endpoints: /notes/*`);
       console.log(`✅ Server startup complete!`);
@@ -1657,12 +2680,18 @@ async function startServer() {
 // Graceful shutdown
 process.on('SIGINT', async () => {
   console.log('🔄 Gracefully shutting down API server...');
+  encounterFeed.closeAll();
+  await tokenBroker.close();
+  await jobControl.close();
   await vitalSignsDb.close();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   console.log('🔄 Gracefully shutting down API server...');
+  encounterFeed.closeAll();
+  await tokenBroker.close();
+  await jobControl.close();
   await vitalSignsDb.close();
   process.exit(0);
 });
@@ -2,6 +2,7 @@
 export interface LoginRequest {
   username: string;
   password: string;
+  deviceLabel?: string; // e.g. "Front desk wall display", shown on the sessions page
 }
 
 export interface EncountersRequest {
@@ -24,6 +25,8 @@ export interface LoginResponse {
   sessionToken?: string;
   refreshToken?: string;
   expiresAt?: string;
+  role?: UserRole;
+  permissions?: Permission[];
 }
 
 export interface RefreshTokenRequest {
@@ -35,6 +38,8 @@ export interface RefreshTokenResponse {
   sessionToken: string;
   refreshToken: string;
   expiresAt: string;
+  role?: UserRole;
+  permissions?: Permission[];
   error?: string;
 }
 
@@ -42,6 +47,8 @@ export interface SessionValidationResponse {
   valid: boolean;
   username?: string;
   expiresAt?: string;
+  role?: UserRole;
+  permissions?: Permission[];
   error?: string;
 }
 
@@ -49,6 +56,20 @@ export interface EncountersResponse {
   encounters: Encounter[];
 }
 
+// A single-use ticket for opening the encounter stream, which can't send an Authorization header
+export interface StreamTicketResponse {
+  ticket: string;
+  expiresAt: string;
+}
+
+// Changes between two consecutive polls of a clinic, pushed to boards over SSE
+export interface EncountersDelta {
+  added: Encounter[];
+  updated: Encounter[];
+  removed: string[];
+  version: number;
+}
+
 export interface ErrorResponse {
   error: string;
   details?: string;
@@ -62,6 +83,31 @@ export interface HealthResponse {
   environment?: string;
 }
 
+export type HealthServiceName = 'api' | 'worker' | 'bull-board';
+
+export interface HealthComponent {
+  name: string;
+  status: 'up' | 'down';
+  critical: boolean; // A critical component being down makes the service not ready
+  latencyMs: number;
+  details?: string;
+  error?: string;
+}
+
+export interface LivenessResponse {
+  status: 'alive';
+  service: HealthServiceName;
+  timestamp: string;
+  uptimeSeconds: number;
+}
+
+export interface ReadinessResponse {
+  status: 'ready' | 'degraded' | 'not_ready'; // degraded: only non-critical components are down
+  service: HealthServiceName;
+  timestamp: string;
+  components: HealthComponent[];
+}
+
 // EZDerm API types
 export interface EZDermLoginRequest {
   username: string;
@@ -79,6 +125,39 @@ export interface EZDermLoginResponse {
   };
 }
 
+// practice/info: the practice's users and EZDerm's role catalogue (other fields omitted)
+export interface EZDermPracticeUser {
+  id: string;
+  userName: string;
+  firstName: string;
+  lastName: string;
+  title?: string;
+  active: boolean;
+  roleIds: string[];
+}
+
+export interface EZDermPracticeRole {
+  id: string;
+  name: string; // e.g. PROVIDER, CLINICAL_STAFF, BILLER, ADMIN
+  description?: string;
+}
+
+export interface EZDermPracticeInfo {
+  cpUserInfoList: EZDermPracticeUser[];
+  cpUserRoleInfoList: EZDermPracticeRole[];
+}
+
+export interface EZDermRefreshTokenResponse {
+  accessToken: string;
+}
+
+// Tokens held for a user while talking to EZDerm on their behalf
+export interface EZDermTokens {
+  accessToken: string;
+  refreshToken: string;
+  serverUrl: string;
+}
+
 export interface EZDermEncounterFilter {
   dateOfServiceRangeHigh: string;
   clinicId: string;
@@ -89,6 +168,82 @@ export interface EZDermEncounterFilter {
   dateSelection: string;
 }
 
+// Filter used to look up a single patient's encounter history
+export interface EZDermPatientEncounterFilter {
+  lightBean: boolean;
+  patientId: string;
+  includeVirtualEncounters: boolean;
+}
+
+export interface EZDermPatientEncounter {
+  id: string;
+  dateOfService: string;
+  dateOfArrival?: string;
+  establishedPatient: boolean;
+  status: string;
+  patientInfo: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    dateOfBirth: string;
+    yearsOld: number;
+  };
+}
+
+export interface EZDermVitalSigns {
+  id?: string;
+  encounterId: string;
+  height1?: number;
+  height2?: number;
+  heightUnit?: string;
+  weight1?: number;
+  weight2?: number;
+  weightUnit?: string;
+  bmi?: number;
+  temperature?: number;
+  temperatureUnit?: string;
+  bloodPressureSystolic?: number;
+  bloodPressureDiastolic?: number;
+  pulse?: number;
+  respirations?: number;
+  headCircumference?: number;
+  changeStatus?: string;
+}
+
+// Full encounter as returned by encounter/getById (only the fields we rely on are typed)
+export interface EZDermEncounterDetails {
+  id: string;
+  patientId?: string;
+  patientInfo: {
+    id: string;
+    firstName?: string;
+    lastName?: string;
+    dateOfBirth?: string;
+  };
+  dateOfService: string;
+  status?: EncounterStatus;
+  encounterRoleInfoList: any[];
+  vitalSignsInfo?: EZDermVitalSigns;
+  [key: string]: any;
+}
+
+export interface EZDermSignOffRequest {
+  room: number;
+  dateOfArrival: string;
+  status: string;
+  id: string;
+}
+
+export type ProgressNoteInfoType = 'HISTORY_OF_PRESENT_ILLNESS';
+
+export interface EZDermSetPNInfoRequest {
+  note: string;
+  encounterId: string;
+  type: ProgressNoteInfoType;
+}
+
+export type EZDermSetPNInfoResponse = EZDermSetPNInfoRequest;
+
 // Patient and encounter types
 export interface PatientInfo {
   id: string;
@@ -122,6 +277,8 @@ export interface Encounter {
   appointmentType: string;
   appointmentColor: string;
   establishedPatient: boolean;
+  statusSince?: string; // When the server first saw the current status
+  alert?: WaitTimeAlert; // Most severe alert rule the encounter currently breaks
 }
 
 export type EncounterStatus = 
@@ -175,21 +332,569 @@ export interface EZDermEncounter {
   establishedPatient: boolean;
 }
 
-// Token storage types
-export interface StoredTokens {
-  accessToken: string;
-  refreshToken: string;
-  serverUrl: string;
-  timestamp: number;
+// Clinic registry types
+export interface Clinic {
+  id: number;
+  clinicId: string;
+  practiceId: string;
+  name: string;
+  timeZone: string; // IANA time zone, e.g. 'America/Detroit'
+  isActive: boolean;
+  vitalSignsEnabled: boolean;
+  aiScanEnabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateClinicRequest {
+  clinicId: string;
+  practiceId: string;
+  name: string;
+  timeZone?: string;
+  vitalSignsEnabled?: boolean;
+  aiScanEnabled?: boolean;
+}
+
+export interface UpdateClinicRequest {
+  practiceId?: string;
+  name?: string;
+  timeZone?: string;
+  isActive?: boolean;
+  vitalSignsEnabled?: boolean;
+  aiScanEnabled?: boolean;
+}
+
+export interface ClinicsResponse {
+  clinics: Clinic[];
+}
+
+// Encounter timeline and wait-time analytics types
+export interface EncounterStatusEvent {
+  id: number;
+  encounterId: string;
+  clinicId: string;
+  patientId: string;
+  status: EncounterStatus;
+  previousStatus?: EncounterStatus;
+  room?: string;
+  providerId?: string;
+  providerName?: string;
+  appointmentType?: string;
+  dateOfService: Date;
+  arrivalTime?: Date;
+  observedAt: Date;
+}
+
+// previousStatus comes from the last status stored for the encounter
+export type NewEncounterStatusEvent = Omit<EncounterStatusEvent, 'id' | 'observedAt' | 'previousStatus'>;
+
+export type WaitTimeGroupBy = 'provider' | 'day' | 'appointmentType';
+
+export interface WaitTimeStageStats {
+  count: number; // Visits that reached both ends of the stage
+  averageMinutes: number | null;
+  medianMinutes: number | null;
+}
+
+export interface WaitTimeStats {
+  key: string;
+  label: string;
+  visits: number;
+  doorToRoom: WaitTimeStageStats;
+  roomToProvider: WaitTimeStageStats;
+  totalVisit: WaitTimeStageStats;
+}
+
+export interface WaitTimeAnalyticsResponse {
+  clinicId: string;
+  from: string;
+  to: string;
+  groupBy: WaitTimeGroupBy;
+  providerId?: string;
+  overall: WaitTimeStats;
+  groups: WaitTimeStats[];
+}
+
+export interface ClinicFlowHour {
+  hour: number; // 0-23 in the clinic's time zone
+  arrivals: number; // Average per day
+  completions: number; // Average per day
+  occupiedRooms: number; // Average rooms occupied across the hour
+}
+
+export interface ProviderUtilization {
+  providerId: string;
+  providerName: string;
+  patientsSeen: number;
+  minutesWithPatients: number;
+  averageMinutesPerPatient: number | null;
+  utilization: number | null; // Share (0-1) of the provider's working span spent with patients
+}
+
+export interface ClinicFlowAnalyticsResponse {
+  clinicId: string;
+  from: string;
+  to: string;
+  providerId?: string;
+  days: number; // Days in the range with recorded visits
+  scheduledVisits: number;
+  noShows: number;
+  cancellations: number;
+  noShowRate: number | null;
+  cancellationRate: number | null;
+  hourly: ClinicFlowHour[];
+  providers: ProviderUtilization[]; // Always every provider, so the filter can list them
+}
+
+// Wait-time alert rule types
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export interface WaitTimeAlertRule {
+  id: number;
+  status: EncounterStatus;
+  appointmentType?: string; // Unset matches every appointment type
+  thresholdMinutes: number;
+  severity: AlertSeverity;
+  isActive: boolean;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateWaitTimeAlertRuleRequest {
+  status: EncounterStatus;
+  appointmentType?: string;
+  thresholdMinutes: number;
+  severity: AlertSeverity;
+}
+
+export interface UpdateWaitTimeAlertRuleRequest {
+  status?: EncounterStatus;
+  appointmentType?: string | null; // null clears it back to every appointment type
+  thresholdMinutes?: number;
+  severity?: AlertSeverity;
+  isActive?: boolean;
+}
+
+export interface WaitTimeAlertRulesResponse {
+  rules: WaitTimeAlertRule[];
+}
+
+export interface WaitTimeAlert {
+  ruleId: number;
+  severity: AlertSeverity;
+  thresholdMinutes: number;
+}
+
+// Kiosk display types
+export type KioskMaskingMode = 'initials_mrn' | 'ticket';
+
+export interface KioskDisplayToken {
+  id: number;
+  clinicId: string;
+  label: string;
+  maskingMode: KioskMaskingMode;
+  createdBy: string;
+  createdAt: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+}
+
+export interface CreateKioskDisplayTokenRequest {
+  clinicId: string;
+  label: string;
+  maskingMode?: KioskMaskingMode;
+}
+
+export interface CreateKioskDisplayTokenResponse {
+  token: string; // Only returned here; the server keeps a hash
+  display: KioskDisplayToken;
+}
+
+export interface KioskDisplayTokensResponse {
+  displays: KioskDisplayToken[];
 }
 
-// Utility types
-export type TokenStore = Map<string, StoredTokens>;
+export type KioskPatientStatus = 'waiting' | 'in_room' | 'with_provider';
+
+export interface KioskPatient {
+  displayId: string; // Initials and last MRN digits, or a ticket number; never a name
+  status: KioskPatientStatus;
+  statusLabel: string;
+  estimatedWaitMinutes: number | null; // null when there isn't enough history to estimate
+}
+
+export interface KioskBoardResponse {
+  clinicName: string;
+  timeZone: string;
+  generatedAt: string;
+  patients: KioskPatient[];
+}
+
+// Access control types
+export type UserRole = 'front_desk' | 'ma' | 'provider' | 'coder' | 'admin';
+
+export type Permission =
+  | 'board:view'
+  | 'analytics:view'
+  | 'vitals:process'
+  | 'notes:view'
+  | 'notes:review'
+  | 'notes:bulk'
+  | 'notes:sign'
+  | 'jobs:manage'
+  | 'audit:view'
+  | 'admin:manage';
+
+export interface UserRoleAssignment {
+  username: string;
+  role: UserRole;
+  source: 'ezderm' | 'manual'; // Manual assignments survive logins; EZDerm-derived ones are refreshed
+  ezdermTitle?: string;
+  updatedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface UserRolesResponse {
+  users: UserRoleAssignment[];
+}
+
+export interface UpdateUserRoleRequest {
+  role: UserRole;
+}
+
+// Session management types
+export interface UserSession {
+  id: number;
+  username: string;
+  deviceLabel?: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: Date;
+  lastAccessed: Date;
+  expiresAt: Date;
+  current: boolean; // The session making the request
+}
+
+export interface UserSessionsResponse {
+  sessions: UserSession[];
+}
+
+export interface UpdateSessionLabelRequest {
+  deviceLabel: string | null;
+}
+
+// Audit log types
+export type AuditAction = 'note.sign_off' | 'note.hpi_update' | 'todo.create' | 'vital_signs.update';
+
+export interface AuditChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEvent {
+  id: number;
+  actor: string; // EZDerm user the write was sent as
+  action: AuditAction;
+  encounterId?: string;
+  patientId?: string;
+  requestPayload?: unknown;
+  changes?: Record<string, AuditChange>; // Only the fields the write changed
+  responseStatus?: number; // EZDerm's HTTP status; missing when no response came back
+  success: boolean;
+  errorMessage?: string;
+  occurredAt: Date;
+}
+
+export type NewAuditEvent = Omit<AuditEvent, 'id' | 'occurredAt'>;
+
+export interface AuditEventFilter {
+  patientId?: string;
+  encounterId?: string;
+  actor?: string;
+  action?: AuditAction;
+  from?: string; // ISO instants, inclusive
+  to?: string;
+  limit: number;
+  offset: number;
+}
+
+export interface AuditEventsResponse {
+  events: AuditEvent[];
+  total: number;
+}
+
+// HPI version history types
+export type HpiVersionSource = 'ezderm' | 'edit' | 'revert';
+
+export interface HpiVersion {
+  id: number;
+  encounterId: string;
+  patientId: string;
+  versionNumber: number; // 1 is the oldest text seen for the encounter
+  noteText: string;
+  source: HpiVersionSource; // ezderm: the text found in EZDerm before an edit; edit/revert: written from here
+  revertedFromVersion?: number;
+  createdBy?: string;
+  createdAt: Date;
+}
+
+export type NewHpiVersion = Omit<HpiVersion, 'id' | 'versionNumber' | 'createdAt'>;
+
+export interface HpiVersionsResponse {
+  encounterId: string;
+  versions: HpiVersion[];
+}
+
+export interface RevertHpiRequest {
+  patientId: string;
+  expectedMd5: string;
+}
+
+export interface BulkSignOffNote {
+  encounterId: string;
+  patientId: string;
+}
+
+export interface BulkSignOffRequest {
+  notes: BulkSignOffNote[];
+}
+
+// skipped: the note didn't qualify and nothing was sent; failed: EZDerm refused the sign-off
+export type BulkSignOffOutcome = 'signed_off' | 'skipped' | 'failed';
+
+export interface BulkSignOffResult extends BulkSignOffNote {
+  outcome: BulkSignOffOutcome;
+  reason?: string;
+}
+
+export interface BulkSignOffResponse {
+  results: BulkSignOffResult[];
+  signedOff: number;
+  skipped: number;
+  failed: number;
+}
+
+// Background job schedule types
+export type ScheduledJobName = 'vital-signs' | 'ai-note-scan';
+
+export interface JobSchedule {
+  jobName: ScheduledJobName;
+  enabled: boolean;
+  cronExpression: string; // 5 fields, or 6 with seconds first
+  timeZone?: string; // Unset uses EZDERM_TIME_ZONE
+  activeFrom?: string; // HH:MM; with activeUntil, scheduled runs outside these clinic hours are skipped
+  activeUntil?: string;
+  businessDays?: number[]; // 0 = Sunday ... 6 = Saturday; unset runs every day
+  eligibilityDelayMinutes?: number; // AI note scan: how long after the visit a note becomes eligible
+  recheckAfterMinutes?: number; // AI note scan: how long a check stays fresh before the note is checked again
+  updatedBy?: string;
+  updatedAt: Date;
+}
+
+export interface UpdateJobScheduleRequest {
+  enabled?: boolean;
+  cronExpression?: string;
+  timeZone?: string | null; // null clears an override
+  activeFrom?: string | null;
+  activeUntil?: string | null;
+  businessDays?: number[] | null;
+  eligibilityDelayMinutes?: number | null; // null goes back to the default
+  recheckAfterMinutes?: number | null;
+}
+
+export interface JobSchedulesResponse {
+  schedules: JobSchedule[];
+}
+
+// Job control types (commands the API sends to the worker process over Redis)
+export type JobQueueName = 'vital-signs-processing' | 'ai-note-scan' | 'ai-note-check';
+
+export type JobControlAction = 'pause' | 'resume' | 'drain' | 'set-concurrency' | 'run-vital-signs';
+
+export interface JobControlRequest {
+  action: JobControlAction;
+  queue?: JobQueueName; // Required for pause, resume, drain and set-concurrency
+  concurrency?: number; // Required for set-concurrency
+}
+
+export interface JobControlCommand extends JobControlRequest {
+  commandId: string;
+  requestedBy: string;
+  requestedAt: string;
+}
+
+export interface WorkerQueueState {
+  queue: JobQueueName;
+  paused: boolean;
+  concurrency: number;
+  waiting: number;
+  active: number;
+  delayed: number;
+  failed: number;
+}
+
+export interface WorkerState {
+  workerId: string; // hostname:pid
+  startedAt: string;
+  reportedAt: string;
+  queues: WorkerQueueState[];
+}
+
+export interface JobControlAck {
+  commandId: string;
+  workerId: string;
+  success: boolean;
+  message?: string;
+  error?: string;
+  state: WorkerState;
+}
+
+export interface JobControlResponse {
+  success: boolean;
+  commandId: string;
+  acks: JobControlAck[];
+  error?: string;
+}
+
+export interface JobControlStateResponse {
+  workers: WorkerState[];
+}
+
+// LLM provider types
+export type LLMProviderName = 'openai' | 'anthropic' | 'local' | 'fake';
+
+export interface LLMModelChoice {
+  provider: LLMProviderName;
+  model: string;
+}
+
+// AI check type types (each check is declared in a module in src/checks and discovered at startup)
+export type CheckSeverity = 'high' | 'medium' | 'low';
+
+export interface CheckIssueDefinition {
+  code: string; // snake_case, unique across all check types
+  label: string;
+}
+
+export interface CheckTypeDefinition {
+  id: string; // kebab-case, e.g. 'plan-check'; also keys its prompt versions and model choice
+  label: string;
+  description: string;
+  promptFile: string; // Markdown file in src/prompts imported as the check's first prompt version
+  issues: CheckIssueDefinition[]; // The only issue codes the check's responses may report
+  severity: CheckSeverity;
+  applicableSections: string[]; // Progress note section types the check is sent, e.g. 'SUBJECTIVE'
+}
+
+// What clients are told about a check type (everything but its prompt)
+export type CheckTypeInfo = Omit<CheckTypeDefinition, 'promptFile'>;
+
+export interface CheckTypesResponse {
+  checkTypes: CheckTypeInfo[];
+}
+
+// Prompt template types (versioned AI check prompts, editable by admins)
+export interface PromptTemplateVersion {
+  id: number;
+  checkType: string;
+  versionNumber: number; // 1 is the prompt imported from src/prompts
+  content: string;
+  changeNote?: string;
+  createdBy?: string;
+  createdAt: Date;
+}
+
+export type NewPromptTemplateVersion = Omit<PromptTemplateVersion, 'id' | 'versionNumber' | 'createdAt'>;
+
+export interface PromptTemplateSummary {
+  checkType: string;
+  latestVersion: number;
+  activeVersion: number; // The pinned version, or the latest when none is pinned
+  pinnedVersion?: number;
+  pinnedBy?: string;
+  pinnedAt?: Date;
+  model: LLMModelChoice;
+}
+
+export interface PromptTemplatesResponse {
+  templates: PromptTemplateSummary[];
+}
+
+export interface PromptTemplateVersionsResponse {
+  checkType: string;
+  versions: PromptTemplateVersion[];
+}
+
+export interface CreatePromptTemplateVersionRequest {
+  content: string;
+  changeNote: string;
+  baseVersion: number; // The latest version when the edit started; the save is refused if another has been saved since
+}
+
+export interface PinPromptTemplateRequest {
+  versionNumber: number | null; // null unpins, so the latest version is used
+}
+
+// Which prompt version and model one check of a note check ran with
+export interface NoteCheckRun {
+  checkType: string;
+  promptVersion: number;
+  provider: LLMProviderName;
+  model: string;
+}
+
+// Prompt evaluation types (a labeled corpus of de-identified notes that prompt versions are scored against)
+export interface LabeledIssue {
+  issue: AIAnalysisIssue['issue'];
+  assessment: string;
+}
+
+export interface PromptEvalSample {
+  id: number;
+  sourceMd5: string; // MD5 of the note check's content, so re-seeding updates the sample instead of duplicating it
+  noteContent: string; // De-identified
+  expectedIssues: LabeledIssue[]; // Issues the AI reported that reviewers left standing
+  rejectedIssues: LabeledIssue[]; // Issues reviewers marked invalid
+  labelSource: 'mark-invalid';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type NewPromptEvalSample = Omit<PromptEvalSample, 'id' | 'createdAt' | 'updatedAt'>;
+
+// A completed note check that a reviewer marked at least one issue of as invalid
+export interface ReviewedNoteCheck {
+  checkId: number;
+  patientName: string;
+  noteContent: string;
+  noteContentMd5: string;
+  aiAnalysis: AIAnalysisResult;
+  invalidIssues: LabeledIssue[];
+}
+
+export type PromptEvalStatus = 'completed' | 'parse_failed' | 'error';
+
+export interface PromptEvalResult {
+  sampleId: number;
+  checkType: string;
+  promptVersion: number;
+  provider: LLMProviderName;
+  model: string;
+  status: PromptEvalStatus;
+  reportedIssues: LabeledIssue[];
+  errorMessage?: string;
+  evaluatedAt: Date;
+}
+
+export type NewPromptEvalResult = Omit<PromptEvalResult, 'evaluatedAt'>;
 
 // AI Note Checker Job Types
 export interface AINoteScanJobData {
   scanId: string;
   batchSize?: number;
+  clinicId?: string; // Limit the scan to one clinic; defaults to every AI-enabled clinic
 }
 
 export interface AINoteCheckJobData {
@@ -199,7 +904,9 @@ export interface AINoteCheckJobData {
   chiefComplaint: string;
   dateOfService: string;
   scanId: string;
+  clinicId?: string;
   force?: boolean; // Optional force flag to bypass MD5 checking
+  llmRetries?: number; // How many times the check has been re-queued after the LLM provider was unavailable
 }
 
 // EZDerm ToDo Types
@@ -290,7 +997,7 @@ export interface ProgressNoteItem {
 }
 
 export interface ProgressNoteSection {
-  sectionType: 'SUBJECTIVE' | 'OBJECTIVE' | 'ASSESSMENT_AND_PLAN';
+  sectionType: 'SUBJECTIVE' | 'OBJECTIVE' | 'ASSESSMENT_AND_PLAN' | 'POST_SIGNOFF_INFO'; // POST_SIGNOFF_INFO once signed off
   locked: boolean;
   order: number;
   items: ProgressNoteItem[];
@@ -330,7 +1037,7 @@ export interface ProgressNoteResponse {
 
 export interface AIAnalysisIssue {
   assessment: string;
-  issue: 'no_explicit_plan' | 'chronicity_mismatch' | 'unclear_documentation' | 'chief_complaint_structure';
+  issue: string; // An issue code declared by one of the check types in src/checks
   details: {
     HPI?: string;
     'A&P': string;
@@ -345,6 +1052,22 @@ export interface AIAnalysisResult {
   reason?: string; // Reason when status is 'ok'
 }
 
+// The subset of JSON Schema used to describe structured AI responses
+export type JSONSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[];
+  description?: string;
+  enum?: Array<string | number | boolean | null>;
+  properties?: { [key: string]: JSONSchema };
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JSONSchema;
+}
+
+// 'parse_failed': the model answered, but not with a response matching the check's schema
+export type NoteCheckStatus = 'pending' | 'completed' | 'error' | 'parse_failed';
+
 export interface NoteCheckResult {
   id: number;
   encounterId: string;
@@ -352,12 +1075,14 @@ export interface NoteCheckResult {
   patientName: string;
   chiefComplaint: string;
   dateOfService: string;
-  status: 'pending' | 'completed' | 'error';
+  status: NoteCheckStatus;
   aiAnalysis?: AIAnalysisResult;
   issuesFound: boolean;
   checkedAt: Date;
   checkedBy: string;
   errorMessage?: string;
+  retryable?: boolean; // Failed because an LLM provider was unavailable; worth running again later
+  checkRuns?: NoteCheckRun[];
   noteContentMd5?: string;
   noteContent?: string;
 }
@@ -1,40 +1,6 @@
-import axios from './axiosConfig';
 import { vitalSignsDb } from './database';
-
-interface VitalSigns {
-  id?: string;
-  encounterId: string;
-  height1?: number;
-  height2?: number;
-  heightUnit?: string;
-  weight1?: number;
-  weight2?: number;
-  weightUnit?: string;
-  bmi?: number;
-  temperature?: number;
-  temperatureUnit?: string;
-  bloodPressureSystolic?: number;
-  bloodPressureDiastolic?: number;
-  pulse?: number;
-  respirations?: number;
-  headCircumference?: number;
-  changeStatus?: string;
-}
-
-interface HistoricalEncounter {
-  id: string;
-  dateOfService: string;
-  dateOfArrival?: string;
-  establishedPatient: boolean;
-  status: string;
-  patientInfo: {
-    id: string;
-    firstName: string;
-    lastName: string;
-    dateOfBirth: string;
-    yearsOld: number;
-  };
-}
+import { ezdermClient } from './ezdermClient';
+import { EZDermEncounterDetails, EZDermPatientEncounter, EZDermVitalSigns } from './types';
 
 interface PatientAge {
   years: number;
@@ -42,8 +8,6 @@ interface PatientAge {
 }
 
 class VitalSignsService {
-  private readonly EZDERM_BASE_URL = 'https://srvprod.ezinfra.net';
-
   /**
    * Calculate patient age from date of birth
    */
@@ -108,7 +72,7 @@ class VitalSignsService {
   /**
    * Get historical encounters for a patient
    */
-  private async getHistoricalEncounters(patientId: string, accessToken: string, currentEncounterId: string): Promise<HistoricalEncounter[]> {
+  private async getHistoricalEncounters(patientId: string, username: string, currentEncounterId: string): Promise<EZDermPatientEncounter[]> {
     // Validate inputs
     if (!patientId) {
       throw new Error('Patient ID is required for historical encounters lookup');
@@ -117,30 +81,12 @@ class VitalSignsService {
     try {
       console.log(`Fetching historical encounters for patient: ${patientId}`);
       
-      const response = await axios.post(
-        `${this.EZDERM_BASE_URL}/ezderm-webservice/rest/encounter/getByFilter`,
-        {
-          lightBean: true,
-          patientId: patientId,
-          includeVirtualEncounters: true
-        },
-        {
-          headers: {
-            'Host': 'srvprod.ezinfra.net',
-            'accept': 'application/json',
-            'content-type': 'application/json',
-            'authorization': `Bearer ${accessToken}`,
-            'patientid': patientId,
-            'user-agent': 'ezDerm/4.28.0 (build:132.19; macOS(Catalyst) 15.5.0)',
-            'accept-language': 'en-US;q=1.0'
-          }
-        }
-      );
+      const patientEncounters = await ezdermClient.getPatientEncounters(username, patientId);
 
       // Filter out current encounter and sort by date (most recent first)
-      const encounters = response.data
-        .filter((enc: any) => enc.id !== currentEncounterId)
-        .sort((a: any, b: any) => new Date(b.dateOfService).getTime() - new Date(a.dateOfService).getTime());
+      const encounters = patientEncounters
+        .filter(enc => enc.id !== currentEncounterId)
+        .sort((a, b) => new Date(b.dateOfService).getTime() - new Date(a.dateOfService).getTime());
 
       return encounters;
     } catch (error) {
@@ -152,24 +98,9 @@ class VitalSignsService {
   /**
    * Get full encounter details including vital signs
    */
-  private async getEncounterById(encounterId: string, patientId: string, accessToken: string): Promise<any> {
+  private async getEncounterById(encounterId: string, patientId: string, username: string): Promise<EZDermEncounterDetails | null> {
     try {
-      const response = await axios.get(
-        `${this.EZDERM_BASE_URL}/ezderm-webservice/rest/encounter/getById/_rid/${encounterId}`,
-        {
-          headers: {
-            'Host': 'srvprod.ezinfra.net',
-            'accept': 'application/json',
-            'authorization': `Bearer ${accessToken}`,
-            'encounterid': encounterId,
-            'patientid': patientId,
-            'user-agent': 'ezDerm/4.28.0 (build:132.19; macOS(Catalyst) 15.5.0)',
-            'accept-language': 'en-US;q=1.0'
-          }
-        }
-      );
-
-      return response.data;
+      return await ezdermClient.getEncounterById(username, encounterId, patientId);
     } catch (error: any) {
       console.error(`Error fetching encounter ${encounterId}:`, error);
       
@@ -186,7 +117,7 @@ class VitalSignsService {
   /**
    * Extract vital signs from encounter response
    */
-  private extractVitalSigns(encounter: any): VitalSigns | null {
+  private extractVitalSigns(encounter: any): EZDermVitalSigns | null {
     if (!encounter.vitalSignsInfo) {
       return null;
     }
@@ -216,31 +147,15 @@ class VitalSignsService {
   /**
    * Update vital signs for an encounter
    */
-  private async updateVitalSigns(vitalSigns: VitalSigns, accessToken: string, patientId: string): Promise<boolean> {
+  private async updateVitalSigns(vitalSigns: EZDermVitalSigns, username: string, patientId: string, previousVitalSigns: EZDermVitalSigns): Promise<boolean> {
     try {
       const updateData = {
         ...vitalSigns,
         changeStatus: 'UPDATED'
       };
 
-      const response = await axios.post(
-        `${this.EZDERM_BASE_URL}/ezderm-webservice/rest/vitalSigns/updateVitalSigns`,
-        updateData,
-        {
-          headers: {
-            'Host': 'srvprod.ezinfra.net',
-            'accept': 'application/json',
-            'content-type': 'application/json',
-            'authorization': `Bearer ${accessToken}`,
-            'encounterid': vitalSigns.encounterId,
-            'patientid': patientId,
-            'user-agent': 'ezDerm/4.28.0 (build:132.19; macOS(Catalyst) 15.5.0)',
-            'accept-language': 'en-US;q=1.0'
-          }
-        }
-      );
-
-      return response.status === 200;
+      await ezdermClient.updateVitalSigns(username, patientId, updateData, previousVitalSigns);
+      return true;
     } catch (error) {
       console.error('Error updating vital signs:', error);
       return false;
@@ -250,7 +165,7 @@ class VitalSignsService {
   /**
    * Check if vital signs contain height and weight data
    */
-  private hasHeightAndWeight(vitalSigns: VitalSigns): boolean {
+  private hasHeightAndWeight(vitalSigns: EZDermVitalSigns): boolean {
     const hasHeight = (vitalSigns.height1 !== undefined && vitalSigns.height1 > 0) || 
                      (vitalSigns.height2 !== undefined && vitalSigns.height2 > 0);
     const hasWeight = (vitalSigns.weight1 !== undefined && vitalSigns.weight1 > 0) || 
@@ -262,10 +177,10 @@ class VitalSignsService {
   /**
    * Find the most recent encounter with height and weight data
    */
-  private async findMostRecentVitalSigns(encounters: HistoricalEncounter[], patientId: string, accessToken: string): Promise<{ encounter: HistoricalEncounter; vitalSigns: VitalSigns } | null> {
+  private async findMostRecentVitalSigns(encounters: EZDermPatientEncounter[], patientId: string, username: string): Promise<{ encounter: EZDermPatientEncounter; vitalSigns: EZDermVitalSigns } | null> {
     for (const encounter of encounters) {
       try {
-        const fullEncounter = await this.getEncounterById(encounter.id, patientId, accessToken);
+        const fullEncounter = await this.getEncounterById(encounter.id, patientId, username);
         
         if (fullEncounter) {
           const vitalSigns = this.extractVitalSigns(fullEncounter);
@@ -287,7 +202,7 @@ class VitalSignsService {
   /**
    * Calculate BMI from height and weight
    */
-  private calculateBMI(vitalSigns: VitalSigns): number | undefined {
+  private calculateBMI(vitalSigns: EZDermVitalSigns): number | undefined {
     const height = vitalSigns.height1 || vitalSigns.height2;
     const weight = vitalSigns.weight1 || vitalSigns.weight2;
     
@@ -320,7 +235,7 @@ class VitalSignsService {
   /**
    * Process vital signs carryforward for a single encounter
    */
-  async processVitalSignsCarryforward(encounter: any, accessToken: string): Promise<boolean> {
+  async processVitalSignsCarryforward(encounter: any, username: string): Promise<boolean> {
     try {
       // Check if encounter is eligible
       if (!this.isEligibleForCarryforward(encounter)) {
@@ -371,7 +286,7 @@ class VitalSignsService {
       // Get historical encounters
       const historicalEncounters = await this.getHistoricalEncounters(
         encounter.patientInfo.id,
-        accessToken,
+        username,
         encounter.id
       );
       console.log('historicalEncounters', historicalEncounters);
@@ -396,7 +311,7 @@ class VitalSignsService {
       const recentVitalSigns = await this.findMostRecentVitalSigns(
         historicalEncounters,
         encounter.patientInfo.id,
-        accessToken
+        username
       );
       console.debug('recentVitalSigns', recentVitalSigns);
 
@@ -420,7 +335,7 @@ class VitalSignsService {
       const currentEncounter = await this.getEncounterById(
         encounter.id,
         encounter.patientInfo.id,
-        accessToken
+        username
       );
 
       if (!currentEncounter) {
@@ -458,7 +373,7 @@ class VitalSignsService {
       }
 
       // Update with historical height and weight
-      const updatedVitalSigns: VitalSigns = { ...currentVitalSigns };
+      const updatedVitalSigns: EZDermVitalSigns = { ...currentVitalSigns };
       
       // Copy height and weight from historical encounter
       if (recentVitalSigns.vitalSigns.height1) {
@@ -489,8 +404,9 @@ class VitalSignsService {
       // Update vital signs in EZDerm
       const updateSuccess = await this.updateVitalSigns(
         updatedVitalSigns,
-        accessToken,
-        encounter.patientInfo.id
+        username,
+        encounter.patientInfo.id,
+        currentVitalSigns
       );
 
       if (updateSuccess) {
@@ -538,14 +454,14 @@ class VitalSignsService {
   /**
    * Process vital signs carryforward for multiple encounters
    */
-  async processMultipleEncounters(encounters: any[], accessToken: string): Promise<{ processed: number; successful: number; failed: number }> {
+  async processMultipleEncounters(encounters: any[], username: string): Promise<{ processed: number; successful: number; failed: number }> {
     let processed = 0;
     let successful = 0;
     let failed = 0;
 
     for (const encounter of encounters) {
       try {
-        const result = await this.processVitalSignsCarryforward(encounter, accessToken);
+        const result = await this.processVitalSignsCarryforward(encounter, username);
         if (this.isEligibleForCarryforward(encounter)) {
           processed++;
           if (result) {
@@ -0,0 +1,81 @@
+import { vitalSignsDb } from './database';
+import { AlertSeverity, Encounter, WaitTimeAlert, WaitTimeAlertRule } from './types';
+
+// Rules are re-read at most this often; admin edits clear the cache straight away
+const RULES_CACHE_MS = 60000;
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+
+class WaitTimeAlerts {
+  private rules: WaitTimeAlertRule[] | null = null;
+  private rulesLoadedAt = 0;
+
+  /**
+   * Drop the cached rules so the next evaluation picks up admin changes
+   */
+  invalidate(): void {
+    this.rules = null;
+  }
+
+  /**
+   * Attach the most severe alert each encounter breaks, measured from when it entered its
+   * current status (`statusSince`). Encounters without a known status start are left alone.
+   */
+  async evaluate(encounters: Encounter[], now: Date = new Date()): Promise<Encounter[]> {
+    const rules = await this.getRules();
+    if (rules.length === 0) {
+      return encounters;
+    }
+
+    return encounters.map(encounter => {
+      const alert = this.findAlert(encounter, rules, now);
+      return alert ? { ...encounter, alert } : encounter;
+    });
+  }
+
+  private findAlert(encounter: Encounter, rules: WaitTimeAlertRule[], now: Date): WaitTimeAlert | null {
+    if (!encounter.statusSince) {
+      return null;
+    }
+
+    const minutesInStatus = (now.getTime() - new Date(encounter.statusSince).getTime()) / 60000;
+    let match: WaitTimeAlertRule | null = null;
+
+    for (const rule of rules) {
+      if (rule.status !== encounter.status || minutesInStatus < rule.thresholdMinutes) {
+        continue;
+      }
+      if (rule.appointmentType && rule.appointmentType.toLowerCase() !== encounter.appointmentType.toLowerCase()) {
+        continue;
+      }
+
+      // Most severe wins; between equals, the longer threshold says more about the wait
+      const severityRank = ALERT_SEVERITIES.indexOf(rule.severity);
+      const matchRank = match ? ALERT_SEVERITIES.indexOf(match.severity) : -1;
+      if (!match || severityRank > matchRank || (severityRank === matchRank && rule.thresholdMinutes > match.thresholdMinutes)) {
+        match = rule;
+      }
+    }
+
+    return match ? { ruleId: match.id, severity: match.severity, thresholdMinutes: match.thresholdMinutes } : null;
+  }
+
+  private async getRules(): Promise<WaitTimeAlertRule[]> {
+    if (this.rules && Date.now() - this.rulesLoadedAt < RULES_CACHE_MS) {
+      return this.rules;
+    }
+
+    try {
+      this.rules = await vitalSignsDb.getWaitTimeAlertRules();
+      this.rulesLoadedAt = Date.now();
+    } catch (error) {
+      // Keep the last rules we had rather than dropping every alert off the board
+      console.error('❌ Failed to load wait-time alert rules:', error);
+    }
+
+    return this.rules || [];
+  }
+}
+
+// Export singleton instance
+export const waitTimeAlerts = new WaitTimeAlerts();